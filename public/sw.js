@@ -0,0 +1,102 @@
+// Offline support for saved lessons.
+//
+// - The app shell (index.html + hashed build assets) is cached so the SPA boots without a network.
+//   Only HTML from app routes may refresh it; API documents (file views with tokens, PDFs) are
+//   never cached and go straight to the network.
+// - Lesson data (docs, nodes, drills) lives in IndexedDB and is read by the app itself.
+// - Figure/video assets for paths saved offline are put into OFFLINE_MEDIA_CACHE by the page;
+//   this worker serves them from there first.
+
+const SHELL_CACHE = "nb-shell-v2";
+const OFFLINE_MEDIA_CACHE = "nb-offline-media-v1";
+const KEEP_CACHES = [SHELL_CACHE, OFFLINE_MEDIA_CACHE];
+const SHELL_URL = "/";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.add(SHELL_URL))
+      .catch(() => {
+        // First load while offline; the shell is cached on the next navigation instead.
+      })
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys.filter((key) => key.startsWith("nb-") && !KEEP_CACHES.includes(key)).map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+function isBuildAsset(url) {
+  return url.origin === self.location.origin && url.pathname.startsWith("/assets/");
+}
+
+function isAppRoute(url) {
+  return url.origin === self.location.origin && url.pathname !== "/api" && !url.pathname.startsWith("/api/");
+}
+
+function isHtml(response) {
+  return (response.headers.get("content-type") || "").toLowerCase().startsWith("text/html");
+}
+
+async function networkFirstShell(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok && response.type === "basic" && isHtml(response)) {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put(SHELL_URL, response.clone());
+    }
+    return response;
+  } catch (err) {
+    const cached = await caches.match(SHELL_URL, { cacheName: SHELL_CACHE });
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+async function cacheFirstAsset(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+async function mediaOrNetwork(request) {
+  const cache = await caches.open(OFFLINE_MEDIA_CACHE);
+  const cached = await cache.match(request.url);
+  if (cached) return cached;
+  return fetch(request);
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (url.protocol !== "http:" && url.protocol !== "https:") return;
+
+  if (request.mode === "navigate") {
+    if (isAppRoute(url)) event.respondWith(networkFirstShell(request));
+    return;
+  }
+  if (isBuildAsset(url)) {
+    event.respondWith(cacheFirstAsset(request));
+    return;
+  }
+  // Streams and API JSON always go to the network; IndexedDB covers API data when offline.
+  if (request.headers.get("accept") === "text/event-stream") return;
+  if (request.destination === "image" || request.destination === "video" || request.destination === "audio") {
+    event.respondWith(mediaOrNetwork(request));
+  }
+});
@@ -0,0 +1,338 @@
+import { useDeferredValue, useEffect, useMemo, useRef, useState, type KeyboardEvent, type ReactNode } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQueries, useQuery } from "@tanstack/react-query";
+import { BookOpen, File as FileIcon, Library, Loader2, MessageSquare, Search, TextSearch } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/shared/ui/dialog";
+import { useI18n } from "@/app/providers/I18nProvider";
+import { usePaths } from "@/app/providers/PathProvider";
+import { useMaterials } from "@/app/providers/MaterialProvider";
+import { listNodesForPath } from "@/shared/api/PathService";
+import { listChatThreads } from "@/shared/api/ChatService";
+import { materialFileViewUrl } from "@/shared/api/MaterialService";
+import { queryKeys } from "@/shared/query/queryKeys";
+import { getCachedNodeDocs } from "@/shared/services/NodeDocSearchCache";
+import { matchSearchText, searchSnippet, tokenizeSearchQuery, type SearchRange } from "@/shared/lib/search";
+import { cn } from "@/shared/lib/utils";
+
+type SearchKind = "path" | "lesson" | "section" | "file" | "chat";
+
+interface SearchItem {
+  key: string;
+  kind: SearchKind;
+  title: string;
+  subtitle: string;
+  body: string;
+  href: string;
+  external?: boolean;
+}
+
+interface SearchResult {
+  item: SearchItem;
+  score: number;
+  titleRanges: SearchRange[];
+  snippet: { text: string; ranges: SearchRange[] } | null;
+}
+
+const MAX_RESULTS = 40;
+const CHAT_THREADS_LIMIT = 100;
+
+// Titles matter more than body text; structural items edge out individual blocks on ties.
+const KIND_BOOST: Record<SearchKind, number> = {
+  path: 3,
+  lesson: 2.5,
+  chat: 1.5,
+  file: 1,
+  section: 0,
+};
+
+const KIND_ICON: Record<SearchKind, typeof Library> = {
+  path: Library,
+  lesson: BookOpen,
+  section: TextSearch,
+  file: FileIcon,
+  chat: MessageSquare,
+};
+
+function Highlighted({ text, ranges }: { text: string; ranges: SearchRange[] }) {
+  if (ranges.length === 0) return <>{text}</>;
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(([start, end], i) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark key={i} className="rounded-sm bg-primary/15 px-0.5 text-foreground">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return <>{parts}</>;
+}
+
+export function CommandPalette({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { t } = useI18n();
+  const navigate = useNavigate();
+  const { paths } = usePaths();
+  const { files } = useMaterials();
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const deferredQuery = useDeferredValue(query);
+  const listRef = useRef<HTMLDivElement | null>(null);
+
+  const searchablePaths = useMemo(
+    () => (Array.isArray(paths) ? paths : []).filter((p) => p?.id && !String(p.id).startsWith("job:")),
+    [paths]
+  );
+
+  const chatThreadsQuery = useQuery({
+    queryKey: queryKeys.chatThreads({ limit: CHAT_THREADS_LIMIT }),
+    enabled: open,
+    staleTime: 30_000,
+    queryFn: () => listChatThreads(CHAT_THREADS_LIMIT),
+  });
+
+  const nodeQueries = useQueries({
+    queries: searchablePaths.map((p) => ({
+      queryKey: queryKeys.pathNodes(String(p.id)),
+      enabled: open,
+      staleTime: 60_000,
+      queryFn: () => listNodesForPath(String(p.id)),
+    })),
+  });
+  const nodesLoading = nodeQueries.some((q) => q.isFetching && !q.data);
+  const nodesDataKey = nodeQueries.map((q) => q.dataUpdatedAt).join(",");
+
+  useEffect(() => {
+    if (!open) return;
+    setQuery("");
+    setActiveIndex(0);
+  }, [open]);
+
+  const items = useMemo<SearchItem[]>(() => {
+    if (!open) return [];
+    const out: SearchItem[] = [];
+    const pathTitleById = new Map<string, string>();
+    const nodeTitleById = new Map<string, string>();
+
+    for (const p of searchablePaths) {
+      const title = String(p.title || "").trim() || t("search.untitled");
+      pathTitleById.set(String(p.id), title);
+      out.push({
+        key: `path:${p.id}`,
+        kind: "path",
+        title,
+        subtitle: t("search.kind.path"),
+        body: String(p.description || ""),
+        href: `/paths/${p.id}`,
+      });
+    }
+
+    nodeQueries.forEach((q, i) => {
+      const pathId = String(searchablePaths[i]?.id || "");
+      for (const node of q.data ?? []) {
+        if (!node?.id) continue;
+        const title = String(node.title || "").trim() || t("search.untitled");
+        nodeTitleById.set(String(node.id), title);
+        out.push({
+          key: `lesson:${node.id}`,
+          kind: "lesson",
+          title,
+          subtitle: pathTitleById.get(pathId) || t("search.kind.lesson"),
+          body: "",
+          href: `/path-nodes/${node.id}`,
+        });
+      }
+    });
+
+    for (const doc of getCachedNodeDocs()) {
+      const lessonTitle = nodeTitleById.get(doc.pathNodeId) || doc.nodeTitle || t("search.kind.lesson");
+      for (const block of doc.blocks) {
+        out.push({
+          key: `section:${doc.pathNodeId}:${block.id}`,
+          kind: "section",
+          title: block.type === "heading" ? block.text : "",
+          subtitle: lessonTitle,
+          body: block.type === "heading" ? "" : block.text,
+          href: `/path-nodes/${doc.pathNodeId}#block-${encodeURIComponent(block.id)}`,
+        });
+      }
+    }
+
+    for (const file of files ?? []) {
+      if (!file?.id) continue;
+      out.push({
+        key: `file:${file.id}`,
+        kind: "file",
+        title: String(file.originalName || "").trim() || t("search.untitled"),
+        subtitle: t("search.kind.file"),
+        body: "",
+        href: materialFileViewUrl(String(file.id)),
+        external: true,
+      });
+    }
+
+    for (const thread of chatThreadsQuery.data ?? []) {
+      if (!thread?.id) continue;
+      out.push({
+        key: `chat:${thread.id}`,
+        kind: "chat",
+        title: String(thread.title || "").trim() || t("search.untitled"),
+        subtitle: t("search.kind.chat"),
+        body: "",
+        href: `/chat/threads/${thread.id}`,
+      });
+    }
+    return out;
+    // nodesDataKey stands in for the (unstable) useQueries result array.
+  }, [chatThreadsQuery.data, files, nodesDataKey, open, searchablePaths, t]);
+
+  const results = useMemo<SearchResult[]>(() => {
+    const tokens = tokenizeSearchQuery(deferredQuery);
+    if (tokens.length === 0) {
+      return items
+        .filter((item) => item.kind === "path")
+        .slice(0, 6)
+        .map((item) => ({ item, score: 0, titleRanges: [], snippet: null }));
+    }
+    const out: SearchResult[] = [];
+    for (const item of items) {
+      const titleMatch = item.title ? matchSearchText(tokens, item.title) : null;
+      const bodyMatch = !titleMatch && item.body ? matchSearchText(tokens, item.body) : null;
+      if (!titleMatch && !bodyMatch) continue;
+      const score = (titleMatch ? titleMatch.score * 2 : (bodyMatch?.score ?? 0)) + KIND_BOOST[item.kind];
+      out.push({
+        item,
+        score,
+        titleRanges: titleMatch?.ranges ?? [],
+        snippet: bodyMatch ? searchSnippet(item.body, bodyMatch.ranges) : null,
+      });
+    }
+    out.sort((a, b) => b.score - a.score);
+    return out.slice(0, MAX_RESULTS);
+  }, [deferredQuery, items]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [deferredQuery]);
+
+  useEffect(() => {
+    const el = listRef.current?.querySelector<HTMLElement>(`[data-result-index="${activeIndex}"]`);
+    el?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  const openResult = (result: SearchResult | undefined) => {
+    if (!result) return;
+    onOpenChange(false);
+    if (result.item.external) {
+      window.open(result.item.href, "_blank", "noopener,noreferrer");
+      return;
+    }
+    navigate(result.item.href);
+  };
+
+  const onInputKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((i) => (results.length === 0 ? 0 : (i + 1) % results.length));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((i) => (results.length === 0 ? 0 : (i - 1 + results.length) % results.length));
+    } else if (e.key === "Enter" && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      openResult(results[activeIndex]);
+    }
+  };
+
+  const hasQuery = tokenizeSearchQuery(deferredQuery).length > 0;
+  const activeId = results[activeIndex] ? `search-result-${activeIndex}` : undefined;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent showCloseButton={false} className="gap-0 overflow-hidden p-0 sm:max-w-xl">
+        <DialogTitle className="sr-only">{t("search.title")}</DialogTitle>
+        <DialogDescription className="sr-only">{t("search.description")}</DialogDescription>
+        <div className="flex items-center gap-2 border-b border-border/60 px-4">
+          <Search className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={onInputKeyDown}
+            placeholder={t("search.placeholder")}
+            role="combobox"
+            aria-expanded="true"
+            aria-controls="command-palette-results"
+            aria-activedescendant={activeId}
+            aria-autocomplete="list"
+            className="h-12 w-full bg-transparent text-sm text-foreground outline-none placeholder:text-muted-foreground"
+          />
+          {nodesLoading || chatThreadsQuery.isFetching ? (
+            <Loader2 className="h-4 w-4 shrink-0 animate-spin text-muted-foreground motion-reduce:animate-none" />
+          ) : null}
+        </div>
+
+        <div
+          ref={listRef}
+          id="command-palette-results"
+          role="listbox"
+          aria-label={t("search.title")}
+          className="max-h-[min(60vh,420px)] overflow-y-auto p-2"
+        >
+          {!hasQuery && results.length > 0 ? (
+            <div className="px-2 pb-1 pt-2 text-[11px] font-medium uppercase tracking-wide text-muted-foreground">
+              {t("search.recentPaths")}
+            </div>
+          ) : null}
+          {results.length === 0 ? (
+            <div className="px-3 py-8 text-center text-sm text-muted-foreground">
+              {hasQuery ? t("search.empty", { query: deferredQuery.trim() }) : t("search.hint")}
+            </div>
+          ) : (
+            results.map((result, index) => {
+              const Icon = KIND_ICON[result.item.kind];
+              const active = index === activeIndex;
+              return (
+                <div
+                  key={result.item.key}
+                  id={`search-result-${index}`}
+                  role="option"
+                  aria-selected={active}
+                  data-result-index={index}
+                  onMouseMove={() => setActiveIndex(index)}
+                  onClick={() => openResult(result)}
+                  className={cn(
+                    "flex cursor-pointer items-start gap-3 rounded-lg px-3 py-2 text-sm",
+                    active ? "bg-muted text-foreground" : "text-foreground/90"
+                  )}
+                >
+                  <Icon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate font-medium">
+                      {result.item.title ? (
+                        <Highlighted text={result.item.title} ranges={result.titleRanges} />
+                      ) : result.snippet ? (
+                        <Highlighted text={result.snippet.text} ranges={result.snippet.ranges} />
+                      ) : null}
+                    </div>
+                    {result.item.title && result.snippet ? (
+                      <div className="mt-0.5 line-clamp-2 text-xs text-muted-foreground">
+                        <Highlighted text={result.snippet.text} ranges={result.snippet.ranges} />
+                      </div>
+                    ) : null}
+                    <div className="mt-0.5 truncate text-xs text-muted-foreground">{result.item.subtitle}</div>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 border-t border-border/60 px-4 py-2 text-[11px] text-muted-foreground">
+          <span>{t("search.keyboardHint")}</span>
+          <span>{t("search.shortcut")}</span>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
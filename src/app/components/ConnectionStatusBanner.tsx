@@ -0,0 +1,88 @@
+import { useEffect, useState } from "react";
+import { AnimatePresence, m } from "framer-motion";
+import { CloudOff, Loader2 } from "lucide-react";
+import { useSSEContext } from "@/app/providers/SSEProvider";
+import { useI18n } from "@/app/providers/I18nProvider";
+import { useOnlineStatus } from "@/shared/hooks/useOfflineLessons";
+
+// Brief blips reconnect on the first attempt; only surface the banner if it takes longer.
+const SHOW_AFTER_MS = 1500;
+
+export function ConnectionStatusBanner() {
+  const { t } = useI18n();
+  const { status, retryAt, reconnect } = useSSEContext();
+  const online = useOnlineStatus();
+  const [visible, setVisible] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  const reconnecting = status === "reconnecting";
+
+  useEffect(() => {
+    if (!reconnecting) {
+      setVisible(false);
+      return;
+    }
+    const timer = setTimeout(() => setVisible(true), SHOW_AFTER_MS);
+    return () => clearTimeout(timer);
+  }, [reconnecting]);
+
+  useEffect(() => {
+    if (!visible || !retryAt) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [retryAt, visible]);
+
+  const seconds = retryAt ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0;
+
+  return (
+    <AnimatePresence initial={false}>
+      {!online ? (
+        <m.div
+          key="offline"
+          initial={{ opacity: 0, y: 8 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 8 }}
+          transition={{ duration: 0.18 }}
+          className="pointer-events-none fixed inset-x-0 bottom-4 z-50 flex justify-center px-4"
+        >
+          <div
+            role="status"
+            aria-live="polite"
+            className="pointer-events-auto inline-flex items-center gap-3 rounded-full border border-border/60 bg-background/90 px-4 py-2 text-sm text-muted-foreground shadow-lg backdrop-blur"
+          >
+            <CloudOff className="h-4 w-4" />
+            <span>{t("offline.banner")}</span>
+          </div>
+        </m.div>
+      ) : visible ? (
+        <m.div
+          key="sse-reconnecting"
+          initial={{ opacity: 0, y: 8 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 8 }}
+          transition={{ duration: 0.18 }}
+          className="pointer-events-none fixed inset-x-0 bottom-4 z-50 flex justify-center px-4"
+        >
+          <div
+            role="status"
+            aria-live="polite"
+            className="pointer-events-auto inline-flex items-center gap-3 rounded-full border border-border/60 bg-background/90 px-4 py-2 text-sm text-muted-foreground shadow-lg backdrop-blur"
+          >
+            <Loader2 className="h-4 w-4 animate-spin motion-reduce:animate-none" />
+            <span>
+              {seconds > 0 ? t("sse.reconnectingIn", { seconds }) : t("sse.reconnecting")}
+            </span>
+            <button
+              type="button"
+              onClick={reconnect}
+              className="inline-flex items-center justify-center rounded-full border border-border bg-background px-3 py-1 text-xs font-medium text-foreground transition hover:bg-muted"
+            >
+              {t("sse.retryNow")}
+            </button>
+          </div>
+        </m.div>
+      ) : null}
+    </AnimatePresence>
+  );
+}
@@ -7,7 +7,7 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Textarea } from "@/shared/ui/textarea";
 import { Button } from "@/shared/ui/button";
 import { useToast } from "@/shared/ui/toast";
-import { useSSEContext } from "@/app/providers/SSEProvider";
+import { useSSEContext, useSSEEvent } from "@/app/providers/SSEProvider";
 import { useUser } from "@/app/providers/UserProvider";
 import { useI18n } from "@/app/providers/I18nProvider";
 import { listPendingIntakeQuestions, sendChatMessage } from "@/shared/api/ChatService";
@@ -134,7 +134,7 @@ function generateIdempotencyKey() {
 
 export function IntakeNotifications() {
   const { t } = useI18n();
-  const { messages, connected } = useSSEContext();
+  const { connected } = useSSEContext();
   const { user } = useUser();
   const toast = useToast();
   const location = useLocation();
@@ -272,100 +272,90 @@ export function IntakeNotifications() {
     fetchPending(3);
   }, [connected, fetchPending]);
 
-  useEffect(() => {
-    if (!user?.id) return;
-    const list = Array.isArray(messages) ? messages : [];
-    if (list.length === 0) return;
-
-    for (const m of list) {
-      if (!m) continue;
-      if (String(m.channel || "") !== String(user.id)) continue;
-      if (String(m.event || "") !== "ChatMessageCreated") continue;
-
-      const data = (m.data || {}) as Record<string, unknown>;
-      const threadIdRaw = data.thread_id ?? data.threadId ?? "";
-      const messageRaw = data.message as ChatMessage | null | undefined;
-      if (!messageRaw) continue;
-
-      const messageId = String((messageRaw as { id?: unknown })?.id ?? "").trim();
-      if (!messageId) continue;
-      if (seenRef.current.has(messageId)) continue;
-
-      const kind = messageKindFromMetadata((messageRaw as { metadata?: JsonInput })?.metadata);
-      if (kind !== "path_intake_questions" && kind !== "path_intake_review") continue;
-
-      const threadId = String(
-        threadIdRaw ||
-          (messageRaw as { thread_id?: unknown; threadId?: unknown })?.thread_id ||
-          (messageRaw as { threadId?: unknown })?.threadId ||
-          ""
-      ).trim();
-      if (!threadId) continue;
-      if (isOnThread(location.pathname, threadId)) {
-        seenRef.current.add(messageId);
-        continue;
-      }
+  useSSEEvent("ChatMessageCreated", user?.id, (m) => {
+    const data = (m.data || {}) as Record<string, unknown>;
+    const threadIdRaw = data.thread_id ?? data.threadId ?? "";
+    const messageRaw = data.message as ChatMessage | null | undefined;
+    if (!messageRaw) return;
+
+    const messageId = String((messageRaw as { id?: unknown })?.id ?? "").trim();
+    if (!messageId) return;
+    if (seenRef.current.has(messageId)) return;
+
+    const kind = messageKindFromMetadata((messageRaw as { metadata?: JsonInput })?.metadata);
+    if (kind !== "path_intake_questions" && kind !== "path_intake_review") return;
+
+    const threadId = String(
+      threadIdRaw ||
+        (messageRaw as { thread_id?: unknown; threadId?: unknown })?.thread_id ||
+        (messageRaw as { threadId?: unknown })?.threadId ||
+        ""
+    ).trim();
+    if (!threadId) return;
+    if (isOnThread(pathnameRef.current, threadId)) {
+      seenRef.current.add(messageId);
+      return;
+    }
 
-      const content = String((messageRaw as { content?: unknown })?.content ?? "").trim();
-      const workflow = workflowFromMetadata((messageRaw as { metadata?: JsonInput })?.metadata);
-      const workflowActions = workflow?.actions ?? [];
-      const toastQuickActions = workflowActions.filter((a) => String(a.variant || "").toLowerCase() !== "subtle").slice(0, 2);
-
-      const toastId = `path-intake:${kind}:${messageId}`;
-      const toastCopy = toastCopyForKind(kind, t);
-
-      const quickToastActions = toastQuickActions.map((a) => ({
-        label: a.label,
-        className: toastActionClassForVariant(a.variant),
-        onClick: () => {
-          const idem = `intake-quick:${messageId}:${a.token}`.slice(0, 180);
-          void sendChatMessage(threadId, a.token, { idempotencyKey: idem })
-            .then(() => toast.dismiss(toastId))
-            .catch((err) => {
-              console.error("[IntakeNotifications] quick reply failed:", err);
-              toast.push({
-                variant: "error",
-                title: t("pathIntake.dialog.sendFailed"),
-                description: t("pathIntake.dialog.sendFailed"),
-              });
+    const content = String((messageRaw as { content?: unknown })?.content ?? "").trim();
+    const workflow = workflowFromMetadata((messageRaw as { metadata?: JsonInput })?.metadata);
+    const workflowActions = workflow?.actions ?? [];
+    const toastQuickActions = workflowActions.filter((a) => String(a.variant || "").toLowerCase() !== "subtle").slice(0, 2);
+
+    const toastId = `path-intake:${kind}:${messageId}`;
+    const toastCopy = toastCopyForKind(kind, t);
+
+    const quickToastActions = toastQuickActions.map((a) => ({
+      label: a.label,
+      className: toastActionClassForVariant(a.variant),
+      onClick: () => {
+        const idem = `intake-quick:${messageId}:${a.token}`.slice(0, 180);
+        void sendChatMessage(threadId, a.token, { idempotencyKey: idem })
+          .then(() => toast.dismiss(toastId))
+          .catch((err) => {
+            console.error("[IntakeNotifications] quick reply failed:", err);
+            toast.push({
+              variant: "error",
+              title: t("pathIntake.dialog.sendFailed"),
+              description: t("pathIntake.dialog.sendFailed"),
             });
-        },
-      }));
-
-      toast.push({
-        id: toastId,
-        variant: "info",
-        durationMs: 0,
-        title: toastCopy.title,
-        description: toastCopy.description,
-        actions: [
-          ...quickToastActions,
-          {
-            label: toastCopy.actionLabel,
-            onClick: () => {
-              setDialogThreadId(threadId);
-              setDialogSourceMessageId(messageId);
-              setDialogQuestions(content);
-              setDialogWorkflowActions(workflowActions);
-              setDialogToastId(toastId);
-              setAnswer("");
-              setSendError("");
-              setDialogOpen(true);
-            },
+          });
+      },
+    }));
+
+    toast.push({
+      id: toastId,
+      variant: "info",
+      durationMs: 0,
+      title: toastCopy.title,
+      description: toastCopy.description,
+      actions: [
+        ...quickToastActions,
+        {
+          label: toastCopy.actionLabel,
+          onClick: () => {
+            setDialogThreadId(threadId);
+            setDialogSourceMessageId(messageId);
+            setDialogQuestions(content);
+            setDialogWorkflowActions(workflowActions);
+            setDialogToastId(toastId);
+            setAnswer("");
+            setSendError("");
+            setDialogOpen(true);
           },
-          {
-            label: t("pathIntake.toast.openChat"),
-            onClick: () => {
-              toast.dismiss(toastId);
-              navigate(threadRouteFor(threadId));
-            },
+        },
+        {
+          label: t("pathIntake.toast.openChat"),
+          onClick: () => {
+            toast.dismiss(toastId);
+            navigate(threadRouteFor(threadId));
           },
-        ],
-      });
+        },
+      ],
+    });
 
-      seenRef.current.add(messageId);
-    }
-  }, [messages, user?.id, location.pathname, toast, navigate, t]);
+    seenRef.current.add(messageId);
+  });
 
   const handleSend = async () => {
     if (!canSend) return;
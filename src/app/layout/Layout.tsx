@@ -9,8 +9,10 @@ import { Breadcrumbs } from "@/app/components/Breadcrumbs";
 import { Container } from "@/shared/layout/Container";
 import { UserDialogsProvider } from "@/app/providers/UserDialogProvider";
 import { ActivityPanelProvider } from "@/app/providers/ActivityPanelProvider";
+import { CommandPaletteProvider } from "@/app/providers/CommandPaletteProvider";
 import { ActivityPanel } from "@/features/activity/components/ActivityPanel";
 import { IntakeNotifications } from "@/app/components/IntakeNotifications";
+import { ConnectionStatusBanner } from "@/app/components/ConnectionStatusBanner";
 import { ChatDockPanel } from "@/features/chat/components/ChatDockPanel";
 import { useChatDock } from "@/app/providers/ChatDockProvider";
 import { useUp } from "@/app/providers/ViewportProvider";
@@ -64,33 +66,36 @@ export default function Layout({ children }: LayoutProps) {
   return (
     <SidebarProvider forceSheet={forceSidebarSheet}>
       <UserDialogsProvider>
-        {/* TODO: Activity Panel should only be visible on the associated chat page */}
-        <ActivityPanelProvider>
-          {/* Edge swipe zone for mobile sidebar */}
-          {isAuthenticated && <SwipeEdgeZone side="left" />}
+        <CommandPaletteProvider>
+          {/* TODO: Activity Panel should only be visible on the associated chat page */}
+          <ActivityPanelProvider>
+            {/* Edge swipe zone for mobile sidebar */}
+            {isAuthenticated && <SwipeEdgeZone side="left" />}
 
-          <div className="flex w-full min-h-svh">
-            {isAuthenticated && <AppSideBar />}
+            <div className="flex w-full min-h-svh">
+              {isAuthenticated && <AppSideBar />}
 
-            <div className="flex-1 flex flex-col min-w-0 min-h-0">
-              <AppNavBar />
-              {isAuthenticated ? <IntakeNotifications /> : null}
+              <div className="flex-1 flex flex-col min-w-0 min-h-0">
+                <AppNavBar />
+                {isAuthenticated ? <IntakeNotifications /> : null}
+                {isAuthenticated ? <ConnectionStatusBanner /> : null}
 
-              {isAuthenticated && !hideBreadcrumbs && (
-                <div>
-                  <Container size="app" className="py-3">
-                    <Breadcrumbs />
-                  </Container>
-                </div>
-              )}
+                {isAuthenticated && !hideBreadcrumbs && (
+                  <div>
+                    <Container size="app" className="py-3">
+                      <Breadcrumbs />
+                    </Container>
+                  </div>
+                )}
 
-              <main className="flex-1 min-w-0 min-h-0">{children}</main>
-            </div>
+                <main className="flex-1 min-w-0 min-h-0">{children}</main>
+              </div>
 
-            {isAuthenticated && !hideChatDock && <ChatDockPanel />}
-            {isAuthenticated && <ActivityPanel />}
-          </div>
-        </ActivityPanelProvider>
+              {isAuthenticated && !hideChatDock && <ChatDockPanel />}
+              {isAuthenticated && <ActivityPanel />}
+            </div>
+          </ActivityPanelProvider>
+        </CommandPaletteProvider>
       </UserDialogsProvider>
     </SidebarProvider>
   );
@@ -16,10 +16,13 @@ import { LessonProvider } from "@/app/providers/LessonProvider";
 import { nbMotion } from "@/shared/motion/neurobridgeMotion";
 import { ToastProvider } from "@/shared/ui/toast";
 import { initRUM } from "@/shared/observability/rum";
+import { registerOfflineServiceWorker } from "@/shared/services/OfflineLessons";
 import App from "./App";
 import "@/styles/index.css";
 
 initRUM();
+// Dev builds skip the worker so it never serves stale modules over Vite's HMR.
+if (import.meta.env.PROD) registerOfflineServiceWorker();
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -11,6 +11,8 @@ import {
   FolderOpen,
   Headphones,
   MessageSquare,
+  NotebookPen,
+  Search,
 } from "lucide-react";
 import { Button } from "@/shared/ui/button";
 import { IconButton } from "@/shared/ui/icon-button";
@@ -33,6 +35,7 @@ import { useUser } from "@/app/providers/UserProvider";
 import { usePaths } from "@/app/providers/PathProvider";
 import { useHomeChatbarDock } from "@/app/providers/HomeChatbarDockProvider";
 import { useChatDock } from "@/app/providers/ChatDockProvider";
+import { useCommandPalette } from "@/app/providers/CommandPaletteProvider";
 import { Container } from "@/shared/layout/Container";
 import { useSidebar } from "@/shared/ui/sidebar";
 import { cn } from "@/shared/lib/utils";
@@ -45,6 +48,7 @@ const PATH_NAV_TABS = [
   { id: "materials", labelKey: "paths.tabs.materials", icon: FolderOpen },
   { id: "unit", labelKey: "paths.tabs.unit", icon: BookOpen },
   { id: "audio", labelKey: "paths.tabs.audio", icon: Headphones },
+  { id: "notes", labelKey: "paths.tabs.notes", icon: NotebookPen },
   { id: "mindmap", labelKey: "paths.tabs.mindmap", icon: Brain },
 ] as const;
 
@@ -58,6 +62,7 @@ export function AppNavBar() {
   const { activePathId, clearActivePath } = usePaths();
   const { docked: homeChatbarDocked } = useHomeChatbarDock();
   const { open: chatDockOpen, setOpen: setChatDockOpen } = useChatDock();
+  const { setOpen: setCommandPaletteOpen } = useCommandPalette();
   const { t } = useI18n();
   const [authDialog, setAuthDialog] = useState<"login" | "signup" | null>(null);
   const { state, useSheet } = useSidebar();
@@ -112,6 +117,7 @@ export function AppNavBar() {
     if (viewParam === "mindmap" || viewParam === "graph") return "mindmap";
     if (viewParam === "materials") return "materials";
     if (viewParam === "audio") return "audio";
+    if (viewParam === "notes") return "notes";
     return "unit";
   }, [isPathContext, viewParam]);
 
@@ -141,6 +147,10 @@ export function AppNavBar() {
       navigate(`${base}?view=audio`);
       return;
     }
+    if (tabId === "notes") {
+      navigate(`${base}?view=notes`);
+      return;
+    }
     navigate(base);
   };
 
@@ -303,6 +313,17 @@ export function AppNavBar() {
 
         {isAuthenticated && !userLoading && user && (
           <div className="ms-auto flex items-center gap-2">
+            <IconButton
+              type="button"
+              variant="ghost"
+              size="icon"
+              label={t("search.open")}
+              shortcut="Cmd/Ctrl+K"
+              onClick={() => setCommandPaletteOpen(true)}
+              className="rounded-md text-muted-foreground hover:text-foreground hover:bg-muted/50"
+            >
+              <Search className="size-5" />
+            </IconButton>
             {showChatDockToggle ? (
               <IconButton
                 type="button"
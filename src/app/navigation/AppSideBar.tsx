@@ -12,6 +12,7 @@ import {
   SidebarMenu,
   SidebarMenuItem,
   SidebarMenuButton,
+  SidebarMenuBadge,
   SidebarMenuSub,
   SidebarMenuSubItem,
   SidebarMenuSubButton,
@@ -30,6 +31,7 @@ import {
   FolderOpen,
   Home,
   ImageIcon,
+  Layers,
   Library,
   MessageSquare,
   MoreHorizontal,
@@ -49,7 +51,9 @@ import { nbTransitions } from "@/shared/motion/presets";
 import { UserAvatar } from "@/features/user/components/UserAvatar";
 import { generatePathCover, listNodesForPath } from "@/shared/api/PathService";
 import { listChatThreads } from "@/shared/api/ChatService";
+import { materialFileThumbnailUrl, materialFileViewUrl } from "@/shared/api/MaterialService";
 import { queryKeys } from "@/shared/query/queryKeys";
+import { useReviewQueue } from "@/shared/hooks/useReviewQueue";
 import { AVATAR_COLORS } from "@/features/user/components/ColorPicker";
 import {
   DropdownMenu,
@@ -63,7 +67,6 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from "@/shared/ui/tooltip";
-import { getAccessToken } from "@/shared/services/StorageService";
 import { useI18n } from "@/app/providers/I18nProvider";
 import { Skeleton } from "@/shared/ui/skeleton";
 
@@ -291,6 +294,7 @@ export function AppSideBar() {
   const { t } = useI18n();
   const { files: materialFiles, loading: materialFilesLoading } = useMaterials();
   const { openThread: openChatDockThread } = useChatDock();
+  const { dueCount: reviewDueCount } = useReviewQueue({ enabled: isAuthenticated });
   const {
     paths,
     loading: pathsLoading,
@@ -335,20 +339,10 @@ export function AppSideBar() {
   const homeShortcut = "Cmd/Ctrl+1";
   const pathsShortcut = "Cmd/Ctrl+2";
   const filesShortcut = "Cmd/Ctrl+3";
-  const apiBase = (import.meta.env.VITE_API_BASE_URL || "/api").replace(/\/$/, "");
 
-  const buildFileViewUrl = (fileId: string) => {
-    const token = getAccessToken();
-    const baseUrl = `${apiBase}/material-files/${fileId}/view`;
-    return token ? `${baseUrl}?token=${encodeURIComponent(token)}` : baseUrl;
-  };
+  const buildFileViewUrl = materialFileViewUrl;
 
-  const buildFileThumbnailUrl = (fileId: string, version?: string | null) => {
-    const token = getAccessToken();
-    const baseUrl = `${apiBase}/material-files/${fileId}/thumbnail`;
-    const url = token ? `${baseUrl}?token=${encodeURIComponent(token)}` : baseUrl;
-    return version ? `${url}${url.includes("?") ? "&" : "?"}v=${encodeURIComponent(version)}` : url;
-  };
+  const buildFileThumbnailUrl = materialFileThumbnailUrl;
 
   const activeTab = useMemo(() => {
     const path = location.pathname;
@@ -356,6 +350,7 @@ export function AppSideBar() {
     if (matchPath({ path: "/paths/:id", end: false }, path)) return "paths";
     if (matchPath({ path: "/activities/:id", end: false }, path)) return "paths";
     if (matchPath({ path: "/files", end: false }, path)) return "files";
+    if (matchPath({ path: "/review", end: false }, path)) return "review";
     if (path === "/") return "home";
     return "home";
   }, [location.pathname]);
@@ -1279,6 +1274,25 @@ export function AppSideBar() {
 	                    </Link>
 	                  </SidebarMenuButton>
 	                </SidebarMenuItem>
+
+                <SidebarMenuItem>
+                  <SidebarMenuButton asChild isActive={activeTab === "review"} tooltip={t("nav.review")}>
+                    <Link
+                      to="/review"
+                      aria-label={
+                        reviewDueCount > 0 ? t("sidebar.reviewDue", { count: reviewDueCount }) : t("nav.review")
+                      }
+                    >
+                      <Layers />
+                      <span>{t("nav.review")}</span>
+                    </Link>
+                  </SidebarMenuButton>
+                  {reviewDueCount > 0 ? (
+                    <SidebarMenuBadge className="rounded-full bg-primary/10 text-primary">
+                      {reviewDueCount > 99 ? "99+" : reviewDueCount}
+                    </SidebarMenuBadge>
+                  ) : null}
+                </SidebarMenuItem>
               </SidebarMenu>
             </SidebarGroup>
 
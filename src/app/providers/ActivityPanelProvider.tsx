@@ -7,12 +7,12 @@ import React, {
   useState,
 } from "react";
 import { matchPath, useLocation } from "react-router-dom";
-import { useSSEContext } from "@/app/providers/SSEProvider";
+import { SSE_JOB_EVENTS, useSSEContext, useSSEEvent } from "@/app/providers/SSEProvider";
 import { useUser } from "@/app/providers/UserProvider";
 import { getJob as apiGetJob } from "@/shared/api/JobService";
 import { clampPct, learningBuildStageOrder, normalizeStage, stageLabel } from "@/shared/lib/learningBuildStages";
 import type { BackendJob, BackendJobStageSnapshot } from "@/shared/types/backend";
-import type { JobEventPayload, SseMessage } from "@/shared/types/models";
+import type { JobEventPayload } from "@/shared/types/models";
 
 interface ActivityPanelItem {
   id: string;
@@ -164,9 +164,9 @@ function buildLearningBuildItems(job: BackendJob, message?: string | null): Acti
 
 const WIDTH_KEY = "activity_panel_width";
 
-function asJobPayload(value: SseMessage["data"]): JobEventPayload | null {
+function asJobPayload(value: JobEventPayload | null): JobEventPayload | null {
   if (!value || typeof value !== "object") return null;
-  return value as JobEventPayload;
+  return value;
 }
 
 interface ActivityPanelProviderProps {
@@ -174,7 +174,7 @@ interface ActivityPanelProviderProps {
 }
 
 export function ActivityPanelProvider({ children }: ActivityPanelProviderProps) {
-  const { lastMessage, connected } = useSSEContext();
+  const { connected } = useSSEContext();
   const { user } = useUser();
   const location = useLocation();
 
@@ -276,7 +276,7 @@ export function ActivityPanelProvider({ children }: ActivityPanelProviderProps)
     };
   }, [activeJobId, applyLearningBuildSnapshot]);
 
-  // Converge once on SSE reconnect (missed messages are not replayed).
+  // Converge once on SSE reconnect (event replay is best-effort on the server side).
   useEffect(() => {
     if (!connected) return;
     if (!activeJobId) return;
@@ -329,14 +329,11 @@ export function ActivityPanelProvider({ children }: ActivityPanelProviderProps)
     };
   }, [activeJobId, activeJob?.status, applyLearningBuildSnapshot]);
 
-  useEffect(() => {
-    if (!lastMessage) return;
-    if (!user?.id) return;
-    if (lastMessage.channel !== user.id) return;
+  useSSEEvent(SSE_JOB_EVENTS, user?.id, (msg) => {
     if (!activeJobId) return;
 
-    const event = String(lastMessage.event || "").toLowerCase();
-    const payload = asJobPayload(lastMessage.data);
+    const event = String(msg.event || "").toLowerCase();
+    const payload = asJobPayload(msg.data);
     if (!payload) return;
     const job = payload.job as BackendJob | undefined;
 
@@ -380,7 +377,7 @@ export function ActivityPanelProvider({ children }: ActivityPanelProviderProps)
       if (job) applyLearningBuildSnapshot(job, "Restarting…");
       return;
     }
-  }, [lastMessage, user?.id, activeJobId, activeJobMessage, applyLearningBuildSnapshot]);
+  });
 
   const value = useMemo(
     () => ({
@@ -25,12 +25,31 @@ import {
   setExpiresAt,
   getExpiresAt,
 } from "@/shared/services/StorageService";
+import {
+  claimTabLeadership,
+  isTabLeader,
+  postTabMessage,
+  subscribeTabLeadership,
+  subscribeTabMessages,
+  waitForTabMessage,
+} from "@/shared/services/TabSyncService";
+import { configureAuthRefresh, refreshAccessTokenOnce } from "@/shared/api/AxiosClient";
 import { queryKeys } from "@/shared/query/queryKeys";
 import {
   getAppleIdTokenWithNonce,
   getFallbackNameFromIdToken,
   getGoogleIdTokenWithNonce,
 } from "@/shared/services/OAuthService";
+import { resetReviewQueue } from "@/shared/services/ReviewQueue";
+import { resetSessionStateTracker } from "@/shared/services/SessionStateTracker";
+import { resetLessonResume } from "@/shared/services/LessonResume";
+import { clearQuizAttempts } from "@/shared/services/QuizAttemptStore";
+import { clearDrillCards } from "@/shared/services/DrillCardStore";
+import { clearReadingTraces } from "@/shared/services/ReadingTraceStore";
+import { resetPersonalDecks } from "@/shared/services/PersonalDeckStore";
+import { clearNodeDocSearchCache } from "@/shared/services/NodeDocSearchCache";
+import { clearOfflineContent } from "@/shared/services/OfflineLessons";
+import { isNetworkError } from "@/shared/services/OfflineContentStore";
 
 interface AuthContextValue {
   isAuthenticated: boolean;
@@ -53,6 +72,9 @@ export const AuthContext = createContext<AuthContextValue>({
   register: async () => {},
 });
 
+// How long a follower tab waits for the leader to broadcast fresh tokens before taking over.
+const FOLLOWER_REFRESH_WAIT_MS = 8000;
+
 interface AuthProviderProps {
   children: React.ReactNode;
 }
@@ -64,6 +86,17 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
   const clearSession = useCallback(() => {
     clearTokens();
+    resetSessionStateTracker();
+    resetReviewQueue();
+    resetLessonResume();
+    clearQuizAttempts();
+    clearDrillCards();
+    clearReadingTraces();
+    resetPersonalDecks();
+    clearNodeDocSearchCache();
+    void clearOfflineContent().catch((err) => {
+      console.warn("[AuthProvider] Failed to clear offline lessons:", err);
+    });
     if (refreshTimerId.current) {
       clearTimeout(refreshTimerId.current);
       refreshTimerId.current = null;
@@ -72,48 +105,65 @@ export function AuthProvider({ children }: AuthProviderProps) {
     setIsAuthenticated(false);
   }, [queryClient]);
 
+  // Timer-driven refresh goes through the same single-flight path as the 401 interceptor,
+  // so a proactive refresh and a burst of expired requests never rotate the token twice.
   const refreshTokens = useCallback(async () => {
     try {
-      const currentRefreshToken = getRefreshToken();
-      if (!currentRefreshToken) {
-        throw new Error("No refresh token in localStorage");
-      }
-      const { access_token, refresh_token, expires_in } = await refreshToken();
-      doSessionLogin(access_token, refresh_token, expires_in);
-    } catch (err) {
-      console.error("[AuthProvider] Token refresh failed:", err);
-      clearSession();
+      await refreshAccessTokenOnce();
+    } catch {
+      // Failure is reported (and the session cleared) by the registered onRefreshFailed handler.
     }
-  }, [clearSession]);
-
-  const doSessionLogin = useCallback(
-    (accessToken: string, newRefreshToken: string, expiresIn: number) => {
-      setTokens(accessToken, newRefreshToken);
-      const expiresAt = Date.now() + expiresIn * 1000;
-      setExpiresAt(expiresAt);
-      setIsAuthenticated(true);
-
-      // If we refreshed the token (or logged in), ensure any auth-gated queries that may have
-      // previously failed with 401/403 get a chance to refetch with the new credentials.
-      void queryClient.invalidateQueries({ queryKey: queryKeys.me(), exact: true });
-      void queryClient.invalidateQueries({ queryKey: queryKeys.paths(), exact: true });
-      void queryClient.invalidateQueries({ queryKey: queryKeys.materialFiles(), exact: true });
-      void queryClient.invalidateQueries({ queryKey: queryKeys.libraryTaxonomySnapshot(), exact: true });
-      void queryClient.invalidateQueries({ queryKey: ["chatThreads"] as const, exact: false });
+  }, []);
+
+  const invalidateAuthQueries = useCallback(() => {
+    // If we refreshed the token (or logged in), ensure any auth-gated queries that may have
+    // previously failed with 401/403 get a chance to refetch with the new credentials.
+    void queryClient.invalidateQueries({ queryKey: queryKeys.me(), exact: true });
+    void queryClient.invalidateQueries({ queryKey: queryKeys.paths(), exact: true });
+    void queryClient.invalidateQueries({ queryKey: queryKeys.materialFiles(), exact: true });
+    void queryClient.invalidateQueries({ queryKey: queryKeys.libraryTaxonomySnapshot(), exact: true });
+    void queryClient.invalidateQueries({ queryKey: ["chatThreads"] as const, exact: false });
+  }, [queryClient]);
 
-      // Clear any existing timer
+  /**
+   * Every tab keeps a timer, but only the leader tab acts on it; followers pick up the
+   * rotated tokens from localStorage when the leader broadcasts them.
+   */
+  const scheduleRefresh = useCallback(
+    (expiresAt: number | null) => {
       if (refreshTimerId.current) {
         clearTimeout(refreshTimerId.current);
+        refreshTimerId.current = null;
       }
+      if (!expiresAt) return;
 
       // Schedule refresh a bit before expiry (30s early)
-      const delayBeforeRefresh = expiresAt - Date.now() - 30000;
-      const safeDelay = Math.max(0, delayBeforeRefresh);
+      const safeDelay = Math.max(0, expiresAt - Date.now() - 30000);
       refreshTimerId.current = setTimeout(() => {
-        refreshTokens();
+        if (isTabLeader()) {
+          refreshTokens();
+        }
       }, safeDelay);
     },
-    [queryClient, refreshTokens]
+    [refreshTokens]
+  );
+
+  const doSessionLogin = useCallback(
+    (
+      accessToken: string,
+      newRefreshToken: string,
+      expiresIn: number,
+      reason: "login" | "refresh" = "login"
+    ) => {
+      setTokens(accessToken, newRefreshToken);
+      const expiresAt = Date.now() + expiresIn * 1000;
+      setExpiresAt(expiresAt);
+      setIsAuthenticated(true);
+      invalidateAuthQueries();
+      scheduleRefresh(expiresAt);
+      postTabMessage({ type: "auth:session", reason });
+    },
+    [invalidateAuthQueries, scheduleRefresh]
   );
 
   const login = useCallback(
@@ -134,6 +184,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
       console.error("[AuthProvider] Logout error (ignored):", err);
     }
     clearSession();
+    postTabMessage({ type: "auth:logout" });
   }, [clearSession]);
 
   const register = useCallback(
@@ -175,6 +226,91 @@ export function AuthProvider({ children }: AuthProviderProps) {
     doSessionLogin(access_token, refresh_token, expires_in);
   }, [doSessionLogin]);
 
+  useEffect(() => {
+    return configureAuthRefresh({
+      refresh: async () => {
+        const currentRefreshToken = getRefreshToken();
+        if (!currentRefreshToken) {
+          throw new Error("No refresh token in localStorage");
+        }
+        if (!isTabLeader()) {
+          // Refresh tokens are single-use: let the leader rotate and wait for its broadcast.
+          const reply = waitForTabMessage(
+            (m) => m.type === "auth:session" || m.type === "auth:logout",
+            FOLLOWER_REFRESH_WAIT_MS
+          );
+          postTabMessage({ type: "auth:refresh-request" });
+          const message = await reply;
+          if (message?.type === "auth:logout") {
+            throw new Error("Signed out in another tab");
+          }
+          if (message) {
+            return getAccessToken();
+          }
+          console.warn("[AuthProvider] Leader tab did not refresh in time, taking over");
+          claimTabLeadership();
+        }
+        const { access_token, refresh_token, expires_in } = await refreshToken();
+        doSessionLogin(access_token, refresh_token, expires_in, "refresh");
+        return access_token;
+      },
+      onRefreshFailed: (err) => {
+        if (isNetworkError(err)) {
+          // Offline (e.g. reading saved lessons): keep the session and retry once the connection returns.
+          console.warn("[AuthProvider] Token refresh deferred until online:", err);
+          window.addEventListener(
+            "online",
+            () => {
+              if (isTabLeader()) refreshTokens();
+            },
+            { once: true }
+          );
+          return;
+        }
+        console.error("[AuthProvider] Token refresh failed:", err);
+        clearSession();
+        postTabMessage({ type: "auth:logout" });
+      },
+    });
+  }, [clearSession, doSessionLogin, refreshTokens]);
+
+  /**
+   * Cross-tab sync: tokens live in shared localStorage, so other tabs only need to
+   * update their in-memory state, caches and timers when a session changes elsewhere.
+   */
+  useEffect(() => {
+    const unsubscribeMessages = subscribeTabMessages((message) => {
+      switch (message.type) {
+        case "auth:session":
+          if (!getAccessToken()) return;
+          setIsAuthenticated(true);
+          invalidateAuthQueries();
+          scheduleRefresh(getExpiresAt());
+          break;
+        case "auth:logout":
+          clearSession();
+          break;
+        case "auth:refresh-request":
+          if (isTabLeader() && getRefreshToken()) {
+            refreshTokens();
+          }
+          break;
+        default:
+          break;
+      }
+    });
+    const unsubscribeLeadership = subscribeTabLeadership((leader) => {
+      // A newly elected leader may have skipped its timer while it was a follower.
+      if (leader && getAccessToken()) {
+        scheduleRefresh(getExpiresAt());
+      }
+    });
+    return () => {
+      unsubscribeMessages();
+      unsubscribeLeadership();
+    };
+  }, [clearSession, invalidateAuthQueries, refreshTokens, scheduleRefresh]);
+
   /**
    * On mount: If tokens are in localStorage, schedule a refresh
    * (or refresh immediately if near expiry).
@@ -184,19 +320,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
     const existingExpiresAt = getExpiresAt();
 
     if (existingToken && existingExpiresAt) {
-      const now = Date.now();
-      const timeLeft = existingExpiresAt - now - 30000; // 30s early
-
-      if (timeLeft > 0) {
-        // Schedule a timer
-        refreshTimerId.current = setTimeout(() => {
-          refreshTokens();
-        }, timeLeft);
-      } else {
-        // Already expired or near expiry => refresh immediately
-        refreshTokens();
-      }
-
+      // Schedules the timer, or fires it immediately if already expired / near expiry.
+      scheduleRefresh(existingExpiresAt);
       setIsAuthenticated(true);
     }
 
@@ -206,7 +331,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
         clearTimeout(refreshTimerId.current);
       }
     };
-  }, [refreshTokens]);
+  }, [scheduleRefresh]);
 
   return (
     <AuthContext.Provider
@@ -8,6 +8,8 @@ export interface ChatDockContextPayload {
   nodeId?: string | null;
   blockId?: string | null;
   blockType?: string | null;
+  // Exact text the learner selected, when the thread was started from a selection.
+  quote?: string | null;
 }
 
 interface ChatDockContextValue {
@@ -61,6 +63,7 @@ export function ChatDockProvider({ children }: { children: React.ReactNode }) {
         nodeId: parsed.nodeId ? String(parsed.nodeId) : null,
         blockId: parsed.blockId ? String(parsed.blockId) : null,
         blockType: parsed.blockType ? String(parsed.blockType) : null,
+        quote: parsed.quote ? String(parsed.quote) : null,
       };
     } catch {
       return null;
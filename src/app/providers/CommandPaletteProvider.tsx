@@ -0,0 +1,47 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { useAuth } from "@/app/providers/AuthProvider";
+import { CommandPalette } from "@/app/components/CommandPalette";
+
+interface CommandPaletteContextValue {
+  open: boolean;
+  setOpen: (open: boolean) => void;
+  toggle: () => void;
+}
+
+const CommandPaletteContext = createContext<CommandPaletteContextValue | null>(null);
+
+export function useCommandPalette() {
+  const ctx = useContext(CommandPaletteContext);
+  if (!ctx) throw new Error("useCommandPalette must be used within CommandPaletteProvider");
+  return ctx;
+}
+
+export function CommandPaletteProvider({ children }: { children: React.ReactNode }) {
+  const { isAuthenticated } = useAuth();
+  const [open, setOpen] = useState(false);
+
+  const toggle = useCallback(() => setOpen((v) => !v), []);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setOpen(false);
+      return;
+    }
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() !== "k" || !(e.metaKey || e.ctrlKey) || e.altKey || e.shiftKey) return;
+      e.preventDefault();
+      setOpen((v) => !v);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [isAuthenticated]);
+
+  const value = useMemo(() => ({ open, setOpen, toggle }), [open, toggle]);
+
+  return (
+    <CommandPaletteContext.Provider value={value}>
+      {children}
+      {isAuthenticated ? <CommandPalette open={open} onOpenChange={setOpen} /> : null}
+    </CommandPaletteContext.Provider>
+  );
+}
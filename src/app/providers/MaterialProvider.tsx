@@ -10,10 +10,10 @@ import { useQuery, useQueryClient } from "@tanstack/react-query";
 
 import { useAuth } from "@/app/providers/AuthProvider";
 import { useUser } from "@/app/providers/UserProvider";
-import { useSSEContext } from "@/app/providers/SSEProvider";
+import { useSSEContext, useSSEEvent } from "@/app/providers/SSEProvider";
 import { listUserMaterialFiles } from "@/shared/api/MaterialService";
 import { queryKeys } from "@/shared/query/queryKeys";
-import type { JobEventPayload, MaterialFile, SseMessage } from "@/shared/types/models";
+import type { JobEventPayload, MaterialFile } from "@/shared/types/models";
 
 interface MaterialContextValue {
   files: MaterialFile[];
@@ -35,9 +35,9 @@ interface MaterialProviderProps {
   children: React.ReactNode;
 }
 
-function asJobPayload(value: SseMessage["data"]): JobEventPayload | null {
+function asJobPayload(value: JobEventPayload | null): JobEventPayload | null {
   if (!value || typeof value !== "object") return null;
-  return value as JobEventPayload;
+  return value;
 }
 
 function byUpdatedDesc(a: MaterialFile, b: MaterialFile) {
@@ -49,7 +49,7 @@ function byUpdatedDesc(a: MaterialFile, b: MaterialFile) {
 export function MaterialProvider({ children }: MaterialProviderProps) {
   const { isAuthenticated } = useAuth();
   const { user } = useUser();
-  const { connected, lastMessage } = useSSEContext();
+  const { connected } = useSSEContext();
   const queryClient = useQueryClient();
 
   const reloadTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -79,16 +79,11 @@ export function MaterialProvider({ children }: MaterialProviderProps) {
     scheduleReload();
   }, [connected, isAuthenticated, scheduleReload]);
 
-  useEffect(() => {
+  useSSEEvent(["JobCreated", "JobDone", "JobFailed", "JobProgress"], user?.id, (msg) => {
     if (!isAuthenticated) return;
-    if (!user?.id) return;
-    if (!lastMessage) return;
-    if (lastMessage.channel !== user.id) return;
-
-    const event = String(lastMessage.event || "").toLowerCase();
-    if (event !== "jobcreated" && event !== "jobdone" && event !== "jobfailed" && event !== "jobprogress") return;
 
-    const payload = asJobPayload(lastMessage.data);
+    const event = String(msg.event || "").toLowerCase();
+    const payload = asJobPayload(msg.data);
     if (!payload) return;
     const job = payload.job as { job_type?: string; jobType?: string } | undefined;
     const jobType = String(payload.job_type ?? job?.job_type ?? job?.jobType ?? "").toLowerCase();
@@ -102,7 +97,7 @@ export function MaterialProvider({ children }: MaterialProviderProps) {
     if (event === "jobprogress" && jobType === "learning_build") return;
 
     scheduleReload();
-  }, [connected, isAuthenticated, lastMessage, scheduleReload, user?.id]);
+  });
 
   const filesQuery = useQuery({
     queryKey: queryKeys.materialFiles(),
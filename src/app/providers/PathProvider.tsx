@@ -12,14 +12,14 @@ import { useWindowPathname } from "@/shared/hooks/useWindowPathname";
 
 import { useAuth } from "@/app/providers/AuthProvider";
 import { useUser } from "@/app/providers/UserProvider";
-import { useSSEContext } from "@/app/providers/SSEProvider";
+import { SSE_JOB_EVENTS, useSSEContext, useSSEEvent } from "@/app/providers/SSEProvider";
 import { uploadMaterialSet as apiUploadMaterialSet } from "@/shared/api/MaterialService";
 import { getPath as apiGetPath, listPaths as apiListPaths } from "@/shared/api/PathService";
 import { getSessionState, patchSessionState } from "@/shared/api/SessionService";
 import { normalizeStage } from "@/shared/lib/learningBuildStages";
 import { queryKeys } from "@/shared/query/queryKeys";
 import type { BackendJob, BackendMaterialUploadResponse } from "@/shared/types/backend";
-import type { JobEventPayload, Path, SseMessage } from "@/shared/types/models";
+import type { JobEventPayload, Path } from "@/shared/types/models";
 
 interface PathContextValue {
   paths: Path[];
@@ -178,9 +178,9 @@ function extractPathIdFromJob(job: JobLike | null | undefined) {
   return typeof id === "string" && id.trim() ? id.trim() : null;
 }
 
-function asJobPayload(value: SseMessage["data"]): JobEventPayload | null {
+function asJobPayload(value: JobEventPayload | null): JobEventPayload | null {
   if (!value || typeof value !== "object") return null;
-  return value as JobEventPayload;
+  return value;
 }
 
 interface PathProviderProps {
@@ -192,7 +192,7 @@ type UploadMaterialSetArgs = { files: File[]; prompt?: string };
 export function PathProvider({ children }: PathProviderProps) {
   const { isAuthenticated } = useAuth();
   const { user } = useUser();
-  const { lastMessage, connected } = useSSEContext();
+  const { connected } = useSSEContext();
   const pathname = useWindowPathname();
   const queryClient = useQueryClient();
 
@@ -295,13 +295,9 @@ export function PathProvider({ children }: PathProviderProps) {
     queryClient.removeQueries({ queryKey: queryKeys.paths() });
   }, [isAuthenticated, queryClient]);
 
-  useEffect(() => {
-    if (!lastMessage) return;
-    if (!user?.id) return;
-    if (lastMessage.channel !== user.id) return;
-
-    const event = String(lastMessage.event || "").toLowerCase();
-    const payload = asJobPayload(lastMessage.data);
+  useSSEEvent(SSE_JOB_EVENTS, user?.id, (msg) => {
+    const event = String(msg.event || "").toLowerCase();
+    const payload = asJobPayload(msg.data);
     if (!payload) return;
     const job = payload.job as JobLike | undefined;
     const jobType = String(
@@ -575,7 +571,7 @@ export function PathProvider({ children }: PathProviderProps) {
       });
       return;
     }
-  }, [lastMessage, queryClient, user?.id]);
+  });
 
   const getById = useCallback(
     (id: string) => paths.find((p) => p?.id === id) ?? null,
@@ -10,24 +10,59 @@ import type { ReactNode } from "react";
 import { getAccessToken } from "@/shared/services/StorageService";
 import SSEService from "@/shared/api/SSEService";
 import { useAuth } from "@/app/providers/AuthProvider";
-import type { SseMessage } from "@/shared/types/models";
+import type { SseEventName, SseEventPayloadMap, SseMessage } from "@/shared/types/models";
 import type { JsonInput } from "@/shared/types/models";
 import { recordSse } from "@/shared/observability/rum";
 
-// TODO: Harden sse beyond a single last message variable. This is fragile.
+export const SSE_JOB_EVENTS = [
+  "JobCreated",
+  "JobProgress",
+  "JobDone",
+  "JobFailed",
+  "JobCanceled",
+  "JobRestarted",
+] as const satisfies readonly SseEventName[];
+
+export const SSE_CHAT_MESSAGE_EVENTS = [
+  "ChatMessageCreated",
+  "ChatMessageDelta",
+  "ChatMessageDone",
+  "ChatMessageError",
+] as const satisfies readonly SseEventName[];
+
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 30_000;
+const RECENT_EVENT_ID_MAX = 500;
+
+type SseListener = (msg: SseMessage) => void;
+
+export type SSEStatus = "connecting" | "open" | "reconnecting";
+
+/** Exponential backoff with "equal jitter": half the window fixed, half random. */
+function backoffDelay(attempt: number) {
+  const span = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, attempt));
+  return Math.round(span / 2 + Math.random() * (span / 2));
+}
 
 interface SSEContextValue {
   connected: boolean;
-  lastMessage: SseMessage | null;
-  messages: SseMessage[];
+  status: SSEStatus;
+  /** Epoch ms of the next scheduled reconnect attempt, when one is pending. */
+  retryAt: number | null;
+  /** Skips the remaining backoff and reconnects immediately. */
+  reconnect: () => void;
+  /** Registers a raw listener; every parsed message is delivered synchronously, in order. */
+  subscribe: (listener: SseListener) => () => void;
   subscribeChannel: (channel: string) => Promise<void>;
   unsubscribeChannel: (channel: string) => Promise<void>;
 }
 
 const SSEContext = createContext<SSEContextValue>({
   connected: false,
-  lastMessage: null,
-  messages: [],
+  status: "connecting",
+  retryAt: null,
+  reconnect: () => {},
+  subscribe: () => () => {},
   subscribeChannel: async () => {},
   unsubscribeChannel: async () => {},
 });
@@ -37,10 +72,17 @@ interface SSEProviderProps {
 }
 
 export function SSEProvider({ children }: SSEProviderProps) {
-  const [connected, setConnected] = useState(false);
-  const [lastMessage, setLastMessage] = useState<SseMessage | null>(null);
-  const [messages, setMessages] = useState<SseMessage[]>([]);
+  const [status, setStatus] = useState<SSEStatus>("connecting");
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const connected = status === "open";
+  const listenersRef = useRef<Set<SseListener>>(new Set());
+  // Channels are per-connection on the server: `requested` is what callers asked for,
+  // `subscribed` is what the current connection has confirmed.
+  const requestedChannelsRef = useRef<Set<string>>(new Set());
   const subscribedChannelsRef = useRef<Set<string>>(new Set());
+  const retryAttemptRef = useRef(0);
+  const lastEventIdRef = useRef<string | null>(null);
+  const recentEventIdsRef = useRef<Set<string>>(new Set());
   const initRef = useRef(false);
   const retryTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const connectRef = useRef<(() => void) | null>(null);
@@ -49,10 +91,13 @@ export function SSEProvider({ children }: SSEProviderProps) {
   const lastOpenAtRef = useRef<number | null>(null);
 
   const resetState = useCallback(() => {
-    setConnected(false);
-    setLastMessage(null);
-    setMessages([]);
+    setStatus("connecting");
+    setRetryAt(null);
+    requestedChannelsRef.current.clear();
     subscribedChannelsRef.current.clear();
+    retryAttemptRef.current = 0;
+    lastEventIdRef.current = null;
+    recentEventIdsRef.current.clear();
     if (retryTimer.current) {
       clearTimeout(retryTimer.current);
       retryTimer.current = null;
@@ -60,34 +105,86 @@ export function SSEProvider({ children }: SSEProviderProps) {
     SSEService.close();
   }, []);
 
-  const scheduleRetry = useCallback((delay = 1000) => {
+  const scheduleRetry = useCallback(() => {
     if (retryTimer.current) {
       clearTimeout(retryTimer.current);
     }
+    const attempt = retryAttemptRef.current;
+    retryAttemptRef.current = attempt + 1;
+    const delay = backoffDelay(attempt);
+    setStatus("reconnecting");
+    setRetryAt(Date.now() + delay);
     retryTimer.current = setTimeout(() => {
+      retryTimer.current = null;
+      setRetryAt(null);
       connectRef.current?.();
     }, delay);
-    recordSse("retry", { delay_ms: delay });
+    recordSse("retry", { delay_ms: delay, attempt });
+  }, []);
+
+  const resubscribeChannels = useCallback(() => {
+    subscribedChannelsRef.current.clear();
+    for (const channel of Array.from(requestedChannelsRef.current)) {
+      SSEService.subscribe(channel)
+        .then(() => {
+          if (requestedChannelsRef.current.has(channel)) {
+            subscribedChannelsRef.current.add(channel);
+          }
+        })
+        .catch((err) => {
+          console.error(`[SSEProvider] Failed to re-subscribe ${channel} =>`, err);
+        });
+    }
+  }, []);
+
+  // Dispatch outside React state so bursts arriving in one tick are never coalesced.
+  const dispatch = useCallback((msg: SseMessage) => {
+    if (msg.id) {
+      // Replayed events after a resume can overlap what this tab already saw.
+      const seen = recentEventIdsRef.current;
+      if (seen.has(msg.id)) return;
+      seen.add(msg.id);
+      if (seen.size > RECENT_EVENT_ID_MAX) {
+        const oldest = seen.values().next().value;
+        if (oldest !== undefined) seen.delete(oldest);
+      }
+    }
+    for (const listener of Array.from(listenersRef.current)) {
+      try {
+        listener(msg);
+      } catch (err) {
+        console.error("[SSEProvider] listener failed for", msg.event, err);
+      }
+    }
+  }, []);
+
+  const subscribe = useCallback((listener: SseListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
   }, []);
 
   const connect = useCallback(() => {
     const token = getAccessToken();
     if (!token) {
       console.warn("[SSEProvider] No token found, will retry...");
-      setConnected(false);
-      scheduleRetry(2000);
+      scheduleRetry();
       return;
     }
     connectAttemptAtRef.current = performance.now();
-    recordSse("connect_attempt", {});
-    SSEService.connect();
+    recordSse("connect_attempt", { resume: Boolean(lastEventIdRef.current) });
+    SSEService.connect(lastEventIdRef.current);
     SSEService.onOpen(() => {
       console.log("[SSEProvider] onopen => connected!");
       if (retryTimer.current) {
         clearTimeout(retryTimer.current);
         retryTimer.current = null;
       }
-      setConnected(true);
+      retryAttemptRef.current = 0;
+      setRetryAt(null);
+      setStatus("open");
+      resubscribeChannels();
       const now = performance.now();
       const connectMs =
         connectAttemptAtRef.current !== null
@@ -99,7 +196,6 @@ export function SSEProvider({ children }: SSEProviderProps) {
     });
     SSEService.onError((err) => {
       console.error("[SSEProvider] onerror =>", err);
-      setConnected(false);
       const now = performance.now();
       const sinceOpen =
         lastOpenAtRef.current !== null ? Math.max(0, now - lastOpenAtRef.current) : undefined;
@@ -110,7 +206,7 @@ export function SSEProvider({ children }: SSEProviderProps) {
         since_message_ms: sinceMessage !== undefined ? Math.round(sinceMessage) : undefined,
       });
       SSEService.close();
-      scheduleRetry(1000);
+      scheduleRetry();
     });
     SSEService.onMessage((evt) => {
       try {
@@ -118,7 +214,14 @@ export function SSEProvider({ children }: SSEProviderProps) {
         const parsed = JSON.parse(evt.data) as Record<string, unknown>;
         console.log("[SSEProvider] message:", evt.data);
         const payload = (parsed.data ?? null) as JsonInput;
+        // `lastEventId` persists across frames that omit `id:`, so only a changed cursor
+        // identifies this particular event.
+        const cursor = String(evt.lastEventId || "").trim();
+        const freshCursor = cursor && cursor !== lastEventIdRef.current ? cursor : "";
+        if (cursor) lastEventIdRef.current = cursor;
+        const eventId = String(parsed.id || parsed.event_id || freshCursor || "").trim();
         const msg: SseMessage = {
+          id: eventId || undefined,
           event: String(parsed.event ?? ""),
           channel: String(parsed.channel ?? ""),
           data: payload,
@@ -126,12 +229,7 @@ export function SSEProvider({ children }: SSEProviderProps) {
           request_id: typeof parsed.request_id === "string" ? parsed.request_id : undefined,
           received_at: new Date().toISOString(),
         };
-        setLastMessage(msg);
-        setMessages((prev) => {
-          const next = [...(Array.isArray(prev) ? prev : []), msg];
-          const max = 50;
-          return next.length > max ? next.slice(next.length - max) : next;
-        });
+        dispatch(msg);
       } catch (error) {
         console.warn(
           "[SSEProvider] Failed to parse SSE data =>",
@@ -140,7 +238,17 @@ export function SSEProvider({ children }: SSEProviderProps) {
         );
       }
     });
-  }, [scheduleRetry]);
+  }, [dispatch, resubscribeChannels, scheduleRetry]);
+
+  const reconnect = useCallback(() => {
+    if (retryTimer.current) {
+      clearTimeout(retryTimer.current);
+      retryTimer.current = null;
+    }
+    setRetryAt(null);
+    SSEService.close();
+    connectRef.current?.();
+  }, []);
 
   useEffect(() => {
     connectRef.current = connect;
@@ -169,15 +277,12 @@ export function SSEProvider({ children }: SSEProviderProps) {
 
   const subscribeChannel = useCallback(
     async (channel: string) => {
-      if (!connected) {
-        console.warn(
-          `[SSEProvider] Not connected yet, cannot subscribe to ${channel}.`
-        );
-        return;
-      }
       const trimmed = channel.trim();
       if (!trimmed) return;
 
+      // Remember the request even while disconnected; it is (re)applied on every open.
+      requestedChannelsRef.current.add(trimmed);
+      if (!connected) return;
       if (subscribedChannelsRef.current.has(trimmed)) {
         return;
       }
@@ -193,6 +298,7 @@ export function SSEProvider({ children }: SSEProviderProps) {
 
   const unsubscribeChannel = useCallback(async (channel: string) => {
     const trimmed = channel.trim();
+    requestedChannelsRef.current.delete(trimmed);
     if (!subscribedChannelsRef.current.has(trimmed)) {
       return;
     }
@@ -209,8 +315,10 @@ export function SSEProvider({ children }: SSEProviderProps) {
 
   const value = {
     connected,
-    lastMessage,
-    messages,
+    status,
+    retryAt,
+    reconnect,
+    subscribe,
     subscribeChannel,
     unsubscribeChannel
   };
@@ -222,6 +330,42 @@ export function useSSEContext() {
   return useContext(SSEContext);
 }
 
+function normalizeEventName(name: string) {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Calls `handler` for every SSE message whose `event` matches `eventName` (case-insensitive)
+ * and whose channel equals `channel`. Pass an empty/null channel to pause the subscription,
+ * e.g. while the user id is still loading. The latest `handler` is always used, so it does
+ * not need to be memoized.
+ */
+export function useSSEEvent<E extends SseEventName>(
+  eventName: E | readonly E[],
+  channel: string | null | undefined,
+  handler: (msg: SseMessage<SseEventPayloadMap[E] | null>) => void
+) {
+  const { subscribe } = useSSEContext();
+  const handlerRef = useRef(handler);
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  const names: readonly string[] = typeof eventName === "string" ? [eventName] : eventName;
+  const eventsKey = names.map(normalizeEventName).sort().join("|");
+  const targetChannel = String(channel ?? "").trim();
+
+  useEffect(() => {
+    if (!targetChannel || !eventsKey) return;
+    const wanted = new Set(eventsKey.split("|"));
+    return subscribe((msg) => {
+      if (msg.channel !== targetChannel) return;
+      if (!wanted.has(normalizeEventName(String(msg.event || "")))) return;
+      handlerRef.current(msg as SseMessage<SseEventPayloadMap[E] | null>);
+    });
+  }, [eventsKey, subscribe, targetChannel]);
+}
+
 interface SSEGateProps {
   children: ReactNode;
 }
@@ -1,12 +1,15 @@
-import React, { createContext, useContext, useEffect, useState } from "react";
+import React, { createContext, useContext, useEffect, useRef, useState } from "react";
 import type { ReactNode } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { IconButton } from "@/shared/ui/icon-button";
 import { Moon, Sun } from "lucide-react";
 import { useAuth } from "@/app/providers/AuthProvider";
 import { useUser } from "@/app/providers/UserProvider";
 import { useI18n } from "@/app/providers/I18nProvider";
-import type { ThemePreference, UiTheme } from "@/shared/types/models";
+import type { ThemePreference, UiTheme, UserProfile } from "@/shared/types/models";
+import { queryKeys } from "@/shared/query/queryKeys";
 import { UI_THEME_SET } from "@/shared/theme/uiThemes";
+import { postTabMessage, subscribeTabMessages } from "@/shared/services/TabSyncService";
 
 
 type ResolvedTheme = Exclude<ThemePreference, "system">;
@@ -25,16 +28,24 @@ export function ThemeSync() {
   const { isAuthenticated } = useAuth();
   const { user } = useUser();
   const { theme, setTheme, uiTheme, setUiTheme } = useTheme();
+  // Apply the saved preference when it changes, not whenever the theme does: a change mirrored
+  // from another tab must not be reverted to a profile value that hasn't caught up yet.
+  const appliedRef = useRef<{ theme?: ThemePreference; uiTheme?: UiTheme }>({});
 
   useEffect(() => {
-    if (!isAuthenticated) return;
+    if (!isAuthenticated) {
+      appliedRef.current = {};
+      return;
+    }
     const pref = user?.preferredTheme;
-    if (pref && VALID.has(pref) && theme !== pref) {
-      setTheme(pref);
+    if (pref && VALID.has(pref) && appliedRef.current.theme !== pref) {
+      appliedRef.current.theme = pref;
+      if (theme !== pref) setTheme(pref);
     }
     const uiPref = user?.preferredUiTheme;
-    if (uiPref && UI_THEME_SET.has(uiPref) && uiTheme !== uiPref) {
-      setUiTheme(uiPref);
+    if (uiPref && UI_THEME_SET.has(uiPref) && appliedRef.current.uiTheme !== uiPref) {
+      appliedRef.current.uiTheme = uiPref;
+      if (uiTheme !== uiPref) setUiTheme(uiPref);
     }
   }, [isAuthenticated, user?.preferredTheme, user?.preferredUiTheme, theme, setTheme, uiTheme, setUiTheme]);
   return null;
@@ -72,6 +83,7 @@ export function ThemeProvider({
   const [theme, setThemeState] = useState<ThemePreference>(defaultTheme);
   const [systemTheme, setSystemTheme] = useState<ResolvedTheme>(getSystemTheme);
   const [uiTheme, setUiThemeState] = useState<UiTheme>(defaultUiTheme);
+  const queryClient = useQueryClient();
 
   useEffect(() => {
     if (typeof window === "undefined") return;
@@ -104,6 +116,29 @@ export function ThemeProvider({
     return () => media.removeEventListener("change", handler);
   }, []);
 
+  // Other tabs already wrote localStorage and saved the profile; only mirror the state here, and
+  // bring the cached profile along so ThemeSync doesn't see a stale preference.
+  useEffect(() => {
+    return subscribeTabMessages((message) => {
+      if (message.type !== "theme") return;
+      const next = message.theme;
+      const nextTheme = next === "light" || next === "dark" || next === "system" ? next : null;
+      const nextUiTheme =
+        message.uiTheme && UI_THEME_SET.has(message.uiTheme as UiTheme) ? (message.uiTheme as UiTheme) : null;
+      if (nextTheme) setThemeState(nextTheme);
+      if (nextUiTheme) setUiThemeState(nextUiTheme);
+      queryClient.setQueryData<UserProfile | null>(queryKeys.me(), (prev) =>
+        prev
+          ? {
+              ...prev,
+              preferredTheme: nextTheme ?? prev.preferredTheme,
+              preferredUiTheme: nextUiTheme ?? prev.preferredUiTheme,
+            }
+          : prev
+      );
+    });
+  }, [queryClient]);
+
   const effectiveTheme = theme === "system" ? systemTheme : theme;
 
   useEffect(() => {
@@ -123,6 +158,7 @@ export function ThemeProvider({
     if (typeof window !== "undefined") {
       window.localStorage.setItem(storageKey, next);
     }
+    postTabMessage({ type: "theme", theme: next });
   }
 
   function setUiTheme(next: UiTheme) {
@@ -130,6 +166,7 @@ export function ThemeProvider({
     if (typeof window !== "undefined") {
       window.localStorage.setItem(uiStorageKey, next);
     }
+    postTabMessage({ type: "theme", uiTheme: next });
   }
 
   const value = { theme, setTheme, effectiveTheme, uiTheme, setUiTheme };
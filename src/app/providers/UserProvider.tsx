@@ -1,7 +1,7 @@
 import React, { createContext, useCallback, useContext, useEffect, useMemo } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/app/providers/AuthProvider";
-import { useSSEContext } from "@/app/providers/SSEProvider";
+import { useSSEEvent } from "@/app/providers/SSEProvider";
 import {
   getMe,
   changeName as apiChangeName,
@@ -10,9 +10,9 @@ import {
   uploadAvatar as apiUploadAvatar,
 } from "@/shared/api/UserService";
 import { queryKeys } from "@/shared/query/queryKeys";
+import { setPersonalDeckOwner } from "@/shared/services/PersonalDeckStore";
 import { UI_THEME_SET } from "@/shared/theme/uiThemes";
 import type {
-  SseMessage,
   ThemePreference,
   UiTheme,
   UserAvatarChangedPayload,
@@ -47,18 +47,19 @@ const UserContext = createContext<UserContextValue>({
   uploadAvatar: async () => {},
 });
 
-function asObject<T extends object>(value: SseMessage["data"]): T | null {
+function asObject<T extends object>(value: T | null): T | null {
   if (!value || typeof value !== "object") return null;
   return value as T;
 }
 
+const USER_PROFILE_EVENTS = ["UserNameChanged", "UserThemeChanged", "UserAvatarChanged"] as const;
+
 interface UserProviderProps {
   children: React.ReactNode;
 }
 
 export function UserProvider({ children }: UserProviderProps) {
   const { isAuthenticated } = useAuth();
-  const { lastMessage } = useSSEContext();
   const queryClient = useQueryClient();
 
   const userQuery = useQuery({
@@ -71,18 +72,21 @@ export function UserProvider({ children }: UserProviderProps) {
     staleTime: 60_000,
   });
 
+  const userId = userQuery.data?.id;
   useEffect(() => {
-    if (!lastMessage) return;
+    setPersonalDeckOwner(isAuthenticated ? userId : null);
+  }, [isAuthenticated, userId]);
 
+  useSSEEvent(USER_PROFILE_EVENTS, userQuery.data?.id, (msg) => {
     queryClient.setQueryData<UserProfile | null>(queryKeys.me(), (prev) => {
       if (!prev) return prev;
-      if (lastMessage.channel !== prev.id) return prev;
+      if (msg.channel !== prev.id) return prev;
 
-      const { event, data } = lastMessage;
+      const { event, data } = msg;
 
       switch (event) {
         case "UserNameChanged": {
-          const payload = asObject<UserNameChangedPayload>(data);
+          const payload = asObject(data as UserNameChangedPayload | null);
           if (!payload) return prev;
           return {
             ...prev,
@@ -93,7 +97,7 @@ export function UserProvider({ children }: UserProviderProps) {
         }
 
         case "UserThemeChanged": {
-          const payload = asObject<UserThemeChangedPayload>(data);
+          const payload = asObject(data as UserThemeChangedPayload | null);
           if (!payload) return prev;
           const nextUiTheme = payload.preferred_ui_theme;
           const resolvedUiTheme =
@@ -108,7 +112,7 @@ export function UserProvider({ children }: UserProviderProps) {
         }
 
         case "UserAvatarChanged": {
-          const payload = asObject<UserAvatarChangedPayload>(data);
+          const payload = asObject(data as UserAvatarChangedPayload | null);
           if (!payload) return prev;
           return {
             ...prev,
@@ -121,7 +125,7 @@ export function UserProvider({ children }: UserProviderProps) {
           return prev;
       }
     });
-  }, [lastMessage, queryClient]);
+  });
 
   useEffect(() => {
     if (isAuthenticated) return;
@@ -1,4 +1,4 @@
-import React, { useEffect } from "react";
+import { Suspense, useEffect, type ReactNode } from "react";
 import { Routes, Route, Navigate, useLocation } from "react-router-dom";
 import { useAuth } from "@/app/providers/AuthProvider";
 import { recordRouteChange } from "@/shared/observability/rum";
@@ -6,15 +6,31 @@ import { RouteErrorBoundary } from "@/app/router/RouteErrorBoundary";
 import AboutPage from "@/features/marketing/pages/AboutPage";
 import FeaturesPage from "@/features/marketing/pages/FeaturesPage";
 import PricingPage from "@/features/marketing/pages/PricingPage";
-import HomePage from "@/features/home/pages/HomePage";
-import FilesPage from "@/features/files/pages/FilesPage";
-import PathsPage from "@/features/paths/pages/PathsPage";
-import PathPage from "@/features/paths/pages/PathPage";
-import PathNodePage from "@/features/paths/pages/PathNodePage";
-import ActivityPage from "@/features/activity/pages/ActivityPage";
-import PathBuildPage from "@/features/paths/pages/PathBuildPage";
-import ChatThreadPage from "@/features/chat/pages/ChatThreadPage";
-import SkeletonGalleryPage from "@/features/dev/pages/SkeletonGalleryPage";
+import {
+  ActivityPage,
+  ChatThreadPage,
+  FilesPage,
+  HomePage,
+  PathBuildPage,
+  PathNodePage,
+  PathPage,
+  PathsPage,
+  ReviewPage,
+  SkeletonGalleryPage,
+} from "@/app/router/lazyRoutes";
+import { HomePageSkeleton } from "@/features/home/pages/HomePageSkeleton";
+import { PathsPageSkeleton } from "@/features/paths/pages/PathsPageSkeleton";
+import { FilesPageSkeleton } from "@/features/files/pages/FilesPageSkeleton";
+import { PathBuildPageSkeleton } from "@/features/paths/pages/PathBuildPageSkeleton";
+import { ChatThreadPageSkeleton } from "@/features/chat/pages/ChatThreadPageSkeleton";
+import { PathPageSkeleton } from "@/features/paths/pages/PathPageSkeleton";
+import { PathNodePageSkeleton } from "@/features/paths/pages/PathNodePageSkeleton";
+import { ActivityPageSkeleton } from "@/features/activity/pages/ActivityPageSkeleton";
+
+function Lazy({ fallback, children }: { fallback: ReactNode; children: ReactNode }) {
+  return <Suspense fallback={fallback}>{children}</Suspense>;
+}
+
 export function AppRouter() {
   const { isAuthenticated } = useAuth();
   const showDevRoutes = import.meta.env.DEV;
@@ -48,7 +64,16 @@ export function AppRouter() {
           <Route path="/" element={<AboutPage />} />
           <Route path="/features" element={<FeaturesPage />} />
           <Route path="/pricing" element={<PricingPage />} />
-          {showDevRoutes ? <Route path="/__ui/skeletons" element={<SkeletonGalleryPage />} /> : null}
+          {showDevRoutes ? (
+            <Route
+              path="/__ui/skeletons"
+              element={
+                <Lazy fallback={null}>
+                  <SkeletonGalleryPage />
+                </Lazy>
+              }
+            />
+          ) : null}
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
       </RouteErrorBoundary>
@@ -58,15 +83,88 @@ export function AppRouter() {
   return (
     <RouteErrorBoundary path={`${location.pathname}${location.search}`}>
       <Routes>
-        <Route path="/" element={<HomePage />} />
-        <Route path="/paths" element={<PathsPage />} />
-        <Route path="/files" element={<FilesPage />} />
-        <Route path="/paths/build/:jobId" element={<PathBuildPage />} />
-        <Route path="/chat/threads/:id" element={<ChatThreadPage />} />
-        <Route path="/paths/:id" element={<PathPage />} />
-        <Route path="/path-nodes/:id" element={<PathNodePage />} />
-        <Route path="/activities/:id" element={<ActivityPage />} />
-        {showDevRoutes ? <Route path="/__ui/skeletons" element={<SkeletonGalleryPage />} /> : null}
+        <Route
+          path="/"
+          element={
+            <Lazy fallback={<HomePageSkeleton />}>
+              <HomePage />
+            </Lazy>
+          }
+        />
+        <Route
+          path="/paths"
+          element={
+            <Lazy fallback={<PathsPageSkeleton />}>
+              <PathsPage />
+            </Lazy>
+          }
+        />
+        <Route
+          path="/files"
+          element={
+            <Lazy fallback={<FilesPageSkeleton />}>
+              <FilesPage />
+            </Lazy>
+          }
+        />
+        <Route
+          path="/paths/build/:jobId"
+          element={
+            <Lazy fallback={<PathBuildPageSkeleton />}>
+              <PathBuildPage />
+            </Lazy>
+          }
+        />
+        <Route
+          path="/chat/threads/:id"
+          element={
+            <Lazy fallback={<ChatThreadPageSkeleton />}>
+              <ChatThreadPage />
+            </Lazy>
+          }
+        />
+        <Route
+          path="/paths/:id"
+          element={
+            <Lazy fallback={<PathPageSkeleton />}>
+              <PathPage />
+            </Lazy>
+          }
+        />
+        <Route
+          path="/path-nodes/:id"
+          element={
+            <Lazy fallback={<PathNodePageSkeleton />}>
+              <PathNodePage />
+            </Lazy>
+          }
+        />
+        <Route
+          path="/activities/:id"
+          element={
+            <Lazy fallback={<ActivityPageSkeleton />}>
+              <ActivityPage />
+            </Lazy>
+          }
+        />
+        <Route
+          path="/review"
+          element={
+            <Lazy fallback={null}>
+              <ReviewPage />
+            </Lazy>
+          }
+        />
+        {showDevRoutes ? (
+          <Route
+            path="/__ui/skeletons"
+            element={
+              <Lazy fallback={null}>
+                <SkeletonGalleryPage />
+              </Lazy>
+            }
+          />
+        ) : null}
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
     </RouteErrorBoundary>
@@ -0,0 +1,40 @@
+import { lazy } from "react";
+
+/**
+ * Page chunks are split per route so marketing visitors never download the app, and each
+ * app page (and the mermaid/KaTeX/eye-tracking code behind it) loads on first visit.
+ * Loaders are exported separately so links can warm a chunk before navigation.
+ */
+export const loadHomePage = () => import("@/features/home/pages/HomePage");
+export const loadPathsPage = () => import("@/features/paths/pages/PathsPage");
+export const loadFilesPage = () => import("@/features/files/pages/FilesPage");
+export const loadPathBuildPage = () => import("@/features/paths/pages/PathBuildPage");
+export const loadChatThreadPage = () => import("@/features/chat/pages/ChatThreadPage");
+export const loadPathPage = () => import("@/features/paths/pages/PathPage");
+export const loadPathNodePage = () => import("@/features/paths/pages/PathNodePage");
+export const loadActivityPage = () => import("@/features/activity/pages/ActivityPage");
+export const loadReviewPage = () => import("@/features/review/pages/ReviewPage");
+export const loadSkeletonGalleryPage = () => import("@/features/dev/pages/SkeletonGalleryPage");
+
+export const HomePage = lazy(loadHomePage);
+export const PathsPage = lazy(loadPathsPage);
+export const FilesPage = lazy(loadFilesPage);
+export const PathBuildPage = lazy(loadPathBuildPage);
+export const ChatThreadPage = lazy(loadChatThreadPage);
+export const PathPage = lazy(loadPathPage);
+export const PathNodePage = lazy(loadPathNodePage);
+export const ActivityPage = lazy(loadActivityPage);
+export const ReviewPage = lazy(loadReviewPage);
+export const SkeletonGalleryPage = lazy(loadSkeletonGalleryPage);
+
+function prefetchChunk(load: () => Promise<unknown>) {
+  void load().catch(() => {
+    // A failed prefetch is retried by React.lazy on navigation.
+  });
+}
+
+/** Warms the path page chunk (and the lesson page it usually leads to). */
+export function prefetchPathRoute() {
+  prefetchChunk(loadPathPage);
+  prefetchChunk(loadPathNodePage);
+}
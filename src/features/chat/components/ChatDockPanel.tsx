@@ -1,4 +1,4 @@
-import React, { useCallback, useEffect, useMemo, useRef } from "react";
+import React, { Suspense, useCallback, useEffect, useMemo, useRef } from "react";
 import { Link } from "react-router-dom";
 import { X, ExternalLink } from "lucide-react";
 import { AnimatePresence, animate, m, useMotionValue, useTransform } from "framer-motion";
@@ -10,7 +10,8 @@ import { useIsMobile } from "@/app/providers/ViewportProvider";
 import { useChatDock } from "@/app/providers/ChatDockProvider";
 import { nbTransitions } from "@/shared/motion/presets";
 import { useI18n } from "@/app/providers/I18nProvider";
-import ChatThreadPage from "@/features/chat/pages/ChatThreadPage";
+import { ChatThreadPage } from "@/app/router/lazyRoutes";
+import { ChatThreadPageSkeleton } from "@/features/chat/pages/ChatThreadPageSkeleton";
 
 export function ChatDockPanel() {
   const isMobile = useIsMobile();
@@ -224,7 +225,9 @@ export function ChatDockPanel() {
 
       <div className="flex-1 min-h-0 overflow-hidden">
         {activeThreadId ? (
-          <ChatThreadPage embedded threadId={activeThreadId} blockContext={activeContext} />
+          <Suspense fallback={<ChatThreadPageSkeleton embedded />}>
+            <ChatThreadPage embedded threadId={activeThreadId} blockContext={activeContext} />
+          </Suspense>
         ) : (
           <div className="flex h-full items-center justify-center px-6 text-sm text-muted-foreground">
             {t("chat.emptyDock")}
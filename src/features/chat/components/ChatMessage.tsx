@@ -15,6 +15,7 @@ import {
   RotateCcw,
   MoreHorizontal,
   ChevronDown,
+  ChevronLeft,
   ChevronRight,
   Sparkles,
   Check,
@@ -127,17 +128,26 @@ interface ThinkingContentProps {
   onHeaderClick?: () => void
 }
 
+type MessageFeedback = "like" | "dislike" | ""
+
 interface ActionBarProps {
   onCopy?: () => void
   onLike?: () => void
   onDislike?: () => void
   onShare?: () => void
   onRegenerate?: () => void
+  feedback?: MessageFeedback
+  regenerating?: boolean
+  variantIndex?: number
+  variantCount?: number
+  onPreviousVariant?: () => void
+  onNextVariant?: () => void
 }
 
 type ActionButtonProps = React.ButtonHTMLAttributes<HTMLButtonElement> & {
   children?: React.ReactNode
   shortcut?: string
+  active?: boolean
 }
 
 interface ChatMessageProps {
@@ -155,6 +165,12 @@ interface ChatMessageProps {
   onDislike?: () => void
   onShare?: () => void
   onRegenerate?: () => void
+  feedback?: MessageFeedback
+  regenerating?: boolean
+  variantIndex?: number
+  variantCount?: number
+  onPreviousVariant?: () => void
+  onNextVariant?: () => void
   className?: string
 }
 
@@ -1001,24 +1017,62 @@ function ThinkingContent({
   )
 }
 
-function ActionBar({ onCopy, onLike, onDislike, onShare, onRegenerate }: ActionBarProps) {
+function ActionBar({
+  onCopy,
+  onLike,
+  onDislike,
+  onShare,
+  onRegenerate,
+  feedback = "",
+  regenerating = false,
+  variantIndex = 0,
+  variantCount = 1,
+  onPreviousVariant,
+  onNextVariant,
+}: ActionBarProps) {
   const { t } = useI18n()
   return (
     <div className="mt-3 flex items-center gap-1.5">
+      {variantCount > 1 && (
+        <div className="me-1 flex items-center text-xs tabular-nums text-muted-foreground">
+          <ActionButton
+            onClick={onPreviousVariant}
+            disabled={variantIndex <= 0}
+            aria-label={t("chat.variant.previous")}
+          >
+            <ChevronLeft className="h-4 w-4 rtl:rotate-180" />
+          </ActionButton>
+          <span aria-live="polite" aria-label={t("chat.variant.label", { index: variantIndex + 1, count: variantCount })}>
+            {variantIndex + 1} / {variantCount}
+          </span>
+          <ActionButton
+            onClick={onNextVariant}
+            disabled={variantIndex >= variantCount - 1}
+            aria-label={t("chat.variant.next")}
+          >
+            <ChevronRight className="h-4 w-4 rtl:rotate-180" />
+          </ActionButton>
+        </div>
+      )}
       <ActionButton onClick={onCopy} aria-label={t("common.copy")} shortcut="Cmd/Ctrl+C">
         <Copy className="h-4 w-4" />
       </ActionButton>
-      <ActionButton onClick={onLike} aria-label={t("common.like")} shortcut="L">
+      <ActionButton onClick={onLike} active={feedback === "like"} aria-label={t("common.like")} shortcut="L">
         <ThumbsUp className="h-4 w-4" />
       </ActionButton>
-      <ActionButton onClick={onDislike} aria-label={t("common.dislike")} shortcut="D">
+      <ActionButton onClick={onDislike} active={feedback === "dislike"} aria-label={t("common.dislike")} shortcut="D">
         <ThumbsDown className="h-4 w-4" />
       </ActionButton>
       <ActionButton onClick={onShare} aria-label={t("common.share")} shortcut="S">
         <Share className="h-4 w-4" />
       </ActionButton>
-      <ActionButton onClick={onRegenerate} aria-label={t("common.regenerate")} shortcut="R">
-        <RotateCcw className="h-4 w-4" />
+      <ActionButton
+        onClick={onRegenerate}
+        disabled={regenerating}
+        aria-label={t("common.regenerate")}
+        shortcut="R"
+      >
+        <RotateCcw className={cn("h-4 w-4", regenerating && "animate-spin motion-reduce:animate-none")} />
       </ActionButton>
       <ActionButton aria-label={t("navbar.moreOptions")} shortcut="M">
         <MoreHorizontal className="h-4 w-4" />
@@ -1027,13 +1081,14 @@ function ActionBar({ onCopy, onLike, onDislike, onShare, onRegenerate }: ActionB
   )
 }
 
-function ActionButton({ children, onClick, shortcut, ...props }: ActionButtonProps) {
+function ActionButton({ children, onClick, shortcut, active, ...props }: ActionButtonProps) {
   const label = props["aria-label"] ?? props.title
 
   const button = (
     <button
       type="button"
       onClick={onClick}
+      aria-pressed={active === undefined ? undefined : active}
       className={cn(
         // Base styles
         "cursor-pointer rounded-lg text-muted-foreground",
@@ -1044,7 +1099,9 @@ function ActionButton({ children, onClick, shortcut, ...props }: ActionButtonPro
         "hover:bg-muted/60 hover:text-foreground",
         "active:bg-muted/80 active:scale-95",
         // Touch optimizations
-        "touch-manipulation -webkit-tap-highlight-color-transparent"
+        "touch-manipulation -webkit-tap-highlight-color-transparent",
+        "disabled:pointer-events-none disabled:opacity-40",
+        active && "bg-muted/60 text-foreground"
       )}
       {...props}
     >
@@ -1095,10 +1152,33 @@ const ChatMessage: ChatMessageComponent = ({
   onDislike,
   onShare,
   onRegenerate,
+  feedback,
+  regenerating,
+  variantIndex,
+  variantCount,
+  onPreviousVariant,
+  onNextVariant,
   className,
 }) => {
   const isUser = variant === "user"
 
+  // The L/D/S/R hints in the action bar work while focus is anywhere inside the reply.
+  const handleShortcut = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!showActions || event.defaultPrevented) return
+    if (event.metaKey || event.ctrlKey || event.altKey) return
+    const target = event.target as HTMLElement | null
+    if (target?.closest("input, textarea, select, [contenteditable='true']")) return
+    const handler = {
+      l: onLike,
+      d: onDislike,
+      s: onShare,
+      r: regenerating ? undefined : onRegenerate,
+    }[event.key.toLowerCase()]
+    if (!handler) return
+    event.preventDefault()
+    handler()
+  }
+
   if (isUser) {
     return (
       <div className={cn("flex w-full justify-end py-5 sm:py-6", className)}>
@@ -1122,7 +1202,7 @@ const ChatMessage: ChatMessageComponent = ({
   }
 
   return (
-    <div className={cn("w-full py-5 sm:py-6", className)}>
+    <div className={cn("w-full py-5 sm:py-6", className)} onKeyDown={handleShortcut}>
       {isThinking && !children ? (
         <ThinkingIndicator />
       ) : (
@@ -1172,6 +1252,12 @@ const ChatMessage: ChatMessageComponent = ({
               onDislike={onDislike}
               onShare={onShare}
               onRegenerate={onRegenerate}
+              feedback={feedback}
+              regenerating={regenerating}
+              variantIndex={variantIndex}
+              variantCount={variantCount}
+              onPreviousVariant={onPreviousVariant}
+              onNextVariant={onNextVariant}
             />
           )}
         </div>
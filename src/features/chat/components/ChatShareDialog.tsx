@@ -0,0 +1,123 @@
+import { useEffect, useMemo, useState } from "react";
+import { Check, Copy, Link2 } from "lucide-react";
+import { Button } from "@/shared/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/shared/ui/dialog";
+import { Input } from "@/shared/ui/input";
+import { useI18n } from "@/app/providers/I18nProvider";
+import { createChatMessageShareLink } from "@/shared/api/ChatService";
+import { exchangeToMarkdown } from "@/features/chat/lib/chatExchange";
+import type { ChatMessage } from "@/shared/types/models";
+
+type ShareMessage = Partial<ChatMessage>;
+
+interface ChatShareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  threadId: string;
+  threadTitle?: string;
+  prompt: ShareMessage | null;
+  reply: ShareMessage | null;
+}
+
+export function ChatShareDialog({ open, onOpenChange, threadId, threadTitle, prompt, reply }: ChatShareDialogProps) {
+  const { t } = useI18n();
+  const [link, setLink] = useState("");
+  const [linkLoading, setLinkLoading] = useState(false);
+  const [linkError, setLinkError] = useState("");
+  const [copied, setCopied] = useState<"link" | "markdown" | "">("");
+
+  const replyId = String(reply?.id || "");
+
+  const markdown = useMemo(() => {
+    if (!reply) return "";
+    return exchangeToMarkdown({
+      title: threadTitle,
+      prompt,
+      reply,
+      promptLabel: t("chat.share.promptLabel"),
+      replyLabel: t("chat.share.replyLabel"),
+    });
+  }, [prompt, reply, t, threadTitle]);
+
+  useEffect(() => {
+    if (!open) return;
+    setLink("");
+    setLinkError("");
+    setCopied("");
+  }, [open, replyId]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(""), 1600);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const copyText = async (text: string, kind: "link" | "markdown") => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(kind);
+    } catch (err) {
+      console.warn("[ChatShareDialog] clipboard write failed:", err);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (link) {
+      await copyText(link, "link");
+      return;
+    }
+    if (!threadId || !replyId) return;
+    setLinkLoading(true);
+    setLinkError("");
+    try {
+      const url = await createChatMessageShareLink(threadId, replyId);
+      setLink(url);
+      await copyText(url, "link");
+    } catch (err) {
+      console.error("[ChatShareDialog] create share link failed:", err);
+      setLinkError(t("chat.share.linkFailed"));
+    } finally {
+      setLinkLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{t("chat.share.title")}</DialogTitle>
+          <DialogDescription>{t("chat.share.description")}</DialogDescription>
+        </DialogHeader>
+
+        {link ? <Input readOnly value={link} onFocus={(e) => e.currentTarget.select()} /> : null}
+        {linkError ? <div className="text-xs text-destructive">{linkError}</div> : null}
+
+        <pre className="max-h-72 overflow-auto whitespace-pre-wrap rounded-lg border border-border bg-muted/30 p-3 text-xs text-muted-foreground">
+          {markdown}
+        </pre>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => void copyText(markdown, "markdown")} disabled={!markdown}>
+            {copied === "markdown" ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+            {copied === "markdown" ? t("chat.share.copied") : t("chat.share.copyMarkdown")}
+          </Button>
+          <Button onClick={() => void handleCopyLink()} disabled={linkLoading || !replyId}>
+            {copied === "link" ? <Check className="h-4 w-4" /> : <Link2 className="h-4 w-4" />}
+            {linkLoading
+              ? t("chat.share.creatingLink")
+              : copied === "link"
+                ? t("chat.share.copied")
+                : t("chat.share.copyLink")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
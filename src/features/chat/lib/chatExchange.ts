@@ -0,0 +1,74 @@
+import { stringFromMetadata } from "@/shared/lib/nodeDocEdit";
+import type { ChatMessage } from "@/shared/types/models";
+
+type ExchangeMessage = Partial<ChatMessage>;
+
+const VARIANT_OF_KEYS = ["regenerated_from", "regenerate_message_id", "variant_of"];
+
+/**
+ * Regenerated replies point back at the first reply of their turn. Locally known links
+ * (from regenerate responses that arrived before the metadata did) take precedence.
+ */
+export function variantRootId(msg: ExchangeMessage, localRoots: Record<string, string>): string {
+  const id = String(msg?.id || "");
+  return localRoots[id] || stringFromMetadata(msg?.metadata ?? null, VARIANT_OF_KEYS) || id;
+}
+
+/** Groups assistant replies by variant root, preserving seq order within each group. */
+export function groupReplyVariants<T extends ExchangeMessage>(
+  messages: T[],
+  localRoots: Record<string, string>
+): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const msg of messages) {
+    if (String(msg?.role || "").toLowerCase() !== "assistant") continue;
+    const root = variantRootId(msg, localRoots);
+    const list = groups.get(root);
+    if (list) list.push(msg);
+    else groups.set(root, [msg]);
+  }
+  for (const list of groups.values()) {
+    list.sort((a, b) => (a.seq || 0) - (b.seq || 0));
+  }
+  return groups;
+}
+
+/** The user prompt that a reply answers: the closest user message before `seq`. */
+export function promptForReply<T extends ExchangeMessage>(messages: T[], seq: number): T | null {
+  let best: T | null = null;
+  for (const msg of messages) {
+    if (String(msg?.role || "").toLowerCase() !== "user") continue;
+    if ((msg.seq || 0) >= seq) continue;
+    if (!best || (msg.seq || 0) > (best.seq || 0)) best = msg;
+  }
+  return best;
+}
+
+function quoteBlock(text: string) {
+  return text
+    .split("\n")
+    .map((line) => (line ? `> ${line}` : ">"))
+    .join("\n");
+}
+
+export function exchangeToMarkdown({
+  title,
+  prompt,
+  reply,
+  promptLabel = "You",
+  replyLabel = "Assistant",
+}: {
+  title?: string;
+  prompt: ExchangeMessage | null;
+  reply: ExchangeMessage;
+  promptLabel?: string;
+  replyLabel?: string;
+}): string {
+  const parts: string[] = [];
+  const heading = String(title || "").trim();
+  if (heading) parts.push(`# ${heading}`);
+  const question = String(prompt?.content || "").trim();
+  if (question) parts.push(`**${promptLabel}:**\n\n${quoteBlock(question)}`);
+  parts.push(`**${replyLabel}:**\n\n${String(reply?.content || "").trim()}`);
+  return `${parts.join("\n\n")}\n`;
+}
@@ -1,9 +1,11 @@
 import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
-import { useLocation, useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { Link, useLocation, useNavigate, useParams, useSearchParams } from "react-router-dom";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 
 import { ChatMessage } from "@/features/chat/components/ChatMessage";
+import { ChatShareDialog } from "@/features/chat/components/ChatShareDialog";
+import { groupReplyVariants, promptForReply, variantRootId } from "@/features/chat/lib/chatExchange";
 import { AnimatedChatbar } from "@/features/chat/components/AnimatedChatbar";
 import { Button } from "@/shared/ui/button";
 import {
@@ -19,13 +21,19 @@ import { getChatThread, listChatMessages, mapChatMessage, sendChatMessage } from
 import { cancelJob as apiCancelJob, restartJob as apiRestartJob } from "@/shared/api/JobService";
 import { enqueuePathNodeDocPatch, getPathNodeContent, getPathNodeDoc } from "@/shared/api/PathNodeService";
 import { getPath as apiGetPath } from "@/shared/api/PathService";
-import { useSSEContext } from "@/app/providers/SSEProvider";
+import { useSSEEvent } from "@/app/providers/SSEProvider";
 import { useUser } from "@/app/providers/UserProvider";
 import { useActivityPanel } from "@/app/providers/ActivityPanelProvider";
 import { useI18n } from "@/app/providers/I18nProvider";
 import { queueSessionPatch } from "@/shared/services/SessionStateTracker";
-import { messageKindFromMetadata, stringFromMetadata } from "@/shared/lib/nodeDocEdit";
-import { ArrowDown, ChevronDown, ChevronRight, Sparkles } from "lucide-react";
+import { queueEvent } from "@/shared/services/EventQueue";
+import {
+  messageKindFromMetadata,
+  parseLessonExcerpt,
+  stringFromMetadata,
+  type LessonExcerpt,
+} from "@/shared/lib/nodeDocEdit";
+import { ArrowDown, ChevronDown, ChevronRight, CornerUpLeft, Sparkles } from "lucide-react";
 import { clampPct, stageLabel } from "@/shared/lib/learningBuildStages";
 import { cn } from "@/shared/lib/utils";
 import { Container } from "@/shared/layout/Container";
@@ -34,6 +42,7 @@ import { Skeleton } from "@/shared/ui/skeleton";
 import { m } from "framer-motion";
 import { nbFadeUp, nbTransitions } from "@/shared/motion/presets";
 import type { ChatMessage as ChatMessageModel, ChatThread, JsonInput, Path, PathNode } from "@/shared/types/models";
+import { ChatThreadPageSkeleton } from "@/features/chat/pages/ChatThreadPageSkeleton";
 
 type DeltaState = { attempt: number; deltaSeq: number };
 
@@ -46,33 +55,9 @@ type ChatMessageItem = Partial<ChatMessageModel> & {
   error?: string;
 };
 
-const BOTTOM_THRESHOLD = 32;
-
-export function ChatThreadPageSkeleton({ embedded = false }: { embedded?: boolean } = {}) {
-  const body = (
-    <div className="space-y-3 py-2" aria-busy="true">
-      <div className="flex justify-end">
-        <Skeleton className="h-11 w-[min(240px,70%)] rounded-3xl bg-muted/30" />
-      </div>
-      <div className="flex justify-start">
-        <Skeleton className="h-16 w-[min(340px,85%)] rounded-3xl bg-muted/30" />
-      </div>
-      <div className="flex justify-end">
-        <Skeleton className="h-11 w-[min(180px,55%)] rounded-3xl bg-muted/30" />
-      </div>
-    </div>
-  );
-
-  if (embedded) return body;
+type ReplyFeedback = "like" | "dislike" | "";
 
-  return (
-    <div className="page-surface" aria-busy="true">
-      <Container size="max-w-4xl" className="page-pad-compact">
-        {body}
-      </Container>
-    </div>
-  );
-}
+const BOTTOM_THRESHOLD = 32;
 
 interface DocBlock {
   id?: string;
@@ -122,6 +107,14 @@ function parseIntSafe(v: unknown, def = 0) {
   return Number.isFinite(n) ? n : def;
 }
 
+const THREAD_SSE_EVENTS = [
+  "JobCreated",
+  "ChatMessageCreated",
+  "ChatMessageDone",
+  "ChatMessageDelta",
+  "ChatMessageError",
+] as const;
+
 function parseDeltaState(meta: Record<string, unknown> | null | undefined): DeltaState {
   const attempt = parseIntSafe(meta?.attempt, 0);
   const deltaSeq = parseIntSafe(meta?.delta_seq, 0);
@@ -315,10 +308,33 @@ function GenerationCard({
   );
 }
 
+function excerptHref(excerpt: LessonExcerpt) {
+  return `/path-nodes/${excerpt.path_node_id}#block-${encodeURIComponent(excerpt.block_id)}`;
+}
+
+/** Link back to the lesson passage a question was asked about; the lesson emphasizes the quote on arrival. */
+function ExcerptLink({ excerpt, label }: { excerpt: LessonExcerpt; label: string }) {
+  return (
+    <Link
+      to={excerptHref(excerpt)}
+      state={{ excerpt: { blockId: excerpt.block_id, quote: excerpt.quote } }}
+      className="inline-flex items-center gap-1 text-xs font-medium text-muted-foreground underline-offset-4 hover:text-foreground hover:underline"
+    >
+      <CornerUpLeft className="h-3.5 w-3.5" />
+      {label}
+    </Link>
+  );
+}
+
 type ChatThreadPageProps = {
   embedded?: boolean;
   threadId?: string | null;
-  blockContext?: { nodeId?: string | null; blockId?: string | null; blockType?: string | null } | null;
+  blockContext?: {
+    nodeId?: string | null;
+    blockId?: string | null;
+    blockType?: string | null;
+    quote?: string | null;
+  } | null;
 };
 
 export default function ChatThreadPage({ embedded = false, threadId: threadIdProp, blockContext }: ChatThreadPageProps) {
@@ -330,7 +346,6 @@ export default function ChatThreadPage({ embedded = false, threadId: threadIdPro
   const { t } = useI18n();
 
   const { user } = useUser();
-  const { lastMessage } = useSSEContext();
   const { setActiveJobId, openForJob, items, activeJobId, activeJob, activeJobStatus } = useActivityPanel();
 
   const [loading, setLoading] = useState(false);
@@ -350,6 +365,13 @@ export default function ChatThreadPage({ embedded = false, threadId: threadIdPro
   const [revisionError, setRevisionError] = useState("");
   const [revisionQueued, setRevisionQueued] = useState(false);
   const [showScrollToBottom, setShowScrollToBottom] = useState(false);
+  // Votes given on this device, "" for a cleared one; they win over what the message metadata says.
+  const [localFeedback, setLocalFeedback] = useState<Record<string, ReplyFeedback>>({});
+  // reply id -> first reply of its turn, for regenerations whose metadata has not arrived yet.
+  const [localVariantRoots, setLocalVariantRoots] = useState<Record<string, string>>({});
+  const [selectedVariant, setSelectedVariant] = useState<Record<string, number>>({});
+  const [regeneratingRoot, setRegeneratingRoot] = useState("");
+  const [shareReplyId, setShareReplyId] = useState("");
 
   const [pathCache, setPathCache] = useState<Record<string, Path | null>>({});
   const pathCacheRef = useRef<Record<string, Path | null>>({});
@@ -646,14 +668,11 @@ export default function ChatThreadPage({ embedded = false, threadId: threadIdPro
   }, [messages]);
 
   // Apply SSE chat events for this thread.
-  useEffect(() => {
-    if (!lastMessage) return;
-    if (!user?.id) return;
-    if (lastMessage.channel !== user.id) return;
+  useSSEEvent(THREAD_SSE_EVENTS, user?.id, (msg) => {
     if (!threadId) return;
 
-    const event = String(lastMessage.event || "");
-    const data = (lastMessage.data || {}) as Record<string, unknown>;
+    const event = String(msg.event || "");
+    const data = (msg.data || {}) as Record<string, unknown>;
     const tid = String(data.thread_id ?? data.threadId ?? "");
     if (tid && tid !== String(threadId)) return;
 
@@ -704,7 +723,7 @@ export default function ChatThreadPage({ embedded = false, threadId: threadIdPro
       });
       return;
     }
-	  }, [lastMessage, user?.id, threadId, t]);
+	  });
 
   const hasStreaming = useMemo(
     () => (messages || []).some((m) => String(m?.status || "").toLowerCase() === "streaming"),
@@ -1023,6 +1042,158 @@ export default function ChatThreadPage({ embedded = false, threadId: threadIdPro
     [threadId, scrollToBottom, t]
   );
 
+  const replyVariants = useMemo(
+    () => groupReplyVariants(messages || [], localVariantRoots),
+    [localVariantRoots, messages]
+  );
+
+  // Replies to a question about a lesson excerpt link back to that passage.
+  const replyExcerpts = useMemo(() => {
+    const out = new Map<string, LessonExcerpt>();
+    let current: LessonExcerpt | null = null;
+    for (const msg of messages || []) {
+      const role = String(msg?.role || "").toLowerCase();
+      if (role === "user") {
+        current = parseLessonExcerpt(msg?.metadata);
+        continue;
+      }
+      const own = parseLessonExcerpt(msg?.metadata) ?? current;
+      if (own) out.set(String(msg.id || ""), own);
+    }
+    return out;
+  }, [messages]);
+
+  const handleCopyReply = useCallback((msg: ChatMessageItem) => {
+    const content = String(msg?.content || "").trim();
+    if (!content) return;
+    void navigator.clipboard.writeText(content).catch((err) => {
+      console.warn("[ChatThreadPage] copy failed:", err);
+    });
+  }, []);
+
+  const feedbackStorageKey = threadId ? `chatReplyFeedback:${threadId}` : "";
+
+  useEffect(() => {
+    setLocalFeedback({});
+    if (!feedbackStorageKey) return;
+    try {
+      const raw = localStorage.getItem(feedbackStorageKey);
+      if (!raw) return;
+      const parsed = JSON.parse(raw);
+      if (parsed && typeof parsed === "object") {
+        setLocalFeedback(parsed);
+      }
+    } catch {
+      // ignore storage errors
+    }
+  }, [feedbackStorageKey]);
+
+  useEffect(() => {
+    if (!feedbackStorageKey) return;
+    try {
+      localStorage.setItem(feedbackStorageKey, JSON.stringify(localFeedback));
+    } catch {
+      // ignore storage errors
+    }
+  }, [feedbackStorageKey, localFeedback]);
+
+  const messageFeedback = useMemo(() => {
+    const out: Record<string, ReplyFeedback> = {};
+    for (const msg of messages || []) {
+      const id = String(msg?.id || "");
+      const stored = stringFromMetadata(msg?.metadata, ["feedback", "user_feedback"]);
+      if (id && (stored === "like" || stored === "dislike")) out[id] = stored;
+    }
+    for (const [id, value] of Object.entries(localFeedback)) {
+      if (value) out[id] = value;
+      else delete out[id];
+    }
+    return out;
+  }, [localFeedback, messages]);
+
+  const handleReplyFeedback = useCallback(
+    (msg: ChatMessageItem, value: "like" | "dislike") => {
+      const messageId = String(msg?.id || "");
+      if (!messageId) return;
+      const previous = messageFeedback[messageId] || "";
+      const next = previous === value ? "" : value;
+      setLocalFeedback((prev) => ({ ...prev, [messageId]: next }));
+      // Clearing is sent too, so the backend drops the earlier vote instead of keeping it.
+      queueEvent({
+        type: next === "like" ? "feedback_thumbs_up" : next === "dislike" ? "feedback_thumbs_down" : "feedback_cleared",
+        pathId: thread?.pathId ?? undefined,
+        data: {
+          source: "chat_message",
+          thread_id: threadId,
+          message_id: messageId,
+          variant_of: variantRootId(msg, localVariantRoots),
+          ...(next ? {} : { previous }),
+        },
+      });
+    },
+    [localVariantRoots, messageFeedback, thread?.pathId, threadId]
+  );
+
+  const handleRegenerate = useCallback(
+    async (msg: ChatMessageItem) => {
+      if (!threadId || regeneratingRoot) return;
+      const root = variantRootId(msg, localVariantRoots);
+      const variants = replyVariants.get(root) || [msg];
+      const prompt = promptForReply(messages || [], variants[0]?.seq || msg.seq || 0);
+      const promptText = String(prompt?.content || "").trim();
+      if (!promptText) return;
+
+      setSendError("");
+      setRegeneratingRoot(root);
+      try {
+        // One key per (turn, variant number): retries of the same click never fork extra variants.
+        const out = await sendChatMessage(threadId, promptText, {
+          idempotencyKey: `regenerate:${root}:${variants.length}`,
+          regenerateMessageId: root,
+        });
+        const reply = out?.assistantMessage ?? null;
+        if (reply) {
+          if (reply.id !== root) {
+            setLocalVariantRoots((prev) => ({ ...prev, [reply.id]: root }));
+          }
+          setMessages((prev) => upsertByID(prev, reply));
+          setSelectedVariant((prev) => {
+            const next = { ...prev };
+            delete next[root];
+            return next;
+          });
+        }
+        queueEvent({
+          type: "chat_message_regenerated",
+          pathId: thread?.pathId ?? undefined,
+          data: { thread_id: threadId, message_id: String(msg.id || ""), variant_of: root },
+        });
+      } catch (err) {
+        console.error("[ChatThreadPage] regenerate failed:", err);
+        setSendError(t("chat.regenerate.failed"));
+      } finally {
+        setRegeneratingRoot("");
+      }
+    },
+    [localVariantRoots, messages, regeneratingRoot, replyVariants, t, thread?.pathId, threadId]
+  );
+
+  const stepVariant = useCallback((root: string, index: number, count: number) => {
+    const clamped = Math.max(0, Math.min(count - 1, index));
+    setSelectedVariant((prev) => ({ ...prev, [root]: clamped }));
+  }, []);
+
+  const shareReply = useMemo(
+    () => (shareReplyId ? (messages || []).find((m) => String(m?.id || "") === shareReplyId) ?? null : null),
+    [messages, shareReplyId]
+  );
+  const sharePrompt = useMemo(() => {
+    if (!shareReply) return null;
+    const root = variantRootId(shareReply, localVariantRoots);
+    const first = replyVariants.get(root)?.[0] ?? shareReply;
+    return promptForReply(messages || [], first.seq || 0);
+  }, [localVariantRoots, messages, replyVariants, shareReply]);
+
   const renderMessageContent = useCallback((msg: ChatMessageItem): React.ReactNode => {
     const role = String(msg?.role || "").toLowerCase();
     const content = String(msg?.content || "");
@@ -1118,7 +1289,11 @@ export default function ChatThreadPage({ embedded = false, threadId: threadIdPro
   	                      {t("chat.unitLabel", { title: blockNode.title })}
   	                    </div>
   	                  ) : null}
-                    {blockSummaryContext?.summary ? (
+                    {blockContext?.quote ? (
+                      <div className="mt-2 text-xs text-muted-foreground">
+                        “{clampSnippet(blockContext.quote, 280)}”
+                      </div>
+                    ) : blockSummaryContext?.summary ? (
                       <div className="mt-2 text-xs text-muted-foreground">
                         “{blockSummaryContext.summary}”
                       </div>
@@ -1272,6 +1447,42 @@ export default function ChatThreadPage({ embedded = false, threadId: threadIdPro
                 );
               }
 
+                if (variant === "user") {
+                  const userExcerpt = parseLessonExcerpt(msg?.metadata);
+                  return (
+                    <m.div
+                      key={msg.id}
+                      initial={shouldAnimate ? "initial" : false}
+                      animate="animate"
+                      variants={nbFadeUp}
+                      transition={nbTransitions.micro}
+                      style={{ contentVisibility: "auto", containIntrinsicSize: "120px" }}
+                    >
+                      <ChatMessage variant={variant}>
+                        {userExcerpt ? (
+                          <div className="space-y-2">
+                            <blockquote className="border-s-2 border-current/30 ps-3 text-[0.92em] opacity-80 whitespace-pre-wrap">
+                              {clampSnippet(userExcerpt.quote, 600)}
+                            </blockquote>
+                            <div>{renderMessageContent(msg)}</div>
+                          </div>
+                        ) : (
+                          renderMessageContent(msg)
+                        )}
+                      </ChatMessage>
+                    </m.div>
+                  );
+                }
+
+                // Regenerated replies render in their turn's slot; the pager picks the variant.
+                const root = variantRootId(msg, localVariantRoots);
+                const group = replyVariants.get(root) || [msg];
+                if (String(group[0]?.id || "") !== String(msg.id || "")) return null;
+                const variantIndex = Math.min(selectedVariant[root] ?? group.length - 1, group.length - 1);
+                const shown = group[variantIndex] ?? msg;
+                const shownStatus = String(shown?.status || "").toLowerCase();
+                const canAct = shownStatus !== "streaming" && Boolean(String(shown?.content || "").trim());
+
                 return (
                   <m.div
                     key={msg.id}
@@ -1281,8 +1492,30 @@ export default function ChatThreadPage({ embedded = false, threadId: threadIdPro
                     transition={nbTransitions.micro}
                     style={{ contentVisibility: "auto", containIntrinsicSize: "120px" }}
                   >
-                    <ChatMessage variant={variant}>
-                      {renderMessageContent(msg)}
+                    <ChatMessage
+                      variant={variant}
+                      showActions={canAct || group.length > 1}
+                      feedback={messageFeedback[String(shown.id || "")] || ""}
+                      regenerating={regeneratingRoot === root}
+                      variantIndex={variantIndex}
+                      variantCount={group.length}
+                      onPreviousVariant={() => stepVariant(root, variantIndex - 1, group.length)}
+                      onNextVariant={() => stepVariant(root, variantIndex + 1, group.length)}
+                      onCopy={() => handleCopyReply(shown)}
+                      onLike={() => handleReplyFeedback(shown, "like")}
+                      onDislike={() => handleReplyFeedback(shown, "dislike")}
+                      onShare={() => setShareReplyId(String(shown.id || ""))}
+                      onRegenerate={() => void handleRegenerate(shown)}
+                    >
+                      {renderMessageContent(shown)}
+                      {replyExcerpts.get(String(msg.id || "")) ? (
+                        <div className="mt-3">
+                          <ExcerptLink
+                            excerpt={replyExcerpts.get(String(msg.id || "")) as LessonExcerpt}
+                            label={t("chat.excerpt.backToPassage")}
+                          />
+                        </div>
+                      ) : null}
                     </ChatMessage>
                   </m.div>
                 );
@@ -1337,6 +1570,17 @@ export default function ChatThreadPage({ embedded = false, threadId: threadIdPro
         </div>
       </div>
 
+      <ChatShareDialog
+        open={Boolean(shareReply)}
+        onOpenChange={(open) => {
+          if (!open) setShareReplyId("");
+        }}
+        threadId={threadId}
+        threadTitle={thread?.title}
+        prompt={sharePrompt}
+        reply={shareReply}
+      />
+
 	      <Dialog open={revisionDialogOpen} onOpenChange={(open) => !revisionSubmitting && setRevisionDialogOpen(open)}>
 	        <DialogContent className="max-w-2xl">
 	          <DialogHeader>
@@ -0,0 +1,28 @@
+import { Container } from "@/shared/layout/Container";
+import { Skeleton } from "@/shared/ui/skeleton";
+
+export function ChatThreadPageSkeleton({ embedded = false }: { embedded?: boolean } = {}) {
+  const body = (
+    <div className="space-y-3 py-2" aria-busy="true">
+      <div className="flex justify-end">
+        <Skeleton className="h-11 w-[min(240px,70%)] rounded-3xl bg-muted/30" />
+      </div>
+      <div className="flex justify-start">
+        <Skeleton className="h-16 w-[min(340px,85%)] rounded-3xl bg-muted/30" />
+      </div>
+      <div className="flex justify-end">
+        <Skeleton className="h-11 w-[min(180px,55%)] rounded-3xl bg-muted/30" />
+      </div>
+    </div>
+  );
+
+  if (embedded) return body;
+
+  return (
+    <div className="page-surface" aria-busy="true">
+      <Container size="max-w-4xl" className="page-pad-compact">
+        {body}
+      </Container>
+    </div>
+  );
+}
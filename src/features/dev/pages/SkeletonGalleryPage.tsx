@@ -4,14 +4,14 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/shared/ui/tabs";
 import { cn } from "@/shared/lib/utils";
 import { Skeleton, SkeletonCircle, SkeletonHeading, SkeletonPill, SkeletonText } from "@/shared/ui/skeleton";
 
-import { PathsPageSkeleton } from "@/features/paths/pages/PathsPage";
-import { FilesPageSkeleton } from "@/features/files/pages/FilesPage";
-import { HomePageSkeleton } from "@/features/home/pages/HomePage";
-import { ChatThreadPageSkeleton } from "@/features/chat/pages/ChatThreadPage";
-import { PathPageSkeleton } from "@/features/paths/pages/PathPage";
-import { PathNodePageSkeleton } from "@/features/paths/pages/PathNodePage";
-import { ActivityPageSkeleton } from "@/features/activity/pages/ActivityPage";
-import { PathBuildPageSkeleton } from "@/features/paths/pages/PathBuildPage";
+import { PathsPageSkeleton } from "@/features/paths/pages/PathsPageSkeleton";
+import { FilesPageSkeleton } from "@/features/files/pages/FilesPageSkeleton";
+import { HomePageSkeleton } from "@/features/home/pages/HomePageSkeleton";
+import { ChatThreadPageSkeleton } from "@/features/chat/pages/ChatThreadPageSkeleton";
+import { PathPageSkeleton } from "@/features/paths/pages/PathPageSkeleton";
+import { PathNodePageSkeleton } from "@/features/paths/pages/PathNodePageSkeleton";
+import { ActivityPageSkeleton } from "@/features/activity/pages/ActivityPageSkeleton";
+import { PathBuildPageSkeleton } from "@/features/paths/pages/PathBuildPageSkeleton";
 import { AboutPageSkeleton } from "@/features/marketing/pages/AboutPage";
 import { FeaturesPageSkeleton } from "@/features/marketing/pages/FeaturesPage";
 import { PricingPageSkeleton } from "@/features/marketing/pages/PricingPage";
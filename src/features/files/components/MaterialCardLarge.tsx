@@ -9,7 +9,7 @@ import {
   DropdownMenuTrigger,
 } from "@/shared/ui/dropdown-menu";
 import type { MaterialFile } from "@/shared/types/models";
-import { getAccessToken } from "@/shared/services/StorageService";
+import { materialFileThumbnailUrl, materialFileViewUrl } from "@/shared/api/MaterialService";
 import { cn } from "@/shared/lib/utils";
 import { useI18n } from "@/app/providers/I18nProvider";
 import { Skeleton, SkeletonPill, SkeletonText } from "@/shared/ui/skeleton";
@@ -111,8 +111,6 @@ export function MaterialCardLarge({ file }: MaterialCardLargeProps) {
   const titleWrapRef = useRef<HTMLDivElement | null>(null);
   const titleMeasureRef = useRef<HTMLDivElement | null>(null);
 
-  const apiBase = (import.meta.env.VITE_API_BASE_URL || "/api").replace(/\/$/, "");
-  const token = getAccessToken();
 
   useEffect(() => {
     setThumbError(false);
@@ -120,17 +118,13 @@ export function MaterialCardLarge({ file }: MaterialCardLargeProps) {
 
   const fileUrl = useMemo(() => {
     if (!file?.id) return "";
-    const baseUrl = `${apiBase}/material-files/${file.id}/view`;
-    return token ? `${baseUrl}?token=${encodeURIComponent(token)}` : baseUrl;
-  }, [apiBase, file?.id, token]);
+    return materialFileViewUrl(file.id);
+  }, [file?.id]);
 
   const thumbUrl = useMemo(() => {
     if (!file?.id) return "";
-    const baseUrl = `${apiBase}/material-files/${file.id}/thumbnail`;
-    const url = token ? `${baseUrl}?token=${encodeURIComponent(token)}` : baseUrl;
-    const version = file.updatedAt || file.createdAt || "";
-    return version ? `${url}${url.includes("?") ? "&" : "?"}v=${encodeURIComponent(version)}` : url;
-  }, [apiBase, file?.createdAt, file?.id, file?.updatedAt, token]);
+    return materialFileThumbnailUrl(file.id, file.updatedAt || file.createdAt || "");
+  }, [file?.createdAt, file?.id, file?.updatedAt]);
 
   if (!file) return null;
 
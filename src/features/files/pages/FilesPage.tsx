@@ -6,40 +6,10 @@ import { useMaterials } from "@/app/providers/MaterialProvider";
 import { EmptyContent } from "@/shared/components/EmptyContent";
 import { Container } from "@/shared/layout/Container";
 import type { MaterialFile } from "@/shared/types/models";
-import { MaterialCardLarge, MaterialCardLargeSkeleton } from "@/features/files/components/MaterialCardLarge";
+import { MaterialCardLarge } from "@/features/files/components/MaterialCardLarge";
 import { nbFadeUp, nbTransitions } from "@/shared/motion/presets";
 import { useI18n } from "@/app/providers/I18nProvider";
-import { Skeleton, SkeletonText } from "@/shared/ui/skeleton";
-
-export function FilesPageSkeleton({ embedded = false }: { embedded?: boolean } = {}) {
-  const body = (
-    <>
-      <div className="mb-10 space-y-3">
-        <Skeleton className="h-10 w-56 rounded-full" />
-        <SkeletonText lines={2} className="max-w-lg" />
-      </div>
-
-      <div className="grid gap-4 sm:gap-6 grid-cols-1 xs:grid-cols-[repeat(auto-fill,minmax(min(100%,280px),360px))] sm:grid-cols-[repeat(auto-fill,minmax(min(100%,320px),360px))]">
-        {Array.from({ length: 6 }).map((_, i) => (
-          // eslint-disable-next-line react/no-array-index-key
-          <MaterialCardLargeSkeleton key={i} />
-        ))}
-      </div>
-    </>
-  );
-
-  if (embedded) {
-    return <div aria-busy="true">{body}</div>;
-  }
-
-  return (
-    <div className="page-surface" aria-busy="true">
-      <Container size="app" className="page-pad">
-        {body}
-      </Container>
-    </div>
-  );
-}
+import { FilesPageSkeleton } from "@/features/files/pages/FilesPageSkeleton";
 
 export default function FilesPage() {
   const { files, loading } = useMaterials();
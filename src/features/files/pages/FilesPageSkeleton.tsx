@@ -0,0 +1,33 @@
+import { Container } from "@/shared/layout/Container";
+import { Skeleton, SkeletonText } from "@/shared/ui/skeleton";
+import { MaterialCardLargeSkeleton } from "@/features/files/components/MaterialCardLarge";
+
+export function FilesPageSkeleton({ embedded = false }: { embedded?: boolean } = {}) {
+  const body = (
+    <>
+      <div className="mb-10 space-y-3">
+        <Skeleton className="h-10 w-56 rounded-full" />
+        <SkeletonText lines={2} className="max-w-lg" />
+      </div>
+
+      <div className="grid gap-4 sm:gap-6 grid-cols-1 xs:grid-cols-[repeat(auto-fill,minmax(min(100%,280px),360px))] sm:grid-cols-[repeat(auto-fill,minmax(min(100%,320px),360px))]">
+        {Array.from({ length: 6 }).map((_, i) => (
+          // eslint-disable-next-line react/no-array-index-key
+          <MaterialCardLargeSkeleton key={i} />
+        ))}
+      </div>
+    </>
+  );
+
+  if (embedded) {
+    return <div aria-busy="true">{body}</div>;
+  }
+
+  return (
+    <div className="page-surface" aria-busy="true">
+      <Container size="app" className="page-pad">
+        {body}
+      </Container>
+    </div>
+  );
+}
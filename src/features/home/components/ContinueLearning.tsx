@@ -0,0 +1,170 @@
+import { useMemo } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { BookOpen, History } from "lucide-react";
+import { Button } from "@/shared/ui/button";
+import { useI18n } from "@/app/providers/I18nProvider";
+import { useLessonResume } from "@/shared/hooks/useLessonResume";
+import { isLessonFinished, resolveResumeConflict } from "@/shared/services/LessonResume";
+import type { ResumePosition } from "@/shared/services/LessonResume";
+import { useResumeDeviceLabel } from "@/features/paths/components/LessonResumeBanner";
+import { cn } from "@/shared/lib/utils";
+import type { Path } from "@/shared/types/models";
+
+const MAX_PATHS = 6;
+const MAX_LESSONS_PER_PATH = 3;
+
+type PathGroup = { pathId: string; title: string; lessons: ResumePosition[] };
+
+function LessonProgress({ position }: { position: ResumePosition }) {
+  const { t } = useI18n();
+  const pct = Math.round(position.progress * 100);
+  return (
+    <div className="flex items-center gap-2">
+      <div className="h-1 flex-1 overflow-hidden rounded-full bg-muted">
+        <div className="h-full rounded-full bg-primary" style={{ width: `${pct}%` }} />
+      </div>
+      <span className="shrink-0 text-[11px] tabular-nums text-muted-foreground">
+        {t("continueLearning.progress", { pct })}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * Home's "pick up where you left off" banner for the most recent unfinished lesson, and a rail of
+ * the most recent unfinished lessons per path. Positions sync across devices through session state.
+ */
+export function ContinueLearning({ paths, className }: { paths: Path[]; className?: string }) {
+  const { t } = useI18n();
+  const navigate = useNavigate();
+  const deviceLabel = useResumeDeviceLabel();
+  const { positions, conflicts } = useLessonResume();
+
+  const pathTitles = useMemo(() => new Map(paths.map((p) => [String(p.id), p.title])), [paths]);
+
+  // Lessons of deleted paths (or ones this account can no longer see) are left out.
+  const unfinished = useMemo(
+    () =>
+      positions.filter(
+        (pos) => pos.pathId && pathTitles.has(pos.pathId) && pos.blockId && !isLessonFinished(pos)
+      ),
+    [pathTitles, positions]
+  );
+
+  const groups = useMemo<PathGroup[]>(() => {
+    const byPath = new Map<string, PathGroup>();
+    // Positions are newest first, so groups and their lessons come out in recency order.
+    for (const pos of unfinished) {
+      const pathId = String(pos.pathId);
+      const group = byPath.get(pathId) ?? { pathId, title: pathTitles.get(pathId) || "", lessons: [] };
+      if (group.lessons.length < MAX_LESSONS_PER_PATH) group.lessons.push(pos);
+      byPath.set(pathId, group);
+    }
+    return Array.from(byPath.values()).slice(0, MAX_PATHS);
+  }, [pathTitles, unfinished]);
+
+  const latest = unfinished[0] ?? null;
+  const conflict = latest ? conflicts.find((c) => c.pathNodeId === latest.pathNodeId) ?? null : null;
+
+  if (!latest) return null;
+
+  const open = (pathNodeId: string) => navigate(`/path-nodes/${pathNodeId}`, { state: { resume: true } });
+  const choose = (keep: "local" | "remote") => {
+    resolveResumeConflict(latest.pathNodeId, keep);
+    open(latest.pathNodeId);
+  };
+  const where = (pos: ResumePosition) => t("resume.where.percent", { pct: Math.round(pos.scrollPercent) });
+  const from = deviceLabel(latest);
+
+  return (
+    <section className={cn("space-y-5 sm:space-y-6", className)}>
+      <div className="flex flex-col gap-3 rounded-xl sm:rounded-2xl border border-border/60 bg-card/70 p-4 shadow-sm sm:flex-row sm:items-center">
+        <div className="flex min-w-0 flex-1 items-start gap-3">
+          <History className="mt-0.5 h-5 w-5 shrink-0 text-muted-foreground" aria-hidden="true" />
+          <div className="min-w-0">
+            <div className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{t("resume.title")}</div>
+            <div className="truncate text-base font-medium text-foreground">{latest.title || t("continueLearning.untitled")}</div>
+            <div className="text-xs text-muted-foreground">
+              {conflict
+                ? conflict.remote.scrollPercent > conflict.local.scrollPercent
+                  ? t("resume.conflict.aheadTitle", { device: deviceLabel(conflict.remote) ?? t("resume.device.unknown") })
+                  : t("resume.conflict.title")
+                : [pathTitles.get(String(latest.pathId)), where(latest), from ? t("resume.lastReadOn", { device: from }) : ""]
+                    .filter(Boolean)
+                    .join(" · ")}
+            </div>
+          </div>
+        </div>
+        {conflict ? (
+          <div className="flex flex-col gap-2 sm:items-end">
+            <Button
+              size="sm"
+              className="h-auto min-h-8 whitespace-normal py-1.5 text-start"
+              onClick={() => choose("remote")}
+            >
+              {t("resume.conflict.remote", {
+                device: deviceLabel(conflict.remote) ?? t("resume.device.unknown"),
+                where: where(conflict.remote),
+              })}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-auto min-h-8 whitespace-normal py-1.5 text-start"
+              onClick={() => choose("local")}
+            >
+              {t("resume.conflict.local", { where: where(conflict.local) })}
+            </Button>
+          </div>
+        ) : (
+          <Button className="shrink-0" onClick={() => open(latest.pathNodeId)}>
+            {t("resume.action")}
+          </Button>
+        )}
+      </div>
+
+      {groups.length > 0 ? (
+        <div className="space-y-3">
+          <h2 className="text-xs sm:text-sm font-medium uppercase tracking-wide text-muted-foreground">
+            {t("continueLearning.title")}
+          </h2>
+          <ul className="-mx-1 flex snap-x gap-3 overflow-x-auto px-1 pb-2">
+            {groups.map((group) => (
+              <li
+                key={group.pathId}
+                className="w-72 shrink-0 snap-start rounded-xl border border-border/60 bg-background p-3 sm:w-80"
+              >
+                <Link
+                  to={`/paths/${group.pathId}`}
+                  className="block truncate text-sm font-medium text-foreground hover:underline underline-offset-4"
+                >
+                  {group.title}
+                </Link>
+                <ul className="mt-2 space-y-1">
+                  {group.lessons.map((lesson) => (
+                    <li key={lesson.pathNodeId}>
+                      <Link
+                        to={`/path-nodes/${lesson.pathNodeId}`}
+                        state={{ resume: true }}
+                        className={cn(
+                          "block space-y-1.5 rounded-lg px-2 py-2 -mx-2",
+                          "nb-motion-fast motion-reduce:transition-none hover:bg-muted/40"
+                        )}
+                      >
+                        <span className="flex items-center gap-2 text-sm text-foreground/90">
+                          <BookOpen className="h-3.5 w-3.5 shrink-0 text-muted-foreground" aria-hidden="true" />
+                          <span className="truncate">{lesson.title || t("continueLearning.untitled")}</span>
+                        </span>
+                        <LessonProgress position={lesson} />
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </section>
+  );
+}
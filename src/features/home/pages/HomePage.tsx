@@ -3,28 +3,29 @@ import { createPortal } from "react-dom";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { NavigationTabs } from "@/features/home/components/NavigationTabs";
 import { HomeTabContent } from "@/features/home/components/HomeTabContent";
+import { ContinueLearning } from "@/features/home/components/ContinueLearning";
 import { AnimatedChatbar } from "@/features/chat/components/AnimatedChatbar";
 import { useAuth } from "@/app/providers/AuthProvider";
 import { useUser } from "@/app/providers/UserProvider";
 import { usePaths } from "@/app/providers/PathProvider";
 import { useMaterials } from "@/app/providers/MaterialProvider";
-import { useSSEContext } from "@/app/providers/SSEProvider";
+import { useSSEEvent } from "@/app/providers/SSEProvider";
 import { useHomeChatbarDock } from "@/app/providers/HomeChatbarDockProvider";
 import { Bookmark, CheckCircle2, Clock, History, Home } from "lucide-react";
 import { Container } from "@/shared/layout/Container";
 import { Button } from "@/shared/ui/button";
-import { Skeleton } from "@/shared/ui/skeleton";
 import { cn } from "@/shared/lib/utils";
 import { getLibraryTaxonomySnapshot } from "@/shared/api/LibraryService";
 import { getHomeSectionIcon } from "@/features/home/lib/homeSectionIcons";
 import { queryKeys } from "@/shared/query/queryKeys";
 import { useI18n } from "@/app/providers/I18nProvider";
 import type { HomeTabKey } from "@/features/home/components/HomeTabContent";
-import type { JobEventPayload, LibraryTaxonomySnapshotV1, SseMessage } from "@/shared/types/models";
+import type { JobEventPayload, LibraryTaxonomySnapshotV1 } from "@/shared/types/models";
+import { HomePageSkeleton } from "@/features/home/pages/HomePageSkeleton";
 
-function asJobPayload(value: SseMessage["data"]): JobEventPayload | null {
+function asJobPayload(value: JobEventPayload | null): JobEventPayload | null {
   if (!value || typeof value !== "object") return null;
-  return value as JobEventPayload;
+  return value;
 }
 
 type HomeTopicFocus = { nodeId: string; title: string; iconKey?: string };
@@ -69,38 +70,6 @@ function HomeTabTopicIcon({
   );
 }
 
-export function HomePageSkeleton({ embedded = false }: { embedded?: boolean } = {}) {
-  const body = (
-    <>
-      <Container size="app" className="page-pad">
-        <div className="flex flex-col gap-3 items-center text-center">
-          <Skeleton className="h-12 w-[min(560px,85vw)] rounded-2xl bg-muted/30" />
-          <Skeleton className="h-5 w-[min(720px,92vw)] rounded-full bg-muted/30" />
-        </div>
-      </Container>
-      <Container size="app" className="page-pad">
-        <div className="space-y-4">
-          <Skeleton className="h-14 w-full rounded-3xl bg-muted/20" />
-          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-            {Array.from({ length: 6 }).map((_, i) => (
-              // eslint-disable-next-line react/no-array-index-key
-              <Skeleton key={i} className="h-36 w-full rounded-2xl bg-muted/20" />
-            ))}
-          </div>
-        </div>
-      </Container>
-    </>
-  );
-
-  if (embedded) return <div aria-busy="true">{body}</div>;
-
-  return (
-    <div className="page-surface" aria-busy="true">
-      {body}
-    </div>
-  );
-}
-
 export default function HomePage() {
   const { isAuthenticated, logout } = useAuth();
   const { user, loading: userLoading, reload: reloadUser } = useUser();
@@ -109,7 +78,6 @@ export default function HomePage() {
 
   const { paths, loading: pathsLoading } = usePaths();
   const { files: materialFiles, loading: materialsLoading } = useMaterials();
-  const { lastMessage } = useSSEContext();
   const { docked: chatbarDocked, setDocked: setChatbarDocked } = useHomeChatbarDock();
   const [navbarTabsSlotEl, setNavbarTabsSlotEl] = useState<HTMLElement | null>(() => {
     if (typeof document === "undefined") return null;
@@ -249,23 +217,17 @@ export default function HomePage() {
   }, [isAuthenticated, queryClient, taxonomyReloadKey]);
 
   // Taxonomy updates are produced by async jobs; refresh the snapshot on taxonomy job completion.
-  useEffect(() => {
+  useSSEEvent("JobDone", user?.id, (msg) => {
     if (!isAuthenticated) return;
-    if (!user?.id) return;
-    if (!lastMessage) return;
-    if (lastMessage.channel !== user.id) return;
-
-    const event = String(lastMessage.event || "").toLowerCase();
-    if (event !== "jobdone") return;
 
-    const payload = asJobPayload(lastMessage.data);
+    const payload = asJobPayload(msg.data);
     if (!payload) return;
     const job = payload.job as { job_type?: string; jobType?: string } | undefined;
     const jobType = String(payload.job_type ?? job?.job_type ?? job?.jobType ?? "").toLowerCase();
     if (jobType !== "library_taxonomy_route" && jobType !== "library_taxonomy_refine") return;
 
     void queryClient.invalidateQueries({ queryKey: queryKeys.libraryTaxonomySnapshot(), exact: true });
-  }, [isAuthenticated, lastMessage, queryClient, user?.id]);
+  });
 
   useEffect(() => {
     if (typeof document === "undefined") return;
@@ -613,6 +575,9 @@ export default function HomePage() {
             }
           >
             <div ref={homeContentTopRef} className="scroll-mt-24" />
+            {activeTab === "home" && !homeTopicFocus ? (
+              <ContinueLearning paths={pathList} className="mb-8 sm:mb-10" />
+            ) : null}
             <HomeTabContent
               activeTab={activeTab}
               paths={pathList}
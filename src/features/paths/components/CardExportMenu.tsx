@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { Button } from "@/shared/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/shared/ui/dropdown-menu";
+import { useToast } from "@/shared/ui/toast";
+import { useI18n } from "@/app/providers/I18nProvider";
+import { exportCards, type CardExportFormat, type ExportCard } from "@/features/paths/lib/cardExport";
+import { cn } from "@/shared/lib/utils";
+
+const FORMATS: CardExportFormat[] = ["apkg", "anki-tsv", "csv"];
+
+/**
+ * "Export cards" dropdown. Cards are collected lazily on selection so the path page doesn't
+ * fetch every lesson doc until the learner actually exports.
+ */
+export function CardExportMenu({
+  getCards,
+  deckName,
+  fileBaseName,
+  size = "sm",
+  className,
+}: {
+  getCards: () => Promise<ExportCard[]> | ExportCard[];
+  deckName: string;
+  fileBaseName: string;
+  size?: "sm" | "icon";
+  className?: string;
+}) {
+  const { t } = useI18n();
+  const { push } = useToast();
+  const [busy, setBusy] = useState(false);
+
+  const runExport = async (format: CardExportFormat) => {
+    if (busy) return;
+    setBusy(true);
+    try {
+      const cards = await getCards();
+      if (cards.length === 0) {
+        push({ variant: "info", title: t("export.empty.title"), description: t("export.empty.message") });
+        return;
+      }
+      await exportCards(cards, format, { deckName, fileBaseName });
+      push({ variant: "success", title: t("export.done", { count: cards.length }) });
+    } catch (err) {
+      console.warn("[CardExportMenu] export failed:", err);
+      push({ variant: "error", title: t("export.failed") });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          size={size}
+          disabled={busy}
+          aria-label={t("export.cards")}
+          title={t("export.cards")}
+          className={cn(size === "sm" ? "h-9 sm:h-8 touch-manipulation" : "h-8 w-8", className)}
+        >
+          {busy ? (
+            <Loader2 className="h-4 w-4 animate-spin motion-reduce:animate-none" />
+          ) : (
+            <Download className="h-4 w-4" />
+          )}
+          {size === "sm" ? t("export.cards") : null}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>{t("export.cards")}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {FORMATS.map((format) => (
+          <DropdownMenuItem key={format} onSelect={() => void runExport(format)} className="flex-col items-start gap-0.5">
+            <span>{t(`export.format.${format}`)}</span>
+            <span className="text-xs text-muted-foreground">{t(`export.format.${format}.help`)}</span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
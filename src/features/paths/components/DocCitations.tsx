@@ -0,0 +1,180 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { ExternalLink, Quote } from "lucide-react";
+import { Button } from "@/shared/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/shared/ui/popover";
+import { cn } from "@/shared/lib/utils";
+import { useI18n } from "@/app/providers/I18nProvider";
+import type { CitationRefV1 } from "@/shared/types/nodeDocV1";
+
+const HOVER_CLOSE_DELAY_MS = 160;
+
+function safeString(v: unknown) {
+  return typeof v === "string" ? v : v == null ? "" : String(v);
+}
+
+function safeNumber(v: unknown): number {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+
+export function normalizeCitations(raw: unknown): CitationRefV1[] {
+  if (!Array.isArray(raw)) return [];
+  const out: CitationRefV1[] = [];
+  const seen = new Set<string>();
+  for (const item of raw) {
+    if (!item || typeof item !== "object" || Array.isArray(item)) continue;
+    const rec = item as Record<string, unknown>;
+    const chunkId = safeString(rec.chunk_id).trim();
+    if (!chunkId) continue;
+    const locRaw = rec.loc && typeof rec.loc === "object" ? (rec.loc as Record<string, unknown>) : {};
+    const loc = {
+      page: Math.max(0, Math.trunc(safeNumber(locRaw.page))),
+      start: safeNumber(locRaw.start),
+      end: safeNumber(locRaw.end),
+    };
+    const key = `${chunkId}:${loc.page}:${loc.start}:${loc.end}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push({ chunk_id: chunkId, quote: safeString(rec.quote).trim(), loc });
+  }
+  return out;
+}
+
+/**
+ * Deep link into the path materials tab for a citation. `PathPage` reads these
+ * params and hands them to `PathMaterialsView` as its focus target.
+ */
+export function buildCitationSourceHref(pathId: string, citation: CitationRefV1): string {
+  const params = new URLSearchParams();
+  params.set("view", "materials");
+  params.set("chunk", citation.chunk_id);
+  if (citation.loc?.page > 0) params.set("page", String(citation.loc.page));
+  const quote = safeString(citation.quote).trim();
+  if (quote) params.set("quote", quote.slice(0, 500));
+  return `/paths/${pathId}?${params.toString()}`;
+}
+
+function CitationMarker({
+  citation,
+  number,
+  onOpenSource,
+}: {
+  citation: CitationRefV1;
+  number: number;
+  onOpenSource?: (citation: CitationRefV1) => void;
+}) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const closeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const quote = safeString(citation.quote).trim();
+  const page = citation.loc?.page > 0 ? citation.loc.page : 0;
+
+  const cancelClose = useCallback(() => {
+    if (closeTimerRef.current) {
+      clearTimeout(closeTimerRef.current);
+      closeTimerRef.current = null;
+    }
+  }, []);
+
+  const scheduleClose = useCallback(() => {
+    cancelClose();
+    closeTimerRef.current = setTimeout(() => setOpen(false), HOVER_CLOSE_DELAY_MS);
+  }, [cancelClose]);
+
+  useEffect(() => cancelClose, [cancelClose]);
+
+  // Hover only opens for fine pointers; touch goes through the regular trigger toggle.
+  const onPointerEnter = (event: React.PointerEvent) => {
+    if (event.pointerType !== "mouse") return;
+    cancelClose();
+    setOpen(true);
+  };
+  const onPointerLeave = (event: React.PointerEvent) => {
+    if (event.pointerType !== "mouse") return;
+    scheduleClose();
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          aria-label={page ? t("docCitations.sourceWithPage", { number, page }) : t("docCitations.source", { number })}
+          onPointerEnter={onPointerEnter}
+          onPointerLeave={onPointerLeave}
+          className={cn(
+            "inline-flex h-5 min-w-5 items-center justify-center rounded-full border border-border/60 px-1.5",
+            "bg-muted/40 text-[10px] font-semibold tabular-nums text-muted-foreground",
+            "nb-motion-fast motion-reduce:transition-none hover:border-primary/40 hover:text-foreground",
+            "touch-manipulation focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring/50",
+            open && "border-primary/40 bg-primary/10 text-foreground"
+          )}
+        >
+          {number}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        side="top"
+        align="start"
+        onPointerEnter={onPointerEnter}
+        onPointerLeave={onPointerLeave}
+        onOpenAutoFocus={(event) => event.preventDefault()}
+      >
+        <div className="flex items-center justify-between gap-2 text-[11px] font-semibold uppercase tracking-wide text-muted-foreground">
+          <span className="inline-flex items-center gap-1.5">
+            <Quote className="h-3 w-3" />
+            {t("docCitations.source", { number })}
+          </span>
+          {page ? <span className="font-medium normal-case tracking-normal">{t("docCitations.page", { page })}</span> : null}
+        </div>
+        <blockquote
+          dir="auto"
+          className="mt-2 max-h-40 overflow-y-auto border-s-2 border-primary/40 ps-3 text-sm leading-relaxed text-foreground/90"
+        >
+          {quote || <span className="text-muted-foreground">{t("docCitations.noExcerpt")}</span>}
+        </blockquote>
+        {onOpenSource ? (
+          <Button
+            type="button"
+            size="sm"
+            variant="secondary"
+            className="mt-3 w-full"
+            onClick={() => {
+              setOpen(false);
+              onOpenSource(citation);
+            }}
+          >
+            <ExternalLink className="h-3.5 w-3.5" />
+            {t("docCitations.jumpToSource")}
+          </Button>
+        ) : null}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export function DocCitations({
+  citations,
+  onOpenSource,
+  className,
+}: {
+  citations: CitationRefV1[];
+  onOpenSource?: (citation: CitationRefV1) => void;
+  className?: string;
+}) {
+  const { t } = useI18n();
+  if (citations.length === 0) return null;
+  return (
+    <div className={cn("mt-2 flex flex-wrap items-center gap-1", className)}>
+      <span className="sr-only">{t("docCitations.sources")}</span>
+      {citations.map((c, idx) => (
+        <CitationMarker
+          key={`${c.chunk_id}:${c.loc.page}:${c.loc.start}:${idx}`}
+          citation={c}
+          number={idx + 1}
+          onOpenSource={onOpenSource}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from "react";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { Button } from "@/shared/ui/button";
+import { CodeBlock, InlineCode } from "@/shared/components/CodeBlock";
+import { registerReviewCard } from "@/shared/services/ReviewQueue";
+import { useI18n } from "@/app/providers/I18nProvider";
+import { cn } from "@/shared/lib/utils";
+import type { DrillPayloadV1 } from "@/shared/types/drillPayloadV1";
+
+const markdownCodeComponents = {
+  code({
+    inline,
+    className,
+    children,
+  }: {
+    inline?: boolean;
+    className?: string;
+    children?: React.ReactNode;
+  }) {
+    const raw = String(children || "");
+    const m = /language-([a-zA-Z0-9_-]+)/.exec(className || "");
+    const lang = m?.[1] || "";
+    if (inline) return <InlineCode>{raw}</InlineCode>;
+    return <CodeBlock language={lang}>{raw.replace(/\n$/, "")}</CodeBlock>;
+  },
+};
+
+export function FlashcardsDrill({
+  drill,
+  pathId,
+  pathNodeId,
+}: {
+  drill: DrillPayloadV1 | null;
+  pathId?: string;
+  pathNodeId?: string;
+}) {
+  const { t } = useI18n();
+  const cards = Array.isArray(drill?.cards) ? drill.cards : [];
+  const [idx, setIdx] = useState(0);
+  const [showBack, setShowBack] = useState(false);
+
+  useEffect(() => {
+    setIdx(0);
+    setShowBack(false);
+  }, [drill]);
+
+  // Flipping a card adds it to the cross-path review deck.
+  const revealedCard = showBack ? cards[Math.min(Math.max(idx, 0), cards.length - 1)] : null;
+  useEffect(() => {
+    if (!revealedCard) return;
+    registerReviewCard({
+      frontMd: String(revealedCard.front_md ?? ""),
+      backMd: String(revealedCard.back_md ?? ""),
+      source: "drill",
+      pathId: pathId || null,
+      pathNodeId: pathNodeId || null,
+      conceptKeys: Array.isArray(revealedCard.concept_keys) ? revealedCard.concept_keys : [],
+    });
+  }, [pathId, pathNodeId, revealedCard]);
+
+  if (cards.length === 0) {
+    return <div className="text-sm text-muted-foreground">{t("pathNode.drills.flashcards.empty")}</div>;
+  }
+
+  const card = cards[Math.min(Math.max(idx, 0), cards.length - 1)] || {};
+  const front = String(card.front_md ?? "");
+  const back = String(card.back_md ?? "");
+
+  return (
+    <div className="space-y-3 sm:space-y-4">
+      {/* Header row - responsive */}
+      <div className="flex items-center justify-between text-[11px] xs:text-xs text-muted-foreground">
+        <div className="font-medium">
+          {t("pathNode.drills.flashcards.count", { current: idx + 1, total: cards.length })}
+        </div>
+        <button
+          type="button"
+          className={cn(
+            "underline underline-offset-4 hover:text-foreground",
+            // Touch-friendly sizing
+            "min-h-[44px] px-2 py-2",
+            "touch-manipulation -webkit-tap-highlight-color-transparent",
+            "active:opacity-70"
+          )}
+          onClick={() => setShowBack((v) => !v)}
+        >
+          {showBack ? t("pathNode.drills.flashcards.showFront") : t("pathNode.drills.flashcards.showBack")}
+        </button>
+      </div>
+
+      {/* Card content - responsive */}
+      <div
+        className={cn(
+          "rounded-lg sm:rounded-xl border border-border bg-muted/30",
+          "p-3 sm:p-4",
+          "min-h-[160px] sm:min-h-[180px] flex items-center"
+        )}
+      >
+        <div className="w-full text-sm sm:text-[15px] leading-relaxed text-foreground/90">
+          <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownCodeComponents}>
+            {showBack ? back : front}
+          </ReactMarkdown>
+        </div>
+      </div>
+
+      {/* Navigation buttons - responsive */}
+      <div className="flex items-center justify-between gap-3 pt-1">
+        <Button
+          variant="outline"
+          onClick={() => {
+            setIdx((v) => Math.max(0, v - 1));
+            setShowBack(false);
+          }}
+          disabled={idx <= 0}
+          className={cn(
+            "flex-1 sm:flex-none",
+            "h-11 sm:h-10",
+            "touch-manipulation -webkit-tap-highlight-color-transparent",
+            "active:scale-[0.97]"
+          )}
+        >
+          {t("common.previous")}
+        </Button>
+        <Button
+          onClick={() => {
+            setIdx((v) => Math.min(cards.length - 1, v + 1));
+            setShowBack(false);
+          }}
+          disabled={idx >= cards.length - 1}
+          className={cn(
+            "flex-1 sm:flex-none",
+            "h-11 sm:h-10",
+            "touch-manipulation -webkit-tap-highlight-color-transparent",
+            "active:scale-[0.97]"
+          )}
+        >
+          {t("common.next")}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,555 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type RefObject } from "react";
+import { useLocation } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Feather, GalleryVerticalEnd, Lightbulb, Sparkles, StickyNote, Trash2 } from "lucide-react";
+import { Button } from "@/shared/ui/button";
+import { Popover, PopoverAnchor, PopoverContent } from "@/shared/ui/popover";
+import { Textarea } from "@/shared/ui/textarea";
+import { useToast } from "@/shared/ui/toast";
+import { useI18n } from "@/app/providers/I18nProvider";
+import {
+  HIGHLIGHT_COLORS,
+  createHighlight,
+  deleteHighlight,
+  listHighlightsForNode,
+  updateHighlight,
+} from "@/shared/api/HighlightService";
+import { listPathNodeDocRevisions } from "@/shared/api/PathNodeService";
+import { queryKeys } from "@/shared/query/queryKeys";
+import {
+  anchorAt,
+  anchorFromRange,
+  reanchorFromRevisions,
+  resolveAnchor,
+} from "@/features/paths/lib/highlightAnchors";
+import { collectRenderedText, rangeFromOffsets } from "@/features/paths/lib/renderedText";
+import { cn } from "@/shared/lib/utils";
+import type { Highlight, HighlightAnchor, HighlightColor } from "@/shared/types/models";
+
+const NO_HIGHLIGHTS: Highlight[] = [];
+const ACTIVE_HIGHLIGHT = "nb-hl-active";
+
+export const HIGHLIGHT_SWATCH_CLASS: Record<HighlightColor, string> = {
+  yellow: "bg-yellow-300 dark:bg-yellow-400/80",
+  green: "bg-green-300 dark:bg-green-400/80",
+  blue: "bg-sky-300 dark:bg-sky-400/80",
+  pink: "bg-pink-300 dark:bg-pink-400/80",
+  purple: "bg-violet-300 dark:bg-violet-400/80",
+};
+
+type Rect = { left: number; top: number; width: number; height: number };
+
+type Draft =
+  | { mode: "create"; anchor: HighlightAnchor; blockType: string; rect: Rect }
+  | { mode: "edit"; highlightId: string; rect: Rect };
+
+// What to emphasize on arrival: a saved highlight (from My notes) or a quoted passage (from chat).
+type Focus = { highlightId: string } | { blockId: string; quote: string };
+
+export type SelectionAskAction = "explain" | "example" | "simplify" | "flashcard";
+
+export interface SelectionExcerpt {
+  blockId: string;
+  blockIndex: number | null;
+  blockType: string;
+  quote: string;
+}
+
+const ASK_ACTIONS: { id: SelectionAskAction; icon: typeof Sparkles }[] = [
+  { id: "explain", icon: Sparkles },
+  { id: "example", icon: Lightbulb },
+  { id: "simplify", icon: Feather },
+  { id: "flashcard", icon: GalleryVerticalEnd },
+];
+
+type NoteMarker = { id: string; top: number; color: HighlightColor; note: string };
+
+function supportsHighlights() {
+  return typeof CSS !== "undefined" && "highlights" in CSS && typeof Highlight !== "undefined";
+}
+
+function setHighlight(name: string, ranges: Range[]) {
+  if (!supportsHighlights()) return;
+  if (ranges.length === 0) CSS.highlights.delete(name);
+  else CSS.highlights.set(name, new Highlight(...ranges));
+}
+
+function clearAllHighlights() {
+  for (const color of HIGHLIGHT_COLORS) setHighlight(`nb-hl-${color}`, []);
+  setHighlight(ACTIVE_HIGHLIGHT, []);
+}
+
+function blockElementIn(container: HTMLElement, blockId: string) {
+  const escaped = typeof CSS !== "undefined" && CSS.escape ? CSS.escape(blockId) : blockId.replace(/"/g, '\\"');
+  return container.querySelector<HTMLElement>(`[data-doc-block-id="${escaped}"]`);
+}
+
+function toRect(rect: DOMRect): Rect {
+  return { left: rect.left, top: rect.top, width: rect.width, height: rect.height };
+}
+
+function caretAt(x: number, y: number): { node: Node; offset: number } | null {
+  const doc = document as Document & {
+    caretPositionFromPoint?: (x: number, y: number) => { offsetNode: Node; offset: number } | null;
+  };
+  if (typeof doc.caretPositionFromPoint === "function") {
+    const pos = doc.caretPositionFromPoint(x, y);
+    return pos ? { node: pos.offsetNode, offset: pos.offset } : null;
+  }
+  const range = document.caretRangeFromPoint?.(x, y);
+  return range ? { node: range.startContainer, offset: range.startOffset } : null;
+}
+
+/**
+ * Personal highlights and margin notes over a rendered lesson doc. Selecting text inside a block
+ * offers colors, a note and "ask" actions; saved highlights are painted with the CSS Custom
+ * Highlight API so the doc's React tree is never touched. Highlights whose text moved are re-anchored (first in the
+ * current block, then through the block's revisions) and the corrected anchor is saved.
+ */
+export function LessonHighlightLayer({
+  pathNodeId,
+  containerRef,
+  blockIds,
+  onAsk,
+}: {
+  pathNodeId: string;
+  // Element wrapping the rendered doc; the layer itself must sit in a positioned ancestor of it.
+  containerRef: RefObject<HTMLElement | null>;
+  // Ids of every block in the current doc, including ones the virtualized list hasn't rendered.
+  blockIds: readonly string[];
+  onAsk?: (action: SelectionAskAction, excerpt: SelectionExcerpt) => void;
+}) {
+  const { t } = useI18n();
+  const { push } = useToast();
+  const queryClient = useQueryClient();
+  const location = useLocation();
+  const overlayRef = useRef<HTMLDivElement | null>(null);
+  const rangesRef = useRef(new Map<string, Range>());
+  const reanchoredRef = useRef(new Set<string>());
+  const [markers, setMarkers] = useState<NoteMarker[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [noteOpen, setNoteOpen] = useState(false);
+  const [noteText, setNoteText] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [needsRevisions, setNeedsRevisions] = useState(false);
+  const [focus, setFocus] = useState<Focus | null>(null);
+
+  const highlightsQuery = useQuery({
+    queryKey: queryKeys.nodeHighlights(pathNodeId),
+    enabled: Boolean(pathNodeId),
+    staleTime: 60_000,
+    queryFn: () => listHighlightsForNode(pathNodeId),
+  });
+  const highlights = highlightsQuery.data ?? NO_HIGHLIGHTS;
+
+  // Revisions are only fetched once some highlight can't be found in the current doc.
+  const revisionsQuery = useQuery({
+    queryKey: queryKeys.nodeDocRevisions(pathNodeId),
+    enabled: Boolean(pathNodeId) && needsRevisions,
+    staleTime: 5 * 60_000,
+    queryFn: () => listPathNodeDocRevisions(pathNodeId, { limit: 200, includeDocs: true }),
+  });
+  const revisions = revisionsQuery.data;
+
+  const blockIdSet = useMemo(() => new Set(blockIds), [blockIds]);
+
+  const storeHighlight = useCallback(
+    (next: Highlight | null, removedId?: string) => {
+      queryClient.setQueryData<Highlight[]>(queryKeys.nodeHighlights(pathNodeId), (prev) => {
+        const list = (prev ?? []).filter((h) => h.id !== (next?.id ?? removedId));
+        return next ? [...list, next] : list;
+      });
+      void queryClient.invalidateQueries({ queryKey: ["highlights", "path"] });
+    },
+    [pathNodeId, queryClient]
+  );
+
+  const saveAnchor = useCallback(
+    (highlight: Highlight, anchor: HighlightAnchor) => {
+      if (reanchoredRef.current.has(highlight.id)) return;
+      reanchoredRef.current.add(highlight.id);
+      updateHighlight(highlight.id, { anchor })
+        .then((updated) => storeHighlight(updated))
+        .catch((err) => console.warn("[LessonHighlightLayer] re-anchor failed:", err));
+    },
+    [storeHighlight]
+  );
+
+  const paint = useCallback(() => {
+    const container = containerRef.current;
+    const overlay = overlayRef.current;
+    if (!container || !overlay) return;
+    const byColor = new Map<HighlightColor, Range[]>();
+    const placed = new Map<string, Range>();
+    const nextMarkers: NoteMarker[] = [];
+    const overlayTop = overlay.getBoundingClientRect().top;
+    let missing = false;
+
+    for (const h of highlights) {
+      let anchor: HighlightAnchor = h;
+      if (!blockIdSet.has(h.blockId)) {
+        const moved = revisions ? reanchorFromRevisions(h, revisions) : null;
+        if (!moved) {
+          missing = true;
+          continue;
+        }
+        anchor = { ...moved, startOffset: 0, endOffset: 0, prefix: "", suffix: "" };
+      }
+      const el = blockElementIn(container, anchor.blockId);
+      // Not rendered right now (virtualized list); painted once it scrolls in.
+      if (!el) continue;
+      const { text, nodes } = collectRenderedText(el);
+      let match = resolveAnchor(text, anchor);
+      if (!match && revisions) {
+        const moved = reanchorFromRevisions(h, revisions);
+        if (moved && moved.blockId === anchor.blockId) {
+          match = resolveAnchor(text, { ...anchor, quote: moved.quote, startOffset: 0, endOffset: 0 });
+        }
+      }
+      if (!match) {
+        missing = true;
+        continue;
+      }
+      if (!match.exact) saveAnchor(h, anchorAt(text, match, anchor.blockId, anchor.blockIndex));
+      const range = rangeFromOffsets(nodes, match.start, match.end);
+      if (!range) continue;
+      placed.set(h.id, range);
+      const list = byColor.get(h.color) ?? [];
+      list.push(range);
+      byColor.set(h.color, list);
+      if (h.note.trim()) {
+        const first = range.getClientRects()[0] ?? range.getBoundingClientRect();
+        nextMarkers.push({ id: h.id, top: first.top - overlayTop, color: h.color, note: h.note });
+      }
+    }
+
+    rangesRef.current = placed;
+    for (const color of HIGHLIGHT_COLORS) setHighlight(`nb-hl-${color}`, byColor.get(color) ?? []);
+    let active: Range | null = null;
+    if (focus && "highlightId" in focus) {
+      active = placed.get(focus.highlightId) ?? null;
+    } else if (focus) {
+      const el = blockElementIn(container, focus.blockId);
+      if (el) {
+        const { text, nodes } = collectRenderedText(el);
+        const match = resolveAnchor(text, {
+          blockId: focus.blockId,
+          blockIndex: null,
+          startOffset: 0,
+          endOffset: 0,
+          quote: focus.quote,
+          prefix: "",
+          suffix: "",
+        });
+        active = match ? rangeFromOffsets(nodes, match.start, match.end) : null;
+      }
+    }
+    setHighlight(ACTIVE_HIGHLIGHT, active ? [active] : []);
+    setMarkers(nextMarkers);
+    if (missing && !needsRevisions) setNeedsRevisions(true);
+  }, [blockIdSet, containerRef, focus, highlights, needsRevisions, revisions, saveAnchor]);
+
+  // Repaint whenever the doc re-renders (virtualized sections mount and unmount blocks).
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    let raf = 0;
+    const schedule = () => {
+      if (raf) return;
+      raf = window.requestAnimationFrame(() => {
+        raf = 0;
+        paint();
+      });
+    };
+    schedule();
+    const observer = new MutationObserver(schedule);
+    observer.observe(container, { childList: true, subtree: true, characterData: true });
+    window.addEventListener("resize", schedule);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener("resize", schedule);
+      if (raf) window.cancelAnimationFrame(raf);
+    };
+  }, [containerRef, paint]);
+
+  useEffect(() => clearAllHighlights, []);
+
+  // Arriving from "My notes" or a chat reply briefly emphasizes the passage that was clicked.
+  const navState = location.state as { highlightId?: string; excerpt?: { blockId?: string; quote?: string } } | null;
+  const focusHighlightId = navState?.highlightId ?? "";
+  const focusBlockId = navState?.excerpt?.blockId ?? "";
+  const focusQuote = navState?.excerpt?.quote ?? "";
+  useEffect(() => {
+    if (focusHighlightId) setFocus({ highlightId: focusHighlightId });
+    else if (focusBlockId && focusQuote) setFocus({ blockId: focusBlockId, quote: focusQuote });
+    else return;
+    const timer = window.setTimeout(() => setFocus(null), 2500);
+    return () => window.clearTimeout(timer);
+  }, [focusBlockId, focusHighlightId, focusQuote, location.key]);
+
+  const openDraft = useCallback((next: Draft | null) => {
+    setDraft(next);
+    setNoteOpen(false);
+    setNoteText("");
+  }, []);
+
+  // Text selection inside a single block offers the selection toolbar.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    let timer = 0;
+    const check = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => {
+        const sel = window.getSelection();
+        if (!sel || sel.rangeCount === 0 || sel.isCollapsed) return;
+        const range = sel.getRangeAt(0);
+        if (!container.contains(range.commonAncestorContainer)) return;
+        const startEl = (range.startContainer instanceof Element ? range.startContainer : range.startContainer.parentElement)
+          ?.closest<HTMLElement>("[data-doc-block-id]");
+        const endEl = (range.endContainer instanceof Element ? range.endContainer : range.endContainer.parentElement)
+          ?.closest<HTMLElement>("[data-doc-block-id]");
+        if (!startEl || startEl !== endEl) return;
+        if (startEl.closest("input, textarea, [contenteditable='true']")) return;
+        const blockId = startEl.dataset.docBlockId || "";
+        const index = Number(startEl.dataset.docBlockIndex);
+        const anchor = anchorFromRange(startEl, range, blockId, Number.isFinite(index) ? index : null);
+        if (!anchor) return;
+        openDraft({
+          mode: "create",
+          anchor,
+          blockType: startEl.dataset.docBlockType || "",
+          rect: toRect(range.getBoundingClientRect()),
+        });
+      }, 0);
+    };
+    const onKeyUp = (event: KeyboardEvent) => {
+      if (event.shiftKey || event.key === "Shift") check();
+    };
+    container.addEventListener("mouseup", check);
+    container.addEventListener("touchend", check);
+    container.addEventListener("keyup", onKeyUp);
+    return () => {
+      window.clearTimeout(timer);
+      container.removeEventListener("mouseup", check);
+      container.removeEventListener("touchend", check);
+      container.removeEventListener("keyup", onKeyUp);
+    };
+  }, [containerRef, openDraft]);
+
+  // Clicking highlighted text opens it for editing (painted highlights aren't elements).
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const onClick = (event: MouseEvent) => {
+      const sel = window.getSelection();
+      if (sel && !sel.isCollapsed) return;
+      const caret = caretAt(event.clientX, event.clientY);
+      if (!caret) return;
+      for (const [id, range] of rangesRef.current) {
+        try {
+          if (!range.isPointInRange(caret.node, caret.offset)) continue;
+        } catch {
+          continue;
+        }
+        openDraft({ mode: "edit", highlightId: id, rect: toRect(range.getBoundingClientRect()) });
+        return;
+      }
+    };
+    container.addEventListener("click", onClick);
+    return () => container.removeEventListener("click", onClick);
+  }, [containerRef, openDraft]);
+
+  const editing = draft?.mode === "edit" ? highlights.find((h) => h.id === draft.highlightId) ?? null : null;
+
+  const openEditor = (id: string) => {
+    const range = rangesRef.current.get(id);
+    if (!range) return;
+    const h = highlights.find((x) => x.id === id);
+    setDraft({ mode: "edit", highlightId: id, rect: toRect(range.getBoundingClientRect()) });
+    setNoteOpen(true);
+    setNoteText(h?.note ?? "");
+  };
+
+  const fail = (err: unknown) => {
+    console.warn("[LessonHighlightLayer] save failed:", err);
+    push({ variant: "error", title: t("highlights.saveFailed") });
+  };
+
+  const applyColor = async (color: HighlightColor) => {
+    if (!draft || busy) return;
+    setBusy(true);
+    try {
+      if (draft.mode === "create") {
+        const created = await createHighlight(pathNodeId, {
+          anchor: draft.anchor,
+          color,
+          note: noteOpen ? noteText.trim() : "",
+        });
+        storeHighlight(created);
+        window.getSelection()?.removeAllRanges();
+        openDraft(null);
+      } else if (editing && editing.color !== color) {
+        storeHighlight(await updateHighlight(editing.id, { color }));
+      }
+    } catch (err) {
+      fail(err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveNote = async () => {
+    if (!draft || busy) return;
+    if (draft.mode === "create") {
+      await applyColor("yellow");
+      return;
+    }
+    if (!editing) return;
+    setBusy(true);
+    try {
+      storeHighlight(await updateHighlight(editing.id, { note: noteText.trim() }));
+      openDraft(null);
+    } catch (err) {
+      fail(err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const ask = (action: SelectionAskAction) => {
+    if (draft?.mode !== "create" || !onAsk) return;
+    onAsk(action, {
+      blockId: draft.anchor.blockId,
+      blockIndex: draft.anchor.blockIndex,
+      blockType: draft.blockType,
+      quote: draft.anchor.quote,
+    });
+    window.getSelection()?.removeAllRanges();
+    openDraft(null);
+  };
+
+  const remove = async () => {
+    if (!editing || busy) return;
+    setBusy(true);
+    try {
+      await deleteHighlight(editing.id);
+      storeHighlight(null, editing.id);
+      openDraft(null);
+    } catch (err) {
+      fail(err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const activeColor = editing?.color ?? null;
+
+  return (
+    <div ref={overlayRef} data-highlight-ui className="pointer-events-none absolute inset-0 z-20">
+      {markers.map((marker) => (
+        <button
+          key={marker.id}
+          type="button"
+          title={marker.note}
+          aria-label={t("highlights.openNote")}
+          onClick={() => openEditor(marker.id)}
+          className={cn(
+            "pointer-events-auto absolute right-1 sm:right-2 flex h-6 w-6 items-center justify-center rounded-full border border-border/60 text-foreground/80 shadow-sm",
+            "nb-motion-fast motion-reduce:transition-none hover:scale-105",
+            HIGHLIGHT_SWATCH_CLASS[marker.color]
+          )}
+          style={{ top: marker.top }}
+        >
+          <StickyNote className="h-3.5 w-3.5" />
+        </button>
+      ))}
+
+      <Popover open={draft != null} onOpenChange={(open) => (open ? null : openDraft(null))}>
+        {draft ? (
+          <PopoverAnchor asChild>
+            <div
+              className="pointer-events-none fixed"
+              style={{ left: draft.rect.left, top: draft.rect.top, width: draft.rect.width, height: draft.rect.height }}
+            />
+          </PopoverAnchor>
+        ) : null}
+        <PopoverContent
+          side="top"
+          className="w-auto min-w-56 space-y-2"
+          data-highlight-ui
+          onOpenAutoFocus={(event) => event.preventDefault()}
+        >
+          <div className="flex items-center gap-1.5">
+            {HIGHLIGHT_COLORS.map((color) => (
+              <button
+                key={color}
+                type="button"
+                disabled={busy}
+                aria-label={t(`highlights.color.${color}`)}
+                aria-pressed={activeColor === color}
+                onClick={() => void applyColor(color)}
+                className={cn(
+                  "h-7 w-7 rounded-full border border-border/60 nb-motion-fast motion-reduce:transition-none hover:scale-110",
+                  activeColor === color && "ring-2 ring-ring ring-offset-2 ring-offset-background",
+                  HIGHLIGHT_SWATCH_CLASS[color]
+                )}
+              />
+            ))}
+            <div className="ms-auto flex items-center gap-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setNoteOpen((v) => !v);
+                  if (!noteOpen && editing) setNoteText(editing.note);
+                }}
+              >
+                <StickyNote className="h-4 w-4" />
+                {t("highlights.note")}
+              </Button>
+              {editing ? (
+                <Button type="button" variant="ghost" size="sm" onClick={() => void remove()} disabled={busy} aria-label={t("highlights.delete")}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              ) : null}
+            </div>
+          </div>
+          {draft?.mode === "create" && onAsk && !noteOpen ? (
+            <div className="flex flex-wrap items-center gap-1 border-t border-border/60 pt-2">
+              {ASK_ACTIONS.map(({ id, icon: Icon }) => (
+                <Button key={id} type="button" variant="ghost" size="sm" className="h-8 px-2" onClick={() => ask(id)}>
+                  <Icon className="h-4 w-4" />
+                  {t(`selectionAsk.${id}`)}
+                </Button>
+              ))}
+            </div>
+          ) : null}
+          {noteOpen ? (
+            <div className="space-y-2">
+              <Textarea
+                autoFocus
+                value={noteText}
+                maxLength={4000}
+                placeholder={t("highlights.notePlaceholder")}
+                onChange={(event) => setNoteText(event.target.value)}
+                onKeyDown={(event) => {
+                  if (event.key === "Enter" && (event.metaKey || event.ctrlKey)) void saveNote();
+                }}
+              />
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="ghost" size="sm" onClick={() => openDraft(null)}>
+                  {t("common.cancel")}
+                </Button>
+                <Button type="button" size="sm" onClick={() => void saveNote()} disabled={busy}>
+                  {t("highlights.saveNote")}
+                </Button>
+              </div>
+            </div>
+          ) : null}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
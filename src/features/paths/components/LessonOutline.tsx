@@ -0,0 +1,124 @@
+import { useMemo } from "react";
+import { Check } from "lucide-react";
+import { useI18n } from "@/app/providers/I18nProvider";
+import { cn } from "@/shared/lib/utils";
+
+type DocBlockLike = {
+  id?: unknown;
+  type?: unknown;
+  level?: unknown;
+  text?: unknown;
+  [key: string]: unknown;
+};
+
+export interface LessonOutlineEntry {
+  // Block id of the heading; also the `#block-<id>` deep link target.
+  id: string;
+  title: string;
+  level: 2 | 3 | 4;
+  // Non-heading blocks up to the next heading of the same or a higher level.
+  blockIds: string[];
+}
+
+/** Outline of a lesson doc from its level 2–4 headings. */
+export function buildLessonOutline(blocks: readonly DocBlockLike[]): LessonOutlineEntry[] {
+  const entries: LessonOutlineEntry[] = [];
+  const open: LessonOutlineEntry[] = [];
+  blocks.forEach((block, i) => {
+    const id = String(block?.id || "") || String(i);
+    const type = String(block?.type || "").toLowerCase();
+    if (type === "heading") {
+      const raw = Number(block?.level || 2);
+      const level = (raw <= 2 ? 2 : raw >= 4 ? 4 : 3) as 2 | 3 | 4;
+      const title = String(block?.text || "").trim();
+      while (open.length > 0 && open[open.length - 1].level >= level) open.pop();
+      if (!title) return;
+      const entry: LessonOutlineEntry = { id, title, level, blockIds: [] };
+      entries.push(entry);
+      open.push(entry);
+      return;
+    }
+    for (const entry of open) entry.blockIds.push(id);
+  });
+  return entries;
+}
+
+/** Deepest outline entry whose section contains the block (or is the block's own heading). */
+export function outlineEntryForBlock(entries: readonly LessonOutlineEntry[], blockId: string): string | null {
+  if (!blockId) return null;
+  let found: LessonOutlineEntry | null = null;
+  for (const entry of entries) {
+    if (entry.id === blockId) return entry.id;
+    if (entry.blockIds.includes(blockId) && (!found || entry.level >= found.level)) found = entry;
+  }
+  return found?.id ?? null;
+}
+
+export function LessonOutline({
+  entries,
+  currentBlockId,
+  readBlockIds,
+  onSelect,
+  className,
+}: {
+  entries: readonly LessonOutlineEntry[];
+  currentBlockId: string;
+  readBlockIds: ReadonlySet<string>;
+  onSelect: (blockId: string) => void;
+  className?: string;
+}) {
+  const { t } = useI18n();
+  const currentId = useMemo(() => outlineEntryForBlock(entries, currentBlockId), [currentBlockId, entries]);
+
+  return (
+    <nav aria-label={t("lessonOutline.title")} className={className}>
+      <ol className="space-y-0.5">
+        {entries.map((entry) => {
+          const total = entry.blockIds.length;
+          const read = entry.blockIds.reduce((n, id) => n + (readBlockIds.has(id) ? 1 : 0), 0);
+          const done = total > 0 && read === total;
+          const pct = total > 0 ? Math.round((read / total) * 100) : 0;
+          const active = entry.id === currentId;
+          return (
+            <li key={entry.id}>
+              <button
+                type="button"
+                onClick={() => onSelect(entry.id)}
+                aria-current={active ? "location" : undefined}
+                className={cn(
+                  "group flex w-full items-start gap-2 rounded-lg py-1.5 pe-2 text-start text-sm",
+                  "nb-motion-fast motion-reduce:transition-none hover:bg-muted/40",
+                  entry.level === 2 ? "ps-2" : entry.level === 3 ? "ps-5" : "ps-8",
+                  active ? "bg-muted/50 font-medium text-foreground" : "text-muted-foreground"
+                )}
+              >
+                <span
+                  aria-hidden="true"
+                  className={cn(
+                    "mt-1 flex h-3.5 w-3.5 shrink-0 items-center justify-center rounded-full border",
+                    done ? "border-primary bg-primary text-primary-foreground" : "border-border"
+                  )}
+                  style={
+                    !done && pct > 0
+                      ? { background: `conic-gradient(var(--primary) ${pct}%, transparent 0)` }
+                      : undefined
+                  }
+                >
+                  {done ? <Check className="h-2.5 w-2.5" /> : null}
+                </span>
+                <span className="min-w-0 flex-1 leading-snug line-clamp-2">{entry.title}</span>
+                <span className="sr-only">
+                  {done
+                    ? t("lessonOutline.status.read")
+                    : pct > 0
+                      ? t("lessonOutline.status.partial", { pct })
+                      : t("lessonOutline.status.unread")}
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </nav>
+  );
+}
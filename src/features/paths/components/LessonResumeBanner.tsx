@@ -0,0 +1,116 @@
+import { History, X } from "lucide-react";
+import { Button } from "@/shared/ui/button";
+import { IconButton } from "@/shared/ui/icon-button";
+import { useI18n } from "@/app/providers/I18nProvider";
+import { getResumeDeviceId } from "@/shared/services/LessonResume";
+import type { ResumeConflict, ResumePosition } from "@/shared/services/LessonResume";
+import { cn } from "@/shared/lib/utils";
+
+/** "Your phone", "another device", … for a position synced from elsewhere; null for this device. */
+export function useResumeDeviceLabel() {
+  const { t } = useI18n();
+  return (position: ResumePosition): string | null => {
+    if (position.deviceId && position.deviceId === getResumeDeviceId()) return null;
+    return t(`resume.device.${position.deviceKind}`);
+  };
+}
+
+/**
+ * Offers to return to where a lesson was left off. With a conflict (another device stopped
+ * elsewhere in the same lesson) the reader picks which of the two places to continue from.
+ */
+export function LessonResumeBanner({
+  position,
+  conflict,
+  sectionTitle,
+  onResume,
+  onResolve,
+  onDismiss,
+  className,
+}: {
+  position: ResumePosition;
+  conflict: ResumeConflict | null;
+  sectionTitle: (blockId: string | null) => string | null;
+  onResume: () => void;
+  onResolve: (keep: "local" | "remote") => void;
+  onDismiss: () => void;
+  className?: string;
+}) {
+  const { t } = useI18n();
+  const deviceLabel = useResumeDeviceLabel();
+
+  const describe = (pos: ResumePosition) => {
+    const section = sectionTitle(pos.blockId);
+    const pct = Math.round(pos.scrollPercent);
+    return section ? t("resume.where.section", { section, pct }) : t("resume.where.percent", { pct });
+  };
+
+  const remoteAhead = conflict ? conflict.remote.scrollPercent > conflict.local.scrollPercent : false;
+  const from = deviceLabel(position);
+
+  return (
+    <div
+      role="region"
+      aria-label={t("resume.title")}
+      className={cn(
+        "flex items-start gap-3 rounded-xl sm:rounded-2xl border border-border/60 bg-muted/30 p-3 sm:p-4",
+        className
+      )}
+    >
+      <History className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" aria-hidden="true" />
+      <div className="min-w-0 flex-1 space-y-2">
+        {conflict ? (
+          <>
+            <div className="text-sm font-medium text-foreground">
+              {remoteAhead
+                ? t("resume.conflict.aheadTitle", { device: deviceLabel(conflict.remote) ?? t("resume.device.unknown") })
+                : t("resume.conflict.title")}
+            </div>
+            <div className="flex flex-col gap-2 sm:flex-row sm:flex-wrap">
+              <Button
+                size="sm"
+                variant={remoteAhead ? "default" : "outline"}
+                className="h-auto min-h-8 whitespace-normal py-1.5 text-start"
+                onClick={() => onResolve("remote")}
+              >
+                {t("resume.conflict.remote", {
+                  device: deviceLabel(conflict.remote) ?? t("resume.device.unknown"),
+                  where: describe(conflict.remote),
+                })}
+              </Button>
+              <Button
+                size="sm"
+                variant={remoteAhead ? "outline" : "default"}
+                className="h-auto min-h-8 whitespace-normal py-1.5 text-start"
+                onClick={() => onResolve("local")}
+              >
+                {t("resume.conflict.local", { where: describe(conflict.local) })}
+              </Button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div>
+              <div className="text-sm font-medium text-foreground">{t("resume.title")}</div>
+              <div className="text-xs text-muted-foreground">
+                {describe(position)}
+                {from ? ` · ${t("resume.lastReadOn", { device: from })}` : null}
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" onClick={onResume}>
+                {t("resume.action")}
+              </Button>
+              <Button size="sm" variant="ghost" onClick={onDismiss}>
+                {t("resume.startOver")}
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+      <IconButton label={t("resume.dismiss")} variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={onDismiss}>
+        <X className="h-4 w-4" />
+      </IconButton>
+    </div>
+  );
+}
@@ -1,13 +1,17 @@
-import React, { useMemo } from "react";
+import React, { Suspense, lazy, useMemo } from "react";
 import ReactMarkdown from "react-markdown";
 import type { Components } from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { Separator } from "@/shared/ui/separator";
 import { CodeBlock, InlineCode } from "@/shared/components/CodeBlock";
 import { ImageLightbox } from "@/shared/components/ImageLightbox";
-import { MermaidDiagram } from "@/shared/components/MermaidDiagram";
+import { Skeleton } from "@/shared/ui/skeleton";
 import type { JsonInput } from "@/shared/types/models";
 
+const MermaidDiagram = lazy(() =>
+  import("@/shared/components/MermaidDiagram").then((m) => ({ default: m.MermaidDiagram }))
+);
+
 interface ContentBlock {
   kind?: string;
   content_md?: string;
@@ -277,7 +281,11 @@ export function NodeContentRenderer({ contentJson }: NodeContentRendererProps) {
               <ImageLightbox src={ref} alt={md || "Diagram"} caption={md} frameClassName="bg-muted/20" />
             );
           } else {
-            content = <MermaidDiagram source={md} frameClassName="bg-muted/20" />;
+            content = (
+              <Suspense fallback={<Skeleton className="h-[220px] w-full rounded-2xl" />}>
+                <MermaidDiagram source={md} frameClassName="bg-muted/20" />
+              </Suspense>
+            );
           }
         } else if (md) {
           content = (
@@ -1,8 +1,8 @@
-import React, { useCallback, useMemo, useState } from "react";
+import React, { Suspense, lazy, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import ReactMarkdown from "react-markdown";
 import type { Components } from "react-markdown";
 import remarkGfm from "remark-gfm";
-import { Virtuoso } from "react-virtuoso";
+import { Virtuoso, type VirtuosoHandle } from "react-virtuoso";
 import {
   MessageSquare,
   RotateCcw,
@@ -19,16 +19,25 @@ import { cn } from "@/shared/lib/utils";
 import { normalizeProposalText, type NodeDocEditProposal } from "@/shared/lib/nodeDocEdit";
 import { CodeBlock, InlineCode } from "@/shared/components/CodeBlock";
 import { ImageLightbox } from "@/shared/components/ImageLightbox";
-import { MermaidDiagram } from "@/shared/components/MermaidDiagram";
-import katex from "katex";
-import "katex/dist/katex.min.css";
+import { KatexEquation } from "@/shared/components/KatexEquation";
 import {
   attemptQuickCheck,
   type QuickCheckAttemptAction,
   type QuickCheckAttemptResult,
 } from "@/shared/api/PathNodeService";
 import { flushEvents, queueEvent } from "@/shared/services/EventQueue";
+import { gradeReviewCard, registerReviewCard } from "@/shared/services/ReviewQueue";
+import type { ReviewGrade } from "@/shared/lib/srs";
+import { DocCitations, normalizeCitations } from "@/features/paths/components/DocCitations";
+import { RunnableCodeBlock } from "@/features/paths/components/RunnableCodeBlock";
+import { runnableLanguage } from "@/features/paths/lib/codeSandbox";
 import type { JsonInput } from "@/shared/types/models";
+import type { CitationRefV1 } from "@/shared/types/nodeDocV1";
+
+// Diagram rendering pulls in mermaid; only docs with a mermaid block pay for it.
+const MermaidDiagram = lazy(() =>
+  import("@/shared/components/MermaidDiagram").then((m) => ({ default: m.MermaidDiagram }))
+);
 
 interface DocBlock {
   id?: string;
@@ -89,8 +98,19 @@ interface NodeDocRendererProps {
   onEditConfirm?: (proposal: NodeDocEditProposal) => void;
   onEditDeny?: (proposal: NodeDocEditProposal) => void;
   onEditRefine?: (proposal: NodeDocEditProposal, text: string) => void;
+  onCitationOpen?: (citation: CitationRefV1, block: DocBlock, index: number) => void;
+  /**
+   * Scrolls the (virtualized) doc to a block; bump `nonce` to repeat a jump to the same block.
+   * `offset` (0–1 of the block's height) lands partway into it, e.g. when resuming a lesson.
+   */
+  scrollTarget?: { blockId: string; nonce: number; offset?: number } | null;
 }
 
+// Clears the sticky navbar when landing on a block.
+export const SCROLL_TARGET_OFFSET_PX = 96;
+// Matches the `nb-block-flash` animation in index.css.
+const SCROLL_TARGET_FLASH_MS = 1600;
+
 function normalizeDoc(doc: JsonInput | undefined): DocShape | null {
   if (!doc) return null;
   if (typeof doc === "object" && !Array.isArray(doc)) return doc as DocShape;
@@ -762,6 +782,13 @@ export function QuickCheck({
 
 type FlashcardIntent = "knew" | "unsure" | "did_not_know";
 
+// Inline recall intents seed the card's review schedule.
+const FLASHCARD_INTENT_GRADE: Record<FlashcardIntent, ReviewGrade> = {
+  knew: "good",
+  unsure: "hard",
+  did_not_know: "again",
+};
+
 export function Flashcard({
   frontMd,
   backMd,
@@ -788,6 +815,20 @@ export function Flashcard({
   const front = safeString(frontMd).trim();
   const back = safeString(backMd).trim();
   const body = showBack ? back : front;
+  const reviewCardIdRef = useRef<string | null>(null);
+
+  // Revealing the answer counts as having seen the card; it joins the review deck.
+  useEffect(() => {
+    if (!showBack || reviewCardIdRef.current) return;
+    reviewCardIdRef.current = registerReviewCard({
+      frontMd: front,
+      backMd: back,
+      source: "node_doc",
+      pathNodeId: safeString(pathNodeId).trim() || null,
+      blockId: safeString(blockId).trim() || null,
+    });
+  }, [back, blockId, front, pathNodeId, showBack]);
+
   const submitIntent = useCallback(
     (intent: FlashcardIntent) => {
       if (!showBack || submittedIntent) return;
@@ -813,6 +854,9 @@ export function Flashcard({
         },
       });
       void flushEvents().catch(() => undefined);
+      if (reviewCardIdRef.current) {
+        gradeReviewCard(reviewCardIdRef.current, FLASHCARD_INTENT_GRADE[intent], { emitEvent: false });
+      }
       setSubmittedIntent(intent);
       onIntentSubmitted?.(intent);
     },
@@ -1030,6 +1074,8 @@ export function NodeDocRenderer({
   onEditConfirm,
   onEditDeny,
   onEditRefine,
+  onCitationOpen,
+  scrollTarget = null,
 }: NodeDocRendererProps) {
   const d = useMemo(() => normalizeDoc(doc), [doc]);
   const blocks = asArray<DocBlock>(d?.blocks);
@@ -1080,6 +1126,7 @@ export function NodeDocRenderer({
       const canUndo = Boolean(undoableBlocks?.[blockId]) && undoAllowed;
       const showActions = Boolean(onLike || onDislike || onRegenerate || onChat || onUndo);
       const blockSpacing = !isLast ? "pb-10" : "";
+      const citations = normalizeCitations(b?.citations);
 
       if (type === "divider") {
         return (
@@ -1178,7 +1225,13 @@ export function NodeDocRenderer({
               <BlockSkeleton type={type} />
             </div>
           ) : (
-            content
+            <>
+              {content}
+              <DocCitations
+                citations={citations}
+                onOpenSource={onCitationOpen ? (citation) => onCitationOpen(citation, b, i) : undefined}
+              />
+            </>
           )}
         </div>
       );
@@ -1373,6 +1426,19 @@ export function NodeDocRenderer({
         const raw = safeString(b?.code).replace(/\n$/, "");
         const filename = safeString(b?.filename).trim();
         const language = safeString(b?.language).trim();
+        const runtime = runnableLanguage(language, filename);
+        if (runtime) {
+          return wrap(
+            <RunnableCodeBlock
+              code={raw}
+              language={language || undefined}
+              runtime={runtime}
+              filename={filename || undefined}
+              blockId={blockId}
+              pathNodeId={safeString(pathNodeId).trim() || undefined}
+            />
+          );
+        }
         return wrap(
           <CodeBlock filename={filename || undefined} language={language || undefined}>
             {raw}
@@ -1447,12 +1513,14 @@ export function NodeDocRenderer({
         }
         if (kind === "mermaid") {
           return wrap(
-            <MermaidDiagram
-              source={safeString(b?.source)}
-              caption={caption}
-              alt={caption || "Diagram"}
-              frameClassName="bg-muted/20"
-            />
+            <Suspense fallback={<Skeleton className="h-[220px] w-full rounded-2xl" />}>
+              <MermaidDiagram
+                source={safeString(b?.source)}
+                caption={caption}
+                alt={caption || "Diagram"}
+                frameClassName="bg-muted/20"
+              />
+            </Suspense>
           );
         }
         return wrap(
@@ -1471,24 +1539,9 @@ export function NodeDocRenderer({
         if (!latex) return null;
         const caption = safeString(b?.caption).trim();
         const display = Boolean(b?.display);
-        let html = "";
-        try {
-          html = katex.renderToString(latex, { displayMode: display, throwOnError: false });
-        } catch {
-          html = "";
-        }
         return wrap(
           <div className="space-y-2 rounded-2xl border border-border/60 bg-muted/10 p-4">
-            {html ? (
-              <div
-                className={cn("overflow-x-auto text-foreground/90", display ? "text-lg" : "text-base")}
-                dangerouslySetInnerHTML={{ __html: html }}
-              />
-            ) : (
-              <pre className="overflow-x-auto text-sm text-foreground/90">
-                <code>{latex}</code>
-              </pre>
-            )}
+            <KatexEquation latex={latex} display={display} />
             {caption ? <div className="text-xs text-muted-foreground">{caption}</div> : null}
           </div>
         );
@@ -1590,6 +1643,7 @@ export function NodeDocRenderer({
       editBusy,
       interactiveMode,
       onChat,
+      onCitationOpen,
       onDislike,
       onEditConfirm,
       onEditDeny,
@@ -1630,6 +1684,69 @@ export function NodeDocRenderer({
     setMultiSectionHeight(0);
   }, [isSingleSection, sections.length]);
 
+  const singleListRef = useRef<VirtuosoHandle>(null);
+  const multiListRef = useRef<VirtuosoHandle>(null);
+  const handledScrollNonceRef = useRef<number | null>(null);
+
+  // The target block may not be mounted (virtualized), so first bring its item into range,
+  // then settle on the block element once it renders. Waits for the doc if it isn't loaded yet.
+  useEffect(() => {
+    const blockId = safeString(scrollTarget?.blockId).trim();
+    if (!scrollTarget || !blockId || handledScrollNonceRef.current === scrollTarget.nonce) return;
+    let sectionIndex = -1;
+    let blockIndex = -1;
+    for (let si = 0; si < sections.length && sectionIndex < 0; si += 1) {
+      const bi = sections[si].blocks.findIndex(({ b, i }) => (safeString(b?.id) || String(i)) === blockId);
+      if (bi >= 0) {
+        sectionIndex = si;
+        blockIndex = bi;
+      }
+    }
+    if (sectionIndex < 0) return;
+    handledScrollNonceRef.current = scrollTarget.nonce;
+
+    if (isSingleSection) {
+      singleListRef.current?.scrollToIndex({ index: blockIndex, align: "start", offset: -SCROLL_TARGET_OFFSET_PX });
+    } else {
+      multiListRef.current?.scrollToIndex({ index: sectionIndex, align: "start", offset: -SCROLL_TARGET_OFFSET_PX });
+    }
+
+    let raf = 0;
+    let attempts = 0;
+    let flashed: HTMLElement | null = null;
+    let flashTimer = 0;
+    const escaped =
+      typeof CSS !== "undefined" && typeof CSS.escape === "function" ? CSS.escape(blockId) : blockId.replace(/"/g, '\\"');
+    const settle = () => {
+      const el = document.querySelector<HTMLElement>(`[data-doc-block-id="${escaped}"]`);
+      if (el) {
+        const rect = el.getBoundingClientRect();
+        const into = Math.max(0, Math.min(1, Number(scrollTarget.offset) || 0)) * rect.height;
+        const top = rect.top + into + (window.scrollY || 0) - SCROLL_TARGET_OFFSET_PX;
+        window.scrollTo({ top: Math.max(0, top), behavior: "smooth" });
+        // Flash the target so the learner sees where a deep link landed.
+        flashed = el;
+        el.dataset.docBlockFlash = "true";
+        flashTimer = window.setTimeout(() => {
+          delete el.dataset.docBlockFlash;
+          flashed = null;
+        }, SCROLL_TARGET_FLASH_MS);
+        return;
+      }
+      attempts += 1;
+      if (attempts < 30) raf = window.requestAnimationFrame(settle);
+    };
+    const timer = window.setTimeout(() => {
+      raf = window.requestAnimationFrame(settle);
+    }, 80);
+    return () => {
+      window.clearTimeout(timer);
+      window.clearTimeout(flashTimer);
+      window.cancelAnimationFrame(raf);
+      if (flashed) delete flashed.dataset.docBlockFlash;
+    };
+  }, [isSingleSection, scrollTarget, sections]);
+
   if (!d || blocks.length === 0) {
     return <div className="text-sm text-muted-foreground">No unit doc yet.</div>;
   }
@@ -1662,6 +1779,7 @@ export function NodeDocRenderer({
           style={singleSectionHeight > 0 ? { minHeight: singleSectionHeight } : undefined}
         >
           <Virtuoso
+            ref={singleListRef}
             data={sections[0]?.blocks ?? []}
             useWindowScroll
             components={{ List: BlockList }}
@@ -1675,6 +1793,7 @@ export function NodeDocRenderer({
       ) : (
         <div style={multiSectionHeight > 0 ? { minHeight: multiSectionHeight } : undefined}>
           <Virtuoso
+            ref={multiListRef}
             data={sections}
             useWindowScroll
             components={{ List: SectionList }}
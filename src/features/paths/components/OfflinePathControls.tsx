@@ -0,0 +1,149 @@
+import { CheckCircle2, CloudDownload, Loader2, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/shared/ui/button";
+import { IconButton } from "@/shared/ui/icon-button";
+import { useI18n } from "@/app/providers/I18nProvider";
+import { useOfflineLessons, useOnlineStatus } from "@/shared/hooks/useOfflineLessons";
+import { removeOfflinePath, savePathForOffline } from "@/shared/services/OfflineLessons";
+import type { OfflinePathManifest } from "@/shared/services/OfflineContentStore";
+import { cn } from "@/shared/lib/utils";
+
+function formatBytes(v: unknown) {
+  const n = typeof v === "number" ? v : Number(v);
+  if (!Number.isFinite(n) || n <= 0) return "0 B";
+  const units = ["B", "KB", "MB", "GB"];
+  const idx = Math.min(units.length - 1, Math.floor(Math.log(n) / Math.log(1024)));
+  const value = n / Math.pow(1024, idx);
+  return `${value.toFixed(value >= 10 || idx === 0 ? 0 : 1)} ${units[idx]}`;
+}
+
+function manifestBytes(manifest: OfflinePathManifest) {
+  return (manifest.dataBytes || 0) + (manifest.mediaBytes || 0);
+}
+
+/** "Available offline" control for the path header: save, progress, usage and removal. */
+export function OfflinePathButton({ pathId, className }: { pathId: string; className?: string }) {
+  const { t } = useI18n();
+  const online = useOnlineStatus();
+  const { loaded, paths, saving, errors } = useOfflineLessons();
+  const manifest = paths.find((p) => p.pathId === pathId) ?? null;
+  const progress = saving[pathId] ?? null;
+  const error = errors[pathId] ?? null;
+
+  if (!loaded) return null;
+
+  if (progress) {
+    return (
+      <div className={cn("inline-flex items-center gap-2 text-xs sm:text-sm text-muted-foreground", className)} role="status">
+        <Loader2 className="h-4 w-4 animate-spin motion-reduce:animate-none" />
+        <span>
+          {progress.total > 0
+            ? t("offline.saving.progress", { done: progress.done, total: progress.total })
+            : t("offline.saving")}
+        </span>
+      </div>
+    );
+  }
+
+  if (manifest) {
+    return (
+      <div className={cn("inline-flex flex-wrap items-center gap-1.5", className)}>
+        <span className="inline-flex items-center gap-1.5 text-xs sm:text-sm text-foreground/90">
+          <CheckCircle2 className="h-4 w-4 text-success" />
+          {t("offline.available", { size: formatBytes(manifestBytes(manifest)) })}
+        </span>
+        <IconButton
+          type="button"
+          variant="ghost"
+          size="icon"
+          label={t("offline.refresh")}
+          disabled={!online}
+          onClick={() => void savePathForOffline(pathId)}
+          className="h-8 w-8 text-muted-foreground hover:text-foreground"
+        >
+          <RefreshCw className="h-4 w-4" />
+        </IconButton>
+        <IconButton
+          type="button"
+          variant="ghost"
+          size="icon"
+          label={t("offline.remove")}
+          onClick={() => void removeOfflinePath(pathId)}
+          className="h-8 w-8 text-muted-foreground hover:text-destructive"
+        >
+          <Trash2 className="h-4 w-4" />
+        </IconButton>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("inline-flex flex-wrap items-center gap-2", className)}>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={!online}
+        onClick={() => void savePathForOffline(pathId)}
+        className="h-9 sm:h-8 touch-manipulation"
+      >
+        <CloudDownload className="h-4 w-4" />
+        {t("offline.save")}
+      </Button>
+      {error ? <span className="text-xs text-destructive">{t("offline.saveFailed")}</span> : null}
+    </div>
+  );
+}
+
+/** Settings section listing every path saved offline with its storage usage. */
+export function OfflineStorageSection() {
+  const { t } = useI18n();
+  const { loaded, paths } = useOfflineLessons();
+  const sorted = paths.slice().sort((a, b) => manifestBytes(b) - manifestBytes(a));
+  const totalBytes = paths.reduce((sum, p) => sum + manifestBytes(p), 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="text-sm font-medium text-foreground">{t("offline.settings.title")}</div>
+          <div className="text-xs text-muted-foreground">{t("offline.settings.help")}</div>
+        </div>
+        {paths.length > 0 ? (
+          <div className="shrink-0 text-xs tabular-nums text-muted-foreground">
+            {t("offline.settings.total", { size: formatBytes(totalBytes) })}
+          </div>
+        ) : null}
+      </div>
+
+      {!loaded ? null : sorted.length === 0 ? (
+        <div className="text-xs text-muted-foreground">{t("offline.settings.empty")}</div>
+      ) : (
+        <ul className="divide-y divide-border/60 rounded-xl border border-border/60">
+          {sorted.map((manifest) => (
+            <li key={manifest.pathId} className="flex items-center justify-between gap-3 px-3 py-2">
+              <div className="min-w-0">
+                <div className="truncate text-sm text-foreground">{manifest.title || t("paths.path")}</div>
+                <div className="text-xs tabular-nums text-muted-foreground">
+                  {t("offline.settings.usage", {
+                    lessons: manifest.nodeCount,
+                    size: formatBytes(manifestBytes(manifest)),
+                  })}
+                </div>
+              </div>
+              <IconButton
+                type="button"
+                variant="ghost"
+                size="icon"
+                label={t("offline.remove")}
+                onClick={() => void removeOfflinePath(manifest.pathId)}
+                className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+              >
+                <Trash2 className="h-4 w-4" />
+              </IconButton>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useCallback, useEffect, useState } from "react";
 import { Link } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import { BookOpen, Ellipsis, RotateCcw, Trash2 } from "lucide-react";
 import { Card, CardHeader, CardTitle } from "@/shared/ui/card";
 import { Badge } from "@/shared/ui/badge";
@@ -11,12 +12,14 @@ import {
   DropdownMenuTrigger,
 } from "@/shared/ui/dropdown-menu";
 import { restartJob } from "@/shared/api/JobService";
-import { deletePath } from "@/shared/api/PathService";
+import { deletePath, listNodesForPath } from "@/shared/api/PathService";
 import { useMaterials } from "@/app/providers/MaterialProvider";
 import { usePaths } from "@/app/providers/PathProvider";
 import { useI18n } from "@/app/providers/I18nProvider";
 import { clampPct, stageLabel } from "@/shared/lib/learningBuildStages";
 import { cn } from "@/shared/lib/utils";
+import { queryKeys } from "@/shared/query/queryKeys";
+import { prefetchPathRoute } from "@/app/router/lazyRoutes";
 import { Skeleton, SkeletonPill, SkeletonText } from "@/shared/ui/skeleton";
 import type { Path } from "@/shared/types/models";
 
@@ -77,6 +80,7 @@ export function PathCardLarge({ path }: PathCardLargeProps) {
   const { t } = useI18n();
   const { activePathId, clearActivePath, reload } = usePaths();
   const { reload: reloadMaterials } = useMaterials();
+  const queryClient = useQueryClient();
   const [action, setAction] = useState<"retry" | "trash" | null>(null);
   const [coverError, setCoverError] = useState(false);
 
@@ -359,9 +363,22 @@ export function PathCardLarge({ path }: PathCardLargeProps) {
 
   if (!to) return <div className="cursor-default">{card}</div>;
 
+  // Hover/focus intent: fetch the page chunk and the outline so the path opens without a skeleton.
+  const prefetch = () => {
+    if (isPlaceholder) return;
+    prefetchPathRoute();
+    void queryClient.prefetchQuery({
+      queryKey: queryKeys.pathNodes(String(path.id)),
+      queryFn: () => listNodesForPath(String(path.id)),
+      staleTime: 60_000,
+    });
+  };
+
   return (
     <Link
       to={to}
+      onMouseEnter={prefetch}
+      onFocus={prefetch}
       className="block cursor-pointer !no-underline !text-foreground"
       aria-label={t("paths.openPath.aria", { title: path.title || t("paths.untitled") })}
     >
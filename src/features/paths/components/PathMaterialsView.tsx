@@ -1,4 +1,4 @@
-import React, { useCallback, useEffect, useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   ChevronLeft,
   ChevronRight,
@@ -6,10 +6,12 @@ import {
   File,
   FileText,
   Maximize2,
+  Quote,
+  X,
 } from "lucide-react";
 import type { LucideIcon } from "lucide-react";
 
-import { listPathMaterials } from "@/shared/api/MaterialService";
+import { getMaterialChunk, listPathMaterials, materialFileViewUrl } from "@/shared/api/MaterialService";
 import { Button } from "@/shared/ui/button";
 import { IconButton } from "@/shared/ui/icon-button";
 import { Dialog, DialogContent } from "@/shared/ui/dialog";
@@ -22,6 +24,29 @@ import type { MaterialAsset, MaterialFile } from "@/shared/types/models";
 
 type MaterialAssetsByFile = Record<string, MaterialAsset[]>;
 
+export interface MaterialsFocus {
+  chunkId?: string | null;
+  fileId?: string | null;
+  page?: number | null;
+  quote?: string | null;
+}
+
+interface ResolvedFocus {
+  key: string;
+  fileId: string;
+  page: number | null;
+  quote: string;
+}
+
+function focusKey(focus: MaterialsFocus) {
+  return [focus.chunkId || "", focus.fileId || "", focus.page ?? "", focus.quote || ""].join("|");
+}
+
+// PDF viewers that honour `#search=` (pdf.js) choke on long phrases; a short lead-in is enough to land on the quote.
+function pdfSearchTerm(quote: string) {
+  return quote.split(/\s+/).filter(Boolean).slice(0, 8).join(" ");
+}
+
 function formatBytes(v: unknown) {
   const n = typeof v === "number" ? v : Number(v);
   if (!Number.isFinite(n) || n <= 0) return "";
@@ -124,6 +149,8 @@ interface ViewerLayoutProps {
   showFullscreen: boolean;
   onOpenFullscreen?: () => void;
   openUrl?: string;
+  focusQuote?: string;
+  onDismissFocus?: () => void;
   fullscreen?: boolean;
   className?: string;
 }
@@ -144,6 +171,8 @@ function ViewerLayout({
   showFullscreen,
   onOpenFullscreen,
   openUrl,
+  focusQuote,
+  onDismissFocus,
   fullscreen = false,
   className,
 }: ViewerLayoutProps) {
@@ -283,6 +312,30 @@ function ViewerLayout({
           </div>
         </div>
 
+        {focusQuote ? (
+          <div className="flex items-start gap-3 border-b border-border/60 bg-primary/5 px-4 py-3">
+            <Quote className="mt-0.5 h-4 w-4 shrink-0 text-primary" />
+            <div className="min-w-0 flex-1">
+              <div className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground">
+                {t("paths.materials.citedPassage")}
+              </div>
+              <p dir="auto" className="mt-1 max-h-28 overflow-y-auto text-sm leading-relaxed text-foreground/90">
+                <mark className="rounded-sm bg-primary/15 px-0.5 text-foreground">{focusQuote}</mark>
+              </p>
+            </div>
+            {onDismissFocus ? (
+              <IconButton
+                variant="ghost"
+                size="icon-sm"
+                onClick={onDismissFocus}
+                label={t("common.close")}
+              >
+                <X className="h-4 w-4" />
+              </IconButton>
+            ) : null}
+          </div>
+        ) : null}
+
         <div className={cn("p-4", fullscreen && "flex-1 min-h-0")}>{viewerNode}</div>
       </section>
     </div>
@@ -297,9 +350,11 @@ function getErrorMessage(err: unknown, fallback: string) {
 
 interface PathMaterialsViewProps {
   pathId?: string | null;
+  focus?: MaterialsFocus | null;
+  onDismissFocus?: () => void;
 }
 
-export function PathMaterialsView({ pathId }: PathMaterialsViewProps) {
+export function PathMaterialsView({ pathId, focus = null, onDismissFocus }: PathMaterialsViewProps) {
   const { t } = useI18n();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
@@ -309,6 +364,8 @@ export function PathMaterialsView({ pathId }: PathMaterialsViewProps) {
   const [pageIndex, setPageIndex] = useState(0);
   const [pdfPage, setPdfPage] = useState(1);
   const [fullscreenOpen, setFullscreenOpen] = useState(false);
+  const [resolvedFocus, setResolvedFocus] = useState<ResolvedFocus | null>(null);
+  const appliedFocusRef = useRef("");
 
   useEffect(() => {
     if (!pathId) return;
@@ -348,6 +405,52 @@ export function PathMaterialsView({ pathId }: PathMaterialsViewProps) {
     };
   }, [pathId]);
 
+  const focusChunkId = String(focus?.chunkId || "").trim();
+  const focusFileId = String(focus?.fileId || "").trim();
+  const focusPage = typeof focus?.page === "number" && focus.page > 0 ? focus.page : null;
+  const focusQuoteParam = String(focus?.quote || "").trim();
+  useEffect(() => {
+    const key = focusKey({ chunkId: focusChunkId, fileId: focusFileId, page: focusPage, quote: focusQuoteParam });
+    if (focusFileId) {
+      setResolvedFocus({ key, fileId: focusFileId, page: focusPage, quote: focusQuoteParam });
+      return;
+    }
+    if (!focusChunkId) {
+      setResolvedFocus(null);
+      return;
+    }
+    let cancelled = false;
+    getMaterialChunk(focusChunkId)
+      .then((chunk) => {
+        if (cancelled) return;
+        if (!chunk?.materialFileId) {
+          setResolvedFocus(null);
+          return;
+        }
+        setResolvedFocus({
+          key,
+          fileId: chunk.materialFileId,
+          page: focusPage ?? (typeof chunk.page === "number" && chunk.page > 0 ? chunk.page : null),
+          quote: focusQuoteParam || chunk.text.trim(),
+        });
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          console.warn("[PathMaterialsView] Failed to resolve cited chunk:", err);
+          setResolvedFocus(null);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [focusChunkId, focusFileId, focusPage, focusQuoteParam]);
+
+  useEffect(() => {
+    if (!resolvedFocus) return;
+    if (!files.some((f) => f.id === resolvedFocus.fileId)) return;
+    setSelectedFileId(resolvedFocus.fileId);
+  }, [files, resolvedFocus]);
+
   useEffect(() => {
     setPageIndex(0);
     setPdfPage(1);
@@ -363,6 +466,24 @@ export function PathMaterialsView({ pathId }: PathMaterialsViewProps) {
     return normalizePageAssets(assets);
   }, [assetsByFile, selectedFile]);
 
+  // Jump to the cited page once per focus target, after the file switch above has reset paging.
+  useEffect(() => {
+    if (!resolvedFocus || !selectedFile || selectedFile.id !== resolvedFocus.fileId) return;
+    if (appliedFocusRef.current === resolvedFocus.key) return;
+    appliedFocusRef.current = resolvedFocus.key;
+    const page = resolvedFocus.page;
+    if (!page) return;
+    if (pageAssets.length > 0) {
+      const exact = pageAssets.findIndex((a) => a.page === page);
+      setPageIndex(exact >= 0 ? exact : Math.min(pageAssets.length - 1, Math.max(0, page - 1)));
+      return;
+    }
+    setPdfPage(page);
+  }, [pageAssets, resolvedFocus, selectedFile]);
+
+  const focusQuote =
+    resolvedFocus && selectedFile && selectedFile.id === resolvedFocus.fileId ? resolvedFocus.quote : "";
+
   const fileName = String(selectedFile?.originalName || "").toLowerCase();
   const isPdf = Boolean(selectedFile?.mimeType?.includes("pdf")) || fileName.endsWith(".pdf");
   const isImage =
@@ -407,14 +528,7 @@ export function PathMaterialsView({ pathId }: PathMaterialsViewProps) {
 
   const viewerHeight = fullscreenOpen ? "h-full min-h-0" : "h-[360px] sm:h-[520px]";
   const apiBase = (import.meta.env.VITE_API_BASE_URL || "/api").replace(/\/$/, "");
-  const buildFileViewUrl = useCallback(
-    (fileId: string) => {
-      const token = getAccessToken();
-      const baseUrl = `${apiBase}/material-files/${fileId}/view`;
-      return token ? `${baseUrl}?token=${encodeURIComponent(token)}` : baseUrl;
-    },
-    [apiBase]
-  );
+  const buildFileViewUrl = materialFileViewUrl;
   const buildAssetViewUrl = useCallback(
     (assetId: string) => {
       const token = getAccessToken();
@@ -491,7 +605,8 @@ export function PathMaterialsView({ pathId }: PathMaterialsViewProps) {
         );
       }
       if (isPdf) {
-        const src = `${fileUrl}#page=${pdfPage}&view=FitH`;
+        const search = focusQuote ? pdfSearchTerm(focusQuote) : "";
+        const src = `${fileUrl}#page=${pdfPage}&view=FitH${search ? `&search=${encodeURIComponent(search)}` : ""}`;
         return (
           <div className={cn("overflow-hidden rounded-2xl border border-border/60 bg-muted/20", viewerHeight)}>
             <iframe title={selectedFile.originalName || t("paths.materials.document")} src={src} className="h-full w-full" />
@@ -522,6 +637,7 @@ export function PathMaterialsView({ pathId }: PathMaterialsViewProps) {
   }, [
     buildAssetViewUrl,
     buildFileViewUrl,
+    focusQuote,
     isAudio,
     isImage,
     isPdf,
@@ -571,6 +687,13 @@ export function PathMaterialsView({ pathId }: PathMaterialsViewProps) {
     disableNext: pageAssets.length > 0 ? pageIndex >= Math.max(0, pageAssets.length - 1) : false,
     showFullscreen: false,
     openUrl: selectedFile ? buildFileViewUrl(selectedFile.id) : undefined,
+    focusQuote,
+    onDismissFocus: focusQuote
+      ? () => {
+          setResolvedFocus(null);
+          onDismissFocus?.();
+        }
+      : undefined,
     fullscreen: false,
   };
 
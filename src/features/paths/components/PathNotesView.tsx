@@ -0,0 +1,182 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronRight, Highlighter, StickyNote } from "lucide-react";
+import { EmptyContent } from "@/shared/components/EmptyContent";
+import { Skeleton } from "@/shared/ui/skeleton";
+import { useI18n } from "@/app/providers/I18nProvider";
+import { HIGHLIGHT_COLORS, listHighlightsForPath } from "@/shared/api/HighlightService";
+import { HIGHLIGHT_SWATCH_CLASS } from "@/features/paths/components/LessonHighlights";
+import { queryKeys } from "@/shared/query/queryKeys";
+import { cn } from "@/shared/lib/utils";
+import type { Highlight, HighlightColor, PathNode } from "@/shared/types/models";
+
+type LessonGroup = { nodeId: string; title: string; highlights: Highlight[] };
+
+function byPosition(a: Highlight, b: Highlight) {
+  const ai = a.blockIndex ?? Number.MAX_SAFE_INTEGER;
+  const bi = b.blockIndex ?? Number.MAX_SAFE_INTEGER;
+  return ai - bi || a.startOffset - b.startOffset;
+}
+
+/** "My notes": every highlight in the path, grouped by lesson in outline order. */
+export function PathNotesView({ pathId, nodes }: { pathId: string; nodes: PathNode[] }) {
+  const { t } = useI18n();
+  const navigate = useNavigate();
+  const [color, setColor] = useState<HighlightColor | null>(null);
+  const [notesOnly, setNotesOnly] = useState(false);
+
+  const highlightsQuery = useQuery({
+    queryKey: queryKeys.pathHighlights(pathId),
+    enabled: Boolean(pathId),
+    staleTime: 30_000,
+    queryFn: () => listHighlightsForPath(pathId),
+  });
+
+  const groups = useMemo<LessonGroup[]>(() => {
+    const list = (highlightsQuery.data ?? []).filter(
+      (h) => (!color || h.color === color) && (!notesOnly || h.note.trim() !== "")
+    );
+    const byNode = new Map<string, Highlight[]>();
+    for (const h of list) {
+      const items = byNode.get(h.pathNodeId) ?? [];
+      items.push(h);
+      byNode.set(h.pathNodeId, items);
+    }
+    const out: LessonGroup[] = [];
+    for (const node of nodes) {
+      const items = byNode.get(String(node.id));
+      if (!items) continue;
+      byNode.delete(String(node.id));
+      out.push({ nodeId: String(node.id), title: node.title, highlights: items.sort(byPosition) });
+    }
+    // Lessons missing from the outline (e.g. still loading) go last.
+    for (const [nodeId, items] of byNode) {
+      out.push({ nodeId, title: t("notes.unknownLesson"), highlights: items.sort(byPosition) });
+    }
+    return out;
+  }, [color, highlightsQuery.data, nodes, notesOnly, t]);
+
+  const total = highlightsQuery.data?.length ?? 0;
+
+  const open = (h: Highlight) => {
+    navigate(`/path-nodes/${h.pathNodeId}#block-${encodeURIComponent(h.blockId)}`, {
+      state: { highlightId: h.id },
+    });
+  };
+
+  if (highlightsQuery.isLoading) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-5 w-40" />
+        <Skeleton className="h-20 w-full rounded-xl" />
+        <Skeleton className="h-20 w-full rounded-xl" />
+      </div>
+    );
+  }
+
+  if (highlightsQuery.isError) {
+    return (
+      <div className="rounded-lg border border-border bg-muted/30 p-3 text-sm text-muted-foreground">
+        {t("notes.loadFailed")}
+      </div>
+    );
+  }
+
+  if (total === 0) {
+    return (
+      <EmptyContent
+        title={t("notes.empty.title")}
+        message={t("notes.empty.message")}
+        icon={<Highlighter className="h-7 w-7" />}
+      />
+    );
+  }
+
+  return (
+    <section className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-xs sm:text-sm font-medium uppercase tracking-wide text-muted-foreground">
+            {t("notes.title")}
+          </h2>
+          <p className="mt-1 text-sm text-muted-foreground">{t("notes.count", { count: total })}</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-1.5">
+          <button
+            type="button"
+            onClick={() => setColor(null)}
+            aria-pressed={color == null}
+            className={cn(
+              "h-8 rounded-full border border-border/60 px-3 text-xs nb-motion-fast motion-reduce:transition-none",
+              color == null ? "bg-foreground text-background" : "bg-background hover:bg-muted/40"
+            )}
+          >
+            {t("notes.filter.all")}
+          </button>
+          {HIGHLIGHT_COLORS.map((c) => (
+            <button
+              key={c}
+              type="button"
+              onClick={() => setColor(color === c ? null : c)}
+              aria-pressed={color === c}
+              aria-label={t(`highlights.color.${c}`)}
+              className={cn(
+                "h-7 w-7 rounded-full border border-border/60 nb-motion-fast motion-reduce:transition-none",
+                color === c && "ring-2 ring-ring ring-offset-2 ring-offset-background",
+                HIGHLIGHT_SWATCH_CLASS[c]
+              )}
+            />
+          ))}
+          <button
+            type="button"
+            onClick={() => setNotesOnly((v) => !v)}
+            aria-pressed={notesOnly}
+            className={cn(
+              "ms-1 inline-flex h-8 items-center gap-1.5 rounded-full border border-border/60 px-3 text-xs nb-motion-fast motion-reduce:transition-none",
+              notesOnly ? "bg-foreground text-background" : "bg-background hover:bg-muted/40"
+            )}
+          >
+            <StickyNote className="h-3.5 w-3.5" />
+            {t("notes.filter.withNotes")}
+          </button>
+        </div>
+      </div>
+
+      {groups.map((group) => (
+        <div key={group.nodeId} className="space-y-2">
+          <h3 className="text-sm sm:text-base font-medium text-foreground">{group.title}</h3>
+          <ul className="space-y-2">
+            {group.highlights.map((h) => (
+              <li key={h.id}>
+                <button
+                  type="button"
+                  onClick={() => open(h)}
+                  title={t("notes.open")}
+                  className={cn(
+                    "group w-full rounded-xl border border-border bg-background px-3 py-3 sm:px-4 text-start",
+                    "nb-motion-fast motion-reduce:transition-none hover:bg-muted/30 active:bg-muted/50 touch-manipulation"
+                  )}
+                >
+                  <div className="flex items-start gap-3">
+                    <span aria-hidden="true" className={cn("w-1 shrink-0 self-stretch rounded-full", HIGHLIGHT_SWATCH_CLASS[h.color])} />
+                    <div className="min-w-0 flex-1 space-y-1.5">
+                      <blockquote className="text-sm leading-relaxed text-foreground/90 line-clamp-4">{h.quote}</blockquote>
+                      {h.note.trim() ? (
+                        <p className="flex items-start gap-1.5 text-sm text-muted-foreground whitespace-pre-wrap">
+                          <StickyNote className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                          <span>{h.note}</span>
+                        </p>
+                      ) : null}
+                    </div>
+                    <ChevronRight className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </section>
+  );
+}
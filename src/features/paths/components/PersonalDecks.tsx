@@ -0,0 +1,322 @@
+import React, { useMemo, useRef, useState } from "react";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { FileUp, Layers, Trash2, Upload } from "lucide-react";
+import { Button } from "@/shared/ui/button";
+import { IconButton } from "@/shared/ui/icon-button";
+import { Input } from "@/shared/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/shared/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/shared/ui/select";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/shared/ui/sheet";
+import { CodeBlock, InlineCode } from "@/shared/components/CodeBlock";
+import { useToast } from "@/shared/ui/toast";
+import { useI18n } from "@/app/providers/I18nProvider";
+import { usePersonalDecks } from "@/shared/hooks/usePersonalDecks";
+import { createPersonalDeck, deletePersonalDeck, type PersonalDeck } from "@/shared/services/PersonalDeckStore";
+import { buildFlashcards, parseCardFile, type ColumnRole, type ParsedCardFile } from "@/features/paths/lib/cardImport";
+import { FlashcardsDrill } from "@/features/paths/components/FlashcardsDrill";
+import type { DrillPayloadV1 } from "@/shared/types/drillPayloadV1";
+import { cn } from "@/shared/lib/utils";
+
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+const PREVIEW_COUNT = 5;
+const ROLES: ColumnRole[] = ["front", "back", "tags", "ignore"];
+
+const markdownCodeComponents = {
+  code({
+    inline,
+    className,
+    children,
+  }: {
+    inline?: boolean;
+    className?: string;
+    children?: React.ReactNode;
+  }) {
+    const raw = String(children || "");
+    const m = /language-([a-zA-Z0-9_-]+)/.exec(className || "");
+    const lang = m?.[1] || "";
+    if (inline) return <InlineCode>{raw}</InlineCode>;
+    return <CodeBlock language={lang}>{raw.replace(/\n$/, "")}</CodeBlock>;
+  },
+};
+
+/** Wraps a personal deck as a flashcards drill so it plays through the regular drill UI. */
+export function personalDeckDrill(deck: PersonalDeck): DrillPayloadV1 {
+  return { schema_version: 1, kind: "flashcards", cards: deck.cards, questions: [] };
+}
+
+function columnLabel(parsed: ParsedCardFile, index: number, fallback: string) {
+  const name = parsed.header?.[index]?.trim();
+  return name || fallback;
+}
+
+export function DeckImportDialog({
+  pathId,
+  open,
+  onOpenChange,
+}: {
+  pathId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { t } = useI18n();
+  const { push } = useToast();
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [parsed, setParsed] = useState<ParsedCardFile | null>(null);
+  const [roles, setRoles] = useState<ColumnRole[]>([]);
+  const [title, setTitle] = useState("");
+  const [error, setError] = useState("");
+
+  const cards = useMemo(() => (parsed ? buildFlashcards(parsed, roles) : []), [parsed, roles]);
+  const hasFront = roles.includes("front");
+  const hasBack = roles.includes("back");
+
+  const reset = () => {
+    setFileName("");
+    setParsed(null);
+    setRoles([]);
+    setTitle("");
+    setError("");
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (file: File | null | undefined) => {
+    setError("");
+    if (!file) return;
+    if (file.size > MAX_FILE_BYTES) {
+      setError(t("deckImport.error.tooLarge"));
+      return;
+    }
+    try {
+      const text = await file.text();
+      const next = parseCardFile(text, file.name);
+      if (next.rows.length === 0 || next.columnCount < 2) {
+        setParsed(null);
+        setError(t("deckImport.error.unreadable"));
+        return;
+      }
+      setFileName(file.name);
+      setParsed(next);
+      setRoles(next.suggestedRoles);
+      setTitle(next.deckName);
+    } catch (err) {
+      console.warn("[DeckImportDialog] parse failed:", err);
+      setParsed(null);
+      setError(t("deckImport.error.unreadable"));
+    }
+  };
+
+  // Front, back and tags are each mapped to at most one column.
+  const setRole = (index: number, role: ColumnRole) => {
+    setRoles((prev) =>
+      prev.map((r, i) => {
+        if (i === index) return role;
+        return role !== "ignore" && r === role ? "ignore" : r;
+      })
+    );
+  };
+
+  const save = () => {
+    if (!parsed || cards.length === 0) return;
+    try {
+      createPersonalDeck({ pathId, title, sourceName: fileName, cards });
+      push({ variant: "success", title: t("deckImport.saved", { count: cards.length }) });
+      handleOpenChange(false);
+    } catch (err) {
+      console.warn("[DeckImportDialog] save failed:", err);
+      setError(t("deckImport.error.storage"));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{t("deckImport.title")}</DialogTitle>
+          <DialogDescription>{t("deckImport.description")}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain"
+            className="hidden"
+            onChange={(e) => void handleFile(e.target.files?.[0])}
+          />
+          <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <FileUp className="h-4 w-4" />
+            {fileName || t("deckImport.chooseFile")}
+          </Button>
+
+          {parsed ? (
+            <>
+              <div className="space-y-1.5">
+                <div className="text-xs font-medium text-muted-foreground">{t("deckImport.deckName")}</div>
+                <Input value={title} onChange={(e) => setTitle(e.target.value)} />
+              </div>
+
+              <div className="space-y-2">
+                <div className="text-xs font-medium text-muted-foreground">
+                  {t("deckImport.columns", { rows: parsed.rows.length })}
+                </div>
+                <div className="grid gap-2 sm:grid-cols-2">
+                  {Array.from({ length: parsed.columnCount }, (_, i) => (
+                    <div key={i} className="flex items-center gap-2">
+                      <div className="min-w-0 flex-1">
+                        <div className="truncate text-sm text-foreground">
+                          {columnLabel(parsed, i, t("deckImport.column", { index: i + 1 }))}
+                        </div>
+                        <div className="truncate text-xs text-muted-foreground">{parsed.rows[0]?.[i] ?? ""}</div>
+                      </div>
+                      <Select value={roles[i] ?? "ignore"} onValueChange={(value) => setRole(i, value as ColumnRole)}>
+                        <SelectTrigger className="w-32 shrink-0">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROLES.map((role) => (
+                            <SelectItem key={role} value={role}>
+                              {t(`deckImport.role.${role}`)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+                {!hasFront || !hasBack ? (
+                  <div className="text-xs text-destructive">{t("deckImport.error.mapping")}</div>
+                ) : null}
+              </div>
+
+              {cards.length > 0 ? (
+                <div className="space-y-2">
+                  <div className="text-xs font-medium text-muted-foreground">
+                    {t("deckImport.preview", { shown: Math.min(PREVIEW_COUNT, cards.length), total: cards.length })}
+                  </div>
+                  <ul className="divide-y divide-border/60 rounded-xl border border-border/60">
+                    {cards.slice(0, PREVIEW_COUNT).map((card, i) => (
+                      <li key={i} className="grid gap-2 px-3 py-2 text-sm sm:grid-cols-2">
+                        <div className="min-w-0 text-foreground/90">
+                          <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownCodeComponents}>
+                            {card.front_md}
+                          </ReactMarkdown>
+                        </div>
+                        <div className="min-w-0 text-muted-foreground">
+                          <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownCodeComponents}>
+                            {card.back_md}
+                          </ReactMarkdown>
+                          {card.concept_keys && card.concept_keys.length > 0 ? (
+                            <div className="mt-1 text-xs">{card.concept_keys.join(" · ")}</div>
+                          ) : null}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : null}
+            </>
+          ) : null}
+
+          {error ? (
+            <div className="rounded-md border border-destructive/30 bg-destructive/10 px-3 py-2 text-xs text-destructive">
+              {error}
+            </div>
+          ) : null}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            {t("common.cancel")}
+          </Button>
+          <Button onClick={save} disabled={!parsed || cards.length === 0}>
+            {t("deckImport.save", { count: cards.length })}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/** Path page section listing the learner's imported decks, with import and study actions. */
+export function PersonalDecksSection({ pathId, className }: { pathId: string; className?: string }) {
+  const { t } = useI18n();
+  const decks = usePersonalDecks(pathId);
+  const [importOpen, setImportOpen] = useState(false);
+  const [studyDeck, setStudyDeck] = useState<PersonalDeck | null>(null);
+  const studyDrill = useMemo(() => (studyDeck ? personalDeckDrill(studyDeck) : null), [studyDeck]);
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          <div className="text-sm font-medium text-foreground">{t("deckImport.section.title")}</div>
+          {decks.length === 0 ? (
+            <div className="text-xs text-muted-foreground">{t("deckImport.section.empty")}</div>
+          ) : null}
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => setImportOpen(true)}
+          className="h-9 sm:h-8 shrink-0 touch-manipulation"
+        >
+          <Upload className="h-4 w-4" />
+          {t("deckImport.open")}
+        </Button>
+      </div>
+
+      {decks.length > 0 ? (
+        <ul className="divide-y divide-border/60 rounded-xl border border-border/60">
+          {decks.map((deck) => (
+            <li key={deck.id} className="flex items-center justify-between gap-3 px-3 py-2">
+              <button
+                type="button"
+                onClick={() => setStudyDeck(deck)}
+                className="flex min-w-0 flex-1 items-center gap-2 text-left hover:text-primary"
+              >
+                <Layers className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <span className="min-w-0">
+                  <span className="block truncate text-sm text-foreground">{deck.title}</span>
+                  <span className="block text-xs tabular-nums text-muted-foreground">
+                    {t("deckImport.section.count", { count: deck.cards.length })}
+                  </span>
+                </span>
+              </button>
+              <IconButton
+                type="button"
+                variant="ghost"
+                size="icon"
+                label={t("deckImport.delete")}
+                onClick={() => deletePersonalDeck(deck.id)}
+                className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+              >
+                <Trash2 className="h-4 w-4" />
+              </IconButton>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      <DeckImportDialog pathId={pathId} open={importOpen} onOpenChange={setImportOpen} />
+
+      <Sheet open={Boolean(studyDeck)} onOpenChange={(open) => !open && setStudyDeck(null)}>
+        <SheetContent side="right" className="w-[95vw] xs:w-[92vw] sm:w-[520px] md:w-[560px]">
+          <SheetHeader>
+            <SheetTitle className="text-lg xs:text-xl sm:text-2xl">{studyDeck?.title}</SheetTitle>
+          </SheetHeader>
+          <div className="mt-3 sm:mt-4">
+            <FlashcardsDrill drill={studyDrill} pathId={pathId} />
+          </div>
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import React, { useMemo } from "react";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { Check, RotateCcw, X } from "lucide-react";
+import { Button } from "@/shared/ui/button";
+import { CodeBlock, InlineCode } from "@/shared/components/CodeBlock";
+import { DocCitations, normalizeCitations } from "@/features/paths/components/DocCitations";
+import { normalizeQuizOptions, quizAnswerId } from "@/features/paths/lib/quizQuestions";
+import { useI18n } from "@/app/providers/I18nProvider";
+import { cn } from "@/shared/lib/utils";
+import type { QuizAttempt } from "@/shared/services/QuizAttemptStore";
+import type { CitationRefV1 } from "@/shared/types/nodeDocV1";
+
+const markdownCodeComponents = {
+  code({
+    inline,
+    className,
+    children,
+  }: {
+    inline?: boolean;
+    className?: string;
+    children?: React.ReactNode;
+  }) {
+    const raw = String(children || "");
+    const m = /language-([a-zA-Z0-9_-]+)/.exec(className || "");
+    const lang = m?.[1] || "";
+    if (inline) return <InlineCode>{raw}</InlineCode>;
+    return <CodeBlock language={lang}>{raw.replace(/\n$/, "")}</CodeBlock>;
+  },
+};
+
+export function QuizAttemptResults({
+  attempt,
+  onRetryMissed,
+  onRetakeAll,
+  onOpenSource,
+}: {
+  attempt: QuizAttempt;
+  onRetryMissed: () => void;
+  onRetakeAll: () => void;
+  onOpenSource?: (citation: CitationRefV1) => void;
+}) {
+  const { t } = useI18n();
+  const answersById = useMemo(() => new Map(attempt.answers.map((a) => [a.questionId, a])), [attempt.answers]);
+  const missedCount = attempt.answers.filter((a) => !a.isCorrect).length;
+  const pct = attempt.total > 0 ? Math.round((attempt.correct / attempt.total) * 100) : 0;
+
+  return (
+    <div className="space-y-3 sm:space-y-4">
+      <div className="rounded-lg sm:rounded-xl border border-border bg-muted/30 p-3 sm:p-4">
+        <div className="text-[11px] xs:text-xs font-medium text-muted-foreground">
+          {attempt.mode === "missed" ? t("pathNode.drills.quiz.results.missedTitle") : t("pathNode.drills.quiz.results.title")}
+        </div>
+        <div className="mt-1 flex items-baseline gap-2">
+          <span className="text-2xl font-semibold tabular-nums text-foreground">{pct}%</span>
+          <span className="text-sm text-muted-foreground">
+            {t("pathNode.drills.quiz.results.score", { correct: attempt.correct, total: attempt.total })}
+          </span>
+        </div>
+      </div>
+
+      <ol className="space-y-2">
+        {attempt.questions.map((q, i) => {
+          const qid = String(q.id);
+          const answer = answersById.get(qid);
+          const options = normalizeQuizOptions(q);
+          const answerId = quizAnswerId(q);
+          const selectedText = options.find((o) => o.id === answer?.selectedId)?.text ?? "";
+          const correctText = options.find((o) => o.id === answerId)?.text ?? "";
+          const isCorrect = Boolean(answer?.isCorrect);
+          const citations = normalizeCitations(q.citations);
+          return (
+            <li
+              key={qid}
+              className={cn(
+                "rounded-lg sm:rounded-xl border bg-background p-3 sm:p-4",
+                isCorrect ? "border-success/40" : "border-destructive/40"
+              )}
+            >
+              <div className="flex items-start gap-2">
+                <span
+                  className={cn(
+                    "mt-0.5 inline-flex h-5 w-5 shrink-0 items-center justify-center rounded-full",
+                    isCorrect ? "bg-success/15 text-success" : "bg-destructive/15 text-destructive"
+                  )}
+                  aria-label={isCorrect ? t("pathNode.drills.quiz.results.correct") : t("pathNode.drills.quiz.results.incorrect")}
+                >
+                  {isCorrect ? <Check className="h-3.5 w-3.5" /> : <X className="h-3.5 w-3.5" />}
+                </span>
+                <div className="min-w-0 flex-1 text-sm sm:text-[15px] leading-relaxed text-foreground/90">
+                  <div className="sr-only">{t("pathNode.drills.quiz.count", { current: i + 1, total: attempt.questions.length })}</div>
+                  <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownCodeComponents}>
+                    {String(q.prompt_md ?? "")}
+                  </ReactMarkdown>
+                </div>
+              </div>
+
+              <div className="mt-2 space-y-1 ps-7 text-xs sm:text-sm">
+                <div className={cn(isCorrect ? "text-success" : "text-destructive")}>
+                  {answer
+                    ? t("pathNode.drills.quiz.results.yourAnswer", { answer: selectedText })
+                    : t("pathNode.drills.quiz.results.unanswered")}
+                </div>
+                {!isCorrect && correctText ? (
+                  <div className="text-foreground/80">
+                    {t("pathNode.drills.quiz.results.correctAnswer", { answer: correctText })}
+                  </div>
+                ) : null}
+              </div>
+
+              {q.explanation_md ? (
+                <div className="mt-2 ps-7">
+                  <div className="text-[11px] xs:text-xs font-medium text-muted-foreground">
+                    {t("pathNode.drills.quiz.explanation")}
+                  </div>
+                  <div className="mt-1 text-sm leading-relaxed text-foreground/90">
+                    <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownCodeComponents}>
+                      {String(q.explanation_md)}
+                    </ReactMarkdown>
+                  </div>
+                  <DocCitations citations={citations} onOpenSource={onOpenSource} />
+                </div>
+              ) : (
+                <DocCitations citations={citations} onOpenSource={onOpenSource} className="ps-7" />
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      <div className="flex items-center justify-between gap-3 pt-1">
+        <Button
+          variant="outline"
+          onClick={onRetakeAll}
+          className={cn(
+            "flex-1 sm:flex-none",
+            "h-11 sm:h-10",
+            "touch-manipulation -webkit-tap-highlight-color-transparent",
+            "active:scale-[0.97]"
+          )}
+        >
+          <RotateCcw className="h-4 w-4" />
+          {t("pathNode.drills.quiz.results.retakeAll")}
+        </Button>
+        <Button
+          onClick={onRetryMissed}
+          disabled={missedCount === 0}
+          className={cn(
+            "flex-1 sm:flex-none",
+            "h-11 sm:h-10",
+            "touch-manipulation -webkit-tap-highlight-color-transparent",
+            "active:scale-[0.97]"
+          )}
+        >
+          {t("pathNode.drills.quiz.results.retryMissed", { count: missedCount })}
+        </Button>
+      </div>
+    </div>
+  );
+}
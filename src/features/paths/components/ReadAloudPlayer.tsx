@@ -0,0 +1,385 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Pause, Play, SkipBack, SkipForward, X } from "lucide-react";
+import { IconButton } from "@/shared/ui/icon-button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/shared/ui/select";
+import { useI18n } from "@/app/providers/I18nProvider";
+import { READ_ALOUD_RATES, useReadAloud } from "@/shared/hooks/useReadAloud";
+import { extractSpokenBlockText, latexToSpeech, markdownToSpeech, splitSentences } from "@/features/paths/lib/docBlockText";
+import { collectRenderedText, rangeFromOffsets } from "@/features/paths/lib/renderedText";
+import type { MessageKey } from "@/shared/i18n/messages";
+import type { TemplateValues } from "@/shared/i18n/translate";
+import { cn } from "@/shared/lib/utils";
+
+type DocBlock = {
+  id?: string;
+  type?: string;
+  [key: string]: unknown;
+};
+
+type Translate = (key: MessageKey, values?: TemplateValues) => string;
+
+interface NarrationSegment {
+  blockId: string;
+  text: string;
+  isHeading: boolean;
+  sentenceIndex: number;
+  sentenceCount: number;
+}
+
+interface WordSpan {
+  // Offset of the word inside the spoken sentence, as reported by boundary events.
+  charIndex: number;
+  range: Range;
+}
+
+const HIGHLIGHT_SENTENCE = "nb-read-aloud-sentence";
+const HIGHLIGHT_WORD = "nb-read-aloud-word";
+// How far ahead of the previous match a word may be found before the match is treated as a miss.
+const MATCH_WINDOW_CHARS = 160;
+const VOICE_DEFAULT = "__default__";
+
+function str(v: unknown) {
+  return typeof v === "string" ? v.trim() : "";
+}
+
+/** What to say for a block: prose is read, code/tables/equations/media are described briefly. */
+function narrateBlock(block: DocBlock, t: Translate): string {
+  const type = str(block.type).toLowerCase();
+  const caption = str(block.caption);
+  switch (type) {
+    case "divider":
+      return "";
+    case "heading":
+      return markdownToSpeech(str(block.text));
+    case "code": {
+      const language = str(block.language);
+      return language ? t("readAloud.describe.codeIn", { language }) : t("readAloud.describe.code");
+    }
+    case "table": {
+      const rows = Array.isArray(block.rows) ? block.rows.length : 0;
+      const columns = Array.isArray(block.columns) ? block.columns.map((c) => String(c ?? "")).filter(Boolean) : [];
+      const base = t("readAloud.describe.table", { rows, columns: columns.join(", ") });
+      return caption ? `${base} ${markdownToSpeech(caption)}` : base;
+    }
+    case "equation": {
+      const latex = str(block.latex);
+      const spoken = latex.length > 0 && latex.length <= 60 ? latexToSpeech(latex) : "";
+      const base = spoken ? t("readAloud.describe.equationSpoken", { equation: spoken }) : t("readAloud.describe.equation");
+      return caption ? `${base} ${markdownToSpeech(caption)}` : base;
+    }
+    case "figure":
+      return caption ? t("readAloud.describe.figure", { caption: markdownToSpeech(caption) }) : "";
+    case "video":
+      return caption ? t("readAloud.describe.video", { caption: markdownToSpeech(caption) }) : "";
+    case "diagram":
+      return caption ? t("readAloud.describe.diagram", { caption: markdownToSpeech(caption) }) : t("readAloud.describe.diagramNoCaption");
+    case "quick_check":
+      return t("readAloud.describe.quickCheck", { prompt: markdownToSpeech(str(block.prompt_md)) });
+    case "flashcard":
+      return t("readAloud.describe.flashcard", { prompt: markdownToSpeech(str(block.front_md)) });
+    default:
+      return markdownToSpeech(extractSpokenBlockText(block));
+  }
+}
+
+function buildNarration(blocks: DocBlock[], t: Translate): NarrationSegment[] {
+  const out: NarrationSegment[] = [];
+  blocks.forEach((block, i) => {
+    const blockId = str(block?.id) || String(i);
+    const isHeading = str(block?.type).toLowerCase() === "heading";
+    const sentences = splitSentences(narrateBlock(block, t));
+    sentences.forEach((text, sentenceIndex) => {
+      out.push({ blockId, text, isHeading, sentenceIndex, sentenceCount: sentences.length });
+    });
+  });
+  return out;
+}
+
+function blockElement(blockId: string) {
+  const escaped = typeof CSS !== "undefined" && CSS.escape ? CSS.escape(blockId) : blockId.replace(/"/g, '\\"');
+  return document.querySelector<HTMLElement>(`[data-doc-block-id="${escaped}"]`);
+}
+
+function supportsHighlights() {
+  return typeof CSS !== "undefined" && "highlights" in CSS && typeof Highlight !== "undefined";
+}
+
+function setHighlight(name: string, ranges: Range[]) {
+  if (!supportsHighlights()) return;
+  if (ranges.length === 0) CSS.highlights.delete(name);
+  else CSS.highlights.set(name, new Highlight(...ranges));
+}
+
+/**
+ * Finds each spoken word of a sentence in the block's rendered text, moving forward from the
+ * previous sentence. The spoken text is derived from markdown, so words that don't appear
+ * verbatim (described code, math) are simply skipped.
+ */
+function matchSentence(root: HTMLElement, sentence: string, cursor: number) {
+  const { text, nodes } = collectRenderedText(root);
+  const lower = text.toLowerCase();
+  const words: WordSpan[] = [];
+  let pos = cursor;
+  let first = -1;
+  let last = -1;
+  for (const match of sentence.matchAll(/\S+/g)) {
+    const core = /[\p{L}\p{N}]+/u.exec(match[0]);
+    if (!core) continue;
+    const needle = core[0].toLowerCase();
+    const found = lower.indexOf(needle, pos);
+    if (found < 0 || found - pos > MATCH_WINDOW_CHARS) continue;
+    const range = rangeFromOffsets(nodes, found, found + needle.length);
+    if (!range) continue;
+    words.push({ charIndex: match.index ?? 0, range });
+    if (first < 0) first = found;
+    last = found + needle.length;
+    pos = last;
+  }
+  const sentenceRange = first >= 0 ? rangeFromOffsets(nodes, first, last) : null;
+  return { words, sentenceRange, cursor: last >= 0 ? last : cursor };
+}
+
+function scrollIntoViewIfNeeded(el: HTMLElement) {
+  const rect = el.getBoundingClientRect();
+  const viewH = window.innerHeight || document.documentElement.clientHeight;
+  if (rect.top >= 64 && rect.bottom <= viewH - 96) return;
+  const reduceMotion = window.matchMedia?.("(prefers-reduced-motion: reduce)").matches;
+  el.scrollIntoView({ behavior: reduceMotion ? "auto" : "smooth", block: "center" });
+}
+
+/**
+ * Text-to-speech player for a lesson doc. Highlights the block, sentence and word being read
+ * and reports per-block progress as sentences finish.
+ */
+export function ReadAloudPlayer({
+  blocks,
+  onBlockProgress,
+  onClose,
+  className,
+}: {
+  blocks: DocBlock[];
+  onBlockProgress: (blockId: string, fraction: number) => void;
+  onClose: () => void;
+  className?: string;
+}) {
+  const { t } = useI18n();
+  const segments = useMemo(() => buildNarration(blocks, t), [blocks, t]);
+  const texts = useMemo(() => segments.map((s) => s.text), [segments]);
+  const [word, setWord] = useState<{ index: number; start: number; end: number } | null>(null);
+
+  const activeBlockRef = useRef<HTMLElement | null>(null);
+  const blockCursorRef = useRef<{ blockId: string; cursor: number }>({ blockId: "", cursor: 0 });
+  const wordSpansRef = useRef<WordSpan[]>([]);
+
+  const clearHighlights = useCallback(() => {
+    activeBlockRef.current?.removeAttribute("data-read-aloud-active");
+    activeBlockRef.current = null;
+    wordSpansRef.current = [];
+    setHighlight(HIGHLIGHT_SENTENCE, []);
+    setHighlight(HIGHLIGHT_WORD, []);
+  }, []);
+
+  const onSegmentStart = useCallback((index: number) => {
+    const seg = segments[index];
+    setWord(null);
+    if (!seg) return;
+    const el = blockElement(seg.blockId);
+    if (activeBlockRef.current !== el) {
+      activeBlockRef.current?.removeAttribute("data-read-aloud-active");
+      activeBlockRef.current = el;
+      if (el) {
+        el.setAttribute("data-read-aloud-active", "true");
+        scrollIntoViewIfNeeded(el);
+      }
+    }
+    if (blockCursorRef.current.blockId !== seg.blockId || seg.sentenceIndex === 0) {
+      blockCursorRef.current = { blockId: seg.blockId, cursor: 0 };
+    }
+    if (!el || !supportsHighlights()) {
+      wordSpansRef.current = [];
+      return;
+    }
+    const matched = matchSentence(el, seg.text, blockCursorRef.current.cursor);
+    blockCursorRef.current.cursor = matched.cursor;
+    wordSpansRef.current = matched.words;
+    setHighlight(HIGHLIGHT_SENTENCE, matched.sentenceRange ? [matched.sentenceRange] : []);
+    setHighlight(HIGHLIGHT_WORD, []);
+  }, [segments]);
+
+  const onWord = useCallback((index: number, charIndex: number, charLength: number) => {
+    setWord({ index, start: charIndex, end: charIndex + charLength });
+    const span = wordSpansRef.current.find((w) => w.charIndex === charIndex);
+    setHighlight(HIGHLIGHT_WORD, span ? [span.range] : []);
+  }, []);
+
+  const onSegmentEnd = useCallback(
+    (index: number) => {
+      const seg = segments[index];
+      if (!seg) return;
+      onBlockProgress(seg.blockId, (seg.sentenceIndex + 1) / Math.max(seg.sentenceCount, 1));
+    },
+    [onBlockProgress, segments]
+  );
+
+  const player = useReadAloud(texts, { onSegmentStart, onWord, onSegmentEnd, onFinished: clearHighlights });
+  const { stop } = player;
+
+  useEffect(() => {
+    return () => {
+      stop();
+      clearHighlights();
+    };
+  }, [clearHighlights, stop]);
+
+  useEffect(() => {
+    clearHighlights();
+    blockCursorRef.current = { blockId: "", cursor: 0 };
+  }, [clearHighlights, segments]);
+
+  const headingIndexes = useMemo(
+    () => segments.map((s, i) => (s.isHeading && s.sentenceIndex === 0 ? i : -1)).filter((i) => i >= 0),
+    [segments]
+  );
+  const nextHeading = headingIndexes.find((i) => i > player.index);
+  // "Previous" restarts the current section, or goes to the one before when already at its heading.
+  const sectionStart = [...headingIndexes].reverse().find((i) => i <= player.index);
+  const prevHeading =
+    sectionStart != null && sectionStart < player.index
+      ? sectionStart
+      : [...headingIndexes].reverse().find((i) => i < player.index);
+
+  const voices = useMemo(() => {
+    const lang = (typeof document !== "undefined" && document.documentElement.lang) || "en";
+    const prefix = lang.split("-")[0].toLowerCase();
+    const matching = player.voices.filter((v) => v.lang.toLowerCase().startsWith(prefix));
+    return matching.length > 0 ? matching : player.voices;
+  }, [player.voices]);
+
+  const current = segments[player.index];
+  const playing = player.status === "playing";
+
+  if (!player.supported) {
+    return (
+      <div className={cn("rounded-xl border border-border/60 bg-card/90 p-3 text-sm text-muted-foreground", className)}>
+        <div className="flex items-center justify-between gap-2">
+          <span>{t("readAloud.unsupported")}</span>
+          <IconButton type="button" variant="ghost" size="icon" label={t("readAloud.close")} onClick={onClose} className="h-8 w-8">
+            <X className="h-4 w-4" />
+          </IconButton>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      role="region"
+      aria-label={t("readAloud.title")}
+      className={cn(
+        "rounded-xl sm:rounded-2xl border border-border/60 bg-card/95 p-2.5 sm:p-3 shadow-lg backdrop-blur",
+        className
+      )}
+    >
+      <div className="flex flex-wrap items-center gap-1.5 sm:gap-2">
+        <IconButton
+          type="button"
+          variant="ghost"
+          size="icon"
+          label={t("readAloud.prevHeading")}
+          disabled={segments.length === 0}
+          onClick={() => player.seek(prevHeading ?? 0)}
+          className="h-9 w-9"
+        >
+          <SkipBack className="h-4 w-4" />
+        </IconButton>
+        <IconButton
+          type="button"
+          variant="default"
+          size="icon"
+          label={playing ? t("readAloud.pause") : t("readAloud.play")}
+          disabled={segments.length === 0}
+          onClick={() => (playing ? player.pause() : player.play())}
+          className="h-10 w-10 rounded-full"
+        >
+          {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </IconButton>
+        <IconButton
+          type="button"
+          variant="ghost"
+          size="icon"
+          label={t("readAloud.nextHeading")}
+          disabled={nextHeading == null}
+          onClick={() => nextHeading != null && player.seek(nextHeading)}
+          className="h-9 w-9"
+        >
+          <SkipForward className="h-4 w-4" />
+        </IconButton>
+
+        <Select value={String(player.rate)} onValueChange={(v) => player.setRate(Number(v))}>
+          <SelectTrigger className="h-9 w-[84px]" aria-label={t("readAloud.speed")}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {READ_ALOUD_RATES.map((rate) => (
+              <SelectItem key={rate} value={String(rate)}>
+                {`${rate}×`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {voices.length > 0 ? (
+          <Select
+            value={player.voiceURI && voices.some((v) => v.voiceURI === player.voiceURI) ? player.voiceURI : VOICE_DEFAULT}
+            onValueChange={(v) => player.setVoiceURI(v === VOICE_DEFAULT ? "" : v)}
+          >
+            <SelectTrigger className="h-9 min-w-0 max-w-[200px] flex-1" aria-label={t("readAloud.voice")}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={VOICE_DEFAULT}>{t("readAloud.voice.default")}</SelectItem>
+              {voices.map((voice) => (
+                <SelectItem key={voice.voiceURI} value={voice.voiceURI}>
+                  {voice.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : null}
+
+        <div className="ml-auto flex items-center gap-2">
+          <span className="text-xs tabular-nums text-muted-foreground">
+            {segments.length > 0 ? t("readAloud.position", { current: player.index + 1, total: segments.length }) : null}
+          </span>
+          <IconButton
+            type="button"
+            variant="ghost"
+            size="icon"
+            label={t("readAloud.close")}
+            onClick={onClose}
+            className="h-8 w-8 text-muted-foreground hover:text-foreground"
+          >
+            <X className="h-4 w-4" />
+          </IconButton>
+        </div>
+      </div>
+
+      {/* Caption: the sentence being read with the current word marked, for learners who read along. */}
+      {current && player.status !== "idle" ? (
+        <p className="mt-2 line-clamp-3 text-sm leading-relaxed text-foreground/90" aria-live="off">
+          {word && word.index === player.index ? (
+            <>
+              {current.text.slice(0, word.start)}
+              <mark className="rounded bg-primary/20 px-0.5 text-foreground">{current.text.slice(word.start, word.end)}</mark>
+              {current.text.slice(word.end)}
+            </>
+          ) : (
+            current.text
+          )}
+        </p>
+      ) : segments.length === 0 ? (
+        <p className="mt-2 text-xs text-muted-foreground">{t("readAloud.empty")}</p>
+      ) : null}
+    </div>
+  );
+}
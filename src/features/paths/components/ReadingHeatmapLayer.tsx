@@ -0,0 +1,378 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type RefObject } from "react";
+import { createPortal } from "react-dom";
+import { Pause, Play, X } from "lucide-react";
+import { Button } from "@/shared/ui/button";
+import { IconButton } from "@/shared/ui/icon-button";
+import { useI18n } from "@/app/providers/I18nProvider";
+import { measureLineRects } from "@/features/paths/lib/lineRects";
+import {
+  blockHeat,
+  classifyReadBlocks,
+  lineHeat,
+  readingLineKey,
+  readingSpanIndexAt,
+  summarizeReading,
+} from "@/features/paths/lib/readingHeatmap";
+import type { BlockReadStatus } from "@/features/paths/lib/readingHeatmap";
+import type { ReadingTrace } from "@/shared/services/ReadingTraceStore";
+import { cn } from "@/shared/lib/utils";
+
+type Box = { top: number; left: number; width: number; height: number };
+type BlockLayout = Box & { id: string; lines: Array<Box & { index: number }> };
+
+const SPEEDS = [4, 8, 16] as const;
+const TRAIL_SPANS = 8;
+
+const STATUS_BAR_CLASS: Record<BlockReadStatus, string> = {
+  read: "bg-emerald-500/80",
+  skimmed: "bg-amber-500/80",
+  missed: "bg-rose-500/80",
+  unreached: "bg-muted-foreground/20",
+};
+
+function blockElementIn(container: HTMLElement, blockId: string) {
+  const escaped = typeof CSS !== "undefined" && CSS.escape ? CSS.escape(blockId) : blockId.replace(/"/g, '\\"');
+  return container.querySelector<HTMLElement>(`[data-doc-block-id="${escaped}"]`);
+}
+
+function formatClock(ms: number) {
+  const total = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(total / 60);
+  const seconds = total % 60;
+  return `${minutes}:${String(seconds).padStart(2, "0")}`;
+}
+
+function centerOf(box: Box) {
+  return { x: box.left + box.width / 2, y: box.top + box.height / 2 };
+}
+
+/**
+ * After-lesson view of a reading trace over the rendered doc: heat per line (per block when only
+ * scroll behavior was recorded), a read / skimmed / missed bar beside each block, and a scrubber
+ * that replays the reading path. Like the highlight layer it only draws; the doc is untouched.
+ */
+export function ReadingHeatmapLayer({
+  containerRef,
+  blockIds,
+  trace,
+  onRevisit,
+  onClose,
+}: {
+  // Element wrapping the rendered doc; the layer itself must sit in a positioned ancestor of it.
+  containerRef: RefObject<HTMLElement | null>;
+  // Blocks that can be read, in doc order (headings and dividers left out).
+  blockIds: readonly string[];
+  trace: ReadingTrace;
+  onRevisit: (blockId: string) => void;
+  onClose: () => void;
+}) {
+  const { t } = useI18n();
+  const overlayRef = useRef<HTMLDivElement | null>(null);
+  const [layout, setLayout] = useState<BlockLayout[]>([]);
+  const [cursor, setCursor] = useState(trace.activeMs);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState<(typeof SPEEDS)[number]>(SPEEDS[1]);
+  const cursorRef = useRef(cursor);
+  cursorRef.current = cursor;
+  const missedCursorRef = useRef(-1);
+  const followedBlockRef = useRef("");
+
+  const duration = trace.activeMs;
+  const atEnd = cursor >= duration;
+
+  const finalSummary = useMemo(() => summarizeReading(trace.spans), [trace.spans]);
+  const statuses = useMemo(() => classifyReadBlocks(blockIds, trace, finalSummary), [blockIds, finalSummary, trace]);
+  const summary = useMemo(
+    () => (atEnd ? finalSummary : summarizeReading(trace.spans, cursor)),
+    [atEnd, cursor, finalSummary, trace.spans]
+  );
+  const missed = useMemo(() => blockIds.filter((id) => statuses.get(id) === "missed"), [blockIds, statuses]);
+  const counts = useMemo(() => {
+    const next = { read: 0, skimmed: 0, missed: 0 };
+    for (const status of statuses.values()) {
+      if (status === "read" || status === "skimmed" || status === "missed") next[status] += 1;
+    }
+    return next;
+  }, [statuses]);
+
+  const measure = useCallback(() => {
+    const container = containerRef.current;
+    const overlay = overlayRef.current;
+    if (!container || !overlay) return;
+    const origin = overlay.getBoundingClientRect();
+    const next: BlockLayout[] = [];
+    for (const id of blockIds) {
+      const el = blockElementIn(container, id);
+      // Not rendered right now (virtualized list); laid out once it scrolls in.
+      if (!el) continue;
+      const rect = el.getBoundingClientRect();
+      next.push({
+        id,
+        top: rect.top - origin.top,
+        left: rect.left - origin.left,
+        width: rect.width,
+        height: rect.height,
+        lines: measureLineRects(id, el).map((line) => ({
+          index: line.index,
+          top: line.top - origin.top,
+          left: line.left - origin.left,
+          width: line.width,
+          height: line.height,
+        })),
+      });
+    }
+    setLayout(next);
+  }, [blockIds, containerRef]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    let raf = 0;
+    const schedule = () => {
+      if (raf) return;
+      raf = window.requestAnimationFrame(() => {
+        raf = 0;
+        measure();
+      });
+    };
+    schedule();
+    const observer = new MutationObserver(schedule);
+    observer.observe(container, { childList: true, subtree: true, characterData: true });
+    window.addEventListener("resize", schedule);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener("resize", schedule);
+      if (raf) window.cancelAnimationFrame(raf);
+    };
+  }, [containerRef, measure]);
+
+  useEffect(() => {
+    if (!playing) return;
+    let raf = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const next = Math.min(duration, cursorRef.current + (now - last) * speed);
+      last = now;
+      cursorRef.current = next;
+      setCursor(next);
+      if (next >= duration) {
+        setPlaying(false);
+        return;
+      }
+      raf = window.requestAnimationFrame(tick);
+    };
+    raf = window.requestAnimationFrame(tick);
+    return () => window.cancelAnimationFrame(raf);
+  }, [duration, playing, speed]);
+
+  const currentIndex = atEnd && !playing ? -1 : readingSpanIndexAt(trace.spans, cursor);
+  const currentSpan = currentIndex >= 0 ? trace.spans[currentIndex] : null;
+
+  // Keep the replayed block on screen while playing.
+  useEffect(() => {
+    if (!playing || !currentSpan || followedBlockRef.current === currentSpan.blockId) return;
+    followedBlockRef.current = currentSpan.blockId;
+    const container = containerRef.current;
+    const el = container ? blockElementIn(container, currentSpan.blockId) : null;
+    if (!el) return;
+    const rect = el.getBoundingClientRect();
+    if (rect.bottom < 80 || rect.top > window.innerHeight - 160) {
+      el.scrollIntoView({ block: "center", behavior: "smooth" });
+    }
+  }, [containerRef, currentSpan, playing]);
+
+  const layoutById = useMemo(() => new Map(layout.map((block) => [block.id, block])), [layout]);
+
+  const spanBox = useCallback(
+    (index: number): Box | null => {
+      const span = trace.spans[index];
+      const block = span ? layoutById.get(span.blockId) : null;
+      if (!span || !block) return null;
+      const line = span.line != null ? block.lines.find((l) => l.index === span.line) : null;
+      return line ?? block;
+    },
+    [layoutById, trace.spans]
+  );
+
+  const trail = useMemo(() => {
+    if (currentIndex < 0) return [];
+    const points: Array<{ x: number; y: number }> = [];
+    for (let i = Math.max(0, currentIndex - TRAIL_SPANS); i <= currentIndex; i += 1) {
+      const box = spanBox(i);
+      if (box) points.push(centerOf(box));
+    }
+    return points;
+  }, [currentIndex, spanBox]);
+  const currentBox = currentIndex >= 0 ? spanBox(currentIndex) : null;
+
+  const togglePlay = () => {
+    if (playing) {
+      setPlaying(false);
+      return;
+    }
+    if (atEnd) setCursor(0);
+    followedBlockRef.current = "";
+    setPlaying(true);
+  };
+
+  const revisitNextMissed = () => {
+    if (missed.length === 0) return;
+    missedCursorRef.current = (missedCursorRef.current + 1) % missed.length;
+    onRevisit(missed[missedCursorRef.current]);
+  };
+
+  return (
+    <div ref={overlayRef} className="pointer-events-none absolute inset-0 z-20">
+      {layout.map((block) => {
+        const status = statuses.get(block.id) ?? "unreached";
+        const perLine = summary.lineBlocks.has(block.id) || finalSummary.lineBlocks.has(block.id);
+        return (
+          <div key={block.id}>
+            <div
+              className={cn("absolute w-1 rounded-full", STATUS_BAR_CLASS[status])}
+              style={{ top: block.top, left: Math.max(0, block.left - 10), height: block.height }}
+              aria-hidden="true"
+            />
+            {perLine ? (
+              block.lines.map((line) => {
+                const heat = lineHeat(summary.lineMs.get(readingLineKey(block.id, line.index)) ?? 0);
+                if (heat <= 0) return null;
+                return (
+                  <div
+                    key={line.index}
+                    className="absolute rounded-sm bg-orange-400 mix-blend-multiply dark:mix-blend-screen"
+                    style={{ top: line.top, left: line.left, width: line.width, height: line.height, opacity: heat * 0.55 }}
+                    aria-hidden="true"
+                  />
+                );
+              })
+            ) : (summary.blockMs.get(block.id) ?? 0) > 0 ? (
+              <div
+                className="absolute rounded-lg bg-orange-400 mix-blend-multiply dark:mix-blend-screen"
+                style={{
+                  top: block.top,
+                  left: block.left,
+                  width: block.width,
+                  height: block.height,
+                  opacity: blockHeat(summary.blockMs.get(block.id) ?? 0) * 0.35,
+                }}
+                aria-hidden="true"
+              />
+            ) : null}
+            {status === "skimmed" || status === "missed" ? (
+              <div
+                className="absolute -translate-x-full -translate-y-1/2"
+                style={{ top: block.top, left: block.left + block.width }}
+              >
+                <span
+                  className={cn(
+                    "whitespace-nowrap rounded-full border px-2 py-0.5 text-[10px] font-medium shadow-sm",
+                    status === "missed"
+                      ? "border-rose-500/40 bg-rose-50 text-rose-700 dark:bg-rose-950 dark:text-rose-300"
+                      : "border-amber-500/40 bg-amber-50 text-amber-700 dark:bg-amber-950 dark:text-amber-300"
+                  )}
+                >
+                  {t(`readingReview.status.${status}`)}
+                  {status === "missed" ? (
+                    <button
+                      type="button"
+                      className="pointer-events-auto ms-1.5 underline underline-offset-2"
+                      onClick={() => onRevisit(block.id)}
+                    >
+                      {t("readingReview.revisit")}
+                    </button>
+                  ) : null}
+                </span>
+              </div>
+            ) : null}
+          </div>
+        );
+      })}
+
+      {trail.length > 1 ? (
+        <svg className="absolute inset-0 h-full w-full overflow-visible" aria-hidden="true">
+          <polyline
+            points={trail.map((p) => `${p.x},${p.y}`).join(" ")}
+            className="fill-none stroke-primary/60"
+            strokeWidth={2}
+            strokeLinejoin="round"
+            strokeDasharray="5 4"
+          />
+        </svg>
+      ) : null}
+      {currentBox ? (
+        <div
+          className="absolute rounded-md ring-2 ring-primary nb-motion-fast motion-reduce:transition-none"
+          style={{ top: currentBox.top - 2, left: currentBox.left - 4, width: currentBox.width + 8, height: currentBox.height + 4 }}
+          aria-hidden="true"
+        />
+      ) : null}
+
+      {createPortal(
+        <div className="fixed inset-x-0 bottom-4 z-40 flex justify-center px-3">
+          <div className="w-full max-w-xl rounded-2xl border border-border/60 bg-background/95 p-3 shadow-xl backdrop-blur">
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <div className="text-sm font-medium text-foreground">{t("readingReview.title")}</div>
+                <div className="text-xs text-muted-foreground">
+                  {finalSummary.lineBlocks.size > 0 ? t("readingReview.subtitle.lines") : t("readingReview.subtitle.blocks")}{" "}
+                  {t("readingReview.summary", counts)}
+                </div>
+              </div>
+              <IconButton label={t("readingReview.close")} variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={onClose}>
+                <X className="h-4 w-4" />
+              </IconButton>
+            </div>
+            <div className="mt-2 flex items-center gap-2">
+              <IconButton
+                label={playing ? t("readingReview.pause") : t("readingReview.play")}
+                variant="outline"
+                size="icon"
+                className="h-8 w-8 shrink-0 rounded-full"
+                onClick={togglePlay}
+                disabled={duration <= 0}
+              >
+                {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+              </IconButton>
+              <input
+                type="range"
+                min={0}
+                max={Math.max(1, duration)}
+                step={100}
+                value={Math.min(cursor, duration)}
+                aria-label={t("readingReview.timeline")}
+                aria-valuetext={`${formatClock(cursor)} / ${formatClock(duration)}`}
+                onChange={(event) => {
+                  setPlaying(false);
+                  setCursor(Number(event.target.value));
+                }}
+                className="h-1.5 min-w-0 flex-1 accent-primary"
+              />
+              <span className="shrink-0 text-xs tabular-nums text-muted-foreground">
+                {formatClock(cursor)} / {formatClock(duration)}
+              </span>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                className="h-8 shrink-0 px-2 tabular-nums"
+                aria-label={t("readingReview.speed")}
+                onClick={() => setSpeed((prev) => SPEEDS[(SPEEDS.indexOf(prev) + 1) % SPEEDS.length])}
+              >
+                {speed}×
+              </Button>
+            </div>
+            {missed.length > 0 ? (
+              <div className="mt-2 flex justify-end">
+                <Button type="button" size="sm" variant="outline" onClick={revisitNextMissed}>
+                  {t("readingReview.nextMissed")} ({missed.length})
+                </Button>
+              </div>
+            ) : null}
+          </div>
+        </div>,
+        document.body
+      )}
+    </div>
+  );
+}
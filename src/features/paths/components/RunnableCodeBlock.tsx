@@ -0,0 +1,343 @@
+import React, { useCallback, useEffect, useId, useRef, useState } from "react";
+import { Check, Copy, Loader2, Pencil, Play, RotateCcw, Square } from "lucide-react";
+import { useI18n } from "@/app/providers/I18nProvider";
+import { highlightCode } from "@/shared/components/CodeBlock";
+import { flushEvents, queueEvent } from "@/shared/services/EventQueue";
+import { SNIPPET_RUN_TIMEOUT_MS, runSnippet } from "@/features/paths/lib/codeSandbox";
+import type { ConsoleLine, SnippetLanguage, SnippetRun, SnippetRunResult } from "@/features/paths/lib/codeSandbox";
+import { cn } from "@/shared/lib/utils";
+
+// Quiet period after the last keystroke before an edit is reported.
+const EDIT_EVENT_IDLE_MS = 2000;
+
+type SnippetDraft = { code: string; editing: boolean; result: SnippetRunResult | null };
+
+// The doc is virtualized, so blocks unmount when scrolled away; keep edits and the last run for the visit.
+const drafts = new Map<string, SnippetDraft>();
+
+const OUTPUT_LINE_CLASS: Record<ConsoleLine["level"], string> = {
+  log: "text-foreground/90",
+  info: "text-foreground/90",
+  debug: "text-muted-foreground",
+  warn: "text-warning",
+  error: "text-destructive",
+};
+
+/**
+ * A doc code block learners can edit and run. JS/TS runs in a sandboxed worker (see
+ * `codeSandbox`); console output and thrown errors show under the code. Edits, runs and resets
+ * are reported as learning events.
+ */
+export function RunnableCodeBlock({
+  code,
+  language,
+  runtime,
+  filename,
+  blockId,
+  pathNodeId,
+}: {
+  code: string;
+  language?: string;
+  runtime: SnippetLanguage;
+  filename?: string;
+  blockId: string;
+  pathNodeId?: string;
+}) {
+  const { t } = useI18n();
+  const hintId = useId();
+  const draftKey = `${pathNodeId || ""}:${blockId}`;
+  const saved = drafts.get(draftKey);
+  const [draft, setDraft] = useState(() => saved?.code ?? code);
+  const [editing, setEditing] = useState(() => saved?.editing ?? false);
+  const [result, setResult] = useState<SnippetRunResult | null>(() => saved?.result ?? null);
+  const [liveLines, setLiveLines] = useState<ConsoleLine[]>([]);
+  const [running, setRunning] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const runRef = useRef<SnippetRun | null>(null);
+  const editorRef = useRef<HTMLTextAreaElement | null>(null);
+  const mirrorRef = useRef<HTMLPreElement | null>(null);
+  const editTimerRef = useRef<number | null>(null);
+  const editStartRef = useRef<string | null>(null);
+  // After Escape, Tab leaves the editor instead of indenting.
+  const tabReleasedRef = useRef(false);
+
+  const edited = draft !== code;
+  const label = String(filename || language || "").trim();
+
+  useEffect(() => {
+    drafts.set(draftKey, { code: draft, editing, result });
+  }, [draft, draftKey, editing, result]);
+
+  const emit = useCallback(
+    (type: string, data: Record<string, unknown>) => {
+      queueEvent({
+        type,
+        pathNodeId: pathNodeId || undefined,
+        data: { block_id: blockId, language: runtime, ...data },
+      });
+      void flushEvents().catch(() => undefined);
+    },
+    [blockId, pathNodeId, runtime]
+  );
+
+  const reportEdit = useCallback(() => {
+    if (editTimerRef.current != null) {
+      window.clearTimeout(editTimerRef.current);
+      editTimerRef.current = null;
+    }
+    const before = editStartRef.current;
+    editStartRef.current = null;
+    const current = drafts.get(draftKey)?.code ?? "";
+    if (before == null || before === current) return;
+    emit("code_snippet_edited", {
+      chars: current.length,
+      lines: current.split("\n").length,
+      chars_delta: current.length - before.length,
+      differs_from_original: current !== code,
+    });
+  }, [code, draftKey, emit]);
+
+  useEffect(() => {
+    return () => {
+      runRef.current?.stop();
+      reportEdit();
+    };
+  }, [reportEdit]);
+
+  const updateDraft = (next: string) => {
+    if (editStartRef.current == null) editStartRef.current = draft;
+    setDraft(next);
+    if (editTimerRef.current != null) window.clearTimeout(editTimerRef.current);
+    editTimerRef.current = window.setTimeout(reportEdit, EDIT_EVENT_IDLE_MS);
+  };
+
+  const run = async () => {
+    if (running) {
+      runRef.current?.stop();
+      return;
+    }
+    reportEdit();
+    setRunning(true);
+    setResult(null);
+    setLiveLines([]);
+    const handle = runSnippet(draft, runtime, {
+      onLine: (line) => setLiveLines((prev) => [...prev, line]),
+    });
+    runRef.current = handle;
+    let next: SnippetRunResult | null = null;
+    let current = false;
+    try {
+      next = await handle.result;
+    } catch (err) {
+      console.warn("[RunnableCodeBlock] run failed:", err);
+    } finally {
+      // Reset or a newer run may have taken over while this one was pending.
+      current = runRef.current === handle;
+      if (current) {
+        runRef.current = null;
+        setRunning(false);
+        setLiveLines([]);
+      }
+    }
+    if (!current || !next) return;
+    setResult(next);
+    emit("code_snippet_run", {
+      status: next.status,
+      duration_ms: next.durationMs,
+      edited: draft !== code,
+      output_lines: next.lines.length,
+      truncated: next.truncated,
+      ...(next.error ? { error_name: next.error.name } : {}),
+    });
+  };
+
+  const reset = () => {
+    const active = runRef.current;
+    runRef.current = null;
+    active?.stop();
+    setRunning(false);
+    setLiveLines([]);
+    if (editTimerRef.current != null) window.clearTimeout(editTimerRef.current);
+    editTimerRef.current = null;
+    editStartRef.current = null;
+    setDraft(code);
+    setEditing(false);
+    setResult(null);
+    emit("code_snippet_reset", {});
+  };
+
+  const startEditing = () => {
+    setEditing(true);
+    requestAnimationFrame(() => editorRef.current?.focus());
+  };
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(draft);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // no-op
+    }
+  };
+
+  const onEditorKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      void run();
+      return;
+    }
+    if (e.key === "Escape") {
+      tabReleasedRef.current = true;
+      return;
+    }
+    if (e.key === "Tab" && !tabReleasedRef.current && !e.shiftKey) {
+      e.preventDefault();
+      const el = e.currentTarget;
+      const { selectionStart, selectionEnd } = el;
+      updateDraft(`${draft.slice(0, selectionStart)}  ${draft.slice(selectionEnd)}`);
+      requestAnimationFrame(() => {
+        el.selectionStart = selectionStart + 2;
+        el.selectionEnd = selectionStart + 2;
+      });
+      return;
+    }
+    tabReleasedRef.current = false;
+  };
+
+  const shownLines = running ? liveLines : (result?.lines ?? []);
+  const headerButton =
+    "inline-flex items-center gap-1.5 rounded-md px-2 py-1 text-[11px] font-medium normal-case tracking-normal text-muted-foreground nb-motion-fast motion-reduce:transition-none hover:bg-muted/60 hover:text-foreground";
+
+  return (
+    <div className="my-4 overflow-hidden rounded-xl border border-border/60 bg-muted/30 shadow-sm backdrop-blur-sm">
+      <div className="flex items-center justify-between gap-2 border-b border-border/60 bg-muted/40 px-4 py-2 text-[11px] font-medium uppercase tracking-wide text-muted-foreground">
+        <div className="flex min-w-0 items-center gap-2">
+          <span className="truncate">{label || "code"}</span>
+          {edited ? (
+            <span className="rounded-full bg-primary/10 px-1.5 py-0.5 text-[10px] normal-case tracking-normal text-primary">
+              {t("codeRunner.edited")}
+            </span>
+          ) : null}
+        </div>
+        <div className="flex shrink-0 items-center gap-0.5">
+          {edited ? (
+            <button type="button" onClick={reset} aria-label={t("codeRunner.reset")} className={headerButton}>
+              <RotateCcw className="h-3.5 w-3.5" />
+              <span className="hidden sm:inline">{t("codeRunner.reset")}</span>
+            </button>
+          ) : null}
+          {!editing ? (
+            <button type="button" onClick={startEditing} aria-label={t("codeRunner.edit")} className={headerButton}>
+              <Pencil className="h-3.5 w-3.5" />
+              <span className="hidden sm:inline">{t("codeRunner.edit")}</span>
+            </button>
+          ) : null}
+          <button
+            type="button"
+            onClick={() => void copy()}
+            aria-label={copied ? t("codeRunner.copied") : t("codeRunner.copy")}
+            className={headerButton}
+          >
+            {copied ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+            <span className="hidden sm:inline">{copied ? t("codeRunner.copied") : t("codeRunner.copy")}</span>
+          </button>
+          <button
+            type="button"
+            onClick={() => void run()}
+            className={cn(headerButton, "bg-foreground text-background hover:bg-foreground/90 hover:text-background")}
+          >
+            {running ? <Square className="h-3.5 w-3.5" /> : <Play className="h-3.5 w-3.5" />}
+            <span>{running ? t("codeRunner.stop") : t("codeRunner.run")}</span>
+          </button>
+        </div>
+      </div>
+
+      {editing ? (
+        <div dir="ltr" className="relative focus-within:ring-2 focus-within:ring-inset focus-within:ring-ring/40">
+          <pre
+            ref={mirrorRef}
+            aria-hidden="true"
+            className="pointer-events-none m-0 overflow-hidden whitespace-pre p-4 text-[13px] leading-relaxed"
+          >
+            <code className="font-mono text-foreground">{highlightCode(`${draft}\n`, language)}</code>
+          </pre>
+          <textarea
+            ref={editorRef}
+            value={draft}
+            onChange={(e) => updateDraft(e.target.value)}
+            onKeyDown={onEditorKeyDown}
+            onBlur={reportEdit}
+            onScroll={(e) => {
+              if (mirrorRef.current) mirrorRef.current.scrollLeft = e.currentTarget.scrollLeft;
+            }}
+            wrap="off"
+            spellCheck={false}
+            autoCapitalize="off"
+            autoCorrect="off"
+            aria-label={t("codeRunner.editorLabel")}
+            aria-describedby={hintId}
+            className={cn(
+              "absolute inset-0 h-full w-full resize-none overflow-x-auto overflow-y-hidden whitespace-pre bg-transparent p-4",
+              "font-mono text-[13px] leading-relaxed text-transparent caret-foreground outline-none selection:bg-primary/25"
+            )}
+          />
+          <span id={hintId} className="sr-only">
+            {t("codeRunner.editorHint")}
+          </span>
+        </div>
+      ) : (
+        <div dir="ltr" className="overflow-x-auto">
+          <pre className="p-4 text-[13px] leading-relaxed">
+            <code className="font-mono text-foreground">{highlightCode(draft, language)}</code>
+          </pre>
+        </div>
+      )}
+
+      {running || result ? (
+        <div data-highlight-ui className="border-t border-border/60 bg-background/60">
+          <div
+            role="log"
+            aria-live="polite"
+            aria-label={t("codeRunner.output")}
+            dir="ltr"
+            className="max-h-64 overflow-auto px-4 py-3 font-mono text-[12px] leading-relaxed"
+          >
+            {shownLines.length === 0 && !result?.error ? (
+              <div className="text-muted-foreground">
+                {running ? t("codeRunner.running") : t("codeRunner.noOutput")}
+              </div>
+            ) : null}
+            {shownLines.map((line, i) => (
+              <div key={i} className={cn("whitespace-pre-wrap break-words", OUTPUT_LINE_CLASS[line.level])}>
+                {line.text}
+              </div>
+            ))}
+            {result?.truncated ? <div className="text-muted-foreground">{t("codeRunner.truncated")}</div> : null}
+            {result?.error ? (
+              <div className="mt-1 whitespace-pre-wrap break-words rounded-md bg-destructive/10 px-2 py-1 text-destructive">
+                {result.error.name}: {result.error.message}
+              </div>
+            ) : null}
+          </div>
+          <div className="flex items-center gap-1.5 border-t border-border/40 px-4 py-1.5 text-[11px] text-muted-foreground">
+            {running ? (
+              <>
+                <Loader2 className="h-3 w-3 animate-spin motion-reduce:animate-none" />
+                {t("codeRunner.running")}
+              </>
+            ) : result?.status === "timeout" ? (
+              t("codeRunner.status.timeout", { seconds: Math.round(SNIPPET_RUN_TIMEOUT_MS / 1000) })
+            ) : result?.status === "stopped" ? (
+              t("codeRunner.status.stopped")
+            ) : result ? (
+              t(result.status === "error" ? "codeRunner.status.error" : "codeRunner.status.ok", {
+                ms: result.durationMs,
+              })
+            ) : null}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
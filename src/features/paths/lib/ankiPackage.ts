@@ -0,0 +1,230 @@
+import sqlWasmUrl from "sql.js/dist/sql-wasm.wasm?url";
+
+/**
+ * Minimal Anki `.apkg` writer: a legacy (schema 11) `collection.anki2` SQLite database with one
+ * "Basic" note type and one deck, zipped with an empty media map. Anki 2.1+ imports this format
+ * and merges notes by guid, so re-exporting the same cards updates them instead of duplicating.
+ */
+
+export interface AnkiNote {
+  guid: string;
+  front: string;
+  back: string;
+  tags: string[];
+}
+
+const SCHEMA_SQL = `
+CREATE TABLE col (
+  id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+  ver integer not null, dty integer not null, usn integer not null, ls integer not null,
+  conf text not null, models text not null, decks text not null, dconf text not null, tags text not null
+);
+CREATE TABLE notes (
+  id integer primary key, guid text not null, mid integer not null, mod integer not null,
+  usn integer not null, tags text not null, flds text not null, sfld integer not null,
+  csum integer not null, flags integer not null, data text not null
+);
+CREATE TABLE cards (
+  id integer primary key, nid integer not null, did integer not null, ord integer not null,
+  mod integer not null, usn integer not null, type integer not null, queue integer not null,
+  due integer not null, ivl integer not null, factor integer not null, reps integer not null,
+  lapses integer not null, left integer not null, odue integer not null, odid integer not null,
+  flags integer not null, data text not null
+);
+CREATE TABLE revlog (
+  id integer primary key, cid integer not null, usn integer not null, ivl integer not null,
+  lastIvl integer not null, factor integer not null, time integer not null, type integer not null
+);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const CARD_CSS = `.card {
+  font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+  font-size: 18px;
+  line-height: 1.5;
+  text-align: left;
+  color: black;
+  background-color: white;
+}
+.card pre { white-space: pre-wrap; }
+.card table { border-collapse: collapse; }
+.card th, .card td { border: 1px solid #ccc; padding: 4px 8px; }`;
+
+const FIELD_SEPARATOR = "\u001f";
+
+function fnv1a32(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i += 1) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Stable ids derived from the deck name keep re-imports attached to the same note type and deck.
+function stableId(seed: string): number {
+  return 1_500_000_000_000 + (fnv1a32(seed) % 100_000_000_000);
+}
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+async function sha1FirstEightHex(text: string): Promise<number> {
+  const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(text));
+  const hex = Array.from(new Uint8Array(digest).slice(0, 4))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  return parseInt(hex, 16);
+}
+
+function buildModels(modelId: number, deckId: number, now: number) {
+  return {
+    [modelId]: {
+      id: modelId,
+      name: "Neurobridge Basic",
+      type: 0,
+      mod: now,
+      usn: -1,
+      sortf: 0,
+      did: deckId,
+      tmpls: [
+        {
+          name: "Card 1",
+          ord: 0,
+          qfmt: "{{Front}}",
+          afmt: "{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}",
+          did: null,
+          bqfmt: "",
+          bafmt: "",
+        },
+      ],
+      flds: [
+        { name: "Front", ord: 0, sticky: false, rtl: false, font: "Arial", size: 20, media: [] },
+        { name: "Back", ord: 1, sticky: false, rtl: false, font: "Arial", size: 20, media: [] },
+      ],
+      css: CARD_CSS,
+      latexPre:
+        "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n",
+      latexPost: "\\end{document}",
+      latexsvg: false,
+      req: [[0, "any", [0]]],
+      tags: [],
+      vers: [],
+    },
+  };
+}
+
+function buildDecks(deckId: number, deckName: string, now: number) {
+  const deck = (id: number, name: string) => ({
+    id,
+    name,
+    desc: "",
+    mod: now,
+    usn: -1,
+    collapsed: false,
+    browserCollapsed: false,
+    dyn: 0,
+    conf: 1,
+    extendNew: 0,
+    extendRev: 0,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+  });
+  return { 1: deck(1, "Default"), [deckId]: deck(deckId, deckName) };
+}
+
+const DECK_CONF = {
+  1: {
+    id: 1,
+    name: "Default",
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    dyn: false,
+    new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+    lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+    rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 100 },
+  },
+};
+
+/** Builds the `.apkg` archive bytes for the given notes. */
+export async function buildAnkiPackage(deckName: string, notes: AnkiNote[]): Promise<Uint8Array> {
+  const [{ default: initSqlJs }, { zipSync, strToU8 }] = await Promise.all([import("sql.js"), import("fflate")]);
+  const SQL = await initSqlJs({ locateFile: () => sqlWasmUrl });
+  const db = new SQL.Database();
+
+  try {
+    db.run(SCHEMA_SQL);
+
+    const nowMs = Date.now();
+    const now = Math.floor(nowMs / 1000);
+    const modelId = stableId(`model:neurobridge-basic`);
+    const deckId = stableId(`deck:${deckName}`);
+
+    db.run("INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')", [
+      Math.floor(now / 86400) * 86400,
+      nowMs,
+      nowMs,
+      JSON.stringify({ nextPos: notes.length + 1, curDeck: deckId, curModel: modelId, activeDecks: [1] }),
+      JSON.stringify(buildModels(modelId, deckId, now)),
+      JSON.stringify(buildDecks(deckId, deckName, now)),
+      JSON.stringify(DECK_CONF),
+    ]);
+
+    const insertNote = db.prepare("INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')");
+    const insertCard = db.prepare("INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, '')");
+    try {
+      for (let i = 0; i < notes.length; i += 1) {
+        const note = notes[i];
+        const sortField = stripHtml(note.front);
+        const tags = note.tags.length > 0 ? ` ${note.tags.join(" ")} ` : "";
+        // Ids are millisecond timestamps in Anki; offset per note keeps them unique.
+        const noteId = nowMs + i;
+        insertNote.run([
+          noteId,
+          note.guid,
+          modelId,
+          now,
+          tags,
+          `${note.front}${FIELD_SEPARATOR}${note.back}`,
+          sortField,
+          await sha1FirstEightHex(sortField),
+        ]);
+        insertCard.run([noteId, noteId, deckId, now, i + 1]);
+      }
+    } finally {
+      insertNote.free();
+      insertCard.free();
+    }
+
+    const collection = db.export();
+    return zipSync({
+      "collection.anki2": collection,
+      media: strToU8("{}"),
+    });
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,337 @@
+import type { DrillPayloadV1, QuizQuestionV1 } from "@/shared/types/drillPayloadV1";
+import type { NodeDocBlockFlashcardV1 } from "@/shared/types/nodeDocV1";
+import type { PathNode } from "@/shared/types/models";
+import { getPathNodeDocEnvelope } from "@/shared/api/PathNodeService";
+import { getQuizAttempts } from "@/shared/services/QuizAttemptStore";
+import { getDrillCards } from "@/shared/services/DrillCardStore";
+import { normalizeQuizOptions, quizAnswerId, quizQuestionId } from "@/features/paths/lib/quizQuestions";
+
+export type CardExportFormat = "apkg" | "anki-tsv" | "csv";
+
+export interface ExportCard {
+  // Stable across exports so Anki updates notes on re-import instead of duplicating them.
+  id: string;
+  kind: "flashcard" | "quiz";
+  front_md: string;
+  back_md: string;
+  tags: string[];
+  source: string;
+}
+
+interface RenderedCard {
+  card: ExportCard;
+  front: string;
+  back: string;
+}
+
+function cleanText(v: unknown) {
+  return String(v ?? "").trim();
+}
+
+function hashString(input: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i += 1) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/** Anki tags cannot contain spaces; concept keys are usually snake_case already. */
+export function conceptKeysToTags(keys: readonly unknown[] | null | undefined): string[] {
+  if (!Array.isArray(keys)) return [];
+  const out = new Set<string>();
+  for (const key of keys) {
+    const tag = cleanText(key).replace(/\s+/g, "_");
+    if (tag) out.add(tag);
+  }
+  return Array.from(out);
+}
+
+function mergeTags(...lists: string[][]) {
+  return Array.from(new Set(lists.flat()));
+}
+
+export function flashcardToCard(
+  block: Pick<NodeDocBlockFlashcardV1, "front_md" | "back_md" | "concept_keys">,
+  { source, fallbackTags = [] }: { source: string; fallbackTags?: string[] }
+): ExportCard | null {
+  const front = cleanText(block.front_md);
+  const back = cleanText(block.back_md);
+  if (!front || !back) return null;
+  const tags = conceptKeysToTags(block.concept_keys);
+  return {
+    id: `fc_${hashString(`${front}\u0000${back}`)}`,
+    kind: "flashcard",
+    front_md: front,
+    back_md: back,
+    tags: tags.length > 0 ? tags : fallbackTags,
+    source,
+  };
+}
+
+/** Quiz items become basic cards: prompt and lettered options on the front, answer and explanation on the back. */
+export function quizQuestionToCard(
+  question: QuizQuestionV1,
+  index: number,
+  { source, fallbackTags = [] }: { source: string; fallbackTags?: string[] }
+): ExportCard | null {
+  const prompt = cleanText(question.prompt_md);
+  if (!prompt) return null;
+  const options = normalizeQuizOptions(question);
+  const answerId = quizAnswerId(question);
+  const answerIndex = options.findIndex((opt) => opt.id === answerId);
+  const letter = (i: number) => String.fromCharCode(65 + i);
+
+  const frontParts = [prompt];
+  if (options.length > 0) {
+    frontParts.push(options.map((opt, i) => `- **${letter(i)}.** ${opt.text}`).join("\n"));
+  }
+  const backParts: string[] = [];
+  if (answerIndex >= 0) backParts.push(`**${letter(answerIndex)}.** ${options[answerIndex].text}`);
+  const explanation = cleanText(question.explanation_md);
+  if (explanation) backParts.push(explanation);
+  if (backParts.length === 0) return null;
+
+  const tags = conceptKeysToTags(question.concept_keys);
+  return {
+    id: `qz_${hashString(`${quizQuestionId(question, index)}\u0000${prompt}`)}`,
+    kind: "quiz",
+    front_md: frontParts.join("\n\n"),
+    back_md: backParts.join("\n\n"),
+    tags: tags.length > 0 ? tags : fallbackTags,
+    source,
+  };
+}
+
+/** Collects every flashcard block from a parsed node doc. */
+export function cardsFromDocBlocks(
+  blocks: readonly unknown[] | null | undefined,
+  { source, fallbackTags = [] }: { source: string; fallbackTags?: string[] }
+): ExportCard[] {
+  if (!Array.isArray(blocks)) return [];
+  const out: ExportCard[] = [];
+  for (const raw of blocks) {
+    const block = raw as Partial<NodeDocBlockFlashcardV1> | null;
+    if (!block || block.type !== "flashcard") continue;
+    const card = flashcardToCard(
+      { front_md: cleanText(block.front_md), back_md: cleanText(block.back_md), concept_keys: block.concept_keys },
+      { source, fallbackTags }
+    );
+    if (card) out.push(card);
+  }
+  return out;
+}
+
+export function cardsFromDrill(
+  drill: DrillPayloadV1 | null | undefined,
+  { source, fallbackTags = [] }: { source: string; fallbackTags?: string[] }
+): ExportCard[] {
+  if (!drill) return [];
+  const out: ExportCard[] = [];
+  (Array.isArray(drill.cards) ? drill.cards : []).forEach((fc) => {
+    const card = flashcardToCard(fc, { source, fallbackTags });
+    if (card) out.push(card);
+  });
+  out.push(...cardsFromQuizQuestions(drill.questions, { source, fallbackTags }));
+  return out;
+}
+
+export function cardsFromQuizQuestions(
+  questions: readonly QuizQuestionV1[] | null | undefined,
+  { source, fallbackTags = [] }: { source: string; fallbackTags?: string[] }
+): ExportCard[] {
+  if (!Array.isArray(questions)) return [];
+  const out: ExportCard[] = [];
+  questions.forEach((q, i) => {
+    const card = quizQuestionToCard(q, i, { source, fallbackTags });
+    if (card) out.push(card);
+  });
+  return out;
+}
+
+/** Drops repeats (the same card can appear in a doc and a drill, or in several quiz attempts). */
+export function dedupeCards(cards: ExportCard[]): ExportCard[] {
+  const byId = new Map<string, ExportCard>();
+  for (const card of cards) {
+    const prev = byId.get(card.id);
+    byId.set(card.id, prev ? { ...prev, tags: mergeTags(prev.tags, card.tags) } : card);
+  }
+  return Array.from(byId.values());
+}
+
+function parseDoc(raw: unknown): { blocks?: unknown; concept_keys?: unknown } | null {
+  if (typeof raw === "string") {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+  return raw && typeof raw === "object" ? (raw as { blocks?: unknown; concept_keys?: unknown }) : null;
+}
+
+/**
+ * Gathers doc flashcards, flashcards from drills generated earlier and previously attempted quiz
+ * questions for every lesson in a path. Drills are regenerated on open, so the drill card store and
+ * stored quiz attempts are the only durable copies.
+ */
+export async function collectPathCards(nodes: readonly PathNode[]): Promise<ExportCard[]> {
+  const out: ExportCard[] = [];
+  const sorted = nodes.slice().sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+  for (const node of sorted) {
+    const source = cleanText(node.title);
+    let fallbackTags: string[] = [];
+    try {
+      const envelope = await getPathNodeDocEnvelope(node.id);
+      if (envelope.http_status < 300) {
+        const doc = parseDoc(envelope.doc);
+        fallbackTags = conceptKeysToTags(Array.isArray(doc?.concept_keys) ? doc.concept_keys : []);
+        out.push(...cardsFromDocBlocks(Array.isArray(doc?.blocks) ? doc.blocks : [], { source, fallbackTags }));
+      }
+    } catch (err) {
+      console.warn("[cardExport] doc fetch failed:", node.id, err);
+    }
+    for (const card of getDrillCards(node.id)) {
+      const exported = flashcardToCard(card, { source, fallbackTags });
+      if (exported) out.push(exported);
+    }
+    for (const attempt of getQuizAttempts(node.id)) {
+      out.push(...cardsFromQuizQuestions(attempt.questions, { source, fallbackTags }));
+    }
+  }
+  return dedupeCards(out);
+}
+
+// ── Rendering ────────────────────────────────────────────────────────────────
+
+const CODE_SEGMENT_RE = /(```[\s\S]*?```|~~~[\s\S]*?~~~|`[^`\n]*`)/g;
+const MATH_RE = /\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)|\$([^\s$](?:[^$\n]*?[^\s$])?)\$/g;
+
+type KatexAPI = (typeof import("katex"))["default"];
+
+function extractMath(md: string, katex: KatexAPI) {
+  const rendered: string[] = [];
+  const text = md
+    .split(CODE_SEGMENT_RE)
+    .map((segment, i) => {
+      // split() with a capture group puts code spans at odd indices.
+      if (i % 2 === 1) return segment;
+      return segment.replace(MATH_RE, (match, block, bracket, paren, inline) => {
+        const display = block != null || bracket != null;
+        const latex = String(block ?? bracket ?? paren ?? inline ?? "").trim();
+        if (!latex) return match;
+        let html = "";
+        try {
+          html = katex.renderToString(latex, { displayMode: display, throwOnError: false, output: "mathml" });
+        } catch {
+          return match;
+        }
+        rendered.push(html);
+        return `NBMATHTOKEN${rendered.length - 1}X`;
+      });
+    })
+    .join("");
+  return { text, rendered };
+}
+
+/**
+ * Renders card markdown to self-contained HTML. Math is rendered to MathML so cards display
+ * without KaTeX's stylesheet or fonts inside Anki.
+ */
+async function renderCardsHtml(cards: ExportCard[]): Promise<RenderedCard[]> {
+  const [{ createElement }, { renderToStaticMarkup }, { default: ReactMarkdown }, { default: remarkGfm }, katexModule] =
+    await Promise.all([
+      import("react"),
+      import("react-dom/server"),
+      import("react-markdown"),
+      import("remark-gfm"),
+      import("katex"),
+    ]);
+  const katex = katexModule.default;
+
+  const render = (md: string) => {
+    const { text, rendered } = extractMath(md, katex);
+    const html = renderToStaticMarkup(createElement(ReactMarkdown, { remarkPlugins: [remarkGfm] }, text));
+    return html.replace(/NBMATHTOKEN(\d+)X/g, (match, idx) => rendered[Number(idx)] ?? match);
+  };
+
+  return cards.map((card) => ({ card, front: render(card.front_md), back: render(card.back_md) }));
+}
+
+// ── Output formats ───────────────────────────────────────────────────────────
+
+function singleLine(html: string) {
+  return html.replace(/\r?\n/g, " ").replace(/\t/g, " ").trim();
+}
+
+function csvCell(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function buildAnkiTsv(deckName: string, rows: RenderedCard[]) {
+  const header = [
+    "#separator:tab",
+    "#html:true",
+    "#notetype:Basic",
+    `#deck:${singleLine(deckName)}`,
+    "#guid column:1",
+    "#tags column:4",
+  ];
+  const lines = rows.map(({ card, front, back }) =>
+    [card.id, singleLine(front), singleLine(back), card.tags.join(" ")].join("\t")
+  );
+  return `${header.join("\n")}\n${lines.join("\n")}\n`;
+}
+
+function buildCsv(rows: RenderedCard[]) {
+  const lines = [["front", "back", "tags", "type", "lesson"].join(",")];
+  for (const { card, front, back } of rows) {
+    lines.push([front, back, card.tags.join(" "), card.kind, card.source].map(csvCell).join(","));
+  }
+  // BOM so spreadsheet apps pick up UTF-8.
+  return `\uFEFF${lines.join("\r\n")}\r\n`;
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function exportFileBaseName(title: string) {
+  const slug = cleanText(title)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return slug || "cards";
+}
+
+/** Renders the cards and downloads them in the requested format. */
+export async function exportCards(
+  cards: ExportCard[],
+  format: CardExportFormat,
+  { deckName, fileBaseName }: { deckName: string; fileBaseName: string }
+) {
+  const rows = await renderCardsHtml(cards);
+  if (format === "apkg") {
+    const { buildAnkiPackage } = await import("@/features/paths/lib/ankiPackage");
+    const bytes = await buildAnkiPackage(
+      deckName,
+      rows.map(({ card, front, back }) => ({ guid: card.id, front, back, tags: card.tags }))
+    );
+    downloadBlob(new Blob([bytes as BlobPart], { type: "application/octet-stream" }), `${fileBaseName}.apkg`);
+    return;
+  }
+  if (format === "anki-tsv") {
+    downloadBlob(new Blob([buildAnkiTsv(deckName, rows)], { type: "text/tab-separated-values;charset=utf-8" }), `${fileBaseName}.txt`);
+    return;
+  }
+  downloadBlob(new Blob([buildCsv(rows)], { type: "text/csv;charset=utf-8" }), `${fileBaseName}.csv`);
+}
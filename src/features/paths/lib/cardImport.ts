@@ -0,0 +1,260 @@
+import type { FlashcardV1 } from "@/shared/types/drillPayloadV1";
+
+/**
+ * Parsing for deck imports: plain CSV/TSV and Anki's "Notes in plain text" export, which is
+ * TSV with optional `#key:value` header lines (separator, html, tags column, deck, ...).
+ */
+
+export type ColumnRole = "front" | "back" | "tags" | "ignore";
+
+export interface ParsedCardFile {
+  rows: string[][];
+  columnCount: number;
+  // Header names when the first row looks like one (our own CSV export, spreadsheets).
+  header: string[] | null;
+  isHtml: boolean;
+  deckName: string;
+  suggestedRoles: ColumnRole[];
+}
+
+const SEPARATOR_NAMES: Record<string, string> = {
+  tab: "\t",
+  comma: ",",
+  semicolon: ";",
+  pipe: "|",
+  colon: ":",
+  space: " ",
+};
+
+const FRONT_NAMES = new Set(["front", "question", "prompt", "term", "front_md", "q"]);
+const BACK_NAMES = new Set(["back", "answer", "definition", "back_md", "a"]);
+const TAG_NAMES = new Set(["tags", "tag", "concept_keys", "concepts"]);
+
+function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i += 1) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i += 1;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+    if (ch === '"' && field === "") {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+function detectDelimiter(sample: string, fileName: string): string {
+  if (/\.tsv$|\.txt$/i.test(fileName) && sample.includes("\t")) return "\t";
+  const firstLines = sample.split(/\r?\n/).slice(0, 10).join("\n");
+  const counts = ["\t", ",", ";"].map((d) => ({ d, n: firstLines.split(d).length - 1 }));
+  counts.sort((a, b) => b.n - a.n);
+  return counts[0].n > 0 ? counts[0].d : ",";
+}
+
+function guessRole(name: string): ColumnRole | null {
+  const key = name.trim().toLowerCase();
+  if (FRONT_NAMES.has(key)) return "front";
+  if (BACK_NAMES.has(key)) return "back";
+  if (TAG_NAMES.has(key)) return "tags";
+  return null;
+}
+
+export function parseCardFile(rawText: string, fileName: string): ParsedCardFile {
+  const text = rawText.replace(/^\uFEFF/, "");
+  const directives: Record<string, string> = {};
+  const bodyLines: string[] = [];
+  let inHeader = true;
+  for (const line of text.split(/\r?\n/)) {
+    const m = inHeader ? /^#([a-z ]+):(.*)$/i.exec(line) : null;
+    if (m) {
+      directives[m[1].trim().toLowerCase()] = m[2].trim();
+      continue;
+    }
+    inHeader = false;
+    bodyLines.push(line);
+  }
+  const body = bodyLines.join("\n");
+
+  const sepDirective = directives.separator?.toLowerCase();
+  const delimiter = sepDirective ? SEPARATOR_NAMES[sepDirective] ?? sepDirective : detectDelimiter(body, fileName);
+  const rows = parseDelimited(body, delimiter);
+
+  let header: string[] | null = null;
+  if (rows.length > 1 && rows[0].some((cell) => guessRole(cell) === "front")) {
+    header = rows.shift() ?? null;
+  }
+  const columnCount = rows.reduce((max, r) => Math.max(max, r.length), header?.length ?? 0);
+
+  const suggestedRoles: ColumnRole[] = Array.from({ length: columnCount }, () => "ignore");
+  const ankiColumn = (key: string) => {
+    const n = Number(directives[key]);
+    return Number.isInteger(n) && n >= 1 && n <= columnCount ? n - 1 : -1;
+  };
+  const skipped = new Set([ankiColumn("guid column"), ankiColumn("notetype column"), ankiColumn("deck column")]);
+  const tagsCol = ankiColumn("tags column");
+
+  if (header) {
+    header.forEach((name, i) => {
+      const role = guessRole(name);
+      if (role && !suggestedRoles.includes(role)) suggestedRoles[i] = role;
+    });
+  } else {
+    // Anki exports: the first two non-metadata columns are the note's Front and Back fields.
+    const fieldColumns = suggestedRoles.map((_, i) => i).filter((i) => !skipped.has(i) && i !== tagsCol);
+    if (fieldColumns[0] != null) suggestedRoles[fieldColumns[0]] = "front";
+    if (fieldColumns[1] != null) suggestedRoles[fieldColumns[1]] = "back";
+    if (tagsCol >= 0) suggestedRoles[tagsCol] = "tags";
+  }
+
+  const htmlDirective = directives.html?.toLowerCase();
+  const isHtml =
+    htmlDirective != null
+      ? htmlDirective === "true"
+      : rows.slice(0, 50).some((r) => r.some((cell) => /<(br|div|p|b|i|strong|em|span|ul|li|img|math)\b/i.test(cell)));
+
+  return {
+    rows,
+    columnCount,
+    header,
+    isHtml,
+    deckName: directives.deck ?? fileName.replace(/\.[^.]+$/, ""),
+    suggestedRoles,
+  };
+}
+
+function inlineMarkdown(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) return (node.textContent ?? "").replace(/\s+/g, " ");
+  if (node.nodeType !== Node.ELEMENT_NODE) return "";
+  const el = node as Element;
+  const tag = el.tagName.toLowerCase();
+
+  if (tag === "math") {
+    // KaTeX/MathML output (including our own exports) keeps the TeX source in an annotation.
+    const tex = el.querySelector('annotation[encoding="application/x-tex"]')?.textContent?.trim();
+    const display = el.getAttribute("display") === "block";
+    if (tex) return display ? `\n\n$$${tex}$$\n\n` : `$${tex}$`;
+    return el.textContent ?? "";
+  }
+  if (tag === "br") return "\n\n";
+  if (tag === "hr") return "\n\n---\n\n";
+  if (tag === "img") {
+    const src = el.getAttribute("src") ?? "";
+    return /^https?:\/\//i.test(src) ? `![${el.getAttribute("alt") ?? ""}](${src})` : "";
+  }
+  if (tag === "pre") return `\n\n\`\`\`\n${(el.textContent ?? "").replace(/\n$/, "")}\n\`\`\`\n\n`;
+
+  const inner = Array.from(el.childNodes).map(inlineMarkdown).join("");
+  switch (tag) {
+    case "b":
+    case "strong":
+      return inner.trim() ? `**${inner.trim()}**` : "";
+    case "i":
+    case "em":
+      return inner.trim() ? `*${inner.trim()}*` : "";
+    case "code":
+      return `\`${el.textContent ?? ""}\``;
+    case "a": {
+      const href = el.getAttribute("href") ?? "";
+      return href ? `[${inner.trim()}](${href})` : inner;
+    }
+    case "li":
+      return `\n- ${inner.trim()}`;
+    case "ul":
+    case "ol":
+      return `\n${inner}\n\n`;
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+      return `\n\n**${inner.trim()}**\n\n`;
+    case "p":
+    case "div":
+    case "blockquote":
+    case "tr":
+      return `\n\n${inner}\n\n`;
+    case "td":
+    case "th":
+      return `${inner} `;
+    case "script":
+    case "style":
+      return "";
+    default:
+      return inner;
+  }
+}
+
+/** Converts Anki field HTML to the markdown our drills render. */
+export function htmlToMarkdown(html: string): string {
+  if (typeof DOMParser === "undefined") return html.replace(/<[^>]*>/g, "");
+  const doc = new DOMParser().parseFromString(`<body>${html}</body>`, "text/html");
+  return Array.from(doc.body.childNodes)
+    .map(inlineMarkdown)
+    .join("")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function splitTags(raw: string): string[] {
+  return Array.from(
+    new Set(
+      raw
+        .split(/[\s,;]+/)
+        .map((t) => t.trim())
+        .filter(Boolean)
+    )
+  );
+}
+
+/** Applies a column mapping to parsed rows; rows without both sides are dropped. */
+export function buildFlashcards(parsed: ParsedCardFile, roles: ColumnRole[]): FlashcardV1[] {
+  const frontCol = roles.indexOf("front");
+  const backCol = roles.indexOf("back");
+  const tagsCol = roles.indexOf("tags");
+  if (frontCol < 0 || backCol < 0) return [];
+
+  const toMarkdown = (cell: string | undefined) => {
+    const value = String(cell ?? "").trim();
+    return parsed.isHtml ? htmlToMarkdown(value) : value;
+  };
+
+  const out: FlashcardV1[] = [];
+  for (const row of parsed.rows) {
+    const front = toMarkdown(row[frontCol]);
+    const back = toMarkdown(row[backCol]);
+    if (!front || !back) continue;
+    const tags = tagsCol >= 0 ? splitTags(String(row[tagsCol] ?? "")) : [];
+    out.push({ front_md: front, back_md: back, concept_keys: tags, citations: [] });
+  }
+  return out;
+}
@@ -0,0 +1,360 @@
+type SucraseAPI = typeof import("sucrase");
+
+export type SnippetLanguage = "javascript" | "typescript";
+
+export type ConsoleLevel = "log" | "info" | "debug" | "warn" | "error";
+
+export interface ConsoleLine {
+  level: ConsoleLevel;
+  text: string;
+}
+
+export interface SnippetError {
+  name: string;
+  message: string;
+  stack: string | null;
+}
+
+export type SnippetRunStatus = "ok" | "error" | "timeout" | "stopped";
+
+export interface SnippetRunResult {
+  status: SnippetRunStatus;
+  lines: ConsoleLine[];
+  error: SnippetError | null;
+  durationMs: number;
+  truncated: boolean;
+}
+
+export const SNIPPET_RUN_TIMEOUT_MS = 5000;
+const MAX_OUTPUT_LINES = 500;
+const MAX_LINE_CHARS = 4000;
+
+const LANGUAGE_ALIASES: Record<string, SnippetLanguage> = {
+  js: "javascript",
+  javascript: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  node: "javascript",
+  ts: "typescript",
+  typescript: "typescript",
+  mts: "typescript",
+  cts: "typescript",
+};
+
+/** The sandbox runs plain JS and TS; JSX/TSX and other languages stay static. */
+export function runnableLanguage(language: string | null | undefined, filename?: string | null): SnippetLanguage | null {
+  const lang = String(language || "").trim().toLowerCase();
+  if (lang) return LANGUAGE_ALIASES[lang] ?? null;
+  const ext = /\.([a-z]+)$/i.exec(String(filename || "").trim())?.[1]?.toLowerCase() ?? "";
+  return LANGUAGE_ALIASES[ext] ?? null;
+}
+
+let sucraseSingleton: SucraseAPI | null = null;
+let sucraseImport: Promise<SucraseAPI> | null = null;
+
+async function getSucrase(): Promise<SucraseAPI> {
+  if (sucraseSingleton) return sucraseSingleton;
+  if (!sucraseImport) {
+    // A failed chunk load (e.g. offline) is not cached, so the next run tries again.
+    sucraseImport = import("sucrase").catch((err) => {
+      sucraseImport = null;
+      throw err;
+    });
+  }
+  sucraseSingleton = await sucraseImport;
+  return sucraseSingleton;
+}
+
+/** Strips types (no type checking) and turns ES module syntax into the sandbox's CommonJS shims. */
+async function transpile(code: string, language: SnippetLanguage): Promise<{ js: string } | { error: SnippetError }> {
+  if (language === "javascript" && !/^\s*(import|export)\b/m.test(code)) return { js: code };
+  let transform: SucraseAPI["transform"];
+  try {
+    ({ transform } = await getSucrase());
+  } catch (err) {
+    console.warn("[codeSandbox] failed to load the transpiler:", err);
+    return { error: { name: "Error", message: "The code runner failed to load. Check your connection and try again.", stack: null } };
+  }
+  try {
+    const out = transform(code, {
+      transforms: language === "typescript" ? ["typescript", "imports"] : ["imports"],
+      filePath: language === "typescript" ? "snippet.ts" : "snippet.js",
+      production: true,
+    });
+    return { js: out.code };
+  } catch (err) {
+    // Sucrase reports syntax errors with the "(line:column)" position in the message.
+    return {
+      error: {
+        name: "SyntaxError",
+        message: err instanceof Error ? err.message : String(err),
+        stack: null,
+      },
+    };
+  }
+}
+
+// Runs inside the worker, wrapped in a function (see buildWorkerSource) so the snippet can't reach
+// `post` or the completion state. fetch, XHR, sockets, storage and nested workers are removed
+// before the snippet runs. Dynamic import() is syntax and can't be removed, so this keeps honest
+// snippets away from those APIs rather than isolating the network. Console output, errors and
+// completion are reported back with postMessage.
+const WORKER_PRELUDE = String.raw`
+const post = self.postMessage.bind(self);
+const MAX_LINE_CHARS = ${MAX_LINE_CHARS};
+for (const name of ["fetch", "XMLHttpRequest", "WebSocket", "EventSource", "importScripts", "indexedDB", "caches", "BroadcastChannel", "Worker", "SharedWorker", "postMessage"]) {
+  try {
+    for (let o = self; o; o = Object.getPrototypeOf(o)) {
+      if (Object.prototype.hasOwnProperty.call(o, name)) {
+        try { delete o[name]; } catch (e) {}
+      }
+    }
+    Object.defineProperty(self, name, { value: undefined, writable: false, configurable: false });
+  } catch (e) {}
+}
+
+function inspect(value, depth, seen, nested) {
+  if (typeof value === "string") return nested ? JSON.stringify(value) : value;
+  if (typeof value === "bigint") return value + "n";
+  if (typeof value === "symbol") return value.toString();
+  if (typeof value === "function") return "[Function " + (value.name || "(anonymous)") + "]";
+  if (value === null || typeof value !== "object") return String(value);
+  if (value instanceof Error) return value.name + ": " + value.message;
+  if (value instanceof Date) return isNaN(value.getTime()) ? "Invalid Date" : value.toISOString();
+  if (value instanceof RegExp) return String(value);
+  if (seen.has(value)) return "[Circular]";
+  if (depth > 2) return Array.isArray(value) ? "[Array]" : "[Object]";
+  seen.add(value);
+  try {
+    const inner = (v) => inspect(v, depth + 1, seen, true);
+    if (Array.isArray(value)) {
+      const items = value.slice(0, 50).map(inner);
+      if (value.length > 50) items.push("... " + (value.length - 50) + " more");
+      return "[ " + items.join(", ") + " ]";
+    }
+    if (value instanceof Map) {
+      return "Map(" + value.size + ") { " + Array.from(value).slice(0, 50).map(([k, v]) => inner(k) + " => " + inner(v)).join(", ") + " }";
+    }
+    if (value instanceof Set) {
+      return "Set(" + value.size + ") { " + Array.from(value).slice(0, 50).map(inner).join(", ") + " }";
+    }
+    const keys = Object.keys(value);
+    const name = value.constructor && value.constructor !== Object ? value.constructor.name + " " : "";
+    const entries = keys.slice(0, 50).map((k) => (/^[A-Za-z_$][\w$]*$/.test(k) ? k : JSON.stringify(k)) + ": " + inner(value[k]));
+    if (keys.length > 50) entries.push("... " + (keys.length - 50) + " more");
+    return name + (entries.length ? "{ " + entries.join(", ") + " }" : "{}");
+  } finally {
+    seen.delete(value);
+  }
+}
+
+function line(level, args) {
+  let text = args.map((a) => inspect(a, 0, new Set(), false)).join(" ");
+  if (text.length > MAX_LINE_CHARS) text = text.slice(0, MAX_LINE_CHARS) + "…";
+  post({ type: "console", level, text });
+}
+
+function reportError(err) {
+  const e = err instanceof Error ? err : null;
+  post({
+    type: "error",
+    name: e ? e.name : "Error",
+    message: e ? e.message : inspect(err, 0, new Set(), false),
+    stack: e && e.stack ? String(e.stack) : null,
+  });
+}
+
+const counts = new Map();
+const timersStarted = new Map();
+self.console = {
+  log: (...a) => line("log", a),
+  info: (...a) => line("info", a),
+  debug: (...a) => line("debug", a),
+  warn: (...a) => line("warn", a),
+  error: (...a) => line("error", a),
+  trace: (...a) => line("log", a),
+  dir: (v) => line("log", [v]),
+  table: (v) => line("log", [v]),
+  assert: (ok, ...a) => { if (!ok) line("error", ["Assertion failed" + (a.length ? ":" : "")].concat(a)); },
+  count: (label = "default") => { const n = (counts.get(label) || 0) + 1; counts.set(label, n); line("log", [label + ": " + n]); },
+  countReset: (label = "default") => { counts.delete(label); },
+  time: (label = "default") => { timersStarted.set(label, performance.now()); },
+  timeEnd: (label = "default") => {
+    const start = timersStarted.get(label);
+    if (start === undefined) return;
+    timersStarted.delete(label);
+    line("log", [label + ": " + (performance.now() - start).toFixed(2) + "ms"]);
+  },
+  group: (...a) => { if (a.length) line("log", a); },
+  groupEnd: () => {},
+};
+
+// Completion: the snippet's promise has settled and no timer is left pending.
+const pending = new Set();
+let settled = false;
+let finished = false;
+function maybeDone() {
+  if (finished || !settled || pending.size > 0) return;
+  finished = true;
+  post({ type: "done" });
+}
+const nativeSetTimeout = self.setTimeout.bind(self);
+const nativeClearTimeout = self.clearTimeout.bind(self);
+const nativeSetInterval = self.setInterval.bind(self);
+const nativeClearInterval = self.clearInterval.bind(self);
+self.setTimeout = (fn, ms, ...args) => {
+  const id = nativeSetTimeout(() => {
+    pending.delete(id);
+    try { if (typeof fn === "function") fn(...args); } catch (err) { reportError(err); }
+    maybeDone();
+  }, ms);
+  pending.add(id);
+  return id;
+};
+self.clearTimeout = (id) => { nativeClearTimeout(id); pending.delete(id); maybeDone(); };
+self.setInterval = (fn, ms, ...args) => {
+  const id = nativeSetInterval(() => {
+    try { if (typeof fn === "function") fn(...args); } catch (err) { reportError(err); }
+  }, ms);
+  pending.add(id);
+  return id;
+};
+self.clearInterval = (id) => { nativeClearInterval(id); pending.delete(id); maybeDone(); };
+
+self.addEventListener("unhandledrejection", (event) => {
+  event.preventDefault();
+  reportError(event.reason);
+});
+self.addEventListener("error", (event) => {
+  event.preventDefault();
+  reportError(event.error || event.message);
+});
+
+const module = { exports: {} };
+const exports = module.exports;
+function require(name) {
+  throw new Error("Modules are not available in the sandbox (tried to load \"" + name + "\")");
+}
+`;
+
+function buildWorkerSource(js: string) {
+  // The snippet is wrapped in an async function so top-level await works; its body is embedded as
+  // a JSON string and compiled with Function, so a syntax error is reported like a thrown one.
+  // Function bodies only see globals, so the prelude's bindings inside the outer IIFE stay private.
+  return `(() => {
+${WORKER_PRELUDE}
+(async () => {
+  try {
+    const run = new Function("module", "exports", "require", "return (async () => {\\n" + ${JSON.stringify(js)} + "\\n})();");
+    await run(module, exports, require);
+  } catch (err) {
+    reportError(err);
+  } finally {
+    settled = true;
+    maybeDone();
+  }
+})();
+})();
+`;
+}
+
+export interface SnippetRun {
+  result: Promise<SnippetRunResult>;
+  stop: () => void;
+}
+
+/**
+ * Runs a JS/TS snippet in a throwaway Web Worker without fetch, XHR or storage. The worker is
+ * terminated when the snippet finishes, after `timeoutMs`, or on `stop()`. Console output
+ * streams through `onLine` as it happens.
+ */
+export function runSnippet(
+  code: string,
+  language: SnippetLanguage,
+  opts?: { timeoutMs?: number; onLine?: (line: ConsoleLine) => void }
+): SnippetRun {
+  const timeoutMs = opts?.timeoutMs ?? SNIPPET_RUN_TIMEOUT_MS;
+  let stopRequested = false;
+  let stopActive: (() => void) | null = null;
+
+  const result = (async (): Promise<SnippetRunResult> => {
+    const startedAt = performance.now();
+    const lines: ConsoleLine[] = [];
+    let truncated = false;
+    const finish = (status: SnippetRunStatus, error: SnippetError | null): SnippetRunResult => ({
+      status,
+      lines,
+      error,
+      durationMs: Math.round(performance.now() - startedAt),
+      truncated,
+    });
+
+    const compiled = await transpile(code, language);
+    if ("error" in compiled) return finish("error", compiled.error);
+    if (stopRequested) return finish("stopped", null);
+    if (typeof Worker === "undefined" || typeof Blob === "undefined") {
+      return finish("error", { name: "Error", message: "Code can't run in this browser.", stack: null });
+    }
+
+    const url = URL.createObjectURL(new Blob([buildWorkerSource(compiled.js)], { type: "text/javascript" }));
+    return new Promise<SnippetRunResult>((resolve) => {
+      let firstError: SnippetError | null = null;
+      let timer = 0;
+      const worker = new Worker(url);
+      const end = (status: SnippetRunStatus) => {
+        window.clearTimeout(timer);
+        worker.terminate();
+        URL.revokeObjectURL(url);
+        stopActive = null;
+        resolve(finish(status, firstError));
+      };
+      stopActive = () => end("stopped");
+      timer = window.setTimeout(() => end("timeout"), timeoutMs);
+
+      worker.onmessage = (event: MessageEvent) => {
+        const msg = event.data as { type?: unknown; level?: unknown; text?: unknown; name?: unknown; message?: unknown; stack?: unknown };
+        if (msg?.type === "console") {
+          if (lines.length >= MAX_OUTPUT_LINES) {
+            truncated = true;
+            return;
+          }
+          const level = (["log", "info", "debug", "warn", "error"] as const).find((l) => l === msg.level) ?? "log";
+          const line: ConsoleLine = { level, text: String(msg.text ?? "") };
+          lines.push(line);
+          opts?.onLine?.(line);
+          return;
+        }
+        if (msg?.type === "error") {
+          const error: SnippetError = {
+            name: String(msg.name || "Error"),
+            message: String(msg.message ?? ""),
+            stack: typeof msg.stack === "string" ? msg.stack : null,
+          };
+          // Later errors (e.g. from timers) still show up in the output.
+          if (firstError) {
+            const line: ConsoleLine = { level: "error", text: `${error.name}: ${error.message}` };
+            lines.push(line);
+            opts?.onLine?.(line);
+          } else {
+            firstError = error;
+          }
+          return;
+        }
+        if (msg?.type === "done") end(firstError ? "error" : "ok");
+      };
+      worker.onerror = (event) => {
+        event.preventDefault();
+        if (!firstError) firstError = { name: "Error", message: event.message || "The sandbox crashed.", stack: null };
+        end("error");
+      };
+    });
+  })();
+
+  return {
+    result,
+    stop: () => {
+      stopRequested = true;
+      stopActive?.();
+    },
+  };
+}
@@ -0,0 +1,127 @@
+type DocBlockLike = {
+  type?: unknown;
+  [key: string]: unknown;
+};
+
+const READ_TIME_FIELDS = [
+  "title",
+  "heading",
+  "subtitle",
+  "text",
+  "body_md",
+  "prompt_md",
+  "answer_md",
+  "front_md",
+  "back_md",
+  "content",
+  "caption",
+];
+
+// Paragraph and callout blocks keep their prose in `md`, which narration has to include.
+const SPOKEN_FIELDS = [
+  "title",
+  "heading",
+  "subtitle",
+  "text",
+  "md",
+  "body_md",
+  "prompt_md",
+  "answer_md",
+  "front_md",
+  "back_md",
+  "content",
+  "caption",
+];
+
+function collectBlockText(block: DocBlockLike | null | undefined, fields: readonly string[]): string {
+  if (!block || typeof block !== "object") return "";
+  const parts: string[] = [];
+  for (const key of fields) {
+    const val = (block as Record<string, unknown>)[key];
+    if (typeof val === "string" && val.trim()) {
+      parts.push(val);
+    }
+  }
+  if (parts.length > 0) return parts.join(" ");
+  try {
+    return JSON.stringify(block);
+  } catch {
+    return "";
+  }
+}
+
+/** Raw text of a doc block as the read-time estimates have always measured it. */
+export function extractBlockText(block: DocBlockLike | null | undefined): string {
+  return collectBlockText(block, READ_TIME_FIELDS);
+}
+
+/** Raw text of a doc block for narration and text anchors, including `md` prose. */
+export function extractSpokenBlockText(block: DocBlockLike | null | undefined): string {
+  return collectBlockText(block, SPOKEN_FIELDS);
+}
+
+const LATEX_WORDS: Record<string, string> = {
+  frac: "fraction",
+  sqrt: "square root of",
+  sum: "sum",
+  int: "integral",
+  times: "times",
+  cdot: "times",
+  pm: "plus or minus",
+  leq: "less than or equal to",
+  geq: "greater than or equal to",
+  neq: "not equal to",
+  approx: "approximately",
+  infty: "infinity",
+  to: "to",
+  rightarrow: "implies",
+};
+
+/** Rough spoken form of short LaTeX (Greek letters and common operators); long formulas should be described instead. */
+export function latexToSpeech(latex: string): string {
+  return String(latex || "")
+    .replace(/\\(left|right|displaystyle|mathrm|mathbf|text|operatorname)\b/g, "")
+    .replace(/\\([a-zA-Z]+)/g, (_, name: string) => ` ${LATEX_WORDS[name] ?? name} `)
+    .replace(/\^/g, " to the power ")
+    .replace(/_/g, " sub ")
+    .replace(/=/g, " equals ")
+    .replace(/[{}\\$]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Reduces markdown to the words a speech engine should say (no syntax, links read as their label). */
+export function markdownToSpeech(md: string): string {
+  return String(md || "")
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/\$\$[\s\S]*?\$\$/g, " ")
+    .replace(/\$([^$\n]+)\$/g, (_, tex: string) => latexToSpeech(tex))
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/`([^`]*)`/g, "$1")
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+[.)])\s+/gm, "")
+    .replace(/(\*\*|__|\*|_|~~)(\S(?:[\s\S]*?\S)?)\1/g, "$2")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/\|/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Splits narration into sentences; each is spoken as its own utterance. */
+export function splitSentences(text: string): string[] {
+  const out: string[] = [];
+  // Break after terminal punctuation only when the next sentence starts with a capital or digit,
+  // so abbreviations like "e.g. the" stay in one sentence.
+  const parts = String(text || "").split(/(?<=[.!?…]["'”’)\]]*)\s+(?=[\p{Lu}\p{N}"“‘(\[])/u);
+  for (const part of parts) {
+    const sentence = part.trim();
+    if (!sentence) continue;
+    // Fold list markers and fragments ("1.", "A.") into the previous sentence.
+    if (out.length > 0 && sentence.length < 6) {
+      out[out.length - 1] = `${out[out.length - 1]} ${sentence}`;
+      continue;
+    }
+    out.push(sentence);
+  }
+  return out;
+}
@@ -0,0 +1,95 @@
+/**
+ * Watches how far raw (calibrated, not yet bias-corrected) gaze lands from the line it snaps to
+ * while reading. Scanning along a line averages out horizontally, so a slow average that stays
+ * off target means the calibration has drifted (head moved, lighting changed) rather than noise.
+ * The running bias correction hides small drift; once it is pinned near its limit, or the offset
+ * outgrows what the last validation measured, a recalibration is worth suggesting.
+ */
+
+export type GazeDriftStatus = {
+  /** Slow average of raw gaze minus line center, px. */
+  offsetX: number;
+  offsetY: number;
+  /** Observations since the last reset. */
+  samples: number;
+  /** How long the offset has stayed past the threshold, ms. */
+  sustainedMs: number;
+  drifting: boolean;
+};
+
+export type GazeDriftOptions = {
+  /** Mean error from the last calibration's validation, px; raises the bar for a noisy setup. */
+  baselineErrorPx?: number | null;
+  /** Largest correction the reader's gaze bias may apply, px. */
+  biasMaxPx: number;
+};
+
+const OFFSET_ALPHA = 0.04;
+const MIN_OFFSET_Y_PX = 40;
+const MIN_OFFSET_X_PX = 90;
+const BASELINE_FACTOR = 0.6;
+const BIAS_SATURATION = 0.9;
+const SUSTAIN_MS = 15_000;
+const MIN_SAMPLES = 40;
+// Longer gaps mean the reader looked away or scrolled; don't count them as sustained drift.
+const MAX_GAP_MS = 2_000;
+
+export class GazeDriftMonitor {
+  private offsetX = 0;
+  private offsetY = 0;
+  private samples = 0;
+  private sustainedMs = 0;
+  private lastAt: number | null = null;
+
+  observe(
+    rawErrX: number,
+    rawErrY: number,
+    bias: { x: number; y: number },
+    nowMs: number,
+    options: GazeDriftOptions
+  ): GazeDriftStatus {
+    if (!Number.isFinite(rawErrX) || !Number.isFinite(rawErrY)) return this.status(false);
+    if (this.samples === 0) {
+      this.offsetX = rawErrX;
+      this.offsetY = rawErrY;
+    } else {
+      this.offsetX += (rawErrX - this.offsetX) * OFFSET_ALPHA;
+      this.offsetY += (rawErrY - this.offsetY) * OFFSET_ALPHA;
+    }
+    this.samples += 1;
+
+    const baseline = options.baselineErrorPx && options.baselineErrorPx > 0 ? options.baselineErrorPx : 0;
+    const limitY = Math.max(MIN_OFFSET_Y_PX, baseline * BASELINE_FACTOR);
+    const limitX = Math.max(MIN_OFFSET_X_PX, baseline * BASELINE_FACTOR * 2);
+    const saturated =
+      Math.abs(bias.x) >= options.biasMaxPx * BIAS_SATURATION || Math.abs(bias.y) >= options.biasMaxPx * BIAS_SATURATION;
+    const off = saturated || Math.abs(this.offsetY) > limitY || Math.abs(this.offsetX) > limitX;
+
+    const gap = this.lastAt == null ? 0 : nowMs - this.lastAt;
+    this.lastAt = nowMs;
+    if (!off) {
+      this.sustainedMs = 0;
+    } else if (gap <= MAX_GAP_MS) {
+      this.sustainedMs += gap;
+    }
+    return this.status(this.samples >= MIN_SAMPLES && this.sustainedMs >= SUSTAIN_MS);
+  }
+
+  reset() {
+    this.offsetX = 0;
+    this.offsetY = 0;
+    this.samples = 0;
+    this.sustainedMs = 0;
+    this.lastAt = null;
+  }
+
+  private status(drifting: boolean): GazeDriftStatus {
+    return {
+      offsetX: this.offsetX,
+      offsetY: this.offsetY,
+      samples: this.samples,
+      sustainedMs: this.sustainedMs,
+      drifting,
+    };
+  }
+}
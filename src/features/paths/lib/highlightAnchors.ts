@@ -0,0 +1,218 @@
+import type { Highlight, HighlightAnchor, NodeDocRevision } from "@/shared/types/models";
+import { extractSpokenBlockText, markdownToSpeech } from "@/features/paths/lib/docBlockText";
+import { collectRenderedText, type TextNodeSpan } from "@/features/paths/lib/renderedText";
+
+const CONTEXT_CHARS = 32;
+// Share of the quote's words that must reappear, in order, for a fuzzy match to count.
+const FUZZY_MIN_SCORE = 0.6;
+
+function boundaryOffset(nodes: TextNodeSpan[], textLength: number, container: Node, offset: number) {
+  if (container.nodeType === Node.TEXT_NODE) {
+    const span = nodes.find((s) => s.node === container);
+    if (span) return span.start + Math.min(offset, span.node.length);
+  }
+  // Element boundary (or a skipped text node): use the first readable text at or after it.
+  const point = document.createRange();
+  point.setStart(container, offset);
+  point.collapse(true);
+  for (const span of nodes) {
+    if (point.comparePoint(span.node, 0) >= 0) return span.start;
+  }
+  return textLength;
+}
+
+/** Builds an anchor for a selection that lies inside one rendered block. */
+export function anchorFromRange(
+  root: HTMLElement,
+  range: Range,
+  blockId: string,
+  blockIndex: number | null
+): HighlightAnchor | null {
+  const { text, nodes } = collectRenderedText(root);
+  let start = boundaryOffset(nodes, text.length, range.startContainer, range.startOffset);
+  let end = boundaryOffset(nodes, text.length, range.endContainer, range.endOffset);
+  while (start < end && /\s/.test(text[start])) start += 1;
+  while (end > start && /\s/.test(text[end - 1])) end -= 1;
+  if (end <= start) return null;
+  return {
+    blockId,
+    blockIndex,
+    startOffset: start,
+    endOffset: end,
+    quote: text.slice(start, end),
+    prefix: text.slice(Math.max(0, start - CONTEXT_CHARS), start),
+    suffix: text.slice(end, end + CONTEXT_CHARS),
+  };
+}
+
+function commonSuffixLength(a: string, b: string) {
+  let n = 0;
+  while (n < a.length && n < b.length && a[a.length - 1 - n] === b[b.length - 1 - n]) n += 1;
+  return n;
+}
+
+function commonPrefixLength(a: string, b: string) {
+  let n = 0;
+  while (n < a.length && n < b.length && a[n] === b[n]) n += 1;
+  return n;
+}
+
+type WordSpan = { word: string; start: number; end: number };
+
+function words(text: string): WordSpan[] {
+  const out: WordSpan[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const start = match.index ?? 0;
+    out.push({ word: match[0].toLowerCase(), start, end: start + match[0].length });
+  }
+  return out;
+}
+
+function lcsMatches(quote: string[], window: WordSpan[]) {
+  // Returns the LCS length plus the first/last window positions that took part in it.
+  const m = quote.length;
+  const n = window.length;
+  const len: number[][] = Array.from({ length: m + 1 }, () => new Array<number>(n + 1).fill(0));
+  for (let i = 1; i <= m; i += 1) {
+    for (let j = 1; j <= n; j += 1) {
+      len[i][j] =
+        quote[i - 1] === window[j - 1].word ? len[i - 1][j - 1] + 1 : Math.max(len[i - 1][j], len[i][j - 1]);
+    }
+  }
+  let i = m;
+  let j = n;
+  let first = -1;
+  let last = -1;
+  while (i > 0 && j > 0) {
+    if (quote[i - 1] === window[j - 1].word) {
+      if (last < 0) last = j - 1;
+      first = j - 1;
+      i -= 1;
+      j -= 1;
+    } else if (len[i - 1][j] >= len[i][j - 1]) {
+      i -= 1;
+    } else {
+      j -= 1;
+    }
+  }
+  return { length: len[m][n], first, last };
+}
+
+/**
+ * Approximate search for `quote` in `text`, word by word, so reworded or re-punctuated passages
+ * still match. Returns character offsets of the best window, preferring ones near `hint`.
+ */
+export function fuzzyFind(text: string, quote: string, hint = 0): { start: number; end: number; score: number } | null {
+  const quoteWords = words(quote).map((w) => w.word);
+  if (quoteWords.length === 0) return null;
+  const textWords = words(text);
+  const quoteSet = new Set(quoteWords);
+  const slack = Math.ceil(quoteWords.length * 0.25);
+  let best: { start: number; end: number; score: number; distance: number } | null = null;
+
+  for (let i = 0; i < textWords.length; i += 1) {
+    // A match has to start on one of the quote's words.
+    if (!quoteSet.has(textWords[i].word)) continue;
+    const window = textWords.slice(i, i + quoteWords.length + slack);
+    const { length, first, last } = lcsMatches(quoteWords, window);
+    if (first < 0) continue;
+    const score = length / quoteWords.length;
+    if (score < FUZZY_MIN_SCORE) continue;
+    const start = window[first].start;
+    const distance = Math.abs(start - hint);
+    if (!best || score > best.score || (score === best.score && distance < best.distance)) {
+      best = { start, end: window[last].end, score, distance };
+    }
+  }
+  return best ? { start: best.start, end: best.end, score: best.score } : null;
+}
+
+export type AnchorMatch = { start: number; end: number; exact: boolean };
+
+/**
+ * Locates an anchor in a block's current text: at its stored offsets, then at the occurrence
+ * whose surrounding text best matches, then by fuzzy search. `exact` is false when the stored
+ * offsets no longer hold, so callers can persist the corrected anchor.
+ */
+export function resolveAnchor(text: string, anchor: HighlightAnchor): AnchorMatch | null {
+  const { quote, startOffset, endOffset } = anchor;
+  if (!quote) return null;
+  if (text.slice(startOffset, endOffset) === quote) return { start: startOffset, end: endOffset, exact: true };
+
+  let best: { start: number; score: number } | null = null;
+  for (let at = text.indexOf(quote); at >= 0; at = text.indexOf(quote, at + 1)) {
+    const context =
+      commonSuffixLength(text.slice(Math.max(0, at - CONTEXT_CHARS), at), anchor.prefix) +
+      commonPrefixLength(text.slice(at + quote.length, at + quote.length + CONTEXT_CHARS), anchor.suffix);
+    // Context dominates; distance from the old offset only breaks ties.
+    const score = context * 1000 - Math.abs(at - startOffset);
+    if (!best || score > best.score) best = { start: at, score };
+  }
+  if (best) return { start: best.start, end: best.start + quote.length, exact: false };
+
+  const fuzzy = fuzzyFind(text, quote, startOffset);
+  return fuzzy ? { start: fuzzy.start, end: fuzzy.end, exact: false } : null;
+}
+
+export function anchorAt(text: string, match: { start: number; end: number }, blockId: string, blockIndex: number | null): HighlightAnchor {
+  return {
+    blockId,
+    blockIndex,
+    startOffset: match.start,
+    endOffset: match.end,
+    quote: text.slice(match.start, match.end),
+    prefix: text.slice(Math.max(0, match.start - CONTEXT_CHARS), match.start),
+    suffix: text.slice(match.end, match.end + CONTEXT_CHARS),
+  };
+}
+
+function parseBlock(value: unknown): Record<string, unknown> | null {
+  let parsed = value;
+  if (typeof parsed === "string") {
+    try {
+      parsed = JSON.parse(parsed);
+    } catch {
+      return null;
+    }
+  }
+  return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : null;
+}
+
+function timeOf(value: string | null | undefined) {
+  const ms = value ? Date.parse(value) : NaN;
+  return Number.isFinite(ms) ? ms : 0;
+}
+
+/**
+ * Follows a highlight through block regenerations: finds the newest revision of its block and
+ * looks for the quote in the revised block (`afterJson`). Returns the block that now holds the
+ * passage and the passage's new wording, or null when it was rewritten beyond recognition.
+ */
+export function reanchorFromRevisions(
+  highlight: Highlight,
+  revisions: NodeDocRevision[]
+): { blockId: string; blockIndex: number | null; quote: string } | null {
+  const since = timeOf(highlight.updatedAt ?? highlight.createdAt);
+  const candidates = revisions
+    .filter((rev) => {
+      if (timeOf(rev.createdAt) < since) return false;
+      if (rev.blockId === highlight.blockId) return true;
+      const before = parseBlock(rev.beforeJson);
+      return String(before?.id ?? "") === highlight.blockId;
+    })
+    .sort((a, b) => timeOf(b.createdAt) - timeOf(a.createdAt));
+
+  for (const rev of candidates) {
+    const after = parseBlock(rev.afterJson);
+    if (!after) continue;
+    const text = markdownToSpeech(extractSpokenBlockText(after));
+    const match = fuzzyFind(text, highlight.quote);
+    if (!match) continue;
+    return {
+      blockId: String(after.id ?? rev.blockId ?? highlight.blockId),
+      blockIndex: rev.blockIndex ?? highlight.blockIndex,
+      quote: text.slice(match.start, match.end),
+    };
+  }
+  return null;
+}
@@ -0,0 +1,75 @@
+/**
+ * Visual text lines of a rendered doc block, in viewport coordinates. Text rects within a few
+ * pixels of the same top are merged into one line; a block without text counts as a single line.
+ * Line ids and indices are what gaze hits and the reading trace refer to.
+ */
+
+export type LineRect = {
+  id: string;
+  index: number;
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+  height: number;
+  width: number;
+};
+
+export function measureLineRects(blockId: string, el: HTMLElement | null): LineRect[] {
+  if (!el || typeof document === "undefined") return [];
+  const linesByTop = new Map<number, { top: number; bottom: number; left: number; right: number }>();
+  const walker = document.createTreeWalker(el, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) => {
+      const text = node.textContent ?? "";
+      return text.trim().length > 0 ? NodeFilter.FILTER_ACCEPT : NodeFilter.FILTER_REJECT;
+    },
+  });
+  let node = walker.nextNode();
+  while (node) {
+    const range = document.createRange();
+    range.selectNodeContents(node);
+    const rects = Array.from(range.getClientRects());
+    rects.forEach((rect) => {
+      if (rect.width < 2 || rect.height < 2) return;
+      const key = Math.round(rect.top / 3) * 3;
+      const existing = linesByTop.get(key);
+      if (!existing) {
+        linesByTop.set(key, {
+          top: rect.top,
+          bottom: rect.bottom,
+          left: rect.left,
+          right: rect.right,
+        });
+        return;
+      }
+      existing.top = Math.min(existing.top, rect.top);
+      existing.bottom = Math.max(existing.bottom, rect.bottom);
+      existing.left = Math.min(existing.left, rect.left);
+      existing.right = Math.max(existing.right, rect.right);
+      linesByTop.set(key, existing);
+    });
+    node = walker.nextNode();
+  }
+  if (linesByTop.size === 0) {
+    const rect = el.getBoundingClientRect();
+    linesByTop.set(Math.round(rect.top / 3) * 3, {
+      top: rect.top,
+      bottom: rect.bottom,
+      left: rect.left,
+      right: rect.right,
+    });
+  }
+  const lines = Array.from(linesByTop.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([_, rect], idx) => ({
+      id: `${blockId}:line:${idx + 1}`,
+      index: idx,
+      top: rect.top,
+      bottom: rect.bottom,
+      left: rect.left,
+      right: rect.right,
+      height: Math.max(1, rect.bottom - rect.top),
+      width: Math.max(1, rect.right - rect.left),
+    }));
+  return lines;
+}
@@ -0,0 +1,28 @@
+import type { QuizQuestionV1 } from "@/shared/types/drillPayloadV1";
+
+export type QuizOption = { id: string; text: string };
+
+/** Options may arrive as plain strings (legacy drills) or `{ id, text }` objects. */
+export function normalizeQuizOptions(q: Partial<QuizQuestionV1> | null | undefined): QuizOption[] {
+  const rawOptions = Array.isArray(q?.options) ? (q.options as unknown[]) : [];
+  return rawOptions
+    .map((opt, i) => {
+      if (typeof opt === "string") return { id: String(i), text: opt };
+      if (opt && typeof opt === "object") {
+        const row = opt as { id?: unknown; text?: unknown };
+        return { id: String(row.id ?? i), text: String(row.text ?? "") };
+      }
+      return null;
+    })
+    .filter((opt): opt is QuizOption => Boolean(opt));
+}
+
+export function quizAnswerId(q: Partial<QuizQuestionV1> | null | undefined): string | null {
+  const legacyIndex = (q as { correct_index?: number } | null | undefined)?.correct_index;
+  if (typeof q?.answer_id === "string" && q.answer_id.trim()) return q.answer_id.trim();
+  return typeof legacyIndex === "number" ? String(legacyIndex) : null;
+}
+
+export function quizQuestionId(q: Partial<QuizQuestionV1> | null | undefined, index: number): string {
+  return String(q?.id ?? "").trim() || `q_${index + 1}`;
+}
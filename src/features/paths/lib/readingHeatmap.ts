@@ -0,0 +1,94 @@
+import type { ReadingSpan, ReadingTrace } from "@/shared/services/ReadingTraceStore";
+
+/**
+ * Summaries behind the after-lesson reading view: dwell per line and per block up to a point on
+ * the trace's clock, and a read / skimmed / missed verdict per block. "Missed" only applies before
+ * the furthest block the learner got to; anything after it is simply not reached yet.
+ */
+
+export type BlockReadStatus = "read" | "skimmed" | "missed" | "unreached";
+
+export type ReadingSummary = {
+  lineMs: Map<string, number>;
+  blockMs: Map<string, number>;
+  // Blocks with gaze spans, i.e. where the heat can be drawn per line.
+  lineBlocks: Set<string>;
+};
+
+// Same bar the lesson page uses to mark a block as read.
+const READ_CREDIT = 0.7;
+const SKIM_CREDIT = 0.15;
+const SKIM_MIN_MS = 1500;
+// Dwell at which a line reads as fully "hot"; the scale saturates smoothly past it.
+const LINE_HOT_MS = 1800;
+const BLOCK_HOT_MS = 12_000;
+
+export function readingLineKey(blockId: string, line: number) {
+  return `${blockId}:${line}`;
+}
+
+export function summarizeReading(spans: readonly ReadingSpan[], until = Number.POSITIVE_INFINITY): ReadingSummary {
+  const lineMs = new Map<string, number>();
+  const blockMs = new Map<string, number>();
+  const lineBlocks = new Set<string>();
+  for (const span of spans) {
+    if (span.t >= until) break;
+    const ms = Math.min(span.ms, until - span.t);
+    if (ms <= 0) continue;
+    blockMs.set(span.blockId, (blockMs.get(span.blockId) ?? 0) + ms);
+    if (span.source === "gaze" && span.line != null) {
+      const key = readingLineKey(span.blockId, span.line);
+      lineMs.set(key, (lineMs.get(key) ?? 0) + ms);
+      lineBlocks.add(span.blockId);
+    }
+  }
+  return { lineMs, blockMs, lineBlocks };
+}
+
+/** Index of the span playing at `t`, or -1 before the first one. */
+export function readingSpanIndexAt(spans: readonly ReadingSpan[], t: number): number {
+  let lo = 0;
+  let hi = spans.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (spans[mid].t <= t) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
+
+export function lineHeat(ms: number) {
+  return ms > 0 ? 1 - Math.exp(-ms / LINE_HOT_MS) : 0;
+}
+
+export function blockHeat(ms: number) {
+  return ms > 0 ? 1 - Math.exp(-ms / BLOCK_HOT_MS) : 0;
+}
+
+export function classifyReadBlocks(
+  blockIds: readonly string[],
+  trace: Pick<ReadingTrace, "credits">,
+  summary: ReadingSummary
+): Map<string, BlockReadStatus> {
+  const raw = blockIds.map((id) => {
+    const credit = trace.credits[id] ?? 0;
+    const dwell = summary.blockMs.get(id) ?? 0;
+    if (credit >= READ_CREDIT) return "read" as const;
+    if (credit >= SKIM_CREDIT || dwell >= SKIM_MIN_MS) return "skimmed" as const;
+    return "missed" as const;
+  });
+  let furthest = -1;
+  raw.forEach((status, index) => {
+    if (status !== "missed") furthest = index;
+  });
+  const statuses = new Map<string, BlockReadStatus>();
+  blockIds.forEach((id, index) => {
+    statuses.set(id, raw[index] === "missed" && index > furthest ? "unreached" : raw[index]);
+  });
+  return statuses;
+}
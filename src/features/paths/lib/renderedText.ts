@@ -0,0 +1,43 @@
+export type TextNodeSpan = { node: Text; start: number };
+
+/**
+ * Visible text of a rendered block, with the text node each character range came from. Highlights
+ * and read-aloud both map offsets in this text back to DOM ranges, so they must agree on what counts.
+ */
+export function collectRenderedText(root: HTMLElement) {
+  const nodes: TextNodeSpan[] = [];
+  let text = "";
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  for (let n = walker.nextNode(); n; n = walker.nextNode()) {
+    const node = n as Text;
+    // Block toolbars, highlight popovers and hidden answers are not part of what the learner reads.
+    if (node.parentElement?.closest("[hidden], [aria-hidden='true'], button, [data-highlight-ui]")) continue;
+    nodes.push({ node, start: text.length });
+    text += node.data;
+  }
+  return { text, nodes };
+}
+
+/** DOM range for a [start, end) slice of the text returned by collectRenderedText. */
+export function rangeFromOffsets(nodes: TextNodeSpan[], start: number, end: number): Range | null {
+  const locate = (offset: number, preferNext: boolean) => {
+    for (let i = nodes.length - 1; i >= 0; i -= 1) {
+      const span = nodes[i];
+      if (span.start > offset) continue;
+      // An offset at a node boundary belongs to the next node for starts, the previous for ends.
+      if (!preferNext && span.start === offset && i > 0) {
+        const prev = nodes[i - 1];
+        return { node: prev.node, offset: prev.node.length };
+      }
+      return { node: span.node, offset: Math.min(offset - span.start, span.node.length) };
+    }
+    return null;
+  };
+  const a = locate(start, true);
+  const b = locate(end, false);
+  if (!a || !b) return null;
+  const range = document.createRange();
+  range.setStart(a.node, a.offset);
+  range.setEnd(b.node, b.offset);
+  return range;
+}
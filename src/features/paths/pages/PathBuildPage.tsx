@@ -2,7 +2,7 @@ import React, { useEffect, useState } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import { getJob as apiGetJob } from "@/shared/api/JobService";
 import { Container } from "@/shared/layout/Container";
-import { Skeleton, SkeletonText } from "@/shared/ui/skeleton";
+import { PathBuildPageSkeleton } from "@/features/paths/pages/PathBuildPageSkeleton";
 function safeParseJSON(v: unknown): Record<string, unknown> | null {
   if (!v) return null;
   if (typeof v === "object" && !Array.isArray(v)) return v as Record<string, unknown>;
@@ -20,25 +20,6 @@ function safeParseJSON(v: unknown): Record<string, unknown> | null {
   return null;
 }
 
-export function PathBuildPageSkeleton({ embedded = false }: { embedded?: boolean } = {}) {
-  const body = (
-    <div className="space-y-3">
-      <Skeleton className="h-5 w-40 rounded-full" />
-      <SkeletonText lines={2} className="max-w-sm" />
-    </div>
-  );
-
-  if (embedded) return <div aria-busy="true">{body}</div>;
-
-  return (
-    <div className="page-surface" aria-busy="true">
-      <Container size="sm" className="page-pad">
-        {body}
-      </Container>
-    </div>
-  );
-}
-
 export default function PathBuildPage() {
   const { jobId } = useParams<{ jobId?: string }>();
   const navigate = useNavigate();
@@ -0,0 +1,21 @@
+import { Container } from "@/shared/layout/Container";
+import { Skeleton, SkeletonText } from "@/shared/ui/skeleton";
+
+export function PathBuildPageSkeleton({ embedded = false }: { embedded?: boolean } = {}) {
+  const body = (
+    <div className="space-y-3">
+      <Skeleton className="h-5 w-40 rounded-full" />
+      <SkeletonText lines={2} className="max-w-sm" />
+    </div>
+  );
+
+  if (embedded) return <div aria-busy="true">{body}</div>;
+
+  return (
+    <div className="page-surface" aria-busy="true">
+      <Container size="sm" className="page-pad">
+        {body}
+      </Container>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
-import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { useNavigate, useParams } from "react-router-dom";
+import React, { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import { useLocation, useNavigate, useParams } from "react-router-dom";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { useQuery } from "@tanstack/react-query";
@@ -7,14 +7,32 @@ import { Button } from "@/shared/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/shared/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/shared/ui/select";
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/shared/ui/sheet";
+import { IconButton } from "@/shared/ui/icon-button";
 import { Separator } from "@/shared/ui/separator";
 import { Textarea } from "@/shared/ui/textarea";
 import { cn } from "@/shared/lib/utils";
-import { Skeleton, SkeletonText } from "@/shared/ui/skeleton";
+import { Activity, ListTree, PanelRightClose, Volume2, X } from "lucide-react";
 
 import { createChatThread, getChatThread, listChatMessages, sendChatMessage } from "@/shared/api/ChatService";
 import { flushEvents, queueEvent } from "@/shared/services/EventQueue";
 import { queueSessionPatch } from "@/shared/services/SessionStateTracker";
+import {
+  getResumeConflict,
+  getResumePosition,
+  hydrateLessonResume,
+  isLessonFinished,
+  recordResumePosition,
+  resolveResumeConflict,
+} from "@/shared/services/LessonResume";
+import type { ResumeConflict, ResumePosition } from "@/shared/services/LessonResume";
+import { quizAttemptScore, saveQuizAttempt } from "@/shared/services/QuizAttemptStore";
+import { saveDrillCards } from "@/shared/services/DrillCardStore";
+import type { QuizAttempt, QuizAttemptAnswer, QuizAttemptMode } from "@/shared/services/QuizAttemptStore";
+import { useQuizAttempts } from "@/shared/hooks/useQuizAttempts";
+import { usePersonalDecks } from "@/shared/hooks/usePersonalDecks";
+import { useLearningNeeds } from "@/shared/hooks/useLearningNeeds";
+import type { PersonalDeck } from "@/shared/services/PersonalDeckStore";
+import { cacheNodeDocForSearch } from "@/shared/services/NodeDocSearchCache";
 import {
   trackEngagementFunnelStep,
   trackExperimentExposure,
@@ -29,31 +47,87 @@ import {
   listPathNodeDocRevisions,
 } from "@/shared/api/PathNodeService";
 import { getPathRuntime } from "@/shared/api/RuntimeService";
+import type { GazeUploadMode } from "@/shared/api/GazeService";
 import { GazeQueue } from "@/shared/services/GazeQueue";
+import { buildGazeHit } from "@/shared/lib/gazeHit";
+import {
+  beginReadingTrace,
+  getReadingTrace,
+  recordReadingSample,
+  saveReadingTrace,
+  subscribeReadingTraces,
+  type ReadingTrace,
+} from "@/shared/services/ReadingTraceStore";
 import { NodeContentRenderer } from "@/features/paths/components/NodeContentRenderer";
-import { Flashcard, NodeDocRenderer, QuickCheck } from "@/features/paths/components/NodeDocRenderer";
+import {
+  Flashcard,
+  NodeDocRenderer,
+  QuickCheck,
+  SCROLL_TARGET_OFFSET_PX,
+} from "@/features/paths/components/NodeDocRenderer";
+import { buildCitationSourceHref } from "@/features/paths/components/DocCitations";
+import { QuizAttemptResults } from "@/features/paths/components/QuizAttemptResults";
+import { FlashcardsDrill } from "@/features/paths/components/FlashcardsDrill";
+import { personalDeckDrill } from "@/features/paths/components/PersonalDecks";
+import { ReadAloudPlayer } from "@/features/paths/components/ReadAloudPlayer";
+import { LessonOutline, buildLessonOutline, outlineEntryForBlock } from "@/features/paths/components/LessonOutline";
+import { LessonResumeBanner } from "@/features/paths/components/LessonResumeBanner";
+import { ReadingHeatmapLayer } from "@/features/paths/components/ReadingHeatmapLayer";
+import {
+  LessonHighlightLayer,
+  type SelectionAskAction,
+  type SelectionExcerpt,
+} from "@/features/paths/components/LessonHighlights";
+import { normalizeQuizOptions, quizAnswerId, quizQuestionId } from "@/features/paths/lib/quizQuestions";
+import { extractBlockText } from "@/features/paths/lib/docBlockText";
+import { GazeDriftMonitor } from "@/features/paths/lib/gazeDrift";
+import { measureLineRects, type LineRect } from "@/features/paths/lib/lineRects";
+import { CardExportMenu } from "@/features/paths/components/CardExportMenu";
+import {
+  cardsFromDocBlocks,
+  cardsFromDrill,
+  cardsFromQuizQuestions,
+  conceptKeysToTags,
+  dedupeCards,
+  exportFileBaseName,
+} from "@/features/paths/lib/cardExport";
 import { Container } from "@/shared/layout/Container";
 import { queryKeys } from "@/shared/query/queryKeys";
 import { CodeBlock, InlineCode } from "@/shared/components/CodeBlock";
-import { useSSEContext } from "@/app/providers/SSEProvider";
+import {
+  SSE_CHAT_MESSAGE_EVENTS,
+  SSE_JOB_EVENTS,
+  useSSEContext,
+  useSSEEvent,
+} from "@/app/providers/SSEProvider";
 import { useUser } from "@/app/providers/UserProvider";
 import { usePaths } from "@/app/providers/PathProvider";
 import { useChatDock } from "@/app/providers/ChatDockProvider";
 import { useLessons } from "@/app/providers/LessonProvider";
 import { useI18n } from "@/app/providers/I18nProvider";
 import { useEyeTracking } from "@/shared/hooks/useEyeTracking";
-import { useEyeTrackingPreference } from "@/shared/hooks/useEyeTrackingPreference";
+import {
+  getEyeTrackingTuning,
+  useEyeTrackingPreference,
+  useEyeTrackingTuning,
+} from "@/shared/hooks/useEyeTrackingPreference";
+import type { EyeTrackingTuning } from "@/shared/lib/eyeTrackingTuning";
 import { useEyeCalibration } from "@/shared/hooks/useEyeCalibration";
 import { EyeCalibrationOverlay } from "@/shared/components/EyeCalibrationOverlay";
+import { EyeTrackingTuningPanel } from "@/shared/components/EyeTrackingTuningPanel";
 import {
+  LESSON_EXCERPT_KIND,
   asRecord,
   messageKindFromMetadata,
   normalizeProposalText,
   parseNodeDocEditProposal,
   stringFromMetadata,
+  type LessonExcerpt,
   type NodeDocEditProposal,
 } from "@/shared/lib/nodeDocEdit";
-import type { DrillPayloadV1 } from "@/shared/types/drillPayloadV1";
+import { useToast } from "@/shared/ui/toast";
+import type { DrillPayloadV1, QuizQuestionV1 } from "@/shared/types/drillPayloadV1";
+import type { CitationRefV1 } from "@/shared/types/nodeDocV1";
 import type { BackendJob } from "@/shared/types/backend";
 import type {
   DrillSpec,
@@ -63,6 +137,7 @@ import type {
   PathNode,
 } from "@/shared/types/models";
 import type { JobEventPayload, RuntimePromptPayload } from "@/shared/types/models";
+import { PathNodePageSkeleton } from "@/features/paths/pages/PathNodePageSkeleton";
 
 type DocBlock = {
   id?: string;
@@ -70,17 +145,6 @@ type DocBlock = {
   [key: string]: unknown;
 };
 
-type LineRect = {
-  id: string;
-  index: number;
-  top: number;
-  bottom: number;
-  left: number;
-  right: number;
-  height: number;
-  width: number;
-};
-
 type LineState = LineRect & {
   blockId: string;
   centerY: number;
@@ -114,6 +178,9 @@ const SESSION_SYNC_MIN_INTERVAL_MS = 350;
 const SESSION_SYNC_IDLE_MS = 180;
 const SESSION_SYNC_MAX_LATENCY_MS = 1400;
 const SESSION_SYNC_HEAVY_MIN_INTERVAL_MS = 1400;
+const OUTLINE_OPEN_KEY = "nb_lesson_outline_open_v1";
+// Scrolling this far without answering the resume offer counts as starting over.
+const RESUME_OFFER_RELEASE_SCROLL_PCT = 5;
 const RUNTIME_PROMPT_PROBE_DELAY_MS = 1200;
 const RUNTIME_PROMPT_POLL_MS = 3500;
 const RUNTIME_PROMPT_IDLE_MS = 20_000;
@@ -155,59 +222,16 @@ const PROGRESS_ACTIVE_CHANGE_MIN = 4;
 const PASSIVE_EVENT_VERSION = 2;
 const RUNTIME_PROMPT_EVENT_VERSION = 1;
 const RUNTIME_PROMPT_PAYLOAD_VERSION = 1;
-const rawGazeTickMs = Number(import.meta.env.VITE_EYE_TRACKING_TICK_MS);
-const GAZE_TICK_MS = Number.isFinite(rawGazeTickMs) && rawGazeTickMs > 0 ? rawGazeTickMs : 120;
-const rawGazeConfidence = Number(import.meta.env.VITE_EYE_TRACKING_MIN_CONFIDENCE);
-const GAZE_MIN_CONFIDENCE =
-  Number.isFinite(rawGazeConfidence) && rawGazeConfidence > 0 ? rawGazeConfidence : 0.4;
-const rawGazeMaxVelocity = Number(import.meta.env.VITE_EYE_TRACKING_MAX_VELOCITY_PX_S);
-const GAZE_MAX_VELOCITY_PX_S =
-  Number.isFinite(rawGazeMaxVelocity) && rawGazeMaxVelocity > 0 ? rawGazeMaxVelocity : 1200;
-const rawLineFixationMs = Number(import.meta.env.VITE_EYE_TRACKING_LINE_MIN_FIXATION_MS);
-const LINE_MIN_FIXATION_MS =
-  Number.isFinite(rawLineFixationMs) && rawLineFixationMs > 0 ? rawLineFixationMs : 550;
-const rawLineDistanceFactor = Number(import.meta.env.VITE_EYE_TRACKING_LINE_DISTANCE_FACTOR);
-const LINE_DISTANCE_FACTOR =
-  Number.isFinite(rawLineDistanceFactor) && rawLineDistanceFactor > 0 ? rawLineDistanceFactor : 1.1;
-const rawLineXPadding = Number(import.meta.env.VITE_EYE_TRACKING_LINE_X_PADDING);
-const LINE_X_PADDING =
-  Number.isFinite(rawLineXPadding) && rawLineXPadding >= 0 ? rawLineXPadding : 24;
+const NODE_SSE_EVENTS = [...SSE_JOB_EVENTS, ...SSE_CHAT_MESSAGE_EVENTS, "RuntimePrompt"] as const;
 const rawLessonDebugOverlay = String(import.meta.env.VITE_LESSON_DEBUG_OVERLAY || "false").toLowerCase();
 const LESSON_DEBUG_OVERLAY = !["false", "0", "no", ""].includes(rawLessonDebugOverlay);
-const rawGazeBlockTtl = Number(import.meta.env.VITE_EYE_TRACKING_BLOCK_TTL_MS);
-const GAZE_BLOCK_TTL_MS =
-  Number.isFinite(rawGazeBlockTtl) && rawGazeBlockTtl > 0 ? rawGazeBlockTtl : 4000;
-const rawSnapEnabled = String(import.meta.env.VITE_EYE_TRACKING_SNAP_ENABLED || "true").toLowerCase();
-const GAZE_SNAP_ENABLED = !["false", "0", "no"].includes(rawSnapEnabled);
-const rawSnapLineDist = Number(import.meta.env.VITE_EYE_TRACKING_SNAP_LINE_MAX_DIST_PX);
-const GAZE_SNAP_LINE_MAX_DIST =
-  Number.isFinite(rawSnapLineDist) && rawSnapLineDist >= 0 ? rawSnapLineDist : 18;
-const rawSnapBlockDist = Number(import.meta.env.VITE_EYE_TRACKING_SNAP_BLOCK_MAX_DIST_PX);
-const GAZE_SNAP_BLOCK_MAX_DIST =
-  Number.isFinite(rawSnapBlockDist) && rawSnapBlockDist >= 0 ? rawSnapBlockDist : 80;
-const rawLineStateEnabled = String(import.meta.env.VITE_EYE_TRACKING_LINE_STATE || "true").toLowerCase();
-const LINE_STATE_ENABLED = !["false", "0", "no"].includes(rawLineStateEnabled);
-const rawLineStateMaxJump = Number(import.meta.env.VITE_EYE_TRACKING_LINE_STATE_MAX_JUMP);
-const LINE_STATE_MAX_JUMP = Number.isFinite(rawLineStateMaxJump) && rawLineStateMaxJump > 0 ? rawLineStateMaxJump : 4;
-const rawLineStateMinConfidence = Number(import.meta.env.VITE_EYE_TRACKING_LINE_STATE_MIN_CONFIDENCE);
-const LINE_STATE_MIN_CONFIDENCE =
-  Number.isFinite(rawLineStateMinConfidence) && rawLineStateMinConfidence > 0
-    ? rawLineStateMinConfidence
-    : 0.32;
-const rawLineStateGazeSigma = Number(import.meta.env.VITE_EYE_TRACKING_LINE_STATE_GAZE_SIGMA_MULT);
-const LINE_STATE_GAZE_SIGMA_MULT =
-  Number.isFinite(rawLineStateGazeSigma) && rawLineStateGazeSigma > 0 ? rawLineStateGazeSigma : 1.15;
-const rawLineStateBehaviorSigma = Number(import.meta.env.VITE_EYE_TRACKING_LINE_STATE_BEHAVIOR_SIGMA_MULT);
-const LINE_STATE_BEHAVIOR_SIGMA_MULT =
-  Number.isFinite(rawLineStateBehaviorSigma) && rawLineStateBehaviorSigma > 0
-    ? rawLineStateBehaviorSigma
-    : 2.2;
-const rawLineStateCache = Number(import.meta.env.VITE_EYE_TRACKING_LINE_STATE_CACHE_MS);
-const LINE_STATE_CACHE_MS = Number.isFinite(rawLineStateCache) && rawLineStateCache >= 0 ? rawLineStateCache : 120;
-const rawLineSnapStrict = String(import.meta.env.VITE_EYE_TRACKING_LINE_SNAP_STRICT || "false").toLowerCase();
-const LINE_SNAP_STRICT = !["false", "0", "no"].includes(rawLineSnapStrict);
 const GAZE_BIAS_MAX = 80;
 const GAZE_BIAS_ALPHA = 0.12;
+const GAZE_DRIFT_SNOOZE_MS = 10 * 60_000;
+const READING_TRACE_SAVE_MS = 15_000;
+// Behavioral samples only fill in while gaze hits are missing or older than this.
+const READING_GAZE_FRESH_MS = 2000;
+const READING_SKIP_BLOCK_TYPES = new Set(["heading", "title", "divider"]);
 
 function normalizePassiveBlockKind(raw: unknown): string {
   const value = String(raw ?? "").trim().toLowerCase();
@@ -229,51 +253,6 @@ function normalizePassiveBlockKind(raw: unknown): string {
   }
 }
 
-export function PathNodePageSkeleton({ embedded = false }: { embedded?: boolean } = {}) {
-  const body = (
-    <div className="mx-auto w-full max-w-5xl">
-      {/* Header skeleton - responsive */}
-      <div className="mb-6 sm:mb-8 space-y-2.5 sm:space-y-3">
-        <div className="flex items-center gap-2">
-          <Skeleton className="h-8 sm:h-9 w-20 sm:w-24 rounded-full" />
-          <Skeleton className="h-3.5 sm:h-4 w-32 sm:w-44 rounded-full" />
-        </div>
-        <Skeleton className="h-8 sm:h-10 w-[85%] sm:w-10/12 rounded-full" />
-        <div className="flex flex-wrap gap-1.5 pt-1">
-          {Array.from({ length: 6 }).map((_, i) => (
-            // eslint-disable-next-line react/no-array-index-key
-            <Skeleton key={i} className="h-5 sm:h-6 w-16 sm:w-20 rounded-full" />
-          ))}
-        </div>
-      </div>
-
-      {/* Content skeleton - responsive */}
-      <div className="rounded-xl sm:rounded-2xl border border-border/60 bg-card/70 shadow-sm backdrop-blur">
-        <div className="px-4 py-6 sm:px-6 sm:py-8 md:px-8 md:py-10">
-          <div className="space-y-4 sm:space-y-6">
-            <Skeleton className="h-5 sm:h-6 w-36 sm:w-44 rounded-full" />
-            <SkeletonText lines={4} className="max-w-[72ch]" />
-            <Skeleton className="h-[160px] sm:h-[200px] md:h-[220px] w-full rounded-xl sm:rounded-2xl" />
-            <SkeletonText lines={3} className="max-w-[72ch]" />
-          </div>
-        </div>
-      </div>
-    </div>
-  );
-
-  if (embedded) {
-    return <div aria-busy="true">{body}</div>;
-  }
-
-  return (
-    <div className="page-surface" aria-busy="true">
-      <Container size="2xl" className="page-pad">
-        {body}
-      </Container>
-    </div>
-  );
-}
-
 const markdownCodeComponents = {
   code({
     inline,
@@ -309,36 +288,6 @@ function clamp(value: number, min: number, max: number) {
   return Math.max(min, Math.min(max, value));
 }
 
-function extractBlockText(block: DocBlock): string {
-  if (!block || typeof block !== "object") return "";
-  const fields = [
-    "title",
-    "heading",
-    "subtitle",
-    "text",
-    "body_md",
-    "prompt_md",
-    "answer_md",
-    "front_md",
-    "back_md",
-    "content",
-    "caption",
-  ];
-  const parts: string[] = [];
-  for (const key of fields) {
-    const val = (block as Record<string, unknown>)[key];
-    if (typeof val === "string" && val.trim()) {
-      parts.push(val);
-    }
-  }
-  if (parts.length > 0) return parts.join(" ");
-  try {
-    return JSON.stringify(block);
-  } catch {
-    return "";
-  }
-}
-
 function estimateReadSeconds(block: DocBlock): number {
   const raw = extractBlockText(block);
   const words = raw.trim().split(/\s+/).filter(Boolean).length;
@@ -415,120 +364,41 @@ interface DrillProps {
   drill: DrillPayloadV1 | null;
 }
 
-function FlashcardsDrill({ drill }: DrillProps) {
-  const { t } = useI18n();
-  const cards = Array.isArray(drill?.cards) ? drill.cards : [];
-  const [idx, setIdx] = useState(0);
-  const [showBack, setShowBack] = useState(false);
-
-  useEffect(() => {
-    setIdx(0);
-    setShowBack(false);
-  }, [drill]);
-
-  if (cards.length === 0) {
-    return <div className="text-sm text-muted-foreground">{t("pathNode.drills.flashcards.empty")}</div>;
-  }
-
-  const card = cards[Math.min(Math.max(idx, 0), cards.length - 1)] || {};
-  const front = String(card.front_md ?? "");
-  const back = String(card.back_md ?? "");
-
-  return (
-    <div className="space-y-3 sm:space-y-4">
-      {/* Header row - responsive */}
-      <div className="flex items-center justify-between text-[11px] xs:text-xs text-muted-foreground">
-        <div className="font-medium">
-          {t("pathNode.drills.flashcards.count", { current: idx + 1, total: cards.length })}
-        </div>
-        <button
-          type="button"
-          className={cn(
-            "underline underline-offset-4 hover:text-foreground",
-            // Touch-friendly sizing
-            "min-h-[44px] px-2 py-2",
-            "touch-manipulation -webkit-tap-highlight-color-transparent",
-            "active:opacity-70"
-          )}
-          onClick={() => setShowBack((v) => !v)}
-        >
-          {showBack ? t("pathNode.drills.flashcards.showFront") : t("pathNode.drills.flashcards.showBack")}
-        </button>
-      </div>
-
-      {/* Card content - responsive */}
-      <div
-        className={cn(
-          "rounded-lg sm:rounded-xl border border-border bg-muted/30",
-          "p-3 sm:p-4",
-          "min-h-[160px] sm:min-h-[180px] flex items-center"
-        )}
-      >
-        <div className="w-full text-sm sm:text-[15px] leading-relaxed text-foreground/90">
-          <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownCodeComponents}>
-            {showBack ? back : front}
-          </ReactMarkdown>
-        </div>
-      </div>
-
-      {/* Navigation buttons - responsive */}
-      <div className="flex items-center justify-between gap-3 pt-1">
-        <Button
-          variant="outline"
-          onClick={() => {
-            setIdx((v) => Math.max(0, v - 1));
-            setShowBack(false);
-          }}
-          disabled={idx <= 0}
-          className={cn(
-            "flex-1 sm:flex-none",
-            "h-11 sm:h-10",
-            "touch-manipulation -webkit-tap-highlight-color-transparent",
-            "active:scale-[0.97]"
-          )}
-        >
-          {t("common.previous")}
-        </Button>
-        <Button
-          onClick={() => {
-            setIdx((v) => Math.min(cards.length - 1, v + 1));
-            setShowBack(false);
-          }}
-          disabled={idx >= cards.length - 1}
-          className={cn(
-            "flex-1 sm:flex-none",
-            "h-11 sm:h-10",
-            "touch-manipulation -webkit-tap-highlight-color-transparent",
-            "active:scale-[0.97]"
-          )}
-        >
-          {t("common.next")}
-        </Button>
-      </div>
-    </div>
-  );
-}
-
 function QuizDrill({
   drill,
   pathId,
   pathNodeId,
   defaultConceptKeys,
   conceptIdByKey,
+  initialAttempt,
+  onOpenSource,
 }: DrillProps & {
   pathId: string;
   pathNodeId: string;
   defaultConceptKeys: string[];
   conceptIdByKey: Map<string, string>;
+  initialAttempt?: QuizAttempt | null;
+  onOpenSource?: (citation: CitationRefV1) => void;
 }) {
   const { t } = useI18n();
-  const questions = Array.isArray(drill?.questions) ? drill.questions : [];
+  // Question ids are pinned up front so a "missed only" round keeps matching the original questions.
+  const drillQuestions = useMemo(
+    () =>
+      (Array.isArray(drill?.questions) ? drill.questions : []).map((q, i) => ({ ...q, id: quizQuestionId(q, i) })),
+    [drill]
+  );
+  const [mode, setMode] = useState<QuizAttemptMode>("full");
+  const [questions, setQuestions] = useState<QuizQuestionV1[]>([]);
+  const [results, setResults] = useState<QuizAttempt | null>(null);
+  const [completedAttempt, setCompletedAttempt] = useState<QuizAttempt | null>(null);
   const [idx, setIdx] = useState(0);
   const [selected, setSelected] = useState<string | null>(null);
   const [revealed, setRevealed] = useState(false);
   const quizSessionIdRef = useRef<string>("");
+  const startedAtRef = useRef<number>(Date.now());
   const questionShownAtRef = useRef<number>(Date.now());
   const attemptByQuestionIdRef = useRef<Record<string, number>>({});
+  const firstAnswersRef = useRef<Record<string, QuizAttemptAnswer>>({});
   const firstAttemptStatsRef = useRef<{ correct: number; total: number; latencySum: number }>({
     correct: 0,
     total: 0,
@@ -536,17 +406,23 @@ function QuizDrill({
   });
   const sentCompletedRef = useRef<boolean>(false);
 
-  useEffect(() => {
+  const startRound = (nextQuestions: QuizQuestionV1[], nextMode: QuizAttemptMode) => {
+    setMode(nextMode);
+    setQuestions(nextQuestions);
+    setResults(null);
+    setCompletedAttempt(null);
     setIdx(0);
     setSelected(null);
     setRevealed(false);
+    startedAtRef.current = Date.now();
     questionShownAtRef.current = Date.now();
     quizSessionIdRef.current = `${Date.now()}-${Math.random().toString(16).slice(2)}`;
     attemptByQuestionIdRef.current = {};
+    firstAnswersRef.current = {};
     firstAttemptStatsRef.current = { correct: 0, total: 0, latencySum: 0 };
     sentCompletedRef.current = false;
 
-    if (questions.length > 0 && pathId && pathNodeId) {
+    if (nextQuestions.length > 0 && pathId && pathNodeId) {
       queueEvent({
         type: "quiz_started",
         pathId,
@@ -554,36 +430,51 @@ function QuizDrill({
         data: {
           source: "node_drill",
           quiz_session_id: quizSessionIdRef.current,
-          question_count: questions.length,
+          question_count: nextQuestions.length,
+          mode: nextMode,
         },
       });
     }
-  }, [drill]);
+  };
+
+  useEffect(() => {
+    if (initialAttempt && drillQuestions.length === 0) {
+      setMode(initialAttempt.mode);
+      setQuestions(initialAttempt.questions);
+      setResults(initialAttempt);
+      return;
+    }
+    startRound(drillQuestions, "full");
+  }, [drill, initialAttempt]);
+
+  // A stored attempt opened from the node summary has no fresh drill; retake its own questions.
+  const baseQuestions = drillQuestions.length > 0 ? drillQuestions : (initialAttempt?.questions ?? []);
+  const baseMode: QuizAttemptMode = drillQuestions.length > 0 ? "full" : (initialAttempt?.mode ?? "full");
+
+  if (results) {
+    return (
+      <QuizAttemptResults
+        attempt={results}
+        onOpenSource={onOpenSource}
+        onRetakeAll={() => startRound(baseQuestions, baseMode)}
+        onRetryMissed={() => {
+          const missed = new Set(results.answers.filter((a) => !a.isCorrect).map((a) => a.questionId));
+          startRound(
+            results.questions.filter((q) => missed.has(String(q.id))),
+            "missed"
+          );
+        }}
+      />
+    );
+  }
 
   if (questions.length === 0) {
     return <div className="text-sm text-muted-foreground">{t("pathNode.drills.quiz.empty")}</div>;
   }
 
   const q = questions[Math.min(Math.max(idx, 0), questions.length - 1)] || {};
-  const rawOptions = Array.isArray(q.options) ? q.options : [];
-  const options = rawOptions
-    .map((opt, i) => {
-      if (typeof opt === "string") return { id: String(i), text: opt };
-      if (opt && typeof opt === "object") {
-        const id = String(opt.id ?? i);
-        const text = String(opt.text ?? "");
-        return { id, text };
-      }
-      return null;
-    })
-    .filter((opt): opt is { id: string; text: string } => Boolean(opt));
-  const legacyIndex = (q as { correct_index?: number }).correct_index;
-  const answerId =
-    typeof q.answer_id === "string" && q.answer_id.trim()
-      ? q.answer_id.trim()
-      : typeof legacyIndex === "number"
-        ? String(legacyIndex)
-        : null;
+  const options = normalizeQuizOptions(q);
+  const answerId = quizAnswerId(q);
 
   const conceptIdsForKeys = (keys: string[]) => {
     const ids = (Array.isArray(keys) ? keys : [])
@@ -597,7 +488,7 @@ function QuizDrill({
     setSelected(id);
     setRevealed(true);
 
-    const qid = String(q.id ?? "").trim() || `q_${idx + 1}`;
+    const qid = quizQuestionId(q, idx);
     const attemptN = (attemptByQuestionIdRef.current[qid] ?? 0) + 1;
     attemptByQuestionIdRef.current[qid] = attemptN;
 
@@ -631,6 +522,7 @@ function QuizDrill({
 
     // Track completion stats on first attempt per question.
     if (attemptN === 1) {
+      firstAnswersRef.current[qid] = { questionId: qid, selectedId: id, isCorrect };
       firstAttemptStatsRef.current.total += 1;
       firstAttemptStatsRef.current.latencySum += latencyMs;
       if (isCorrect) firstAttemptStatsRef.current.correct += 1;
@@ -640,6 +532,23 @@ function QuizDrill({
       const total = firstAttemptStatsRef.current.total || questions.length;
       const correct = firstAttemptStatsRef.current.correct;
       const avgLatencyMs = total > 0 ? Math.round(firstAttemptStatsRef.current.latencySum / total) : 0;
+      const answers = questions
+        .map((question, i) => firstAnswersRef.current[quizQuestionId(question, i)])
+        .filter((a): a is QuizAttemptAnswer => Boolean(a));
+      const attempt: QuizAttempt = {
+        id: quizSessionIdRef.current,
+        pathId,
+        pathNodeId,
+        mode,
+        startedAt: startedAtRef.current,
+        completedAt: Date.now(),
+        correct,
+        total,
+        questions,
+        answers,
+      };
+      saveQuizAttempt(attempt);
+      setCompletedAttempt(attempt);
       queueEvent({
         type: "quiz_completed",
         pathId,
@@ -652,6 +561,8 @@ function QuizDrill({
           total,
           score: total > 0 ? correct / total : 0,
           avg_latency_ms: avgLatencyMs,
+          mode,
+          missed_question_ids: answers.filter((a) => !a.isCorrect).map((a) => a.questionId),
         },
       });
     }
@@ -671,6 +582,7 @@ function QuizDrill({
         <div className="font-medium">
           {t("pathNode.drills.quiz.count", { current: idx + 1, total: questions.length })}
         </div>
+        {mode === "missed" ? <div>{t("pathNode.drills.quiz.missedRound")}</div> : null}
       </div>
 
       {/* Question prompt - responsive */}
@@ -746,8 +658,8 @@ function QuizDrill({
           {t("common.previous")}
         </Button>
         <Button
-          onClick={next}
-          disabled={idx >= questions.length - 1}
+          onClick={completedAttempt ? () => setResults(completedAttempt) : next}
+          disabled={!completedAttempt && idx >= questions.length - 1}
           className={cn(
             "flex-1 sm:flex-none",
             "h-11 sm:h-10",
@@ -755,7 +667,7 @@ function QuizDrill({
             "active:scale-[0.97]"
           )}
         >
-          {t("common.next")}
+          {completedAttempt ? t("pathNode.drills.quiz.results.view") : t("common.next")}
         </Button>
       </div>
     </div>
@@ -765,12 +677,14 @@ function QuizDrill({
 export default function PathNodePage() {
   const { id: nodeId } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const location = useLocation();
   const { t } = useI18n();
-  const { messages, lastMessage, connected } = useSSEContext();
+  const { connected } = useSSEContext();
   const { user } = useUser();
   const { activatePath } = usePaths();
   const { activateLesson } = useLessons();
   const { openThread, activeThreadId } = useChatDock();
+  const { push: pushToast } = useToast();
 
   const [loading, setLoading] = useState(false);
   const [node, setNode] = useState<PathNode | null>(null);
@@ -794,6 +708,7 @@ export default function PathNodePage() {
   const [drawerLoading, setDrawerLoading] = useState(false);
   const [drawerError, setDrawerError] = useState("");
   const [drawerDrill, setDrawerDrill] = useState<DrillPayloadV1 | null>(null);
+  const [drawerAttempt, setDrawerAttempt] = useState<QuizAttempt | null>(null);
 
   const [pendingBlocks, setPendingBlocks] = useState<Record<string, string | true>>({});
   const pendingJobsRef = useRef<Record<string, string>>({});
@@ -878,6 +793,9 @@ export default function PathNodePage() {
   const scrollVelocityRef = useRef<number>(0);
   const readCreditsRef = useRef<Map<string, number>>(new Map());
   const readBlocksRef = useRef<Set<string>>(new Set());
+  // Render-facing copies of the current block and read set, for the outline's scrollspy and read marks.
+  const [scrollspyBlockId, setScrollspyBlockId] = useState("");
+  const [readBlockIds, setReadBlockIds] = useState<ReadonlySet<string>>(() => new Set());
   const viewedBlocksRef = useRef<Set<string>>(new Set());
   const engagedBlocksRef = useRef<Set<string>>(new Set());
   const emittedPassiveLogicalIDsRef = useRef<Set<string>>(new Set());
@@ -1080,6 +998,11 @@ export default function PathNodePage() {
   const nodeConceptIdsRef = useRef<string[]>([]);
   const nodeIdRef = useRef<string>("");
   const pathIdRef = useRef<string>("");
+  // Lesson title and block count for resume positions recorded from the session sync.
+  const resumeMetaRef = useRef<{ title: string; blockCount: number }>({ title: "", blockCount: 0 });
+  // While a resume offer is open, positions are not recorded so the offered spot is not overwritten.
+  const resumePendingRef = useRef(false);
+  const resumeCheckedNodeRef = useRef("");
   const docContainerRef = useRef<HTMLDivElement | null>(null);
   const lessonSurfaceRef = useRef<HTMLDivElement | null>(null);
   const [lessonOverlayRect, setLessonOverlayRect] = useState<{
@@ -1099,13 +1022,22 @@ export default function PathNodePage() {
   const runtimeProbeIntervalRef = useRef<number | null>(null);
   const gazeQueueRef = useRef<GazeQueue | null>(null);
   const gazeEnabledRef = useRef<boolean>(false);
+  const gazeUploadModeRef = useRef<GazeUploadMode | null>(null);
+  const blockOrderRef = useRef<Map<string, number>>(new Map());
   const gazeLastHitAtRef = useRef<number>(0);
   const gazeLastBlockRef = useRef<string>("");
   const gazeSmoothRef = useRef<{ x: number; y: number; ts: number } | null>(null);
   const gazeLastPointRef = useRef<{ x: number; y: number; ts: number } | null>(null);
   const gazeVelocityRef = useRef<number>(0);
   const gazeBiasRef = useRef<{ x: number; y: number } | null>(null);
+  const gazeDriftRef = useRef<GazeDriftMonitor>(new GazeDriftMonitor());
+  const readingTraceRef = useRef<ReadingTrace | null>(null);
+  const gazeDriftBaselineRef = useRef<number | null>(null);
+  const gazeDriftSnoozeUntilRef = useRef<number>(0);
+  const [gazeDriftSuggested, setGazeDriftSuggested] = useState(false);
   const gazeDebugRef = useRef<HTMLDivElement | null>(null);
+  // Read at call time so tuning changes reach the gaze callbacks without rebuilding them.
+  const gazeTuningRef = useRef<EyeTrackingTuning>(getEyeTrackingTuning());
   const nodeOpenEventKeyRef = useRef<string>("");
 
   const resolveScrollContainer = useCallback(() => {
@@ -1132,65 +1064,6 @@ export default function PathNodePage() {
     return container.querySelector<HTMLElement>(`[data-doc-block-id="${escaped}"]`);
   }, []);
 
-  const computeLineRects = useCallback((blockId: string, el: HTMLElement | null) => {
-    if (!el || typeof document === "undefined") return [];
-    const linesByTop = new Map<number, { top: number; bottom: number; left: number; right: number }>();
-    const walker = document.createTreeWalker(el, NodeFilter.SHOW_TEXT, {
-      acceptNode: (node) => {
-        const text = node.textContent ?? "";
-        return text.trim().length > 0 ? NodeFilter.FILTER_ACCEPT : NodeFilter.FILTER_REJECT;
-      },
-    });
-    let node = walker.nextNode();
-    while (node) {
-      const range = document.createRange();
-      range.selectNodeContents(node);
-      const rects = Array.from(range.getClientRects());
-      rects.forEach((rect) => {
-        if (rect.width < 2 || rect.height < 2) return;
-        const key = Math.round(rect.top / 3) * 3;
-        const existing = linesByTop.get(key);
-        if (!existing) {
-          linesByTop.set(key, {
-            top: rect.top,
-            bottom: rect.bottom,
-            left: rect.left,
-            right: rect.right,
-          });
-          return;
-        }
-        existing.top = Math.min(existing.top, rect.top);
-        existing.bottom = Math.max(existing.bottom, rect.bottom);
-        existing.left = Math.min(existing.left, rect.left);
-        existing.right = Math.max(existing.right, rect.right);
-        linesByTop.set(key, existing);
-      });
-      node = walker.nextNode();
-    }
-    if (linesByTop.size === 0) {
-      const rect = el.getBoundingClientRect();
-      linesByTop.set(Math.round(rect.top / 3) * 3, {
-        top: rect.top,
-        bottom: rect.bottom,
-        left: rect.left,
-        right: rect.right,
-      });
-    }
-    const lines = Array.from(linesByTop.entries())
-      .sort((a, b) => a[0] - b[0])
-      .map(([_, rect], idx) => ({
-        id: `${blockId}:line:${idx + 1}`,
-        index: idx,
-        top: rect.top,
-        bottom: rect.bottom,
-        left: rect.left,
-        right: rect.right,
-        height: Math.max(1, rect.bottom - rect.top),
-        width: Math.max(1, rect.right - rect.left),
-      }));
-    return lines;
-  }, []);
-
   const findGazeBlock = useCallback((x: number, y: number) => {
     const now = Date.now();
     if (blockBoundsRef.current.size === 0) {
@@ -1213,7 +1086,7 @@ export default function PathNodePage() {
     let bestNear: { id: string; distance: number } | null = null;
     for (const [id, bounds] of blockBoundsRef.current.entries()) {
       if (!id) continue;
-      if (GAZE_BLOCK_TTL_MS > 0 && now - (bounds.seenAt || 0) > GAZE_BLOCK_TTL_MS) continue;
+      if (gazeTuningRef.current.blockTtlMs > 0 && now - (bounds.seenAt || 0) > gazeTuningRef.current.blockTtlMs) continue;
       const inside = x >= bounds.left && x <= bounds.right && y >= bounds.top && y <= bounds.bottom;
       const ratio = blockMetricsRef.current.get(id)?.ratio ?? 0;
       if (inside) {
@@ -1238,14 +1111,14 @@ export default function PathNodePage() {
       let lines = blockLineRectsRef.current.get(blockId);
       if (!lines || lines.length === 0) {
         const el = getBlockElement(blockId);
-        lines = computeLineRects(blockId, el);
+        lines = measureLineRects(blockId, el);
         if (lines.length > 0) {
           blockLineRectsRef.current.set(blockId, lines);
         }
       }
       return lines ?? [];
     },
-    [computeLineRects, getBlockElement]
+    [getBlockElement]
   );
 
   const findGazeLine = useCallback(
@@ -1255,10 +1128,10 @@ export default function PathNodePage() {
       let best: { line: LineRect; dist: number; inside: boolean } | null = null;
       for (const line of lines) {
         const centerY = (line.top + line.bottom) * 0.5;
-        const yTol = Math.max(line.height * LINE_DISTANCE_FACTOR, 4);
+        const yTol = Math.max(line.height * gazeTuningRef.current.lineDistanceFactor, 4);
         const withinY = Math.abs(y - centerY) <= yTol;
-        const left = line.left - LINE_X_PADDING;
-        const right = line.right + LINE_X_PADDING;
+        const left = line.left - gazeTuningRef.current.lineXPadding;
+        const right = line.right + gazeTuningRef.current.lineXPadding;
         const withinX = x >= left && x <= right;
         const inside = withinX && withinY;
         const yDist = withinY ? 0 : Math.abs(y - centerY) - yTol;
@@ -1278,13 +1151,13 @@ export default function PathNodePage() {
   const getSnappedGaze = useCallback(
     (x: number, y: number, options?: { force?: boolean }) => {
       const force = Boolean(options?.force);
-      if (!GAZE_SNAP_ENABLED) {
+      if (!gazeTuningRef.current.snapEnabled) {
         return { x, y, snap: "none" as const, blockId: "", line: null as GazeLineMatch | null };
       }
       const blockId = findGazeBlock(x, y);
       if (!blockId) return { x, y, snap: "none" as const, blockId: "", line: null as GazeLineMatch | null };
       const line = findGazeLine(blockId, x, y);
-      if (line && (force || line.inside || line.dist <= GAZE_SNAP_LINE_MAX_DIST)) {
+      if (line && (force || line.inside || line.dist <= gazeTuningRef.current.snapLineMaxDistPx)) {
         const lineCenterX = (line.left + line.right) * 0.5;
         const lineCenterY = (line.top + line.bottom) * 0.5;
         return { x: lineCenterX, y: lineCenterY, snap: "line" as const, blockId, line };
@@ -1295,7 +1168,7 @@ export default function PathNodePage() {
         const centerX = (bounds.left + bounds.right) * 0.5;
         const centerY = (bounds.top + bounds.bottom) * 0.5;
         const dist = Math.hypot(x - centerX, y - centerY);
-        if (force || inside || dist <= GAZE_SNAP_BLOCK_MAX_DIST) {
+        if (force || inside || dist <= gazeTuningRef.current.snapBlockMaxDistPx) {
           return { x: centerX, y: centerY, snap: "block" as const, blockId, line: null };
         }
       }
@@ -1364,9 +1237,9 @@ export default function PathNodePage() {
       gazePoint: { x: number; y: number; confidence: number; velocity: number; ts: number } | null;
       dtMs: number;
     }) => {
-      if (!LINE_STATE_ENABLED) return null;
+      if (!gazeTuningRef.current.lineStateEnabled) return null;
       const prev = lineStateRef.current;
-      if (prev && nowMs - prev.updatedAt <= LINE_STATE_CACHE_MS) {
+      if (prev && nowMs - prev.updatedAt <= gazeTuningRef.current.lineStateCacheMs) {
         if (prev.lines.length > 0) {
           return {
             line: prev.lines[prev.bestIndex] ?? null,
@@ -1412,9 +1285,9 @@ export default function PathNodePage() {
 
       const speedScreens = rootHeight > 0 ? scrollVelocityRef.current / rootHeight : 0;
       const scrollSign = scrollDirRef.current === "down" ? 1 : scrollDirRef.current === "up" ? -1 : 0;
-      const expectedDelta = scrollSign * Math.min(LINE_STATE_MAX_JUMP, Math.round((scrollVelocityRef.current / avgLineHeight) * (dtMs / 1000)));
+      const expectedDelta = scrollSign * Math.min(gazeTuningRef.current.lineStateMaxJump, Math.round((scrollVelocityRef.current / avgLineHeight) * (dtMs / 1000)));
       const transitionSigma = Math.max(1, Math.abs(expectedDelta) + 0.75);
-      const window = Math.max(2, LINE_STATE_MAX_JUMP);
+      const window = Math.max(2, gazeTuningRef.current.lineStateMaxJump);
 
       const predicted = new Array(lines.length).fill(0);
       for (let i = 0; i < prevProbs.length; i += 1) {
@@ -1437,21 +1310,21 @@ export default function PathNodePage() {
 
       const gazeOk =
         gazePoint &&
-        gazePoint.confidence >= GAZE_MIN_CONFIDENCE &&
-        gazePoint.velocity <= GAZE_MAX_VELOCITY_PX_S &&
+        gazePoint.confidence >= gazeTuningRef.current.minConfidence &&
+        gazePoint.velocity <= gazeTuningRef.current.maxVelocityPxS &&
         nowMs - (gazePoint.ts ?? nowMs) <= 800 &&
         gazePoint.y >= rootTop &&
         gazePoint.y <= rootBottom;
       const gazeWeight = gazeOk
         ? clamp(
-            (gazePoint.confidence - GAZE_MIN_CONFIDENCE) / Math.max(1 - GAZE_MIN_CONFIDENCE, 0.01),
+            (gazePoint.confidence - gazeTuningRef.current.minConfidence) / Math.max(1 - gazeTuningRef.current.minConfidence, 0.01),
             0.2,
             1
           )
         : 0;
       const behaviorWeight = gazeOk ? 1 - gazeWeight : 1;
-      const gazeSigma = Math.max(avgLineHeight * LINE_STATE_GAZE_SIGMA_MULT, 10);
-      const behaviorSigma = Math.max(avgLineHeight * LINE_STATE_BEHAVIOR_SIGMA_MULT, rootHeight * 0.12);
+      const gazeSigma = Math.max(avgLineHeight * gazeTuningRef.current.lineStateGazeSigmaMult, 10);
+      const behaviorSigma = Math.max(avgLineHeight * gazeTuningRef.current.lineStateBehaviorSigmaMult, rootHeight * 0.12);
 
       for (let i = 0; i < lines.length; i += 1) {
         const line = lines[i];
@@ -1550,6 +1423,15 @@ export default function PathNodePage() {
       y: clamp(prev.y + errY * GAZE_BIAS_ALPHA, -GAZE_BIAS_MAX, GAZE_BIAS_MAX),
     };
     gazeBiasRef.current = next;
+    // The error passed in is after bias correction; adding the bias back gives the raw offset.
+    const now = Date.now();
+    const drift = gazeDriftRef.current.observe(prev.x + errX, prev.y + errY, next, now, {
+      baselineErrorPx: gazeDriftBaselineRef.current,
+      biasMaxPx: GAZE_BIAS_MAX,
+    });
+    if (drift.drifting && now >= gazeDriftSnoozeUntilRef.current) {
+      setGazeDriftSuggested(true);
+    }
   }, []);
 
   const recordLineDwell = useCallback(
@@ -1570,7 +1452,7 @@ export default function PathNodePage() {
       lineDwellRef.current.set(key, entry);
 
       const prevLineCredit = lineCreditsRef.current.get(key) ?? 0;
-      const nextLineCredit = clamp(entry.ms / LINE_MIN_FIXATION_MS, 0, 1);
+      const nextLineCredit = clamp(entry.ms / gazeTuningRef.current.lineMinFixationMs, 0, 1);
       if (nextLineCredit > prevLineCredit) {
         lineCreditsRef.current.set(key, nextLineCredit);
         const lines = getBlockLines(blockId);
@@ -1747,6 +1629,7 @@ export default function PathNodePage() {
     if (!Array.isArray(blocks)) return [];
     return blocks as DocBlock[];
   }, [doc]);
+  const docBlockIds = useMemo(() => docBlocks.map((b, i) => String(b?.id || "") || String(i)), [docBlocks]);
 
   useEffect(() => {
     passiveSessionTokenRef.current = `${String(nodeId || "").trim() || "node"}:${Date.now()}`;
@@ -1754,10 +1637,58 @@ export default function PathNodePage() {
     lastScrollEventSignatureRef.current = "";
   }, [nodeId]);
 
+  // Reading trace for the after-lesson replay: one working copy per lesson, saved periodically and
+  // on the way out. Credits merge by max since a continued trace outlives this visit's counters.
+  const flushReadingTrace = useCallback(() => {
+    const trace = readingTraceRef.current;
+    if (!trace || trace.spans.length === 0) return;
+    for (const [blockId, credit] of readCreditsRef.current) {
+      trace.credits[blockId] = Math.max(trace.credits[blockId] ?? 0, credit);
+    }
+    saveReadingTrace(trace);
+  }, []);
+
+  useEffect(() => {
+    if (!nodeId) return;
+    readingTraceRef.current = beginReadingTrace(nodeId);
+    const timer = window.setInterval(flushReadingTrace, READING_TRACE_SAVE_MS);
+    window.addEventListener("pagehide", flushReadingTrace);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener("pagehide", flushReadingTrace);
+      flushReadingTrace();
+      readingTraceRef.current = null;
+    };
+  }, [flushReadingTrace, nodeId]);
+
+  const storedReadingTrace = useSyncExternalStore(
+    subscribeReadingTraces,
+    () => (nodeId ? getReadingTrace(nodeId) : null),
+    () => null
+  );
+  const [readingReview, setReadingReview] = useState<ReadingTrace | null>(null);
+  useEffect(() => {
+    setReadingReview(null);
+  }, [nodeId]);
+  const readableBlockIds = useMemo(
+    () =>
+      docBlocks
+        .map((b, i) => ({ id: String(b?.id || "") || String(i), type: String(b?.type ?? "").toLowerCase() }))
+        .filter((b) => !READING_SKIP_BLOCK_TYPES.has(b.type))
+        .map((b) => b.id),
+    [docBlocks]
+  );
+  const openReadingReview = useCallback(() => {
+    flushReadingTrace();
+    const trace = nodeId ? getReadingTrace(nodeId) : null;
+    if (trace) setReadingReview(trace);
+  }, [flushReadingTrace, nodeId]);
+
   useEffect(() => {
     readTargetSecondsRef.current = new Map();
     readCreditsRef.current.clear();
     readBlocksRef.current.clear();
+    setReadBlockIds(new Set());
     viewedBlocksRef.current.clear();
     engagedBlocksRef.current.clear();
     emittedPassiveLogicalIDsRef.current.clear();
@@ -1831,6 +1762,9 @@ export default function PathNodePage() {
     });
     return map;
   }, [docBlocks]);
+  useEffect(() => {
+    blockOrderRef.current = blockOrder;
+  }, [blockOrder]);
 
   useEffect(() => {
     const map = new Map<string, string>();
@@ -1864,6 +1798,94 @@ export default function PathNodePage() {
     pathIdRef.current = pathId;
   }, [pathId]);
 
+  // `#block-<id>` deep links (e.g. from search) jump to the block once the doc has rendered.
+  const [docScrollTarget, setDocScrollTarget] = useState<{ blockId: string; nonce: number; offset?: number } | null>(
+    null
+  );
+  useEffect(() => {
+    const match = /^#block-(.+)$/.exec(location.hash || "");
+    if (!match) return;
+    let blockId = match[1];
+    try {
+      blockId = decodeURIComponent(blockId);
+    } catch {
+      // keep the raw id
+    }
+    setDocScrollTarget({ blockId, nonce: Date.now() });
+  }, [location.hash, location.key]);
+
+  // Offer to return to where this lesson was left off, here or on another device. Deep links land
+  // where they point instead; links that ask to resume (`state.resume`) restore right away.
+  const [resumeOffer, setResumeOffer] = useState<{
+    position: ResumePosition;
+    conflict: ResumeConflict | null;
+  } | null>(null);
+  useEffect(() => {
+    resumeMetaRef.current = { title: node?.title || "", blockCount: docBlockIds.length };
+  }, [docBlockIds.length, node?.title]);
+
+  const restoreResumePosition = useCallback((position: ResumePosition) => {
+    setResumeOffer(null);
+    resumePendingRef.current = false;
+    if (!position.blockId) return;
+    setDocScrollTarget({ blockId: position.blockId, offset: position.blockOffset, nonce: Date.now() });
+  }, []);
+
+  const dismissResumeOffer = useCallback(() => {
+    setResumeOffer(null);
+    resumePendingRef.current = false;
+  }, []);
+
+  useEffect(() => {
+    setResumeOffer(null);
+    resumePendingRef.current = true;
+  }, [nodeId]);
+
+  useEffect(() => {
+    if (!nodeId || loading || docBlockIds.length === 0 || resumeCheckedNodeRef.current === nodeId) return;
+    resumeCheckedNodeRef.current = nodeId;
+    const state = location.state as { resume?: boolean; highlightId?: string; excerpt?: unknown } | null;
+    if (/^#block-/.test(location.hash || "") || state?.highlightId || state?.excerpt) {
+      resumePendingRef.current = false;
+      return;
+    }
+    void hydrateLessonResume().then(() => {
+      if (nodeIdRef.current !== nodeId) return;
+      const inDoc = (pos: ResumePosition) => Boolean(pos.blockId && docBlockIds.includes(pos.blockId));
+      const position = getResumePosition(nodeId);
+      const found = getResumeConflict(nodeId);
+      const conflict = found && inDoc(found.local) && inDoc(found.remote) ? found : null;
+      const worthOffering =
+        position &&
+        inDoc(position) &&
+        !isLessonFinished(position) &&
+        (position.blockId !== docBlockIds[0] || position.blockOffset > 0.1);
+      if (!position || (!conflict && !worthOffering)) {
+        resumePendingRef.current = false;
+        return;
+      }
+      if (state?.resume && !conflict) {
+        restoreResumePosition(position);
+        return;
+      }
+      setResumeOffer({ position, conflict });
+    });
+  }, [docBlockIds, loading, location.hash, location.state, nodeId, restoreResumePosition]);
+
+  const chooseResumeSide = useCallback(
+    (keep: "local" | "remote") => {
+      const chosen = resolveResumeConflict(nodeId || "", keep);
+      if (chosen) restoreResumePosition(chosen);
+      else dismissResumeOffer();
+    },
+    [dismissResumeOffer, nodeId, restoreResumePosition]
+  );
+
+  useEffect(() => {
+    if (!nodeId || !doc) return;
+    cacheNodeDocForSearch({ pathNodeId: nodeId, pathId, nodeTitle: node?.title || "", doc });
+  }, [doc, node?.title, nodeId, pathId]);
+
   useEffect(() => {
     if (!pathId || !nodeId) return;
     if (lessonFunnelOpenRef.current) return;
@@ -1913,11 +1935,78 @@ export default function PathNodePage() {
     queryFn: () => getConceptGraph(pathId),
   });
 
-  const { enabled: eyeTrackingEnabled } = useEyeTrackingPreference();
-  const { gazeRef, rawGazeRef, status: eyeTrackingStatus, error: eyeTrackingError } =
-    useEyeTracking(eyeTrackingEnabled);
-  const { calibrationState, needsCalibration, markCalibrated } = useEyeCalibration();
+  const { enabled: eyeTrackingEnabled, uploadMode: gazeUploadMode } = useEyeTrackingPreference();
+  const {
+    tuning: gazeTuning,
+    overrides: gazeTuningOverrides,
+    setOverrides: setGazeTuningOverrides,
+  } = useEyeTrackingTuning();
+  const gazeTickMs = gazeTuning.tickMs;
+  const [gazeTuningOpen, setGazeTuningOpen] = useState(false);
+  useEffect(() => {
+    gazeTuningRef.current = gazeTuning;
+  }, [gazeTuning]);
+  const {
+    gazeRef,
+    rawGazeRef,
+    status: eyeTrackingStatus,
+    error: eyeTrackingError,
+    provider: gazeProvider,
+    calibrates: gazeCalibrates,
+  } = useEyeTracking(eyeTrackingEnabled);
+  const { calibrationState, needsCalibration, markCalibrated, calibrationValidation } = useEyeCalibration();
   const [showCalibration, setShowCalibration] = useState(false);
+  const [calibrationMode, setCalibrationMode] = useState<"full" | "quick">("full");
+  useEffect(() => {
+    gazeDriftBaselineRef.current = calibrationValidation?.meanErrorPx ?? null;
+  }, [calibrationValidation]);
+  const dismissGazeDrift = useCallback(() => {
+    gazeDriftSnoozeUntilRef.current = Date.now() + GAZE_DRIFT_SNOOZE_MS;
+    gazeDriftRef.current.reset();
+    setGazeDriftSuggested(false);
+  }, []);
+  const learningNeeds = useLearningNeeds();
+  const readAloudSuggested = learningNeeds.includes("dyslexia") || learningNeeds.includes("auditory_processing");
+  const [readAloudOpen, setReadAloudOpen] = useState(false);
+
+  // Dyslexia and auditory-processing learners get the player opened (not playing) on each lesson.
+  useEffect(() => {
+    setReadAloudOpen(readAloudSuggested);
+  }, [nodeId, readAloudSuggested]);
+
+  const outlineEntries = useMemo(() => buildLessonOutline(docBlocks), [docBlocks]);
+  const [outlineOpen, setOutlineOpen] = useState(() => {
+    try {
+      return window.localStorage.getItem(OUTLINE_OPEN_KEY) !== "0";
+    } catch {
+      return true;
+    }
+  });
+  const [outlineSheetOpen, setOutlineSheetOpen] = useState(false);
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(OUTLINE_OPEN_KEY, outlineOpen ? "1" : "0");
+    } catch {
+      // ignore storage errors
+    }
+  }, [outlineOpen]);
+
+  // Outline entries go through the URL hash so the position is shareable and the existing deep-link scroll applies.
+  const goToBlock = useCallback(
+    (blockId: string) => {
+      setOutlineSheetOpen(false);
+      navigate({ search: location.search, hash: `block-${encodeURIComponent(blockId)}` }, { replace: true });
+    },
+    [location.search, navigate]
+  );
+  const showOutline = outlineEntries.length > 1;
+  const resumeSectionTitle = useCallback(
+    (blockId: string | null) => {
+      const id = outlineEntryForBlock(outlineEntries, blockId || "");
+      return outlineEntries.find((entry) => entry.id === id)?.title ?? null;
+    },
+    [outlineEntries]
+  );
   const [eyeQuality, setEyeQuality] = useState<"good" | "ok" | "poor" | "stale" | "off">("off");
   const gazeStreamEnabled = useMemo(() => {
     const raw = String(import.meta.env.VITE_EYE_TRACKING_STREAM_ENABLED ?? "true").toLowerCase();
@@ -1928,10 +2017,17 @@ export default function PathNodePage() {
     return raw === "true" || raw === "1" || raw === "yes";
   }, []);
 
+  // Live tuning sits with the other gaze debugging aids; everyone else tunes from settings.
+  const showGazeTuning = eyeTrackingEnabled && (gazeDebugEnabled || import.meta.env.DEV);
+
   useEffect(() => {
     gazeEnabledRef.current = Boolean(gazeStreamEnabled && eyeTrackingEnabled && eyeTrackingStatus === "active");
   }, [eyeTrackingEnabled, eyeTrackingStatus, gazeStreamEnabled]);
 
+  useEffect(() => {
+    gazeUploadModeRef.current = gazeUploadMode;
+  }, [gazeUploadMode]);
+
   useEffect(() => {
     if (!eyeTrackingEnabled || eyeTrackingStatus !== "active") {
       setEyeQuality("off");
@@ -1953,11 +2049,11 @@ export default function PathNodePage() {
       const confidence = gaze.confidence ?? 0;
       const velocity = gazeVelocityRef.current || 0;
       const confScore = clamp(
-        (confidence - GAZE_MIN_CONFIDENCE) / Math.max(1 - GAZE_MIN_CONFIDENCE, 0.01),
+        (confidence - gazeTuningRef.current.minConfidence) / Math.max(1 - gazeTuningRef.current.minConfidence, 0.01),
         0,
         1
       );
-      const velScore = clamp(1 - velocity / Math.max(GAZE_MAX_VELOCITY_PX_S, 1), 0, 1);
+      const velScore = clamp(1 - velocity / Math.max(gazeTuningRef.current.maxVelocityPxS, 1), 0, 1);
       const score = 0.65 * confScore + 0.35 * velScore;
       if (score >= 0.7) setEyeQuality("good");
       else if (score >= 0.4) setEyeQuality("ok");
@@ -1981,6 +2077,8 @@ export default function PathNodePage() {
           pathId: pathIdRef.current || "",
           nodeId: nodeIdRef.current || "",
         }),
+        mode: () => gazeUploadModeRef.current,
+        blockIndex: (blockId) => blockOrderRef.current.get(blockId),
       });
     }
     gazeQueueRef.current.start();
@@ -1992,7 +2090,7 @@ export default function PathNodePage() {
   useEffect(() => {
     const onHide = () => {
       if (document.hidden) {
-        void gazeQueueRef.current?.flush();
+        void gazeQueueRef.current?.flush(true);
       }
     };
     document.addEventListener("visibilitychange", onHide);
@@ -2211,6 +2309,7 @@ export default function PathNodePage() {
     toStringArray(nrRuntime?.read_blocks).forEach((id) => {
       if (id) readBlocksRef.current.add(id);
     });
+    setReadBlockIds(new Set(readBlocksRef.current));
     toStringArray(nrRuntime?.viewed_blocks).forEach((id) => {
       if (id) viewedBlocksRef.current.add(id);
     });
@@ -2382,7 +2481,7 @@ export default function PathNodePage() {
       eyeTrackingStatus === "active" &&
       corrected &&
       gazePoint &&
-      gazePoint.confidence >= GAZE_MIN_CONFIDENCE &&
+      gazePoint.confidence >= gazeTuningRef.current.minConfidence &&
       corrected.y >= rootTop &&
       corrected.y <= rootBottom;
     const focusLine = gazeOk && corrected ? corrected.y - rootTop : readingLine;
@@ -3172,6 +3271,36 @@ export default function PathNodePage() {
     };
   }, [showDebugOverlay]);
 
+  // Saves the block at the top of the reading area (and how far into it the reader is) as the resume position.
+  const recordResumeSnapshot = useCallback(() => {
+    const pathNodeId = nodeIdRef.current;
+    const container = docContainerRef.current;
+    if (!pathNodeId || !container) return;
+    if (resumePendingRef.current) {
+      if (maxScrollPercentRef.current < RESUME_OFFER_RELEASE_SCROLL_PCT) return;
+      resumePendingRef.current = false;
+    }
+    let anchor: { blockId: string; offset: number } | null = null;
+    for (const el of container.querySelectorAll<HTMLElement>("[data-doc-block-id]")) {
+      const rect = el.getBoundingClientRect();
+      const blockId = el.dataset.docBlockId || "";
+      if (!blockId || rect.height <= 0 || rect.bottom <= SCROLL_TARGET_OFFSET_PX) continue;
+      anchor = { blockId, offset: Math.max(0, Math.min(1, (SCROLL_TARGET_OFFSET_PX - rect.top) / rect.height)) };
+      break;
+    }
+    if (!anchor) return;
+    const { title, blockCount } = resumeMetaRef.current;
+    recordResumePosition({
+      pathNodeId,
+      pathId: pathIdRef.current,
+      title,
+      blockId: anchor.blockId,
+      blockOffset: anchor.offset,
+      scrollPercent: currentScrollPercentRef.current,
+      progress: blockCount > 0 ? readBlocksRef.current.size / blockCount : 0,
+    });
+  }, []);
+
   const flushSessionSync = useCallback(
     (opts?: { clear?: boolean; immediate?: boolean }) => {
       if (!user?.id) return;
@@ -3196,6 +3325,7 @@ export default function PathNodePage() {
         lastHeavySnapshotAtRef.current = 0;
       }
       const snapshot = clear ? { visible: [], current: null } : buildVisibleSnapshot();
+      setScrollspyBlockId(snapshot.current?.id ?? "");
       const scroll = clear ? null : currentScrollPercentRef.current;
       let readingSnapshot: Record<string, unknown> | null = null;
       let progressSnapshot: Record<string, unknown> | null = null;
@@ -3257,9 +3387,17 @@ export default function PathNodePage() {
       );
       if (!clear) {
         scheduleRuntimeProbe();
+        recordResumeSnapshot();
       }
     },
-    [buildProgressSnapshot, buildReadingSnapshot, buildVisibleSnapshot, scheduleRuntimeProbe, user?.id]
+    [
+      buildProgressSnapshot,
+      buildReadingSnapshot,
+      buildVisibleSnapshot,
+      recordResumeSnapshot,
+      scheduleRuntimeProbe,
+      user?.id,
+    ]
   );
 
   const scheduleSessionSync = useCallback(
@@ -3390,7 +3528,7 @@ export default function PathNodePage() {
   );
 
   const markBlockRead = useCallback(
-    (blockId: string, source: "behavioral" | "gaze", credit: number) => {
+    (blockId: string, source: "behavioral" | "gaze" | "audio", credit: number) => {
       const id = String(blockId || "").trim();
       if (!id || readBlocksRef.current.has(id)) return;
       const logicalEventID = passiveLogicalID("block_read", id);
@@ -3398,6 +3536,7 @@ export default function PathNodePage() {
         return;
       }
       readBlocksRef.current.add(id);
+      setReadBlockIds(new Set(readBlocksRef.current));
       readCreditsRef.current.set(id, Math.min(1, Math.max(credit, 0)));
       if (logicalEventID) {
         emittedPassiveLogicalIDsRef.current.add(logicalEventID);
@@ -3432,6 +3571,24 @@ export default function PathNodePage() {
     [nodeId, passiveBlockContext, passiveLogicalID, passiveProgressSnapshot, scheduleSessionSync]
   );
 
+  // Read-aloud advances the same per-block read credit as scrolling and gaze.
+  const creditBlockFromAudio = useCallback(
+    (blockId: string, fraction: number) => {
+      const id = String(blockId || "").trim();
+      if (!id) return;
+      const prev = readCreditsRef.current.get(id) ?? 0;
+      const next = clamp(Math.max(prev, fraction), 0, 1);
+      if (next !== prev) {
+        readCreditsRef.current.set(id, next);
+        scheduleSessionSync();
+      }
+      if (next >= READ_CREDIT_THRESHOLD && !readBlocksRef.current.has(id)) {
+        markBlockRead(id, "audio", next);
+      }
+    },
+    [markBlockRead, scheduleSessionSync]
+  );
+
   // Record exposure as aggregated scroll depth + dwell time (production-safe: one event per node view).
   useEffect(() => {
     if (!nodeId) return;
@@ -3541,11 +3698,11 @@ export default function PathNodePage() {
         const gazePoint = getSmoothedGaze(nowMs);
         const corrected = gazePoint ? applyGazeBias(gazePoint.x, gazePoint.y) : null;
         const fresh = gazePoint ? nowMs - (gazePoint.ts ?? nowMs) <= 800 : false;
-        const stable = gazePoint ? gazePoint.velocity <= GAZE_MAX_VELOCITY_PX_S : false;
+        const stable = gazePoint ? gazePoint.velocity <= gazeTuningRef.current.maxVelocityPxS : false;
         const inViewport =
           corrected != null ? corrected.y >= rootTop && corrected.y <= rootTop + rootHeight : false;
         const gazeOk =
-          Boolean(gazePoint && corrected && gazePoint.confidence >= GAZE_MIN_CONFIDENCE && stable && fresh && inViewport);
+          Boolean(gazePoint && corrected && gazePoint.confidence >= gazeTuningRef.current.minConfidence && stable && fresh && inViewport);
         const gazeSample =
           gazeOk && gazePoint && corrected
             ? {
@@ -3568,18 +3725,18 @@ export default function PathNodePage() {
           dtMs,
         });
 
-        const lineStateOk = Boolean(lineState?.line && lineState.confidence >= LINE_STATE_MIN_CONFIDENCE);
-        const strictFallbackLine = LINE_SNAP_STRICT
+        const lineStateOk = Boolean(lineState?.line && lineState.confidence >= gazeTuningRef.current.lineStateMinConfidence);
+        const strictFallbackLine = gazeTuningRef.current.lineSnapStrict
           ? findNearestVisibleLine(gazeSample?.y ?? behaviorY, rootTop, rootTop + rootHeight)
           : null;
         const activeLine = lineState?.line ?? strictFallbackLine;
 
-        if (activeLine && (lineStateOk || LINE_SNAP_STRICT)) {
+        if (activeLine && (lineStateOk || gazeTuningRef.current.lineSnapStrict)) {
           focusY = activeLine.centerY;
           gazeBlockId = activeLine.blockId;
           if (gazeSample) {
             gazeConfidenceFactor = clamp(
-              (gazeSample.confidence - GAZE_MIN_CONFIDENCE) / Math.max(1 - GAZE_MIN_CONFIDENCE, 0.01),
+              (gazeSample.confidence - gazeTuningRef.current.minConfidence) / Math.max(1 - gazeTuningRef.current.minConfidence, 0.01),
               0.2,
               1
             );
@@ -3597,7 +3754,7 @@ export default function PathNodePage() {
           const snapPoint = snapped.snap !== "none" ? { x: snapped.x, y: snapped.y } : corrected;
           focusY = snapPoint.y;
           gazeConfidenceFactor = clamp(
-            (gazePoint.confidence - GAZE_MIN_CONFIDENCE) / Math.max(1 - GAZE_MIN_CONFIDENCE, 0.01),
+            (gazePoint.confidence - gazeTuningRef.current.minConfidence) / Math.max(1 - gazeTuningRef.current.minConfidence, 0.01),
             0.2,
             1
           );
@@ -3713,6 +3870,9 @@ export default function PathNodePage() {
         | null = null;
 
       if (engagedOk && activeId) {
+        if (readingTraceRef.current && now - gazeLastHitAtRef.current > READING_GAZE_FRESH_MS) {
+          recordReadingSample(readingTraceRef.current, { blockId: activeId, line: null, source: "behavioral", at: now });
+        }
         const prevEngaged = progress.engaged;
         if (!prevEngaged || prevEngaged.id !== activeId) {
           const index = blockOrder.get(activeId) ?? -1;
@@ -3947,7 +4107,7 @@ export default function PathNodePage() {
       if (document.hidden) return;
       const now = Date.now();
       const gazePoint = getSmoothedGaze(now);
-      if (!gazePoint || gazePoint.confidence < GAZE_MIN_CONFIDENCE) return;
+      if (!gazePoint || gazePoint.confidence < gazeTuningRef.current.minConfidence) return;
       const corrected = applyGazeBias(gazePoint.x, gazePoint.y);
       const scrollRoot = resolveScrollContainer();
       const rootRect = scrollRoot?.getBoundingClientRect();
@@ -3967,10 +4127,10 @@ export default function PathNodePage() {
           velocity: gazePoint.velocity,
           ts: gazePoint.ts ?? now,
         },
-        dtMs: GAZE_TICK_MS,
+        dtMs: gazeTuningRef.current.tickMs,
       });
-      const lineStateOk = Boolean(lineState?.line && lineState.confidence >= LINE_STATE_MIN_CONFIDENCE);
-      const strictFallbackLine = LINE_SNAP_STRICT
+      const lineStateOk = Boolean(lineState?.line && lineState.confidence >= gazeTuningRef.current.lineStateMinConfidence);
+      const strictFallbackLine = gazeTuningRef.current.lineSnapStrict
         ? findNearestVisibleLine(corrected.y, rootTop, rootTop + rootHeight)
         : null;
       const snapped = getSnappedGaze(corrected.x, corrected.y);
@@ -3989,34 +4149,35 @@ export default function PathNodePage() {
       const dt = gazeLastHitAtRef.current > 0 ? now - gazeLastHitAtRef.current : 0;
       gazeLastHitAtRef.current = now;
       gazeLastBlockRef.current = blockId;
-      gazeQueueRef.current?.enqueue({
-        block_id: blockId,
-        line_id: fallbackLine?.id,
-        line_index: fallbackLine?.index,
-        x: lineCenterX,
-        y: lineCenterY,
-        confidence: gazePoint.confidence,
-        ts: new Date(now).toISOString(),
-        dt_ms: dt > 0 ? dt : undefined,
-        read_credit: readCreditsRef.current.get(blockId) ?? 0,
-        source: gazePoint.source,
-        screen_w: window.innerWidth,
-        screen_h: window.innerHeight,
-        extra: {
-          velocity_px_s: gazePoint.velocity,
-          raw_x: gazePoint.x,
-          raw_y: gazePoint.y,
-          bias_x: gazeBiasRef.current?.x ?? 0,
-          bias_y: gazeBiasRef.current?.y ?? 0,
+      gazeQueueRef.current?.enqueue(
+        buildGazeHit({
+          blockId,
+          lineId: fallbackLine?.id,
+          lineIndex: fallbackLine?.index,
+          lineCenterX,
+          lineCenterY,
+          gaze: gazePoint,
+          bias: gazeBiasRef.current,
           snap: snapLabel,
-          snap_x: lineCenterX,
-          snap_y: lineCenterY,
-          line_state_confidence: lineStateOk ? lineState?.confidence ?? 0 : 0,
-          line_state_mode: lineState?.mode ?? "reading",
-        },
-      });
+          lineStateConfidence: lineStateOk ? lineState?.confidence ?? 0 : 0,
+          lineStateMode: lineState?.mode ?? "reading",
+          at: now,
+          dtMs: dt,
+          readCredit: readCreditsRef.current.get(blockId) ?? 0,
+          screenW: window.innerWidth,
+          screenH: window.innerHeight,
+        })
+      );
+      if (readingTraceRef.current) {
+        recordReadingSample(readingTraceRef.current, {
+          blockId,
+          line: fallbackLine?.index ?? null,
+          source: "gaze",
+          at: now,
+        });
+      }
     };
-    timer = window.setInterval(tick, Math.max(60, GAZE_TICK_MS));
+    timer = window.setInterval(tick, Math.max(60, gazeTickMs));
     return () => {
       if (timer != null) window.clearInterval(timer);
     };
@@ -4029,6 +4190,7 @@ export default function PathNodePage() {
     getSmoothedGaze,
     gazeRef,
     gazeStreamEnabled,
+    gazeTickMs,
     nodeId,
     resolveScrollContainer,
     updateLineState,
@@ -4492,53 +4654,20 @@ export default function PathNodePage() {
     [clearPendingEdit, loadDoc, nodeId, resolveBlockId, scheduleRuntimeRefetch]
   );
 
-  const lastSseIndexRef = useRef<number>(0);
-  const lastSseKeyRef = useRef<string>("");
-
-  useEffect(() => {
-    if (!user?.id || !lastMessage) return;
-    if (lastMessage.channel !== user.id) return;
-    const key = JSON.stringify(lastMessage);
-    if (lastSseKeyRef.current === key) return;
-    lastSseKeyRef.current = key;
-    const event = String(lastMessage.event || "").toLowerCase();
+  useSSEEvent(NODE_SSE_EVENTS, user?.id, (msg) => {
+    const event = String(msg.event || "").toLowerCase();
     if (event.startsWith("job")) {
-      handleJobUpdate(event, lastMessage.data);
+      handleJobUpdate(event, msg.data);
       return;
     }
     if (event.startsWith("chatmessage")) {
-      handleChatMessageEvent(event, lastMessage.data);
+      handleChatMessageEvent(event, msg.data);
       return;
     }
     if (event === "runtimeprompt") {
-      handleRuntimePromptEvent(lastMessage.data);
+      handleRuntimePromptEvent(msg.data);
     }
-  }, [handleChatMessageEvent, handleJobUpdate, handleRuntimePromptEvent, lastMessage, user?.id]);
-  useEffect(() => {
-    if (!user?.id) return;
-    if (!Array.isArray(messages) || messages.length === 0) return;
-    const start =
-      lastSseIndexRef.current > messages.length
-        ? 0
-        : Math.max(0, lastSseIndexRef.current);
-    for (let i = start; i < messages.length; i += 1) {
-      const msg = messages[i];
-      if (!msg || msg.channel !== user.id) continue;
-      const event = String(msg.event || "").toLowerCase();
-      if (event.startsWith("job")) {
-        handleJobUpdate(event, msg.data);
-        continue;
-      }
-      if (event.startsWith("chatmessage")) {
-        handleChatMessageEvent(event, msg.data);
-        continue;
-      }
-      if (event === "runtimeprompt") {
-        handleRuntimePromptEvent(msg.data);
-      }
-    }
-    lastSseIndexRef.current = messages.length;
-  }, [handleChatMessageEvent, handleJobUpdate, handleRuntimePromptEvent, messages, user?.id]);
+  });
 
   useEffect(() => {
     if (!connected) return;
@@ -4697,6 +4826,25 @@ export default function PathNodePage() {
     setChatDialogOpen(true);
   }, []);
 
+  const openCitationSource = useCallback(
+    (citation: CitationRefV1, block: DocBlock) => {
+      const pid = pathIdRef.current;
+      if (!pid) return;
+      queueEvent({
+        type: "citation_opened",
+        pathId: pid,
+        pathNodeId: nodeId || undefined,
+        data: {
+          block_id: String(block?.id ?? ""),
+          chunk_id: citation.chunk_id,
+          page: citation.loc?.page ?? 0,
+        },
+      });
+      navigate(buildCitationSourceHref(pid, citation));
+    },
+    [navigate, nodeId]
+  );
+
   const submitEditDecision = useCallback(
     async (action: "confirm" | "deny" | "refine", refineText = "") => {
       if (!pendingEdit) return;
@@ -4856,6 +5004,44 @@ export default function PathNodePage() {
 	    }
   }, [chatBlock, chatQuestion, nodeId, node?.pathId, path?.id, buildBlockContext, openThread, t]);
 
+  // Questions about a selection carry the quote as message metadata so replies can link back to it.
+  const askAboutSelection = useCallback(
+    async (action: SelectionAskAction, excerpt: SelectionExcerpt) => {
+      if (!nodeId) return;
+      const pid = node?.pathId ?? path?.id ?? null;
+      const quote = excerpt.quote.trim();
+      try {
+        const thread = await createChatThread({
+          title: t("selectionAsk.threadTitle", { quote: quote.length > 60 ? `${quote.slice(0, 60)}…` : quote }),
+          pathId: pid,
+        });
+        if (!thread?.id) throw new Error(t("pathNode.chat.error.createThreadFailed"));
+        const lessonExcerpt: LessonExcerpt = {
+          path_id: pid ?? undefined,
+          path_node_id: nodeId,
+          block_id: excerpt.blockId,
+          block_index: excerpt.blockIndex,
+          block_type: excerpt.blockType,
+          quote,
+          action,
+        };
+        await sendChatMessage(thread.id, t(`selectionAsk.prompt.${action}`), {
+          metadata: { kind: LESSON_EXCERPT_KIND, excerpt: lessonExcerpt },
+        });
+        openThread(thread.id, {
+          nodeId,
+          blockId: excerpt.blockId,
+          blockType: excerpt.blockType || null,
+          quote,
+        });
+      } catch (err) {
+        console.warn("[PathNodePage] selection ask failed:", err);
+        pushToast({ variant: "error", title: t("selectionAsk.failed") });
+      }
+    },
+    [node?.pathId, nodeId, openThread, path?.id, pushToast, t]
+  );
+
   const handleUndo = useCallback(
     async (block: DocBlock) => {
       if (!nodeId || !block?.id) return;
@@ -4901,8 +5087,10 @@ export default function PathNodePage() {
 	      setDrawerLoading(true);
 	      setDrawerError("");
 	      setDrawerDrill(null);
+	      setDrawerAttempt(null);
 	      try {
 	        const out = await generateDrillForNode(nodeId, kind);
+	        saveDrillCards(nodeId, out?.cards);
 	        setDrawerDrill(out);
 	      } catch (e) {
 	        setDrawerError(getErrorMessage(e, t("pathNode.drill.error.generateFailed")));
@@ -4913,6 +5101,29 @@ export default function PathNodePage() {
     [nodeId, t]
   );
 
+  const openQuizResults = useCallback(
+    (attempt: QuizAttempt) => {
+      setDrawerOpen(true);
+      setDrawerKind("quiz");
+      setDrawerTitle(t("pathNode.drills.quiz.results.title"));
+      setDrawerLoading(false);
+      setDrawerError("");
+      setDrawerDrill(null);
+      setDrawerAttempt(attempt);
+    },
+    [t]
+  );
+
+  const openPersonalDeck = useCallback((deck: PersonalDeck) => {
+    setDrawerOpen(true);
+    setDrawerKind("flashcards");
+    setDrawerTitle(deck.title);
+    setDrawerLoading(false);
+    setDrawerError("");
+    setDrawerDrill(personalDeckDrill(deck));
+    setDrawerAttempt(null);
+  }, []);
+
   const submitRuntimePromptDecision = useCallback(
     async (decision: "completed" | "dismissed", extras?: Record<string, string>) => {
       if (!runtimePrompt) return;
@@ -4956,6 +5167,19 @@ export default function PathNodePage() {
   );
 
   const drillPayload = drawerDrill && typeof drawerDrill === "object" ? drawerDrill : null;
+  const quizHistory = useQuizAttempts(nodeId);
+  const personalDecks = usePersonalDecks(pathId);
+
+  // The drawer exports what it is showing plus this lesson's doc flashcards.
+  const collectDrawerCards = () => {
+    const source = node?.title || "";
+    const fallbackTags = conceptKeysToTags(conceptKeys);
+    return dedupeCards([
+      ...cardsFromDrill(drillPayload, { source, fallbackTags }),
+      ...cardsFromQuizQuestions(drawerAttempt?.questions, { source, fallbackTags }),
+      ...cardsFromDocBlocks(docBlocks, { source, fallbackTags }),
+    ]);
+  };
 
   if (loading && !node) {
     return <PathNodePageSkeleton />;
@@ -5023,18 +5247,96 @@ export default function PathNodePage() {
                     : eyeTrackingStatus === "error"
                     ? `Eye tracking error: ${eyeTrackingError || "unknown"}`
                     : `Eye tracking ${eyeTrackingStatus}`}
+                  {gazeProvider !== "webgazer" ? ` (${gazeProvider})` : null}
                 </span>
               ) : null}
-              {eyeTrackingEnabled && needsCalibration ? (
+              {eyeTrackingEnabled && gazeCalibrates && needsCalibration ? (
                 <Button
                   size="sm"
                   variant="outline"
                   className="h-6 rounded-full px-2 text-[10px] xs:text-[11px]"
-                  onClick={() => setShowCalibration(true)}
+                  onClick={() => {
+                    setCalibrationMode("full");
+                    setShowCalibration(true);
+                  }}
                 >
                   Calibrate
                 </Button>
               ) : null}
+              {eyeTrackingEnabled && gazeCalibrates && !needsCalibration && gazeDriftSuggested ? (
+                <span className="inline-flex items-center gap-1 rounded-full border border-amber-500/40 bg-amber-500/10 py-0.5 pl-2 pr-0.5 text-[10px] text-amber-600 xs:text-[11px]">
+                  Tracking drifted
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-5 rounded-full px-2 text-[10px] text-amber-700 xs:text-[11px]"
+                    onClick={() => {
+                      setCalibrationMode("quick");
+                      setShowCalibration(true);
+                    }}
+                  >
+                    Quick recalibrate
+                  </Button>
+                  <IconButton
+                    label="Dismiss"
+                    variant="ghost"
+                    className="h-5 w-5 rounded-full text-amber-700"
+                    onClick={dismissGazeDrift}
+                  >
+                    <X className="h-3 w-3" />
+                  </IconButton>
+                </span>
+              ) : null}
+              {showGazeTuning ? (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-6 rounded-full px-2 text-[10px] xs:text-[11px]"
+                  onClick={() => setGazeTuningOpen(true)}
+                >
+                  {t("eyeTuning.open")}
+                </Button>
+              ) : null}
+              {doc && storedReadingTrace ? (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-6 rounded-full px-2 text-[10px] xs:text-[11px]"
+                  aria-pressed={Boolean(readingReview)}
+                  onClick={() => (readingReview ? setReadingReview(null) : openReadingReview())}
+                >
+                  <Activity className="h-3 w-3" />
+                  {t("readingReview.open")}
+                </Button>
+              ) : null}
+              <div className="ml-auto flex items-center gap-2">
+                {showOutline ? (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className={cn("h-8 rounded-full px-3 text-xs", outlineOpen && "lg:hidden")}
+                    onClick={() => {
+                      // Desktop re-opens the sidebar; smaller screens get the outline in a sheet.
+                      if (window.matchMedia?.("(min-width: 1024px)").matches) setOutlineOpen(true);
+                      else setOutlineSheetOpen(true);
+                    }}
+                  >
+                    <ListTree className="h-3.5 w-3.5" />
+                    {t("lessonOutline.open")}
+                  </Button>
+                ) : null}
+                {docBlocks.length > 0 && !readAloudOpen ? (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-8 rounded-full px-3 text-xs"
+                    onClick={() => setReadAloudOpen(true)}
+                  >
+                    <Volume2 className="h-3.5 w-3.5" />
+                    {t("readAloud.open")}
+                  </Button>
+                ) : null}
+              </div>
             </div>
 
             {/* Title - responsive typography */}
@@ -5072,8 +5374,20 @@ export default function PathNodePage() {
             </div>
           ) : null}
 
+          {resumeOffer ? (
+            <LessonResumeBanner
+              className="mb-4 sm:mb-6"
+              position={resumeOffer.position}
+              conflict={resumeOffer.conflict}
+              sectionTitle={resumeSectionTitle}
+              onResume={() => restoreResumePosition(resumeOffer.position)}
+              onResolve={chooseResumeSide}
+              onDismiss={dismissResumeOffer}
+            />
+          ) : null}
+
           {/* Drills section - responsive */}
-          {drills.length > 0 ? (
+          {drills.length > 0 || personalDecks.length > 0 ? (
             <div className="mb-6 sm:mb-8 rounded-xl sm:rounded-2xl border border-border/60 bg-card/70 p-3 sm:p-4 shadow-sm backdrop-blur">
               <div className="flex items-start sm:items-center justify-between gap-2 sm:gap-3">
                 <div className="min-w-0">
@@ -5098,172 +5412,261 @@ export default function PathNodePage() {
                     {d.label || d.kind}
                   </Button>
                 ))}
+                {personalDecks.map((deck) => (
+                  <Button
+                    key={deck.id}
+                    variant="outline"
+                    onClick={() => openPersonalDeck(deck)}
+                    title={t("deckImport.section.count", { count: deck.cards.length })}
+                    className={cn(
+                      "h-10 sm:h-9 px-4 sm:px-3 text-sm",
+                      "touch-manipulation -webkit-tap-highlight-color-transparent",
+                      "active:scale-[0.97]"
+                    )}
+                  >
+                    {deck.title}
+                  </Button>
+                ))}
               </div>
+              {quizHistory.latest && quizHistory.best ? (
+                <div className="mt-2.5 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                  <span>
+                    {t("pathNode.drills.quiz.history", {
+                      best: Math.round(quizAttemptScore(quizHistory.best) * 100),
+                      latest: Math.round(quizAttemptScore(quizHistory.latest) * 100),
+                    })}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => quizHistory.latest && openQuizResults(quizHistory.latest)}
+                    className="underline underline-offset-4 hover:text-foreground"
+                  >
+                    {t("pathNode.drills.quiz.results.reviewLast")}
+                  </button>
+                </div>
+              ) : null}
             </div>
           ) : null}
 
-          {/* Main content container - responsive */}
+          {/* Main content container with the lesson outline beside it on desktop */}
           <div
-            ref={lessonSurfaceRef}
-            className="relative rounded-xl sm:rounded-2xl border border-border/60 bg-card/70 shadow-sm"
+            className={cn(
+              showOutline && outlineOpen && "lg:grid lg:grid-cols-[minmax(0,1fr)_15rem] lg:items-start lg:gap-6"
+            )}
           >
-            <div className="pointer-events-none absolute inset-0 rounded-xl sm:rounded-2xl overflow-hidden z-0">
-              <div className="absolute -top-28 right-0 h-56 w-56 rounded-full bg-primary/6 blur-2xl" />
-              <div className="absolute -bottom-32 left-0 h-64 w-64 rounded-full bg-accent/6 blur-2xl" />
-              <div className="absolute inset-0 bg-gradient-to-br from-muted/25 via-transparent to-transparent opacity-60" />
-            </div>
             <div
-              ref={docContainerRef}
-              className="relative z-10 px-4 py-5 xs:px-5 xs:py-6 sm:px-6 sm:py-8 md:px-8 md:py-10"
+              ref={lessonSurfaceRef}
+              className="relative rounded-xl sm:rounded-2xl border border-border/60 bg-card/70 shadow-sm"
             >
-              {docBlocked ? (
-                <div className="rounded-2xl border border-destructive/40 bg-destructive/5 p-5 text-sm text-foreground">
-                  <div className="text-base font-semibold text-foreground">This lesson is currently blocked</div>
-                  <div className="mt-2 text-muted-foreground">
-                    Complete the prerequisite remediation to unlock this node.
+              <div className="pointer-events-none absolute inset-0 rounded-xl sm:rounded-2xl overflow-hidden z-0">
+                <div className="absolute -top-28 right-0 h-56 w-56 rounded-full bg-primary/6 blur-2xl" />
+                <div className="absolute -bottom-32 left-0 h-64 w-64 rounded-full bg-accent/6 blur-2xl" />
+                <div className="absolute inset-0 bg-gradient-to-br from-muted/25 via-transparent to-transparent opacity-60" />
+              </div>
+              <div
+                ref={docContainerRef}
+                className="relative z-10 px-4 py-5 xs:px-5 xs:py-6 sm:px-6 sm:py-8 md:px-8 md:py-10"
+              >
+                {docBlocked ? (
+                  <div className="rounded-2xl border border-destructive/40 bg-destructive/5 p-5 text-sm text-foreground">
+                    <div className="text-base font-semibold text-foreground">This lesson is currently blocked</div>
+                    <div className="mt-2 text-muted-foreground">
+                      Complete the prerequisite remediation to unlock this node.
+                    </div>
+                    {docStatusReason ? (
+                      <div className="mt-2 text-xs text-muted-foreground">Reason: {docStatusReason}</div>
+                    ) : null}
                   </div>
-                  {docStatusReason ? (
-                    <div className="mt-2 text-xs text-muted-foreground">Reason: {docStatusReason}</div>
-                  ) : null}
-                </div>
-              ) : doc ? (
-                <NodeDocRenderer
-                  doc={doc}
+                ) : doc ? (
+                  <NodeDocRenderer
+                    doc={doc}
+                    pathNodeId={nodeId}
+                    interactiveMode={interactiveMode}
+                    completedInteractiveBlocks={completedInteractiveBlocks}
+                    runtimeFallbackInteractiveBlocks={runtimeFallbackInteractiveBlocks}
+                    conceptIdByKey={conceptIdByKeyRecord}
+                    pendingBlocks={pendingBlocks}
+                    pendingEdit={pendingEdit}
+                    editBusy={pendingEditBusy}
+                    blockFeedback={blockFeedback}
+                    undoableBlocks={undoableBlocks}
+                    onLike={handleLike}
+                    onDislike={handleDislike}
+                    onRegenerate={(block: DocBlock) => openRegenDialog(block)}
+                    onChat={(block: DocBlock) => openChatDialog(block)}
+                    onUndo={(block: DocBlock) => handleUndo(block)}
+                    onEditConfirm={(_proposal) => void submitEditDecision("confirm")}
+                    onEditDeny={(_proposal) => void submitEditDecision("deny")}
+                    onEditRefine={(_proposal, text) => void submitEditDecision("refine", text)}
+                    onCitationOpen={(citation, block: DocBlock) => openCitationSource(citation, block)}
+                    scrollTarget={docScrollTarget}
+                  />
+                ) : docPending ? (
+                  <div className="rounded-2xl border border-border/60 bg-muted/20 p-5 text-sm text-muted-foreground">
+                    <div className="text-foreground">Lesson content is being prepared.</div>
+                    {docStatusReason ? <div className="mt-2 text-xs">Status: {docStatusReason}</div> : null}
+                  </div>
+                ) : (
+                  <NodeContentRenderer contentJson={node?.contentJson} />
+                )}
+              </div>
+
+              {doc && nodeId ? (
+                <LessonHighlightLayer
                   pathNodeId={nodeId}
-                  interactiveMode={interactiveMode}
-                  completedInteractiveBlocks={completedInteractiveBlocks}
-                  runtimeFallbackInteractiveBlocks={runtimeFallbackInteractiveBlocks}
-                  conceptIdByKey={conceptIdByKeyRecord}
-                  pendingBlocks={pendingBlocks}
-                  pendingEdit={pendingEdit}
-                  editBusy={pendingEditBusy}
-                  blockFeedback={blockFeedback}
-                  undoableBlocks={undoableBlocks}
-                  onLike={handleLike}
-                  onDislike={handleDislike}
-                  onRegenerate={(block: DocBlock) => openRegenDialog(block)}
-                  onChat={(block: DocBlock) => openChatDialog(block)}
-                  onUndo={(block: DocBlock) => handleUndo(block)}
-                  onEditConfirm={(_proposal) => void submitEditDecision("confirm")}
-                  onEditDeny={(_proposal) => void submitEditDecision("deny")}
-                  onEditRefine={(_proposal, text) => void submitEditDecision("refine", text)}
+                  containerRef={docContainerRef}
+                  blockIds={docBlockIds}
+                  onAsk={(action, excerpt) => void askAboutSelection(action, excerpt)}
                 />
-              ) : docPending ? (
-                <div className="rounded-2xl border border-border/60 bg-muted/20 p-5 text-sm text-muted-foreground">
-                  <div className="text-foreground">Lesson content is being prepared.</div>
-                  {docStatusReason ? <div className="mt-2 text-xs">Status: {docStatusReason}</div> : null}
-                </div>
-              ) : (
-                <NodeContentRenderer contentJson={node?.contentJson} />
-              )}
-            </div>
+              ) : null}
 
-            {runtimePrompt && lessonOverlayRect && runtimePromptRenderable ? (
-              <div
-                className="fixed z-40 overflow-hidden rounded-xl sm:rounded-2xl"
-                style={
-                  {
-                    left: lessonOverlayRect.left,
-                    top: lessonOverlayRect.top,
-                    width: lessonOverlayRect.width,
-                    height: lessonOverlayRect.height,
+              {doc && readingReview ? (
+                <ReadingHeatmapLayer
+                  containerRef={docContainerRef}
+                  blockIds={readableBlockIds}
+                  trace={readingReview}
+                  onRevisit={(blockId) => {
+                    setReadingReview(null);
+                    setDocScrollTarget({ blockId, nonce: Date.now() });
+                  }}
+                  onClose={() => setReadingReview(null)}
+                />
+              ) : null}
+
+              {runtimePrompt && lessonOverlayRect && runtimePromptRenderable ? (
+                <div
+                  className="fixed z-40 overflow-hidden rounded-xl sm:rounded-2xl"
+                  style={
+                    {
+                      left: lessonOverlayRect.left,
+                      top: lessonOverlayRect.top,
+                      width: lessonOverlayRect.width,
+                      height: lessonOverlayRect.height,
+                    }
                   }
-                }
-                onWheel={(event) => event.preventDefault()}
-                onTouchMove={(event) => event.preventDefault()}
-              >
-                <div className="absolute inset-0 bg-black/35 backdrop-blur-sm" />
-                <div className="relative z-10 flex h-full w-full items-center justify-center p-4 sm:p-6">
-                  <div className="w-full max-w-2xl rounded-2xl border border-border/60 bg-card/95 p-5 shadow-2xl sm:p-6">
-                    <div className="space-y-1">
-                      <div className="text-base font-semibold text-foreground">
-                        {runtimePrompt?.type === "break"
-                          ? "Take a short break"
-                          : runtimePrompt?.type === "flashcard"
-                            ? "Flashcard"
-                            : "Quick check"}
-                      </div>
-                      <div className="text-sm text-muted-foreground">
-                        {runtimePrompt?.type === "break"
-                          ? "A short pause can improve retention and accuracy."
-                          : "Respond and then confirm when you are ready to continue."}
+                  onWheel={(event) => event.preventDefault()}
+                  onTouchMove={(event) => event.preventDefault()}
+                >
+                  <div className="absolute inset-0 bg-black/35 backdrop-blur-sm" />
+                  <div className="relative z-10 flex h-full w-full items-center justify-center p-4 sm:p-6">
+                    <div className="w-full max-w-2xl rounded-2xl border border-border/60 bg-card/95 p-5 shadow-2xl sm:p-6">
+                      <div className="space-y-1">
+                        <div className="text-base font-semibold text-foreground">
+                          {runtimePrompt?.type === "break"
+                            ? "Take a short break"
+                            : runtimePrompt?.type === "flashcard"
+                              ? "Flashcard"
+                              : "Quick check"}
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          {runtimePrompt?.type === "break"
+                            ? "A short pause can improve retention and accuracy."
+                            : "Respond and then confirm when you are ready to continue."}
+                        </div>
                       </div>
-                    </div>
 
-                    <div className="mt-4">
-                      {runtimePrompt?.type === "break" ? (
-                        <div className="space-y-2 rounded-xl border border-border/60 bg-muted/10 p-4 text-sm text-foreground/90">
-                          <div>
-                            Suggested break:{" "}
-                            <span className="font-medium">
-                              {runtimePrompt.break_min ?? 3}–{runtimePrompt.break_max ?? 8} minutes
-                            </span>
-                          </div>
-                          <div className="text-xs text-muted-foreground">
-                            You can keep going if you prefer; this just helps pacing.
-                          </div>
-                        </div>
-                      ) : runtimePrompt?.type === "quick_check" ? (
-                        runtimePromptBlock ? (
-                          <QuickCheck
-                            pathNodeId={runtimePrompt.node_id || nodeId || undefined}
-                            blockId={runtimePrompt.block_id}
-                            promptMd={runtimePromptBlock?.prompt_md as string}
-                            answerMd={runtimePromptBlock?.answer_md as string}
-                            kind={runtimePromptBlock?.kind}
-                            options={runtimePromptBlock?.options}
-                            promptId={runtimePrompt.prompt_id}
-                            promptInstanceId={runtimePrompt.prompt_id}
-                            correlationId={
-                              runtimePrompt.prompt_id ? `prompt:${runtimePrompt.prompt_id}` : undefined
-                            }
-                          />
-                        ) : (
-                          <div className="rounded-xl border border-border/60 bg-muted/10 p-4 text-sm text-muted-foreground">
-                            Loading the quick check…
+                      <div className="mt-4">
+                        {runtimePrompt?.type === "break" ? (
+                          <div className="space-y-2 rounded-xl border border-border/60 bg-muted/10 p-4 text-sm text-foreground/90">
+                            <div>
+                              Suggested break:{" "}
+                              <span className="font-medium">
+                                {runtimePrompt.break_min ?? 3}–{runtimePrompt.break_max ?? 8} minutes
+                              </span>
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                              You can keep going if you prefer; this just helps pacing.
+                            </div>
                           </div>
-                        )
-                      ) : runtimePrompt?.type === "flashcard" ? (
-                        runtimePromptBlock ? (
-                          <Flashcard
-                            pathNodeId={runtimePrompt.node_id || nodeId || undefined}
-                            blockId={runtimePrompt.block_id}
-                            conceptIds={runtimePromptBlockConceptIds}
-                            promptId={runtimePrompt.prompt_id}
-                            promptInstanceId={runtimePrompt.prompt_id}
-                            correlationId={
-                              runtimePrompt.prompt_id ? `prompt:${runtimePrompt.prompt_id}` : undefined
-                            }
-                            onIntentSubmitted={(intent) =>
-                              void submitRuntimePromptDecision("completed", { intent })
-                            }
-                            frontMd={runtimePromptBlock?.front_md as string}
-                            backMd={runtimePromptBlock?.back_md as string}
-                          />
-                        ) : (
-                          <div className="rounded-xl border border-border/60 bg-muted/10 p-4 text-sm text-muted-foreground">
-                            Loading the flashcard…
-                          </div>
-                        )
-                      ) : null}
-                    </div>
+                        ) : runtimePrompt?.type === "quick_check" ? (
+                          runtimePromptBlock ? (
+                            <QuickCheck
+                              pathNodeId={runtimePrompt.node_id || nodeId || undefined}
+                              blockId={runtimePrompt.block_id}
+                              promptMd={runtimePromptBlock?.prompt_md as string}
+                              answerMd={runtimePromptBlock?.answer_md as string}
+                              kind={runtimePromptBlock?.kind}
+                              options={runtimePromptBlock?.options}
+                              promptId={runtimePrompt.prompt_id}
+                              promptInstanceId={runtimePrompt.prompt_id}
+                              correlationId={
+                                runtimePrompt.prompt_id ? `prompt:${runtimePrompt.prompt_id}` : undefined
+                              }
+                            />
+                          ) : (
+                            <div className="rounded-xl border border-border/60 bg-muted/10 p-4 text-sm text-muted-foreground">
+                              Loading the quick check…
+                            </div>
+                          )
+                        ) : runtimePrompt?.type === "flashcard" ? (
+                          runtimePromptBlock ? (
+                            <Flashcard
+                              pathNodeId={runtimePrompt.node_id || nodeId || undefined}
+                              blockId={runtimePrompt.block_id}
+                              conceptIds={runtimePromptBlockConceptIds}
+                              promptId={runtimePrompt.prompt_id}
+                              promptInstanceId={runtimePrompt.prompt_id}
+                              correlationId={
+                                runtimePrompt.prompt_id ? `prompt:${runtimePrompt.prompt_id}` : undefined
+                              }
+                              onIntentSubmitted={(intent) =>
+                                void submitRuntimePromptDecision("completed", { intent })
+                              }
+                              frontMd={runtimePromptBlock?.front_md as string}
+                              backMd={runtimePromptBlock?.back_md as string}
+                            />
+                          ) : (
+                            <div className="rounded-xl border border-border/60 bg-muted/10 p-4 text-sm text-muted-foreground">
+                              Loading the flashcard…
+                            </div>
+                          )
+                        ) : null}
+                      </div>
 
-                    <div className="mt-5 flex flex-wrap justify-end gap-2">
-                      <Button
-                        variant="outline"
-                        onClick={() => void submitRuntimePromptDecision("dismissed")}
-                      >
-                        Dismiss
-                      </Button>
-                      {runtimePrompt?.type !== "flashcard" ? (
-                        <Button onClick={() => void submitRuntimePromptDecision("completed")}>
-                          Done
+                      <div className="mt-5 flex flex-wrap justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          onClick={() => void submitRuntimePromptDecision("dismissed")}
+                        >
+                          Dismiss
                         </Button>
-                      ) : null}
+                        {runtimePrompt?.type !== "flashcard" ? (
+                          <Button onClick={() => void submitRuntimePromptDecision("completed")}>
+                            Done
+                          </Button>
+                        ) : null}
+                      </div>
                     </div>
                   </div>
                 </div>
-              </div>
+              ) : null}
+            </div>
+            {showOutline && outlineOpen ? (
+              <aside className="hidden lg:block">
+                <div className="sticky top-20 max-h-[calc(100svh-6rem)] overflow-y-auto">
+                  <div className="mb-2 flex items-center justify-between gap-2 ps-2">
+                    <div className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                      {t("lessonOutline.title")}
+                    </div>
+                    <IconButton
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 rounded-full"
+                      label={t("lessonOutline.hide")}
+                      onClick={() => setOutlineOpen(false)}
+                    >
+                      <PanelRightClose className="h-4 w-4" />
+                    </IconButton>
+                  </div>
+                  <LessonOutline
+                    entries={outlineEntries}
+                    currentBlockId={scrollspyBlockId}
+                    readBlockIds={readBlockIds}
+                    onSelect={goToBlock}
+                  />
+                </div>
+              </aside>
             ) : null}
           </div>
 
@@ -5547,10 +5950,15 @@ export default function PathNodePage() {
 
       <EyeCalibrationOverlay
         open={showCalibration}
+        mode={calibrationMode}
         onClose={() => setShowCalibration(false)}
         onComplete={(result) => {
           markCalibrated(result);
           setShowCalibration(false);
+          // The new calibration absorbs the drift; start bias and drift tracking from scratch.
+          gazeBiasRef.current = null;
+          gazeDriftRef.current.reset();
+          setGazeDriftSuggested(false);
         }}
         getGaze={() => rawGazeRef.current}
       />
@@ -5639,11 +6047,63 @@ export default function PathNodePage() {
 	        </DialogContent>
 	      </Dialog>
 
+      {showOutline ? (
+        <Sheet open={outlineSheetOpen} onOpenChange={setOutlineSheetOpen}>
+          <SheetContent side="right" className="w-[85vw] xs:w-[320px] overflow-y-auto">
+            <SheetHeader>
+              <SheetTitle>{t("lessonOutline.title")}</SheetTitle>
+            </SheetHeader>
+            <LessonOutline
+              className="px-2 pb-6"
+              entries={outlineEntries}
+              currentBlockId={scrollspyBlockId}
+              readBlockIds={readBlockIds}
+              onSelect={goToBlock}
+            />
+          </SheetContent>
+        </Sheet>
+      ) : null}
+
+      {showGazeTuning ? (
+        <Sheet open={gazeTuningOpen} onOpenChange={setGazeTuningOpen}>
+          <SheetContent side="right" className="w-[90vw] xs:w-[360px] overflow-y-auto">
+            <SheetHeader>
+              <SheetTitle>{t("eyeTuning.title")}</SheetTitle>
+            </SheetHeader>
+            <EyeTrackingTuningPanel
+              className="px-4 pb-6"
+              value={gazeTuningOverrides}
+              onChange={setGazeTuningOverrides}
+            />
+          </SheetContent>
+        </Sheet>
+      ) : null}
+
+      {readAloudOpen && docBlocks.length > 0 ? (
+        <div className="pointer-events-none fixed inset-x-0 bottom-3 z-40 px-3 sm:bottom-4">
+          <ReadAloudPlayer
+            blocks={docBlocks}
+            onBlockProgress={creditBlockFromAudio}
+            onClose={() => setReadAloudOpen(false)}
+            className="pointer-events-auto mx-auto w-full max-w-3xl"
+          />
+        </div>
+      ) : null}
+
       {/* Drill drawer - responsive width */}
       <Sheet open={drawerOpen} onOpenChange={setDrawerOpen}>
         <SheetContent side="right" className="w-[95vw] xs:w-[92vw] sm:w-[520px] md:w-[560px]">
           <SheetHeader>
             <SheetTitle className="text-lg xs:text-xl sm:text-2xl">{drawerTitle}</SheetTitle>
+            {drillPayload || drawerAttempt ? (
+              <div>
+                <CardExportMenu
+                  getCards={collectDrawerCards}
+                  deckName={node?.title || t("pathNode.node")}
+                  fileBaseName={exportFileBaseName(`${node?.title || "lesson"}-${drawerKind || "drill"}`)}
+                />
+              </div>
+            ) : null}
           </SheetHeader>
 
           <div className="mt-3 sm:mt-4">
@@ -5653,9 +6113,11 @@ export default function PathNodePage() {
               <div className="rounded-lg sm:rounded-xl border border-border bg-muted/30 p-3 sm:p-4 text-sm text-muted-foreground">
                 {drawerError}
               </div>
-            ) : drillPayload ? (
+            ) : drillPayload || drawerAttempt ? (
               <>
-                {drawerKind === "flashcards" ? <FlashcardsDrill drill={drillPayload} /> : null}
+                {drawerKind === "flashcards" && drillPayload ? (
+                  <FlashcardsDrill drill={drillPayload} pathId={pathId} pathNodeId={nodeId ?? ""} />
+                ) : null}
                 {drawerKind === "quiz" ? (
                   <QuizDrill
                     drill={drillPayload}
@@ -5663,6 +6125,11 @@ export default function PathNodePage() {
                     pathNodeId={nodeId ?? ""}
                     defaultConceptKeys={conceptKeys}
                     conceptIdByKey={conceptIdByKey}
+                    initialAttempt={drawerAttempt}
+                    onOpenSource={(citation) => {
+                      setDrawerOpen(false);
+                      openCitationSource(citation, { type: "quiz" });
+                    }}
                   />
                 ) : null}
               </>
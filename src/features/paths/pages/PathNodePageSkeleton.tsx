@@ -0,0 +1,47 @@
+import { Container } from "@/shared/layout/Container";
+import { Skeleton, SkeletonText } from "@/shared/ui/skeleton";
+
+export function PathNodePageSkeleton({ embedded = false }: { embedded?: boolean } = {}) {
+  const body = (
+    <div className="mx-auto w-full max-w-5xl">
+      {/* Header skeleton - responsive */}
+      <div className="mb-6 sm:mb-8 space-y-2.5 sm:space-y-3">
+        <div className="flex items-center gap-2">
+          <Skeleton className="h-8 sm:h-9 w-20 sm:w-24 rounded-full" />
+          <Skeleton className="h-3.5 sm:h-4 w-32 sm:w-44 rounded-full" />
+        </div>
+        <Skeleton className="h-8 sm:h-10 w-[85%] sm:w-10/12 rounded-full" />
+        <div className="flex flex-wrap gap-1.5 pt-1">
+          {Array.from({ length: 6 }).map((_, i) => (
+            // eslint-disable-next-line react/no-array-index-key
+            <Skeleton key={i} className="h-5 sm:h-6 w-16 sm:w-20 rounded-full" />
+          ))}
+        </div>
+      </div>
+
+      {/* Content skeleton - responsive */}
+      <div className="rounded-xl sm:rounded-2xl border border-border/60 bg-card/70 shadow-sm backdrop-blur">
+        <div className="px-4 py-6 sm:px-6 sm:py-8 md:px-8 md:py-10">
+          <div className="space-y-4 sm:space-y-6">
+            <Skeleton className="h-5 sm:h-6 w-36 sm:w-44 rounded-full" />
+            <SkeletonText lines={4} className="max-w-[72ch]" />
+            <Skeleton className="h-[160px] sm:h-[200px] md:h-[220px] w-full rounded-xl sm:rounded-2xl" />
+            <SkeletonText lines={3} className="max-w-[72ch]" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+
+  if (embedded) {
+    return <div aria-busy="true">{body}</div>;
+  }
+
+  return (
+    <div className="page-surface" aria-busy="true">
+      <Container size="2xl" className="page-pad">
+        {body}
+      </Container>
+    </div>
+  );
+}
@@ -10,16 +10,21 @@ import { listNodesForPath, recordPathView } from "@/shared/api/PathService";
 import { ConceptGraphView } from "@/features/paths/components/ConceptGraphView";
 import { PathCardLarge } from "@/features/paths/components/PathCardLarge";
 import { EmptyContent } from "@/shared/components/EmptyContent";
-import { PathMaterialsView } from "@/features/paths/components/PathMaterialsView";
+import { PathMaterialsView, type MaterialsFocus } from "@/features/paths/components/PathMaterialsView";
+import { OfflinePathButton } from "@/features/paths/components/OfflinePathControls";
+import { CardExportMenu } from "@/features/paths/components/CardExportMenu";
+import { PersonalDecksSection } from "@/features/paths/components/PersonalDecks";
+import { PathNotesView } from "@/features/paths/components/PathNotesView";
+import { collectPathCards, exportFileBaseName } from "@/features/paths/lib/cardExport";
 import { Container } from "@/shared/layout/Container";
 import { Avatar, AvatarFallback, AvatarImage } from "@/shared/ui/avatar";
 import { useI18n } from "@/app/providers/I18nProvider";
 import { Badge } from "@/shared/ui/badge";
-import { Skeleton, SkeletonText } from "@/shared/ui/skeleton";
 import { clampPct, stageLabel } from "@/shared/lib/learningBuildStages";
 import { cn } from "@/shared/lib/utils";
 import { queryKeys } from "@/shared/query/queryKeys";
 import type { Path, PathNode } from "@/shared/types/models";
+import { PathOutlineSkeleton, PathPageSkeleton } from "@/features/paths/pages/PathPageSkeleton";
 
 type OutlineRow = { node: PathNode; depth: number; hasChildren: boolean };
 
@@ -85,68 +90,11 @@ function availabilityHint(status: NodeAvailabilityStatus): string {
   }
 }
 
-function PathOutlineSkeleton() {
-  const depths = [0, 0, 1, 1, 2, 0, 1, 2];
-  return (
-    <div className="space-y-2" aria-hidden="true">
-      {depths.map((depth, i) => {
-        const indent = Math.min(depth, 4) * 16;
-        return (
-          <div
-            // eslint-disable-next-line react/no-array-index-key
-            key={i}
-            className="w-full rounded-xl border border-border bg-background px-4 py-4"
-          >
-            <div className="flex items-start gap-3">
-              {indent > 0 ? <div aria-hidden="true" style={{ width: indent }} /> : null}
-              <Skeleton className="h-10 w-10 rounded-2xl" />
-              <div className="flex-1 space-y-2">
-                <Skeleton className="h-5 w-9/12 rounded-full" />
-                <Skeleton className="h-4 w-6/12 rounded-full" />
-              </div>
-            </div>
-          </div>
-        );
-      })}
-    </div>
-  );
-}
-
-export function PathPageSkeleton({ embedded = false }: { embedded?: boolean } = {}) {
-  const body = (
-    <>
-      {/* Header skeleton - responsive */}
-      <div className="mb-8 sm:mb-10 md:mb-12 space-y-3 sm:space-y-4">
-        <Skeleton className="h-9 xs:h-10 sm:h-12 w-[90%] sm:w-10/12 rounded-full" />
-        <SkeletonText lines={2} className="max-w-2xl" />
-      </div>
-
-      {/* Outline skeleton - responsive */}
-      <div className="mb-8 sm:mb-10 md:mb-12">
-        <Skeleton className="mb-4 sm:mb-6 h-4 w-32 sm:w-40 rounded-full" />
-        <PathOutlineSkeleton />
-      </div>
-    </>
-  );
-
-  if (embedded) {
-    return <div aria-busy="true">{body}</div>;
-  }
-
-  return (
-    <div className="page-surface" aria-busy="true">
-      <Container size="app" className="page-pad">
-        {body}
-      </Container>
-    </div>
-  );
-}
-
 export default function PathPage() {
   const { id: pathId } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { t } = useI18n();
-  const [searchParams] = useSearchParams();
+  const [searchParams, setSearchParams] = useSearchParams();
 
   const { getById, activatePath, setActivePath, paths } = usePaths();
   const { clearActiveLesson } = useLessons();
@@ -161,9 +109,22 @@ export default function PathPage() {
   }, [searchParams]);
   const view = viewParam === "mindmap" || viewParam === "graph" ? "graph" : "outline";
   const isMaterialsView = viewParam === "materials";
+  const materialsFocus = useMemo((): MaterialsFocus | null => {
+    const chunkId = String(searchParams.get("chunk") || "").trim();
+    const fileId = String(searchParams.get("file") || "").trim();
+    if (!chunkId && !fileId) return null;
+    const page = Number(searchParams.get("page"));
+    return {
+      chunkId: chunkId || null,
+      fileId: fileId || null,
+      page: Number.isFinite(page) && page > 0 ? Math.trunc(page) : null,
+      quote: searchParams.get("quote") || null,
+    };
+  }, [searchParams]);
   const isAudioView = viewParam === "audio";
+  const isNotesView = viewParam === "notes";
   const isMindmapView = view === "graph";
-  const isUnitView = !isMindmapView && !isMaterialsView && !isAudioView;
+  const isUnitView = !isMindmapView && !isMaterialsView && !isAudioView && !isNotesView;
   const isProgram = String(path?.kind || "").toLowerCase() === "program";
 
   const childrenByParent = useMemo(() => {
@@ -410,6 +371,21 @@ export default function PathPage() {
             {displayDescription}
           </p>
 
+          {path?.id && !showProgress ? (
+            <div className="flex flex-wrap items-center gap-2">
+              <OfflinePathButton pathId={String(path.id)} />
+              {nodes.length > 0 ? (
+                <CardExportMenu
+                  getCards={() => collectPathCards(nodes)}
+                  deckName={path.title || t("paths.path")}
+                  fileBaseName={exportFileBaseName(path.title || "path")}
+                />
+              ) : null}
+            </div>
+          ) : null}
+
+          {path?.id && !showProgress ? <PersonalDecksSection pathId={String(path.id)} className="max-w-xl" /> : null}
+
           {/* Generation progress card - responsive */}
           {showGen ? (
             <div className="rounded-xl sm:rounded-2xl border border-border/60 bg-muted/20 p-3 sm:p-4">
@@ -479,7 +455,13 @@ export default function PathPage() {
             <ConceptGraphView pathId={pathId} />
           )
         ) : isMaterialsView ? (
-          <PathMaterialsView pathId={pathId} />
+          <PathMaterialsView
+            pathId={pathId}
+            focus={materialsFocus}
+            onDismissFocus={() => setSearchParams({ view: "materials" }, { replace: true })}
+          />
+        ) : isNotesView ? (
+          <PathNotesView pathId={String(pathId || "")} nodes={nodes} />
         ) : isAudioView ? (
           <EmptyContent
             title={t("paths.audio.title")}
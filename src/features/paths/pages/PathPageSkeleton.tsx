@@ -0,0 +1,59 @@
+import { Container } from "@/shared/layout/Container";
+import { Skeleton, SkeletonText } from "@/shared/ui/skeleton";
+
+export function PathOutlineSkeleton() {
+  const depths = [0, 0, 1, 1, 2, 0, 1, 2];
+  return (
+    <div className="space-y-2" aria-hidden="true">
+      {depths.map((depth, i) => {
+        const indent = Math.min(depth, 4) * 16;
+        return (
+          <div
+            // eslint-disable-next-line react/no-array-index-key
+            key={i}
+            className="w-full rounded-xl border border-border bg-background px-4 py-4"
+          >
+            <div className="flex items-start gap-3">
+              {indent > 0 ? <div aria-hidden="true" style={{ width: indent }} /> : null}
+              <Skeleton className="h-10 w-10 rounded-2xl" />
+              <div className="flex-1 space-y-2">
+                <Skeleton className="h-5 w-9/12 rounded-full" />
+                <Skeleton className="h-4 w-6/12 rounded-full" />
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export function PathPageSkeleton({ embedded = false }: { embedded?: boolean } = {}) {
+  const body = (
+    <>
+      {/* Header skeleton - responsive */}
+      <div className="mb-8 sm:mb-10 md:mb-12 space-y-3 sm:space-y-4">
+        <Skeleton className="h-9 xs:h-10 sm:h-12 w-[90%] sm:w-10/12 rounded-full" />
+        <SkeletonText lines={2} className="max-w-2xl" />
+      </div>
+
+      {/* Outline skeleton - responsive */}
+      <div className="mb-8 sm:mb-10 md:mb-12">
+        <Skeleton className="mb-4 sm:mb-6 h-4 w-32 sm:w-40 rounded-full" />
+        <PathOutlineSkeleton />
+      </div>
+    </>
+  );
+
+  if (embedded) {
+    return <div aria-busy="true">{body}</div>;
+  }
+
+  return (
+    <div className="page-surface" aria-busy="true">
+      <Container size="app" className="page-pad">
+        {body}
+      </Container>
+    </div>
+  );
+}
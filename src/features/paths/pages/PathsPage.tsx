@@ -3,13 +3,13 @@ import { FolderOpen } from "lucide-react";
 import { AnimatePresence, m } from "framer-motion";
 
 import { usePaths } from "@/app/providers/PathProvider";
-import { PathCardLarge, PathCardLargeSkeleton } from "@/features/paths/components/PathCardLarge";
+import { PathCardLarge } from "@/features/paths/components/PathCardLarge";
 import { EmptyContent } from "@/shared/components/EmptyContent";
 import { Container } from "@/shared/layout/Container";
 import { nbFadeUp, nbTransitions } from "@/shared/motion/presets";
 import type { Path } from "@/shared/types/models";
 import { useI18n } from "@/app/providers/I18nProvider";
-import { Skeleton, SkeletonText } from "@/shared/ui/skeleton";
+import { PathsPageSkeleton } from "@/features/paths/pages/PathsPageSkeleton";
 
 type LegacyTimestampPath = { updated_at?: string | null; created_at?: string | null };
 
@@ -28,36 +28,6 @@ function bySortThenUpdatedDesc(a: Path, b: Path) {
   return byUpdatedDesc(a, b);
 }
 
-export function PathsPageSkeleton({ embedded = false }: { embedded?: boolean } = {}) {
-  const body = (
-    <>
-      <div className="mb-10 space-y-3">
-        <Skeleton className="h-10 w-56 rounded-full" />
-        <SkeletonText lines={2} className="max-w-lg" />
-      </div>
-
-      <div className="grid gap-4 sm:gap-6 grid-cols-1 xs:grid-cols-[repeat(auto-fill,minmax(min(100%,280px),360px))] sm:grid-cols-[repeat(auto-fill,minmax(min(100%,320px),360px))]">
-        {Array.from({ length: 6 }).map((_, i) => (
-          // eslint-disable-next-line react/no-array-index-key
-          <PathCardLargeSkeleton key={i} />
-        ))}
-      </div>
-    </>
-  );
-
-  if (embedded) {
-    return <div aria-busy="true">{body}</div>;
-  }
-
-  return (
-    <div className="page-surface" aria-busy="true">
-      <Container size="app" className="page-pad">
-        {body}
-      </Container>
-    </div>
-  );
-}
-
 export default function PathsPage() {
   const { paths, loading } = usePaths();
   const { t } = useI18n();
@@ -0,0 +1,214 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { CalendarCheck, Layers } from "lucide-react";
+import { AnimatePresence, m } from "framer-motion";
+
+import { useI18n } from "@/app/providers/I18nProvider";
+import { Button } from "@/shared/ui/button";
+import { CodeBlock, InlineCode } from "@/shared/components/CodeBlock";
+import { EmptyContent } from "@/shared/components/EmptyContent";
+import { Container } from "@/shared/layout/Container";
+import { nbFadeUp, nbTransitions } from "@/shared/motion/presets";
+import { useReviewQueue } from "@/shared/hooks/useReviewQueue";
+import { gradeReviewCard } from "@/shared/services/ReviewQueue";
+import { REVIEW_GRADES, previewReviewIntervals } from "@/shared/lib/srs";
+import type { ReviewGrade } from "@/shared/lib/srs";
+import { cn } from "@/shared/lib/utils";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const GRADE_KEYS: Record<string, ReviewGrade> = { "1": "again", "2": "hard", "3": "good", "4": "easy" };
+
+const markdownCodeComponents = {
+  code({
+    inline,
+    className,
+    children,
+  }: {
+    inline?: boolean;
+    className?: string;
+    children?: React.ReactNode;
+  }) {
+    const raw = String(children || "");
+    const m = /language-([a-zA-Z0-9_-]+)/.exec(className || "");
+    const lang = m?.[1] || "";
+    if (inline) return <InlineCode>{raw}</InlineCode>;
+    return <CodeBlock language={lang}>{raw.replace(/\n$/, "")}</CodeBlock>;
+  },
+};
+
+function useFormatInterval() {
+  const { t } = useI18n();
+  return useCallback(
+    (ms: number) => {
+      if (ms < MINUTE_MS) return t("review.interval.now");
+      if (ms < HOUR_MS) return t("review.interval.minutes", { count: Math.round(ms / MINUTE_MS) });
+      if (ms < DAY_MS) return t("review.interval.hours", { count: Math.round(ms / HOUR_MS) });
+      if (ms < 30 * DAY_MS) return t("review.interval.days", { count: Math.round(ms / DAY_MS) });
+      return t("review.interval.months", { count: Math.round(ms / (30 * DAY_MS)) });
+    },
+    [t]
+  );
+}
+
+export default function ReviewPage() {
+  const { t } = useI18n();
+  const formatInterval = useFormatInterval();
+  const { cards, dueCards, dueCount, nextDueAt, refreshNow } = useReviewQueue();
+  const [revealed, setRevealed] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  const card = dueCards[0] ?? null;
+  const cardId = card?.id ?? "";
+
+  useEffect(() => {
+    setRevealed(false);
+  }, [cardId]);
+
+  const intervals = useMemo(() => (card ? previewReviewIntervals(card.srs) : null), [card]);
+
+  const grade = useCallback(
+    (value: ReviewGrade) => {
+      if (!cardId || !revealed) return;
+      gradeReviewCard(cardId, value);
+      setReviewedCount((n) => n + 1);
+      refreshNow();
+    },
+    [cardId, refreshNow, revealed]
+  );
+
+  useEffect(() => {
+    if (!cardId) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName))) return;
+      if (!revealed && (e.key === " " || e.key === "Enter")) {
+        e.preventDefault();
+        setRevealed(true);
+        return;
+      }
+      const mapped = GRADE_KEYS[e.key];
+      if (revealed && mapped) {
+        e.preventDefault();
+        grade(mapped);
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [cardId, grade, revealed]);
+
+  return (
+    <div className="page-surface">
+      <Container size="app" className="page-pad">
+        <div className="mb-10 space-y-3">
+          <h1 className="text-balance text-3xl font-semibold tracking-tight text-foreground sm:text-4xl">
+            {t("review.title")}
+          </h1>
+          <p className="text-pretty text-sm text-muted-foreground sm:text-base">
+            {cards.length > 0
+              ? t("review.subtitle", { due: dueCount, total: cards.length })
+              : t("review.subtitle.empty")}
+          </p>
+        </div>
+
+        {cards.length === 0 ? (
+          <EmptyContent
+            title={t("review.empty.title")}
+            message={t("review.empty.message")}
+            helperText={t("review.empty.helper")}
+            icon={<Layers className="h-7 w-7" />}
+          />
+        ) : !card ? (
+          <EmptyContent
+            title={t("review.caughtUp.title")}
+            message={
+              reviewedCount > 0
+                ? t("review.caughtUp.reviewed", { count: reviewedCount })
+                : t("review.caughtUp.message")
+            }
+            helperText={
+              nextDueAt ? t("review.caughtUp.next", { when: formatInterval(nextDueAt - Date.now()) }) : undefined
+            }
+            icon={<CalendarCheck className="h-7 w-7" />}
+          />
+        ) : (
+          <AnimatePresence mode="wait" initial={false}>
+            <m.div
+              key={card.id}
+              initial="initial"
+              animate="animate"
+              exit="exit"
+              variants={nbFadeUp}
+              transition={nbTransitions.micro}
+              className="mx-auto max-w-2xl space-y-4"
+            >
+              <div className="flex items-center justify-between gap-3 text-xs text-muted-foreground">
+                <span className="font-medium">
+                  {reviewedCount > 0
+                    ? t("review.progress", { reviewed: reviewedCount, remaining: dueCount })
+                    : t("review.remaining", { count: dueCount })}
+                </span>
+                {card.pathNodeId ? (
+                  <Link
+                    to={`/path-nodes/${card.pathNodeId}`}
+                    className="underline underline-offset-4 hover:text-foreground"
+                  >
+                    {t("review.openLesson")}
+                  </Link>
+                ) : null}
+              </div>
+
+              <div className="rounded-2xl border border-border bg-background/60 p-5 shadow-sm sm:p-6">
+                <div className="text-[16px] leading-7 text-foreground/90">
+                  <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownCodeComponents}>
+                    {card.frontMd}
+                  </ReactMarkdown>
+                </div>
+                {revealed ? (
+                  <div className="mt-5 border-t border-border/60 pt-5 text-[16px] leading-7 text-foreground/90">
+                    <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownCodeComponents}>
+                      {card.backMd}
+                    </ReactMarkdown>
+                  </div>
+                ) : null}
+              </div>
+
+              {!revealed ? (
+                <div className="flex justify-center">
+                  <Button onClick={() => setRevealed(true)} className="h-11 min-w-40 sm:h-10">
+                    {t("review.showAnswer")}
+                  </Button>
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+                  {REVIEW_GRADES.map((value, i) => (
+                    <Button
+                      key={value}
+                      variant={value === "good" ? "default" : "outline"}
+                      onClick={() => grade(value)}
+                      aria-keyshortcuts={String(i + 1)}
+                      className={cn("h-auto flex-col gap-0.5 py-2", value === "again" && "text-destructive")}
+                    >
+                      <span>{t(`review.grade.${value}`)}</span>
+                      <span className="text-[11px] font-normal opacity-70">
+                        {intervals ? formatInterval(intervals[value]) : null}
+                      </span>
+                    </Button>
+                  ))}
+                </div>
+              )}
+              <p className="text-center text-[11px] text-muted-foreground">
+                {revealed ? t("review.hint.grade") : t("review.hint.reveal")}
+              </p>
+            </m.div>
+          </AnimatePresence>
+        )}
+      </Container>
+    </div>
+  );
+}
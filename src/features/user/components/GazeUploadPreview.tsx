@@ -0,0 +1,152 @@
+import { useMemo, useState } from "react";
+import {
+  getLastGazeUpload,
+  type GazeHit,
+  type GazeIngestRequest,
+  type GazeSummaryRequest,
+  type GazeUploadMode,
+} from "@/shared/api/GazeService";
+import { GazeAggregator } from "@/shared/services/GazeAggregator";
+import { getGazeProviderConfig } from "@/shared/services/GazeProvider";
+import { buildGazeHit } from "@/shared/lib/gazeHit";
+import { Button } from "@/shared/ui/button";
+import { cn } from "@/shared/lib/utils";
+
+const RAW_FIELDS = [
+  "Lesson and block IDs, plus the line you were looking at",
+  "Gaze position on screen (x, y), before and after snapping to the line",
+  "Tracker confidence, eye movement speed and per-hit timestamps",
+  "Which gaze source produced the hit (camera, mouse simulator or replay)",
+  "How the hit was matched to a line, and the line tracker's state and confidence",
+  "Screen size and the calibration correction in effect",
+  "How much of each block counts as read",
+];
+
+const AGGREGATE_FIELDS = [
+  "Lesson and block IDs, and line numbers within each block",
+  "Total time on each block and line, in milliseconds",
+  "Fixation and regression (re-reading) counts per block and line",
+  "How much of each block counts as read",
+  "The start and end of the window the totals cover",
+];
+
+const EXAMPLE_START = Date.parse("2026-01-01T09:00:00.000Z");
+
+// Walks two blocks line by line with one look back. Hits are built exactly as the reader builds
+// them, with this device's gaze source.
+function exampleHits(): GazeHit[] {
+  const source = getGazeProviderConfig().kind;
+  const path: Array<[string, number, number]> = [
+    ["block_intro", 0, 6],
+    ["block_intro", 1, 5],
+    ["block_intro", 2, 4],
+    ["block_intro", 1, 3],
+    ["block_example", 0, 7],
+  ];
+  const hits: GazeHit[] = [];
+  let t = EXAMPLE_START;
+  for (const [blockId, line, count] of path) {
+    for (let i = 0; i < count; i += 1) {
+      t += 100;
+      const lineCenterX = 420 + i * 38;
+      const lineCenterY = 212 + line * 28;
+      hits.push(
+        buildGazeHit({
+          blockId,
+          lineId: `${blockId}:${line}`,
+          lineIndex: line,
+          lineCenterX,
+          lineCenterY,
+          gaze: { x: lineCenterX + 16, y: lineCenterY - 9, confidence: 0.82, velocity: 140, source },
+          bias: { x: -16, y: 9 },
+          snap: "line_state",
+          lineStateConfidence: 0.7,
+          lineStateMode: "reading",
+          at: t,
+          dtMs: 100,
+          readCredit: blockId === "block_intro" ? 0.74 : 0.31,
+          screenW: 1440,
+          screenH: 900,
+        })
+      );
+    }
+  }
+  return hits;
+}
+
+function exampleRawPayload(): GazeIngestRequest {
+  return {
+    path_id: "path_123",
+    node_id: "node_456",
+    hits: exampleHits().slice(0, 2),
+  };
+}
+
+function exampleSummaryPayload(): GazeSummaryRequest | null {
+  const order = new Map([
+    ["block_intro", 0],
+    ["block_example", 1],
+  ]);
+  const aggregator = new GazeAggregator({ blockIndex: (id) => order.get(id) });
+  for (const hit of exampleHits()) {
+    aggregator.add(hit, { pathId: "path_123", nodeId: "node_456" });
+  }
+  return aggregator.drain()[0] ?? null;
+}
+
+/** Plain list of the uploaded fields for a mode, with an example and the last real payload. */
+export function GazeUploadPreview({ mode, className }: { mode: GazeUploadMode; className?: string }) {
+  const [showLast, setShowLast] = useState(false);
+  const example = useMemo(
+    () => (mode === "aggregate" ? exampleSummaryPayload() : exampleRawPayload()),
+    [mode]
+  );
+  const lastUpload = showLast ? getLastGazeUpload() : null;
+  const fields = mode === "aggregate" ? AGGREGATE_FIELDS : RAW_FIELDS;
+
+  return (
+    <div className={cn("space-y-3 text-xs", className)}>
+      <div>
+        <div className="font-medium text-foreground">What gets sent</div>
+        <ul className="mt-1 list-disc space-y-0.5 ps-4 text-muted-foreground">
+          {fields.map((field) => (
+            <li key={field}>{field}</li>
+          ))}
+        </ul>
+        <div className="mt-1 text-muted-foreground">
+          {mode === "aggregate"
+            ? "Summaries are sent about every 30 seconds and when you leave the page. Camera images never leave this device."
+            : "Hits are sent about once a second while you read. Camera images never leave this device."}
+        </div>
+      </div>
+
+      <div>
+        <div className="font-medium text-foreground">Example payload</div>
+        <pre className="mt-1 max-h-64 overflow-auto rounded-lg border border-border/60 bg-background/60 p-2 font-mono text-[11px] leading-snug text-muted-foreground">
+          {JSON.stringify(example, null, 2)}
+        </pre>
+      </div>
+
+      <div className="space-y-1">
+        <Button size="sm" variant="ghost" aria-expanded={showLast} onClick={() => setShowLast((v) => !v)}>
+          {showLast ? "Hide last upload" : "Show last upload"}
+        </Button>
+        {showLast ? (
+          lastUpload ? (
+            <>
+              <div className="text-muted-foreground">
+                Sent {new Date(lastUpload.at).toLocaleTimeString()} as{" "}
+                {lastUpload.mode === "aggregate" ? "summaries" : "raw hits"}
+              </div>
+              <pre className="max-h-64 overflow-auto rounded-lg border border-border/60 bg-background/60 p-2 font-mono text-[11px] leading-snug text-muted-foreground">
+                {JSON.stringify(lastUpload.body, null, 2)}
+              </pre>
+            </>
+          ) : (
+            <div className="text-muted-foreground">Nothing has been sent in this session yet.</div>
+          )
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -28,10 +28,20 @@ import {
 } from "@/shared/ui/select";
 import { useToast } from "@/shared/ui/toast";
 import { cn } from "@/shared/lib/utils";
-import { persistEyeTrackingPreference, requestEyeTrackingPermission } from "@/shared/hooks/useEyeTrackingPreference";
+import type { GazeUploadMode } from "@/shared/api/GazeService";
+import {
+  getEyeTrackingTuningOverrides,
+  getGazeUploadMode,
+  persistEyeTrackingPreference,
+  persistGazeUploadMode,
+  requestEyeTrackingPermission,
+  useEyeTrackingTuning,
+} from "@/shared/hooks/useEyeTrackingPreference";
 import { useEyeCalibration } from "@/shared/hooks/useEyeCalibration";
 import { useEyeTracking } from "@/shared/hooks/useEyeTracking";
 import { EyeCalibrationOverlay } from "@/shared/components/EyeCalibrationOverlay";
+import { EyeTrackingTuningPanel } from "@/shared/components/EyeTrackingTuningPanel";
+import { GazeUploadPreview } from "@/features/user/components/GazeUploadPreview";
 
 type LanguagePreference = "auto" | "en" | "es" | "fr" | "de" | "pt";
 type UnitSystem = "metric" | "imperial";
@@ -87,6 +97,7 @@ type PersonalizationPrefsV1 = {
   allowBehaviorPersonalization: boolean;
   allowTelemetry: boolean;
   allowEyeTracking: boolean;
+  gazeUploadMode: GazeUploadMode;
 };
 
 function safeParseJSON(value: string): unknown | null {
@@ -202,6 +213,7 @@ function buildDefaults(opts: {
     allowBehaviorPersonalization: true,
     allowTelemetry: true,
     allowEyeTracking: false,
+    gazeUploadMode: getGazeUploadMode(),
   };
 }
 
@@ -294,9 +306,16 @@ function normalizePrefs(raw: unknown, defaults: PersonalizationPrefsV1): Persona
     allowBehaviorPersonalization: bool(obj.allowBehaviorPersonalization, defaults.allowBehaviorPersonalization),
     allowTelemetry: bool(obj.allowTelemetry, defaults.allowTelemetry),
     allowEyeTracking: bool((obj as { allowEyeTracking?: unknown }).allowEyeTracking, defaults.allowEyeTracking),
+    gazeUploadMode: oneOf(obj.gazeUploadMode, ["raw", "aggregate"] as const, defaults.gazeUploadMode),
   };
 }
 
+// Tuning is written only through useEyeTrackingTuning; saves from this tab carry the device's
+// current copy so they never roll back a change made from the reader's live panel.
+function withDeviceTuning(prefs: PersonalizationPrefsV1) {
+  return { ...prefs, eyeTrackingTuning: getEyeTrackingTuningOverrides() };
+}
+
 function storageKeyForUser(userId: string) {
   return `nb:personalization:v1:${userId}`;
 }
@@ -921,22 +940,28 @@ const PersonalizationControlsSection = memo(function PersonalizationControlsSect
   allowBehaviorPersonalization,
   allowTelemetry,
   allowEyeTracking,
+  gazeUploadMode,
   setPrefs,
   onReset,
 }: {
   allowBehaviorPersonalization: boolean;
   allowTelemetry: boolean;
   allowEyeTracking: boolean;
+  gazeUploadMode: GazeUploadMode;
   setPrefs: PrefsSetter;
   onReset: () => void;
 }) {
   const [confirmReset, setConfirmReset] = useState(false);
   const [eyeTrackingBusy, setEyeTrackingBusy] = useState(false);
   const [showCalibration, setShowCalibration] = useState(false);
+  const [showTuning, setShowTuning] = useState(false);
+  const [showUploadPreview, setShowUploadPreview] = useState(false);
   const { push } = useToast();
-  const { calibrationState, needsCalibration, markCalibrated, clearCalibration } = useEyeCalibration();
+  const { calibrationState, needsCalibration, markCalibrated, clearCalibration, calibrationValidation } =
+    useEyeCalibration();
   const shouldTrack = allowEyeTracking || showCalibration;
   const { rawGazeRef } = useEyeTracking(shouldTrack);
+  const { overrides: eyeTrackingTuning, setOverrides: setEyeTrackingTuning } = useEyeTrackingTuning();
 
   const handleEyeTrackingToggle = useCallback(
     async (checked: boolean) => {
@@ -1010,6 +1035,50 @@ const PersonalizationControlsSection = memo(function PersonalizationControlsSect
             disabled={eyeTrackingBusy}
           />
         </SettingRow>
+        {allowEyeTracking ? (
+          <SettingRow
+            title="Reading data sent"
+            description={
+              gazeUploadMode === "aggregate"
+                ? "Only per-block and per-line reading totals leave this device."
+                : "Individual gaze hits are sent for the most accurate reading detection."
+            }
+          >
+            <div className="flex flex-wrap items-center gap-2">
+              <Button
+                size="sm"
+                variant="ghost"
+                aria-expanded={showUploadPreview}
+                onClick={() => setShowUploadPreview((v) => !v)}
+              >
+                What gets sent
+              </Button>
+              <Select
+                value={gazeUploadMode}
+                onValueChange={(v) =>
+                  setPrefs((prev) => ({
+                    ...prev,
+                    gazeUploadMode: oneOf(v, ["raw", "aggregate"] as const, prev.gazeUploadMode),
+                  }))
+                }
+              >
+                <SelectTrigger className="w-full sm:w-48 rounded-xl bg-muted/20 border-border/60">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="raw">Raw gaze hits</SelectItem>
+                  <SelectItem value="aggregate">Summaries only</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </SettingRow>
+        ) : null}
+        {allowEyeTracking && showUploadPreview ? (
+          <GazeUploadPreview
+            mode={gazeUploadMode}
+            className="rounded-xl border border-border/60 bg-muted/20 p-3 sm:p-4"
+          />
+        ) : null}
         {allowEyeTracking ? (
           <div className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-border/60 bg-muted/30 px-3 py-2">
             <div className="text-xs text-muted-foreground">
@@ -1019,12 +1088,27 @@ const PersonalizationControlsSection = memo(function PersonalizationControlsSect
                 : calibrationState === "stale"
                 ? "recommended"
                 : "required"}
+              {calibrationState !== "missing" && calibrationValidation
+                ? ` · ~${calibrationValidation.meanErrorPx}px average error`
+                : null}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" variant="ghost" aria-expanded={showTuning} onClick={() => setShowTuning((v) => !v)}>
+                Advanced
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setShowCalibration(true)}>
+                {needsCalibration ? "Calibrate" : "Recalibrate"}
+              </Button>
             </div>
-            <Button size="sm" variant="outline" onClick={() => setShowCalibration(true)}>
-              {needsCalibration ? "Calibrate" : "Recalibrate"}
-            </Button>
           </div>
         ) : null}
+        {allowEyeTracking && showTuning ? (
+          <EyeTrackingTuningPanel
+            value={eyeTrackingTuning}
+            onChange={setEyeTrackingTuning}
+            className="rounded-xl border border-border/60 bg-muted/20 p-3 sm:p-4"
+          />
+        ) : null}
 
         <div className="rounded-2xl border border-border/60 bg-muted/20 p-4">
           <div className="flex items-start justify-between gap-3">
@@ -1115,14 +1199,14 @@ export function PersonalizationTab() {
 
   const patchMutation = useMutation({
     mutationFn: async (nextPrefs: PersonalizationPrefsV1) => {
-      const { prefs } = await patchPersonalizationPrefs(nextPrefs);
+      const { prefs } = await patchPersonalizationPrefs(withDeviceTuning(nextPrefs));
       return prefs;
     },
     onMutate: async (nextPrefs) => {
       if (!userId) return { prev: null };
       const key = queryKeys.personalizationPrefs(userId);
       const prev = queryClient.getQueryData<unknown | null>(key) ?? null;
-      queryClient.setQueryData(key, nextPrefs);
+      queryClient.setQueryData(key, withDeviceTuning(nextPrefs));
       return { prev };
     },
     onSuccess: (_serverPrefs, sentPrefs) => {
@@ -1166,6 +1250,10 @@ export function PersonalizationTab() {
     persistEyeTrackingPreference(Boolean(prefs.allowEyeTracking));
   }, [prefs.allowEyeTracking]);
 
+  useEffect(() => {
+    persistGazeUploadMode(prefs.gazeUploadMode);
+  }, [prefs.gazeUploadMode]);
+
   useEffect(() => {
     if (prevUserIdRef.current === userId) return;
     prevUserIdRef.current = userId;
@@ -1402,6 +1490,7 @@ export function PersonalizationTab() {
         allowBehaviorPersonalization={prefs.allowBehaviorPersonalization}
         allowTelemetry={prefs.allowTelemetry}
         allowEyeTracking={prefs.allowEyeTracking}
+        gazeUploadMode={prefs.gazeUploadMode}
         setPrefs={setPrefs}
         onReset={resetToDefaults}
       />
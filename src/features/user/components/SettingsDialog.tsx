@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useState } from "react";
+import { Suspense, lazy, useEffect, useMemo, useState } from "react";
 import { useTheme } from "@/app/providers/ThemeProvider";
 import { useI18n } from "@/app/providers/I18nProvider";
 import { useUser } from "@/app/providers/UserProvider";
@@ -11,10 +11,16 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Input } from "@/shared/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/shared/ui/select";
 import { Separator } from "@/shared/ui/separator";
+import { SkeletonText } from "@/shared/ui/skeleton";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/shared/ui/accordion";
-import { PersonalizationTab } from "@/features/user/components/PersonalizationTab";
+import { OfflineStorageSection } from "@/features/paths/components/OfflinePathControls";
 import type { ThemePreference, UiTheme } from "@/shared/types/models";
 
+// The personalization tab carries the eye-tracking stack; load it only when the tab is opened.
+const PersonalizationTab = lazy(() =>
+  import("@/features/user/components/PersonalizationTab").then((m) => ({ default: m.PersonalizationTab }))
+);
+
 export type SettingsTab = "general" | "notifications" | "personalization" | "account";
 
 interface SettingsDialogProps {
@@ -169,7 +175,11 @@ export function SettingsDialog({ open, onOpenChange, initialTab = "general" }: S
                 />
               )}
               {activeTab === "notifications" && <PlaceholderTab label={t("settings.notifications")} />}
-              {activeTab === "personalization" && <PersonalizationTab />}
+              {activeTab === "personalization" && (
+                <Suspense fallback={<SkeletonText lines={4} />}>
+                  <PersonalizationTab />
+                </Suspense>
+              )}
               {activeTab === "account" && <PlaceholderTab label={t("settings.account")} />}
             </div>
           </div>
@@ -358,6 +368,10 @@ function GeneralTab({ currentTheme, currentUiTheme, onChangeTheme, onChangeUiThe
         </button>
       </div>
 
+      <div className="pt-6 border-t border-border/60">
+        <OfflineStorageSection />
+      </div>
+
       <Dialog
         open={langOpen}
         onOpenChange={(next) => {
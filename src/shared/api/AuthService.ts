@@ -24,22 +24,30 @@ export interface OAuthNonceResponse {
 }
 
 export async function loginUser(creds: LoginCredentials): Promise<AuthTokensResponse> {
-  const response = await axiosClient.post<AuthTokensResponse>("/login", creds);
+  const response = await axiosClient.post<AuthTokensResponse>("/login", creds, {
+    skipAuthRefresh: true,
+  });
   return response.data;
 }
 
 export async function registerUser(data: RegisterPayload): Promise<AuthTokensResponse> {
-  const response = await axiosClient.post<AuthTokensResponse>("/register", data);
+  const response = await axiosClient.post<AuthTokensResponse>("/register", data, {
+    skipAuthRefresh: true,
+  });
   return response.data;
 }
 
 export async function refreshToken(): Promise<AuthTokensResponse> {
-  const response = await axiosClient.post<AuthTokensResponse>("/refresh");
+  const response = await axiosClient.post<AuthTokensResponse>("/refresh", undefined, {
+    skipAuthRefresh: true,
+  });
   return response.data;
 }
 
 export async function logoutUser(): Promise<Record<string, unknown>> {
-  const response = await axiosClient.post<Record<string, unknown>>("/logout");
+  const response = await axiosClient.post<Record<string, unknown>>("/logout", undefined, {
+    skipAuthRefresh: true,
+  });
   return response.data;
 }
 
@@ -1,5 +1,53 @@
-import axios, { type AxiosInstance } from "axios";
-import { getAccessToken } from "@/shared/services/StorageService";
+import axios, { type AxiosInstance, type InternalAxiosRequestConfig } from "axios";
+import { getAccessToken, getRefreshToken } from "@/shared/services/StorageService";
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    // Auth endpoints opt out so a 401 from /login or /refresh never triggers another refresh.
+    skipAuthRefresh?: boolean;
+    _authRetried?: boolean;
+  }
+}
+
+type AuthRefreshHandlers = {
+  refresh: () => Promise<string | null>;
+  onRefreshFailed: (err: unknown) => void;
+};
+
+let authRefreshHandlers: AuthRefreshHandlers | null = null;
+let refreshInFlight: Promise<string | null> | null = null;
+
+/**
+ * Registers how the client renews credentials (AuthProvider owns the session).
+ * Returns an unregister function for provider unmounts.
+ */
+export function configureAuthRefresh(handlers: AuthRefreshHandlers) {
+  authRefreshHandlers = handlers;
+  return () => {
+    if (authRefreshHandlers === handlers) authRefreshHandlers = null;
+  };
+}
+
+/**
+ * Single-flight token refresh: every caller that arrives while a refresh is running
+ * shares the same promise, so the refresh token is rotated exactly once.
+ */
+export function refreshAccessTokenOnce(): Promise<string | null> {
+  if (refreshInFlight) return refreshInFlight;
+  const handlers = authRefreshHandlers;
+  if (!handlers) return Promise.resolve(null);
+  refreshInFlight = (async () => {
+    try {
+      return await handlers.refresh();
+    } catch (err) {
+      handlers.onRefreshFailed(err);
+      throw err;
+    } finally {
+      refreshInFlight = null;
+    }
+  })();
+  return refreshInFlight;
+}
 
 // Base URL is set from docker-compose (VITE_API_BASE_URL) or fallback to localhost
 const axiosClient: AxiosInstance = axios.create({
@@ -7,6 +55,17 @@ const axiosClient: AxiosInstance = axios.create({
   timeout: 5000,
 });
 
+function setBearer(config: InternalAxiosRequestConfig, token: string) {
+  if (config.headers) {
+    config.headers.Authorization = `Bearer ${token}`;
+  }
+}
+
+function bearerFrom(config: InternalAxiosRequestConfig): string {
+  const raw = config.headers?.Authorization;
+  return typeof raw === "string" ? raw.replace(/^Bearer\s+/i, "") : "";
+}
+
 axiosClient.interceptors.request.use((config) => {
   // Avoid accidental double "/api" when baseURL already includes it.
   if (config.url && typeof config.url === "string" && config.baseURL) {
@@ -19,10 +78,46 @@ axiosClient.interceptors.request.use((config) => {
     }
   }
   const token = getAccessToken();
-  if (token && config.headers) {
-    config.headers.Authorization = `Bearer ${token}`;
+  if (token) {
+    setBearer(config, token);
   }
   return config;
 });
 
+axiosClient.interceptors.response.use(
+  (response) => response,
+  async (error: unknown) => {
+    if (!axios.isAxiosError(error)) throw error;
+    const config = error.config;
+    if (
+      !config ||
+      error.response?.status !== 401 ||
+      config.skipAuthRefresh ||
+      config._authRetried ||
+      !authRefreshHandlers ||
+      !getRefreshToken()
+    ) {
+      throw error;
+    }
+    config._authRetried = true;
+
+    // Another request may already have rotated the token while this one was in flight.
+    const current = getAccessToken();
+    if (current && current !== bearerFrom(config)) {
+      setBearer(config, current);
+      return axiosClient(config);
+    }
+
+    let next: string | null = null;
+    try {
+      next = await refreshAccessTokenOnce();
+    } catch {
+      throw error;
+    }
+    if (!next) throw error;
+    setBearer(config, next);
+    return axiosClient(config);
+  }
+);
+
 export default axiosClient;
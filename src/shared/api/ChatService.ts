@@ -2,6 +2,7 @@ import axiosClient from "./AxiosClient";
 import type {
   BackendChatMessage,
   BackendChatSendResponse,
+  BackendChatShareResponse,
   BackendChatThread,
   BackendChatThreadResponse,
   BackendChatThreadsResponse,
@@ -125,7 +126,17 @@ export async function listPendingIntakeQuestions(limit = 10): Promise<ChatMessag
 export async function sendChatMessage(
   threadId: string,
   content: string,
-  { idempotencyKey }: { idempotencyKey?: string } = {}
+  {
+    idempotencyKey,
+    regenerateMessageId,
+    metadata,
+  }: {
+    idempotencyKey?: string;
+    // Re-runs the assistant turn for this message instead of appending a new exchange.
+    regenerateMessageId?: string;
+    // Structured context stored on the user message (e.g. a lesson excerpt), not shown as text.
+    metadata?: Record<string, unknown>;
+  } = {}
 ): Promise<{
   userMessage: ChatMessage | null;
   assistantMessage: ChatMessage | null;
@@ -139,9 +150,14 @@ export async function sendChatMessage(
   const key = String(idempotencyKey || "").trim();
   if (key) headers["Idempotency-Key"] = key;
 
+  const payload: Record<string, unknown> = { content: trimmed, idempotency_key: key };
+  const regenerateOf = String(regenerateMessageId || "").trim();
+  if (regenerateOf) payload.regenerate_message_id = regenerateOf;
+  if (metadata) payload.metadata = metadata;
+
   const resp = await axiosClient.post<BackendChatSendResponse>(
     `/chat/threads/${threadId}/messages`,
-    { content: trimmed, idempotency_key: key },
+    payload,
     { headers }
   );
 
@@ -151,3 +167,15 @@ export async function sendChatMessage(
     job: resp.data?.job ?? null,
   };
 }
+
+/** Creates (or reuses) a read-only share link for one assistant reply and the prompt before it. */
+export async function createChatMessageShareLink(threadId: string, messageId: string): Promise<string> {
+  if (!threadId) throw new Error("createChatMessageShareLink: missing threadId");
+  if (!messageId) throw new Error("createChatMessageShareLink: missing messageId");
+  const resp = await axiosClient.post<BackendChatShareResponse>(
+    `/chat/threads/${threadId}/messages/${messageId}/share`
+  );
+  const url = String(resp.data?.share_url ?? "").trim();
+  if (!url) throw new Error("createChatMessageShareLink: missing share_url");
+  return new URL(url, window.location.origin).toString();
+}
@@ -24,6 +24,52 @@ export type GazeIngestRequest = {
 
 export async function ingestGaze(req: GazeIngestRequest) {
   if (!req || !Array.isArray(req.hits) || req.hits.length === 0) return { ok: true, ingested: 0 };
+  lastUpload = { mode: "raw", at: Date.now(), body: req };
   const res = await axiosClient.post("/gaze/ingest", req);
   return res.data;
 }
+
+export type GazeUploadMode = "raw" | "aggregate";
+
+export type GazeLineSummary = {
+  line_index: number;
+  total_ms: number;
+  fixations: number;
+  regressions: number;
+};
+
+export type GazeBlockSummary = {
+  block_id: string;
+  total_ms: number;
+  fixations: number;
+  regressions: number;
+  read_credit: number;
+  lines: GazeLineSummary[];
+};
+
+/** Aggregate-only upload: dwell per block and line over a window, no coordinates or per-hit times. */
+export type GazeSummaryRequest = {
+  path_id?: string;
+  node_id?: string;
+  window_start: string;
+  window_end: string;
+  blocks: GazeBlockSummary[];
+};
+
+export type GazeUploadRecord =
+  | { mode: "raw"; at: number; body: GazeIngestRequest }
+  | { mode: "aggregate"; at: number; body: GazeSummaryRequest };
+
+// Kept for the privacy settings, which show the last payload that actually left the device.
+let lastUpload: GazeUploadRecord | null = null;
+
+export function getLastGazeUpload(): GazeUploadRecord | null {
+  return lastUpload;
+}
+
+export async function ingestGazeSummary(req: GazeSummaryRequest) {
+  if (!req || !Array.isArray(req.blocks) || req.blocks.length === 0) return { ok: true, ingested: 0 };
+  lastUpload = { mode: "aggregate", at: Date.now(), body: req };
+  const res = await axiosClient.post("/gaze/summary", req);
+  return res.data;
+}
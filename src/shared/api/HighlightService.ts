@@ -0,0 +1,105 @@
+import axiosClient from "./AxiosClient";
+import type {
+  BackendHighlight,
+  BackendHighlightResponse,
+  BackendHighlightsResponse,
+} from "@/shared/types/backend";
+import type { Highlight, HighlightAnchor, HighlightColor } from "@/shared/types/models";
+
+type HighlightRecord = BackendHighlight & Partial<Highlight>;
+
+export const HIGHLIGHT_COLORS: readonly HighlightColor[] = ["yellow", "green", "blue", "pink", "purple"];
+
+function normalizeColor(value: unknown): HighlightColor {
+  const color = String(value || "").toLowerCase();
+  return (HIGHLIGHT_COLORS as readonly string[]).includes(color) ? (color as HighlightColor) : "yellow";
+}
+
+export function mapHighlight(raw: BackendHighlight | Highlight | null | undefined): Highlight | null {
+  if (!raw) return null;
+  const row = raw as HighlightRecord;
+  const blockId = row.block_id ?? row.blockId;
+  const pathNodeId = row.path_node_id ?? row.pathNodeId;
+  if (!row.id || !blockId || !pathNodeId) return null;
+  const start = row.start_offset ?? row.startOffset;
+  const end = row.end_offset ?? row.endOffset;
+  const blockIndex = row.block_index ?? row.blockIndex;
+  return {
+    id: String(row.id),
+    pathId: (row.path_id ?? row.pathId ?? null) as string | null,
+    pathNodeId: String(pathNodeId),
+    blockId: String(blockId),
+    blockIndex: typeof blockIndex === "number" ? blockIndex : null,
+    startOffset: typeof start === "number" ? start : 0,
+    endOffset: typeof end === "number" ? end : 0,
+    quote: row.quote ?? "",
+    prefix: row.prefix ?? "",
+    suffix: row.suffix ?? "",
+    color: normalizeColor(row.color),
+    note: row.note ?? "",
+    createdAt: (row.created_at ?? row.createdAt ?? null) as string | null,
+    updatedAt: (row.updated_at ?? row.updatedAt ?? null) as string | null,
+  };
+}
+
+function anchorBody(anchor: HighlightAnchor) {
+  return {
+    block_id: anchor.blockId,
+    block_index: anchor.blockIndex,
+    start_offset: anchor.startOffset,
+    end_offset: anchor.endOffset,
+    quote: anchor.quote,
+    prefix: anchor.prefix,
+    suffix: anchor.suffix,
+  };
+}
+
+export async function listHighlightsForNode(pathNodeId: string): Promise<Highlight[]> {
+  if (!pathNodeId) throw new Error("listHighlightsForNode: missing pathNodeId");
+  const resp = await axiosClient.get<BackendHighlightsResponse>(`/path-nodes/${pathNodeId}/highlights`);
+  const raws = resp.data?.highlights || [];
+  return raws.map(mapHighlight).filter(Boolean) as Highlight[];
+}
+
+export async function listHighlightsForPath(pathId: string): Promise<Highlight[]> {
+  if (!pathId) throw new Error("listHighlightsForPath: missing pathId");
+  const resp = await axiosClient.get<BackendHighlightsResponse>(`/paths/${pathId}/highlights`);
+  const raws = resp.data?.highlights || [];
+  return raws.map(mapHighlight).filter(Boolean) as Highlight[];
+}
+
+export async function createHighlight(
+  pathNodeId: string,
+  input: { anchor: HighlightAnchor; color: HighlightColor; note?: string }
+): Promise<Highlight> {
+  if (!pathNodeId) throw new Error("createHighlight: missing pathNodeId");
+  const resp = await axiosClient.post<BackendHighlightResponse>(`/path-nodes/${pathNodeId}/highlights`, {
+    ...anchorBody(input.anchor),
+    color: input.color,
+    note: input.note ?? "",
+  });
+  const highlight = mapHighlight(resp.data?.highlight ?? null);
+  if (!highlight) throw new Error("createHighlight: missing highlight in response");
+  return highlight;
+}
+
+/** Updates the color/note, or moves the anchor after re-anchoring against a regenerated block. */
+export async function updateHighlight(
+  highlightId: string,
+  patch: { color?: HighlightColor; note?: string; anchor?: HighlightAnchor }
+): Promise<Highlight> {
+  if (!highlightId) throw new Error("updateHighlight: missing highlightId");
+  const body: Record<string, unknown> = {};
+  if (patch.color) body.color = patch.color;
+  if (typeof patch.note === "string") body.note = patch.note;
+  if (patch.anchor) Object.assign(body, anchorBody(patch.anchor));
+  const resp = await axiosClient.patch<BackendHighlightResponse>(`/highlights/${highlightId}`, body);
+  const highlight = mapHighlight(resp.data?.highlight ?? null);
+  if (!highlight) throw new Error("updateHighlight: missing highlight in response");
+  return highlight;
+}
+
+export async function deleteHighlight(highlightId: string): Promise<void> {
+  if (!highlightId) throw new Error("deleteHighlight: missing highlightId");
+  await axiosClient.delete(`/highlights/${highlightId}`);
+}
@@ -1,12 +1,33 @@
 import axiosClient from "./AxiosClient";
 import type {
   BackendMaterialAsset,
+  BackendMaterialChunk,
+  BackendMaterialChunkResponse,
   BackendMaterialFile,
   BackendMaterialFileListResponse,
   BackendMaterialListing,
   BackendMaterialUploadResponse,
 } from "@/shared/types/backend";
-import type { MaterialAsset, MaterialFile, MaterialListing } from "@/shared/types/models";
+import type { MaterialAsset, MaterialChunk, MaterialFile, MaterialListing } from "@/shared/types/models";
+import { getAccessToken } from "@/shared/services/StorageService";
+
+function materialFileUrl(fileId: string, kind: "view" | "thumbnail"): string {
+  const apiBase = (import.meta.env.VITE_API_BASE_URL || "/api").replace(/\/$/, "");
+  const token = getAccessToken();
+  const baseUrl = `${apiBase}/material-files/${fileId}/${kind}`;
+  return token ? `${baseUrl}?token=${encodeURIComponent(token)}` : baseUrl;
+}
+
+/** URL the browser can open directly (tab, iframe, link); the token rides in the query. */
+export function materialFileViewUrl(fileId: string): string {
+  return materialFileUrl(fileId, "view");
+}
+
+/** Thumbnail URL; `version` busts the browser cache when the file changes. */
+export function materialFileThumbnailUrl(fileId: string, version?: string | null): string {
+  const url = materialFileUrl(fileId, "thumbnail");
+  return version ? `${url}${url.includes("?") ? "&" : "?"}v=${encodeURIComponent(version)}` : url;
+}
 
 export async function uploadMaterialSet(
   files: File[],
@@ -106,5 +127,20 @@ export async function listUserMaterialFiles(): Promise<MaterialFile[]> {
   return raws.map(mapMaterialFile).filter(Boolean) as MaterialFile[];
 }
 
+export function mapMaterialChunk(raw: BackendMaterialChunk | null | undefined): MaterialChunk | null {
+  if (!raw || !raw.id) return null;
+  return {
+    id: String(raw.id),
+    materialFileId: (raw.material_file_id ?? null) as string | null,
+    page: typeof raw.page === "number" ? raw.page : null,
+    startSec: typeof raw.start_sec === "number" ? raw.start_sec : null,
+    endSec: typeof raw.end_sec === "number" ? raw.end_sec : null,
+    text: raw.text ?? "",
+  };
+}
 
-
+export async function getMaterialChunk(chunkId: string): Promise<MaterialChunk | null> {
+  if (!chunkId) throw new Error("getMaterialChunk: missing chunkId");
+  const resp = await axiosClient.get<BackendMaterialChunkResponse>(`/material-chunks/${chunkId}`);
+  return mapMaterialChunk(resp.data?.chunk ?? null);
+}
@@ -1,5 +1,6 @@
 import axiosClient from "./AxiosClient";
 import axios from "axios";
+import { offlineKeys, readThroughOffline } from "@/shared/services/OfflineContentStore";
 import type {
   BackendNodeActivity,
   BackendNodeDocRevision,
@@ -137,8 +138,10 @@ export async function listActivitiesForNode(pathNodeId: string): Promise<NodeAct
 
 export async function getPathNodeContent(pathNodeId: string): Promise<PathNode | null> {
   if (!pathNodeId) throw new Error("getPathNodeContent: missing pathNodeId");
-  const resp = await axiosClient.get<{ node?: BackendPathNode | null }>(`/path-nodes/${pathNodeId}/content`);
-  return mapPathNode(resp.data?.node ?? null);
+  return readThroughOffline(offlineKeys.node(pathNodeId), async () => {
+    const resp = await axiosClient.get<{ node?: BackendPathNode | null }>(`/path-nodes/${pathNodeId}/content`);
+    return mapPathNode(resp.data?.node ?? null);
+  });
 }
 
 export async function getPathNodeDoc(pathNodeId: string): Promise<JsonValue | string | null> {
@@ -160,6 +163,13 @@ export interface PathNodeDocEnvelope {
 
 export async function getPathNodeDocEnvelope(pathNodeId: string): Promise<PathNodeDocEnvelope> {
   if (!pathNodeId) throw new Error("getPathNodeDoc: missing pathNodeId");
+  // Only ready docs are worth keeping offline; gated or still-building envelopes are transient.
+  return readThroughOffline(offlineKeys.doc(pathNodeId), () => fetchPathNodeDocEnvelope(pathNodeId), {
+    shouldStore: (envelope) => envelope.http_status < 300 && envelope.doc != null,
+  });
+}
+
+async function fetchPathNodeDocEnvelope(pathNodeId: string): Promise<PathNodeDocEnvelope> {
   try {
     const resp = await axiosClient.get<Record<string, unknown>>(`/path-nodes/${pathNodeId}/doc`);
     return {
@@ -237,9 +247,11 @@ export async function listPathNodeDocRevisions(
 
 export async function listDrillsForNode(pathNodeId: string): Promise<DrillSpec[]> {
   if (!pathNodeId) throw new Error("listDrillsForNode: missing pathNodeId");
-  const resp = await axiosClient.get<{ drills?: Record<string, unknown>[] }>(`/path-nodes/${pathNodeId}/drills`);
-  const raws = resp.data?.drills || [];
-  return raws.map(mapDrillSpec).filter(Boolean) as DrillSpec[];
+  return readThroughOffline(offlineKeys.drills(pathNodeId), async () => {
+    const resp = await axiosClient.get<{ drills?: Record<string, unknown>[] }>(`/path-nodes/${pathNodeId}/drills`);
+    const raws = resp.data?.drills || [];
+    return raws.map(mapDrillSpec).filter(Boolean) as DrillSpec[];
+  });
 }
 
 // TODO: Generation is timing out; needs fix
@@ -1,4 +1,5 @@
 import axiosClient from "./AxiosClient";
+import { offlineKeys, readThroughOffline } from "@/shared/services/OfflineContentStore";
 import type {
   BackendConcept,
   BackendConceptEdge,
@@ -156,8 +157,10 @@ export async function listPaths(): Promise<Path[]> {
 
 export async function getPath(pathId: string): Promise<Path | null> {
   if (!pathId) throw new Error("getPath: missing pathId");
-  const resp = await axiosClient.get<BackendPathDetailResponse>(`/paths/${pathId}`);
-  return mapPath(resp.data?.path ?? null);
+  return readThroughOffline(offlineKeys.path(pathId), async () => {
+    const resp = await axiosClient.get<BackendPathDetailResponse>(`/paths/${pathId}`);
+    return mapPath(resp.data?.path ?? null);
+  });
 }
 
 export async function deletePath(pathId: string): Promise<boolean> {
@@ -181,9 +184,11 @@ export async function generatePathCover(pathId: string, force = false): Promise<
 
 export async function listNodesForPath(pathId: string): Promise<PathNode[]> {
   if (!pathId) throw new Error("listNodesForPath: missing pathId");
-  const resp = await axiosClient.get<BackendPathNodesResponse>(`/paths/${pathId}/nodes`);
-  const raws = resp.data?.nodes || [];
-  return raws.map(mapPathNode).filter(Boolean) as PathNode[];
+  return readThroughOffline(offlineKeys.pathNodes(pathId), async () => {
+    const resp = await axiosClient.get<BackendPathNodesResponse>(`/paths/${pathId}/nodes`);
+    const raws = resp.data?.nodes || [];
+    return raws.map(mapPathNode).filter(Boolean) as PathNode[];
+  });
 }
 
 export async function getConceptGraph(pathId: string): Promise<{
@@ -1,42 +1,125 @@
-import axiosClient from "./AxiosClient";
-import { getAccessToken } from "@/shared/services/StorageService";
+import axiosClient, { refreshAccessTokenOnce } from "./AxiosClient";
+import { getAccessToken, subscribeTokenChanges } from "@/shared/services/StorageService";
+
+type SseFrame = {
+  event: string;
+  data: string;
+  id: string;
+};
+
+/**
+ * Incremental `text/event-stream` parser (WHATWG SSE framing): handles CR, LF and CRLF line
+ * endings split across chunks, multi-line `data:` fields, `id:`/`event:` fields and comments.
+ */
+function createSseParser(onFrame: (frame: SseFrame) => void) {
+  let buffer = "";
+  let dataLines: string[] = [];
+  let eventType = "";
+  let lastEventId = "";
+
+  const processLine = (line: string) => {
+    if (line === "") {
+      if (dataLines.length > 0) {
+        onFrame({ event: eventType || "message", data: dataLines.join("\n"), id: lastEventId });
+      }
+      dataLines = [];
+      eventType = "";
+      return;
+    }
+    if (line.startsWith(":")) return;
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    switch (field) {
+      case "data":
+        dataLines.push(value);
+        break;
+      case "event":
+        eventType = value;
+        break;
+      case "id":
+        // Per spec, ids containing NULL are ignored; the id persists across events.
+        if (!value.includes("\0")) lastEventId = value;
+        break;
+      default:
+        // `retry:` is ignored; SSEProvider owns the reconnect schedule.
+        break;
+    }
+  };
+
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+      let start = 0;
+      for (let i = 0; i < buffer.length; i += 1) {
+        const ch = buffer[i];
+        if (ch !== "\n" && ch !== "\r") continue;
+        // A trailing CR may be the first half of a CRLF split across chunks.
+        if (ch === "\r" && i === buffer.length - 1) break;
+        const line = buffer.slice(start, i);
+        if (ch === "\r" && buffer[i + 1] === "\n") i += 1;
+        start = i + 1;
+        processLine(line);
+      }
+      buffer = buffer.slice(start);
+    },
+  };
+}
 
+/**
+ * Streams `/sse/stream` over fetch so the access token travels in the Authorization header
+ * instead of the URL. The public surface mirrors the old EventSource wrapper.
+ */
 class SSEService {
-  private eventSource: EventSource | null = null;
-
-  connect() {
+  private controller: AbortController | null = null;
+  private connectedToken: string | null = null;
+  private lastEventId: string | null = null;
+  private openHandler: ((event: Event) => void) | null = null;
+  private messageHandler: ((event: MessageEvent<string>) => void) | null = null;
+  private errorHandler: ((event: Event) => void) | null = null;
+  private unsubscribeTokens: (() => void) | null = null;
+
+  connect(lastEventId?: string | null) {
     const token = getAccessToken();
     if (!token) {
       console.warn("[SSEService] No token found, skipping SSE connect");
       return;
     }
-    const baseURL = axiosClient.defaults.baseURL || "/api";
-    const url = `${baseURL}/sse/stream?token=${encodeURIComponent(token)}`;
-    console.debug("[SSEService] Connecting to SSE =>", url);
-    this.eventSource = new EventSource(url);
+    this.lastEventId = lastEventId || null;
+    this.unsubscribeTokens ??= subscribeTokenChanges(() => this.handleTokenChange());
+    this.startStream(token);
   }
 
   onOpen(callback: (event: Event) => void) {
-    if (!this.eventSource) return;
-    this.eventSource.onopen = callback;
+    if (!this.controller) return;
+    this.openHandler = callback;
   }
 
   onMessage(callback: (event: MessageEvent<string>) => void) {
-    if (!this.eventSource) return;
-    this.eventSource.onmessage = callback;
+    if (!this.controller) return;
+    this.messageHandler = callback;
   }
 
   onError(callback: (event: Event) => void) {
-    if (!this.eventSource) return;
-    this.eventSource.onerror = callback;
+    if (!this.controller) return;
+    this.errorHandler = callback;
   }
 
   close() {
-    if (this.eventSource) {
+    if (this.controller) {
       console.debug("[SSEService] Closing SSE stream");
-      this.eventSource.close();
-      this.eventSource = null;
+      this.controller.abort();
+      this.controller = null;
     }
+    this.connectedToken = null;
+    this.openHandler = null;
+    this.messageHandler = null;
+    this.errorHandler = null;
+    this.unsubscribeTokens?.();
+    this.unsubscribeTokens = null;
   }
 
   async subscribe(channel: string) {
@@ -58,15 +141,75 @@ class SSEService {
     await axiosClient.post("/sse/unsubscribe", { channel: trimmed });
     console.debug("[SSEService] Unsubscribed from channel:", trimmed);
   }
-}
-
-export default new SSEService();
-
-
-
-
 
+  private startStream(token: string) {
+    this.controller?.abort();
+    const controller = new AbortController();
+    this.controller = controller;
+    this.connectedToken = token;
+    void this.readStream(token, controller);
+  }
 
+  // A rotated token re-opens the stream in place (resuming from the last id); the
+  // provider sees a fresh `open` and re-applies its channel subscriptions.
+  private handleTokenChange() {
+    if (!this.controller) return;
+    const token = getAccessToken();
+    if (!token || token === this.connectedToken) return;
+    console.debug("[SSEService] Access token changed, reconnecting SSE stream");
+    this.startStream(token);
+  }
 
+  private async readStream(token: string, controller: AbortController) {
+    const baseURL = axiosClient.defaults.baseURL || "/api";
+    const url = `${baseURL}/sse/stream`;
+    const headers: Record<string, string> = {
+      Accept: "text/event-stream",
+      Authorization: `Bearer ${token}`,
+    };
+    if (this.lastEventId) {
+      headers["Last-Event-ID"] = this.lastEventId;
+    }
 
+    try {
+      console.debug("[SSEService] Connecting to SSE =>", url);
+      const response = await fetch(url, {
+        headers,
+        cache: "no-store",
+        signal: controller.signal,
+      });
+      if (response.status === 401) {
+        // Let the shared refresh run; the provider's retry will pick up the new token.
+        void refreshAccessTokenOnce().catch(() => {});
+        throw new Error("SSE stream unauthorized");
+      }
+      if (!response.ok || !response.body) {
+        throw new Error(`SSE stream failed with status ${response.status}`);
+      }
+      if (controller !== this.controller) return;
+      this.openHandler?.(new Event("open"));
+
+      const parser = createSseParser((frame) => {
+        if (frame.id) this.lastEventId = frame.id;
+        if (controller !== this.controller) return;
+        this.messageHandler?.(
+          new MessageEvent<string>(frame.event, { data: frame.data, lastEventId: frame.id })
+        );
+      });
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        if (value) parser.push(value);
+      }
+      throw new Error("SSE stream ended");
+    } catch (err) {
+      if (controller.signal.aborted || controller !== this.controller) return;
+      const event = new Event("error");
+      Object.defineProperty(event, "error", { value: err });
+      this.errorHandler?.(event);
+    }
+  }
+}
 
+export default new SSEService();
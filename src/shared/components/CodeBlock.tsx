@@ -28,7 +28,7 @@ export interface InlineCodeProps {
   className?: string;
 }
 
-function highlightCode(code: unknown, language?: string): React.ReactNode[] {
+export function highlightCode(code: unknown, language?: string): React.ReactNode[] {
   const lines = String(code || "").split("\n");
 
   const keywords: Record<string, string[]> = {
@@ -2,16 +2,35 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { createPortal } from "react-dom";
 import { Button } from "@/shared/ui/button";
 import { cn } from "@/shared/lib/utils";
-import { writeCalibrationModel, EyeCalibrationGrid } from "@/shared/hooks/useEyeCalibration";
+import { applyCalibrationModel, writeCalibrationModel } from "@/shared/hooks/useEyeCalibration";
+import type {
+  EyeCalibrationGrid,
+  EyeCalibrationModel,
+  EyeCalibrationRegion,
+  EyeCalibrationValidation,
+} from "@/shared/hooks/useEyeCalibration";
 
 type CalibrationPoint = { x: number; y: number };
 type CalibrationPhase = "baseline" | "adaptive" | "validate";
+type CalibrationMode = "full" | "quick";
 type GazeSample = { x: number; y: number; confidence: number; ts: number };
 
 type CalibrationResult = {
   quality: number;
   errorPx: number;
   samples: number;
+  validation: EyeCalibrationValidation;
+};
+
+type ValidationPoint = { target: CalibrationPoint; predicted: CalibrationPoint; errorPx: number };
+
+/** Outcome of a finished run, shown on the accuracy map before anything is saved. */
+type CalibrationReport = {
+  result: CalibrationResult;
+  model: EyeCalibrationModel;
+  points: ValidationPoint[];
+  targetErrorPx: number;
+  passed: boolean;
 };
 
 type CalibrationTransform = {
@@ -36,8 +55,9 @@ const SAMPLE_MIN = Number(import.meta.env.VITE_EYE_TRACKING_CALIBRATION_MIN_SAMP
 const SAMPLE_DELAY_MS = Number(import.meta.env.VITE_EYE_TRACKING_CALIBRATION_SAMPLE_DELAY_MS) || 70;
 const SAMPLE_MAX_MS = Number(import.meta.env.VITE_EYE_TRACKING_CALIBRATION_MAX_MS) || 4200;
 const ADAPTIVE_POINTS = Number(import.meta.env.VITE_EYE_TRACKING_CALIBRATION_ADAPTIVE_POINTS) || 3;
-const VALIDATE_POINTS = Number(import.meta.env.VITE_EYE_TRACKING_CALIBRATION_VALIDATE_POINTS) || 5;
+const VALIDATE_POINTS = Number(import.meta.env.VITE_EYE_TRACKING_CALIBRATION_VALIDATE_POINTS) || 9;
 const MIN_QUALITY = Number(import.meta.env.VITE_EYE_TRACKING_CALIBRATION_MIN_QUALITY) || 0.45;
+const REGION_MAX_ERROR_PX = Number(import.meta.env.VITE_EYE_TRACKING_CALIBRATION_REGION_MAX_ERROR_PX) || 280;
 const TARGET_ERROR = Number(import.meta.env.VITE_EYE_TRACKING_CALIBRATION_TARGET_ERROR_PX) || 120;
 const MIN_CONFIDENCE = Number(import.meta.env.VITE_EYE_TRACKING_MIN_CONFIDENCE) || 0.35;
 const MAX_VELOCITY = Number(import.meta.env.VITE_EYE_TRACKING_MAX_VELOCITY_PX_S) || 1400;
@@ -111,6 +131,18 @@ function buildPoints(width: number, height: number): CalibrationPoint[] {
   ];
 }
 
+// Center and corners only: enough for an affine fit, quick enough to redo mid-lesson.
+function buildQuickPoints(width: number, height: number): CalibrationPoint[] {
+  const { marginX, marginY } = computeMargins(width, height, CAL_MARGIN_PCT);
+  return [
+    { x: Math.round(width / 2), y: Math.round(height / 2) },
+    { x: marginX, y: marginY },
+    { x: width - marginX, y: marginY },
+    { x: marginX, y: height - marginY },
+    { x: width - marginX, y: height - marginY },
+  ];
+}
+
 function clamp(value: number, min: number, max: number) {
   return Math.min(max, Math.max(min, value));
 }
@@ -138,22 +170,60 @@ function buildAdaptivePoints(points: CalibrationPoint[], width: number, height:
   return dedupePoints(adaptive);
 }
 
+/**
+ * Held-out targets at the middle of each cell of a 3×3 split, so every region gets its own error.
+ * They sit between the training points and are never fed to the fit. Ordered center, corners,
+ * edges so a lower VALIDATE_POINTS still spreads across the screen.
+ */
 function buildValidationPoints(width: number, height: number): CalibrationPoint[] {
-  const { marginX, marginY } = computeMargins(width, height, Math.min(0.18, CAL_MARGIN_PCT + 0.04));
-  const left = marginX;
-  const right = width - marginX;
-  const top = marginY;
-  const bottom = height - marginY;
-  const centerX = Math.round(width / 2);
-  const centerY = Math.round(height / 2);
-  const points = [
-    { x: centerX, y: centerY },
-    { x: centerX, y: top },
-    { x: centerX, y: bottom },
-    { x: left, y: centerY },
-    { x: right, y: centerY },
+  const cols = [width / 6, width / 2, (width * 5) / 6].map(Math.round);
+  const rows = [height / 6, height / 2, (height * 5) / 6].map(Math.round);
+  const order: Array<[number, number]> = [
+    [1, 1],
+    [0, 0],
+    [0, 2],
+    [2, 0],
+    [2, 2],
+    [0, 1],
+    [1, 0],
+    [1, 2],
+    [2, 1],
   ];
-  return points.slice(0, Math.max(1, VALIDATE_POINTS));
+  const points = order.map(([row, col]) => ({ x: cols[col], y: rows[row] }));
+  return points.slice(0, clamp(Math.round(VALIDATE_POINTS), 1, points.length));
+}
+
+function regionOf(point: CalibrationPoint, width: number, height: number) {
+  const col = clamp(Math.floor((point.x / Math.max(1, width)) * 3), 0, 2);
+  const row = clamp(Math.floor((point.y / Math.max(1, height)) * 3), 0, 2);
+  return { row, col };
+}
+
+function summarizeRegions(points: ValidationPoint[], width: number, height: number): EyeCalibrationRegion[] {
+  const regions: EyeCalibrationRegion[] = [];
+  for (let row = 0; row < 3; row += 1) {
+    for (let col = 0; col < 3; col += 1) {
+      regions.push({ row, col, errorPx: null, samples: 0 });
+    }
+  }
+  for (const p of points) {
+    const { row, col } = regionOf(p.target, width, height);
+    const region = regions[row * 3 + col];
+    const prev = region.errorPx ?? 0;
+    region.errorPx = (prev * region.samples + p.errorPx) / (region.samples + 1);
+    region.samples += 1;
+  }
+  return regions.map((r) => (r.errorPx == null ? r : { ...r, errorPx: Math.round(r.errorPx) }));
+}
+
+const REGION_NAMES = [
+  ["top left", "top", "top right"],
+  ["left", "center", "right"],
+  ["bottom left", "bottom", "bottom right"],
+];
+
+function regionName(region: EyeCalibrationRegion) {
+  return REGION_NAMES[region.row]?.[region.col] ?? "";
 }
 
 function distance(a: CalibrationPoint, b: CalibrationPoint) {
@@ -365,6 +435,35 @@ function buildResidualGrid(
   return { size, dx, dy };
 }
 
+function pairsOf(results: CalibrationPointResult[]) {
+  return results
+    .filter((r) => r.predicted)
+    .map((r) => ({ predicted: r.predicted as CalibrationPoint, target: r.point }));
+}
+
+/**
+ * Quick mode has no spare clicks for held-out targets: each point is predicted by a transform
+ * fitted on the other four instead.
+ */
+function leaveOneOutPoints(results: CalibrationPointResult[]): ValidationPoint[] {
+  const usable = results.filter((r) => r.predicted);
+  const points: ValidationPoint[] = [];
+  for (let i = 0; i < usable.length; i += 1) {
+    const transform = solveAffineTransform(pairsOf(usable.filter((_, j) => j !== i)));
+    if (!transform) continue;
+    const predicted = applyTransform(usable[i].predicted as CalibrationPoint, transform);
+    points.push({ target: usable[i].point, predicted, errorPx: distance(predicted, usable[i].point) });
+  }
+  return points;
+}
+
+function errorTone(errorPx: number | null, targetErrorPx: number) {
+  if (errorPx == null) return "bg-muted/30";
+  if (errorPx <= targetErrorPx * 0.5) return "bg-emerald-500/25";
+  if (errorPx <= targetErrorPx) return "bg-amber-500/25";
+  return "bg-rose-500/30";
+}
+
 async function collectSamples({
   point,
   record,
@@ -439,16 +538,24 @@ async function collectSamples({
   };
 }
 
+/**
+ * Full mode: 9 baseline points, a refine pass around the worst ones, then held-out validation.
+ * Quick mode: 5 points on top of the existing WebGazer training, validated leave-one-out, for
+ * correcting drift mid-lesson. Either way the result is shown on an accuracy map and only a
+ * calibration that clears the quality and per-region bars can be saved.
+ */
 export function EyeCalibrationOverlay({
   open,
   onClose,
   onComplete,
   getGaze,
+  mode = "full",
 }: {
   open: boolean;
   onClose: () => void;
   onComplete: (result: CalibrationResult) => void;
   getGaze?: () => GazeSample | null;
+  mode?: CalibrationMode;
 }) {
   const [points, setPoints] = useState<CalibrationPoint[]>([]);
   const [phase, setPhase] = useState<CalibrationPhase>("baseline");
@@ -457,6 +564,7 @@ export function EyeCalibrationOverlay({
   const [error, setError] = useState<string | null>(null);
   const [warning, setWarning] = useState<string | null>(null);
   const [results, setResults] = useState<CalibrationPointResult[]>([]);
+  const [report, setReport] = useState<CalibrationReport | null>(null);
   const runIdRef = useRef(0);
   const retryCountsRef = useRef<Map<string, number>>(new Map());
   const transformRef = useRef<CalibrationTransform | null>(null);
@@ -495,10 +603,12 @@ export function EyeCalibrationOverlay({
     setError(null);
     setWarning(null);
     setResults([]);
+    setReport(null);
     retryCountsRef.current.clear();
     transformRef.current = null;
     const update = () => {
-      setPoints(buildPoints(window.innerWidth, window.innerHeight));
+      const build = mode === "quick" ? buildQuickPoints : buildPoints;
+      setPoints(build(window.innerWidth, window.innerHeight));
     };
     update();
     window.addEventListener("resize", update);
@@ -506,7 +616,8 @@ export function EyeCalibrationOverlay({
     document.body.style.overflow = "hidden";
     const wg = (window as unknown as { webgazer?: { clearData?: () => void; params?: { showGazeDot?: boolean } } })
       .webgazer;
-    wg?.clearData?.();
+    // A quick recalibration adds to the existing training instead of starting over.
+    if (mode === "full") wg?.clearData?.();
     if (wg?.showPredictionPoints) {
       prevGazeDotRef.current = typeof wg.params?.showGazeDot === "boolean" ? wg.params.showGazeDot : null;
       wg.showPredictionPoints(false);
@@ -519,7 +630,7 @@ export function EyeCalibrationOverlay({
         wg.showPredictionPoints(restore ?? false);
       }
     };
-  }, [open]);
+  }, [mode, open]);
 
   useEffect(() => {
     if (!open) return;
@@ -546,6 +657,76 @@ export function EyeCalibrationOverlay({
   const current = points[step];
   const total = points.length || 0;
 
+  const finish = useCallback(
+    (
+      allResults: CalibrationPointResult[],
+      transform: CalibrationTransform | null,
+      validationPoints: ValidationPoint[],
+      fittedModel?: EyeCalibrationModel
+    ) => {
+      const viewportWidth = window.innerWidth || 0;
+      const viewportHeight = window.innerHeight || 0;
+      if (transform) {
+        transformRef.current = transform;
+      }
+      const model = fittedModel ?? {
+        transform: transform ?? null,
+        grid: transform ? buildResidualGrid(allResults, transform, viewportWidth, viewportHeight) : null,
+        width: viewportWidth,
+        height: viewportHeight,
+      };
+      const errors = validationPoints.map((p) => p.errorPx).filter((v) => Number.isFinite(v));
+      const weights = validationPoints.map((p) => centerWeight(p.target, viewportWidth, viewportHeight));
+      const diag = Math.hypot(viewportWidth || 0, viewportHeight || 0);
+      const dynamicTarget = diag > 0 ? clamp(diag * 0.12, 120, 260) : TARGET_ERROR;
+      const weighted = errors.length > 0 ? weightedMean(errors, weights.slice(0, errors.length)) : Number.POSITIVE_INFINITY;
+      const robustError = errors.length > 2 ? trimmedMean(errors, 0.2) : median(errors);
+      const blendedError = Number.isFinite(weighted) ? (robustError + weighted) / 2 : robustError;
+      const quality = Number.isFinite(blendedError) ? clamp(1 - blendedError / dynamicTarget, 0, 1) : 0;
+      const regions = summarizeRegions(validationPoints, viewportWidth, viewportHeight);
+      const worstRegionErrorPx = regions.reduce((max, r) => Math.max(max, r.errorPx ?? 0), 0);
+      const meanErrorPx = errors.length ? errors.reduce((sum, v) => sum + v, 0) / errors.length : Number.POSITIVE_INFINITY;
+      const passed = errors.length > 0 && quality >= MIN_QUALITY && worstRegionErrorPx <= REGION_MAX_ERROR_PX;
+      setReport({
+        result: {
+          quality,
+          errorPx: blendedError,
+          samples: allResults.length,
+          validation: {
+            mode,
+            meanErrorPx: Math.round(meanErrorPx),
+            medianErrorPx: Math.round(median(errors)),
+            worstRegionErrorPx: Math.round(worstRegionErrorPx),
+            regions,
+            width: viewportWidth,
+            height: viewportHeight,
+          },
+        },
+        model,
+        points: validationPoints,
+        targetErrorPx: dynamicTarget,
+        passed,
+      });
+      if (!passed) {
+        const worst = regions.reduce<EyeCalibrationRegion | null>(
+          (acc, r) => (r.errorPx != null && (!acc || r.errorPx > (acc.errorPx ?? 0)) ? r : acc),
+          null
+        );
+        setWarning(
+          quality < MIN_QUALITY || !worst
+            ? `Calibration quality is low (${Math.round(quality * 100)}%, ~${Math.round(
+                blendedError
+              )}px error). Try again from a steady position with good lighting.`
+            : `Tracking is off near the ${regionName(worst)} of the screen (~${Math.round(
+                worst.errorPx ?? 0
+              )}px). Try again and keep your head still.`
+        );
+      }
+      setBusy(false);
+    },
+    [mode]
+  );
+
   const handleClick = useCallback(async () => {
     if (!current || busy) return;
     setBusy(true);
@@ -607,10 +788,14 @@ export function EyeCalibrationOverlay({
       return;
     }
 
+    if (phase === "baseline" && mode === "quick") {
+      const transform = solveAffineTransform(pairsOf(nextResults)) ?? transformRef.current;
+      finish(nextResults, transform, leaveOneOutPoints(nextResults));
+      return;
+    }
+
     if (phase === "baseline") {
-      const basePairs = nextResults
-        .filter((r) => r.phase === "baseline" && r.predicted)
-        .map((r) => ({ predicted: r.predicted as CalibrationPoint, target: r.point }));
+      const basePairs = pairsOf(nextResults.filter((r) => r.phase === "baseline"));
       const baseTransform = solveAffineTransform(basePairs);
       if (baseTransform) {
         transformRef.current = baseTransform;
@@ -640,10 +825,7 @@ export function EyeCalibrationOverlay({
     }
 
     if (phase === "adaptive") {
-      const adaptivePairs = nextResults
-        .filter((r) => r.predicted)
-        .map((r) => ({ predicted: r.predicted as CalibrationPoint, target: r.point }));
-      const adaptiveTransform = solveAffineTransform(adaptivePairs);
+      const adaptiveTransform = solveAffineTransform(pairsOf(nextResults));
       if (adaptiveTransform) {
         transformRef.current = adaptiveTransform;
       }
@@ -654,65 +836,85 @@ export function EyeCalibrationOverlay({
       return;
     }
 
+    // Validation targets stay held out: fit on training points only, then score the full model.
+    const training = nextResults.filter((r) => r.phase !== "validate");
+    const finalTransform = solveAffineTransform(pairsOf(training)) ?? transformRef.current;
     const viewportWidth = window.innerWidth || 0;
     const viewportHeight = window.innerHeight || 0;
-    const allPairs = nextResults
-      .filter((r) => r.predicted)
-      .map((r) => ({ predicted: r.predicted as CalibrationPoint, target: r.point }));
-    const finalTransform = solveAffineTransform(allPairs) ?? transformRef.current;
-    if (finalTransform) {
-      transformRef.current = finalTransform;
-    }
-    const validation = nextResults.filter((r) => r.phase === "validate" && r.predicted);
-    const correctedErrors = validation
+    const grid = finalTransform ? buildResidualGrid(training, finalTransform, viewportWidth, viewportHeight) : null;
+    const model: EyeCalibrationModel = { transform: finalTransform ?? null, grid, width: viewportWidth, height: viewportHeight };
+    const validationPoints = nextResults
+      .filter((r) => r.phase === "validate" && r.predicted)
       .map((r) => {
         const predicted = r.predicted as CalibrationPoint;
-        const corrected = finalTransform ? applyTransformRaw(predicted, finalTransform) : predicted;
-        return distance(corrected, r.point);
-      })
-      .filter((v) => Number.isFinite(v));
-    const weights = validation.map((r) => centerWeight(r.point, viewportWidth, viewportHeight));
-    const diag = Math.hypot(viewportWidth || 0, viewportHeight || 0);
-    const dynamicTarget = diag > 0 ? clamp(diag * 0.12, 120, 260) : TARGET_ERROR;
-    const weighted =
-      correctedErrors.length > 0 ? weightedMean(correctedErrors, weights.slice(0, correctedErrors.length)) : Number.POSITIVE_INFINITY;
-    const robustError = correctedErrors.length > 2 ? trimmedMean(correctedErrors, 0.2) : median(correctedErrors);
-    const blendedError = Number.isFinite(weighted) ? (robustError + weighted) / 2 : robustError;
-    const quality = Number.isFinite(blendedError) ? clamp(1 - blendedError / dynamicTarget, 0, 1) : 0;
-    if (quality < MIN_QUALITY) {
-      setWarning(
-        `Calibration quality is low (${Math.round(quality * 100)}%, ~${Math.round(
-          blendedError
-        )}px error). Try again from a steady position with good lighting.`
-      );
-      setBusy(false);
-      return;
-    }
-    setBusy(false);
-    const grid = finalTransform ? buildResidualGrid(nextResults, finalTransform, viewportWidth, viewportHeight) : null;
-    writeCalibrationModel({ transform: finalTransform ?? null, grid, width: viewportWidth, height: viewportHeight });
-    onComplete({ quality, errorPx: blendedError, samples: nextResults.length });
-    onClose();
-  }, [busy, current, getGaze, onClose, onComplete, phase, readRawGaze, results, step, total]);
+        const corrected = applyCalibrationModel(predicted.x, predicted.y, model);
+        return { target: r.point, predicted: corrected, errorPx: distance(corrected, r.point) };
+      });
+    finish(nextResults, finalTransform, validationPoints, model);
+  }, [busy, current, finish, mode, phase, readRawGaze, results, step, total]);
 
   const handleRetry = useCallback(() => {
     runIdRef.current += 1;
     transformRef.current = null;
+    retryCountsRef.current.clear();
     setPhase("baseline");
-    setPoints(buildPoints(window.innerWidth, window.innerHeight));
+    setPoints((mode === "quick" ? buildQuickPoints : buildPoints)(window.innerWidth, window.innerHeight));
     setStep(0);
     setResults([]);
+    setReport(null);
     setError(null);
     setWarning(null);
-  }, []);
+  }, [mode]);
+
+  const handleSave = useCallback(() => {
+    if (!report?.passed) return;
+    writeCalibrationModel(report.model);
+    onComplete(report.result);
+    onClose();
+  }, [onClose, onComplete, report]);
 
   const content = useMemo(() => {
     if (!open) return null;
     const phaseLabel =
-      phase === "baseline" ? "Baseline" : phase === "adaptive" ? "Refine" : "Validate";
+      mode === "quick" ? "Quick" : phase === "baseline" ? "Baseline" : phase === "adaptive" ? "Refine" : "Validate";
+    const validation = report?.result.validation;
     return (
       <div className="fixed inset-0 z-[90] flex items-center justify-center bg-background/90 backdrop-blur-sm">
         <div className="pointer-events-none absolute inset-0" />
+        {report ? (
+          <div className="pointer-events-none absolute inset-0 grid grid-cols-3 grid-rows-3" aria-hidden="true">
+            {report.result.validation.regions.map((region) => (
+              <div
+                key={`${region.row}:${region.col}`}
+                className={cn(
+                  "flex items-end justify-end border border-border/30 p-2",
+                  errorTone(region.errorPx, report.targetErrorPx)
+                )}
+              >
+                <span className="text-[11px] tabular-nums text-muted-foreground">
+                  {region.errorPx == null ? "–" : `~${region.errorPx}px`}
+                </span>
+              </div>
+            ))}
+            <svg className="absolute inset-0 h-full w-full">
+              {report.points.map((p, i) => (
+                <g key={i}>
+                  <line
+                    x1={p.target.x}
+                    y1={p.target.y}
+                    x2={p.predicted.x}
+                    y2={p.predicted.y}
+                    className="stroke-foreground/40"
+                    strokeWidth={1.5}
+                    strokeDasharray="4 3"
+                  />
+                  <circle cx={p.target.x} cy={p.target.y} r={7} className="fill-none stroke-primary" strokeWidth={2} />
+                  <circle cx={p.predicted.x} cy={p.predicted.y} r={4} className="fill-foreground/70" />
+                </g>
+              ))}
+            </svg>
+          </div>
+        ) : null}
         <div
           ref={dotRef}
           className="pointer-events-none fixed left-0 top-0 z-[91] h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full bg-primary/80 shadow"
@@ -720,30 +922,54 @@ export function EyeCalibrationOverlay({
           aria-hidden="true"
         />
         <div className="pointer-events-auto absolute left-1/2 top-8 w-[92%] max-w-lg -translate-x-1/2 rounded-2xl border border-border/60 bg-background/95 p-4 shadow-xl">
-          <div className="text-sm font-semibold text-foreground">Eye tracking calibration</div>
-          <div className="mt-1 text-xs text-muted-foreground">
-            {phaseLabel} phase: look at the dot and click it. Keep your gaze steady until it moves.
-          </div>
-          <div className="mt-2 text-[11px] text-muted-foreground">
-            {total > 0 ? `Point ${Math.min(step + 1, total)} of ${total}` : "Preparing…"}
+          <div className="text-sm font-semibold text-foreground">
+            {mode === "quick" ? "Quick recalibration" : "Eye tracking calibration"}
           </div>
+          {validation ? (
+            <>
+              <div className="mt-1 text-xs text-muted-foreground">
+                Accuracy on {mode === "quick" ? "the calibration points" : "new targets"}: ~{validation.meanErrorPx}px mean
+                error (median ~{validation.medianErrorPx}px), quality {Math.round(report.result.quality * 100)}%.
+                Rings are targets, dots are where your gaze landed.
+              </div>
+              {report.passed ? (
+                <div className="mt-2 text-xs text-emerald-600">Looks good. Save to use this calibration.</div>
+              ) : null}
+            </>
+          ) : (
+            <>
+              <div className="mt-1 text-xs text-muted-foreground">
+                {phaseLabel} phase: look at the dot and click it. Keep your gaze steady until it moves.
+              </div>
+              <div className="mt-2 text-[11px] text-muted-foreground">
+                {total > 0 ? `Point ${Math.min(step + 1, total)} of ${total}` : "Preparing…"}
+              </div>
+            </>
+          )}
           {error ? <div className="mt-2 text-xs text-rose-500">{error}</div> : null}
           {warning ? <div className="mt-2 text-xs text-amber-500">{warning}</div> : null}
           <div className="mt-3 flex items-center justify-between gap-2">
-            {warning ? (
+            {warning || report ? (
               <Button size="sm" variant="outline" onClick={handleRetry} disabled={busy}>
                 Retry calibration
               </Button>
             ) : (
               <div />
             )}
-            <Button size="sm" variant="outline" onClick={onClose} disabled={busy}>
-              Skip
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button size="sm" variant="outline" onClick={onClose} disabled={busy}>
+                Skip
+              </Button>
+              {report?.passed ? (
+                <Button size="sm" onClick={handleSave}>
+                  Save
+                </Button>
+              ) : null}
+            </div>
           </div>
         </div>
 
-        {current ? (
+        {current && !report ? (
           <button
             type="button"
             onClick={handleClick}
@@ -763,7 +989,7 @@ export function EyeCalibrationOverlay({
         ) : null}
       </div>
     );
-  }, [busy, current, error, handleClick, handleRetry, onClose, open, phase, step, total, warning]);
+  }, [busy, current, error, handleClick, handleRetry, handleSave, mode, onClose, open, phase, report, step, total, warning]);
 
   if (!open) return null;
   return createPortal(content, document.body);
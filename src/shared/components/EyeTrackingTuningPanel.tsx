@@ -0,0 +1,146 @@
+import { useId } from "react";
+import { RotateCcw } from "lucide-react";
+import { Button } from "@/shared/ui/button";
+import { Switch } from "@/shared/ui/switch";
+import { useI18n } from "@/app/providers/I18nProvider";
+import {
+  EMPTY_EYE_TRACKING_OVERRIDES,
+  EYE_TRACKING_PRESETS,
+  EYE_TRACKING_TUNING_FIELDS,
+  isDefaultEyeTrackingTuning,
+  resolveEyeTrackingTuning,
+} from "@/shared/lib/eyeTrackingTuning";
+import type {
+  EyeTrackingPreset,
+  EyeTrackingTuningField,
+  EyeTrackingTuningGroup,
+  EyeTrackingTuningKey,
+  EyeTrackingTuningOverrides,
+} from "@/shared/lib/eyeTrackingTuning";
+import { cn } from "@/shared/lib/utils";
+
+const GROUPS: EyeTrackingTuningGroup[] = ["sampling", "snapping", "lineState"];
+
+function formatValue(value: number, step: number) {
+  const decimals = step >= 1 ? 0 : Math.min(3, Math.ceil(-Math.log10(step)));
+  return value.toFixed(decimals);
+}
+
+/**
+ * Presets and live sliders for the gaze pipeline. Controlled: the host decides where overrides
+ * are kept (the settings form, or straight to the device store from a lesson).
+ */
+export function EyeTrackingTuningPanel({
+  value,
+  onChange,
+  className,
+}: {
+  value: EyeTrackingTuningOverrides;
+  onChange: (next: EyeTrackingTuningOverrides) => void;
+  className?: string;
+}) {
+  const { t } = useI18n();
+  const idPrefix = useId();
+  const tuning = resolveEyeTrackingTuning(value);
+  const hasCustomValues = Object.keys(value.values).length > 0;
+
+  const choosePreset = (preset: EyeTrackingPreset) => {
+    // Picking a preset starts fresh from it; picking the active one again goes back to defaults.
+    onChange({ preset: value.preset === preset && !hasCustomValues ? null : preset, values: {} });
+  };
+  const setField = (key: EyeTrackingTuningKey, next: number | boolean) => {
+    onChange({ preset: value.preset, values: { ...value.values, [key]: next } });
+  };
+
+  const renderField = (field: EyeTrackingTuningField) => {
+    const id = `${idPrefix}-${field.key}`;
+    const label = t(`eyeTuning.field.${field.key}`);
+    const changed = field.key in value.values;
+    if (field.kind === "boolean") {
+      return (
+        <div key={field.key} className="flex items-center justify-between gap-3">
+          <label htmlFor={id} className={cn("text-xs text-muted-foreground", changed && "text-foreground")}>
+            {label}
+          </label>
+          <Switch
+            id={id}
+            checked={Boolean(tuning[field.key])}
+            onCheckedChange={(checked) => setField(field.key, Boolean(checked))}
+          />
+        </div>
+      );
+    }
+    const current = Number(tuning[field.key]);
+    return (
+      <div key={field.key} className="space-y-1">
+        <div className="flex items-center justify-between gap-3">
+          <label htmlFor={id} className={cn("text-xs text-muted-foreground", changed && "text-foreground")}>
+            {label}
+          </label>
+          <span className="text-xs tabular-nums text-foreground">{formatValue(current, field.step)}</span>
+        </div>
+        <input
+          id={id}
+          type="range"
+          min={field.min}
+          max={field.max}
+          step={field.step}
+          value={current}
+          onChange={(event) => setField(field.key, Number(event.target.value))}
+          className="h-1.5 w-full accent-primary"
+        />
+      </div>
+    );
+  };
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="text-sm font-medium text-foreground">{t("eyeTuning.title")}</div>
+          <div className="text-xs text-muted-foreground">{t("eyeTuning.subtitle")}</div>
+        </div>
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          className="shrink-0"
+          disabled={isDefaultEyeTrackingTuning(value)}
+          onClick={() => onChange(EMPTY_EYE_TRACKING_OVERRIDES)}
+        >
+          <RotateCcw className="h-3.5 w-3.5" />
+          {t("eyeTuning.reset")}
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{t("eyeTuning.presets")}</div>
+        <div className="flex flex-wrap gap-2">
+          {EYE_TRACKING_PRESETS.map((preset) => (
+            <Button
+              key={preset}
+              type="button"
+              size="sm"
+              variant={value.preset === preset ? "default" : "outline"}
+              className="rounded-full"
+              aria-pressed={value.preset === preset}
+              onClick={() => choosePreset(preset)}
+            >
+              {t(`eyeTuning.preset.${preset}`)}
+            </Button>
+          ))}
+        </div>
+        {hasCustomValues ? <div className="text-xs text-muted-foreground">{t("eyeTuning.custom")}</div> : null}
+      </div>
+
+      {GROUPS.map((group) => (
+        <fieldset key={group} className="space-y-3 rounded-xl border border-border/60 p-3">
+          <legend className="px-1 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+            {t(`eyeTuning.group.${group}`)}
+          </legend>
+          {EYE_TRACKING_TUNING_FIELDS.filter((field) => field.group === group).map(renderField)}
+        </fieldset>
+      ))}
+    </div>
+  );
+}
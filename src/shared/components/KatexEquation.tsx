@@ -0,0 +1,63 @@
+import { useEffect, useState } from "react";
+import { cn } from "@/shared/lib/utils";
+
+type KatexAPI = (typeof import("katex"))["default"];
+
+let katexSingleton: KatexAPI | null = null;
+let katexImport: Promise<KatexAPI> | null = null;
+
+// KaTeX and its stylesheet are only fetched once a doc actually renders an equation.
+async function getKatex(): Promise<KatexAPI> {
+  if (katexSingleton) return katexSingleton;
+  if (!katexImport) {
+    katexImport = Promise.all([import("katex"), import("katex/dist/katex.min.css")]).then(([m]) => m.default);
+  }
+  katexSingleton = await katexImport;
+  return katexSingleton;
+}
+
+function renderLatex(katex: KatexAPI, latex: string, display: boolean) {
+  try {
+    return katex.renderToString(latex, { displayMode: display, throwOnError: false });
+  } catch {
+    return "";
+  }
+}
+
+export function KatexEquation({ latex, display = false }: { latex: string; display?: boolean }) {
+  const [html, setHtml] = useState(() => (katexSingleton ? renderLatex(katexSingleton, latex, display) : ""));
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getKatex()
+      .then((katex) => {
+        if (cancelled) return;
+        const out = renderLatex(katex, latex, display);
+        setHtml(out);
+        setFailed(!out);
+      })
+      .catch((err) => {
+        console.warn("[KatexEquation] failed to load KaTeX:", err);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [display, latex]);
+
+  if (html && !failed) {
+    return (
+      <div
+        className={cn("overflow-x-auto text-foreground/90", display ? "text-lg" : "text-base")}
+        dangerouslySetInnerHTML={{ __html: html }}
+      />
+    );
+  }
+
+  return (
+    <pre className="overflow-x-auto text-sm text-foreground/90">
+      <code>{latex}</code>
+    </pre>
+  );
+}
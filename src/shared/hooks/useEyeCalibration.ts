@@ -9,6 +9,7 @@ const KEY_QUALITY = "nb_eye_calibration_quality";
 const KEY_ERROR = "nb_eye_calibration_error_px";
 const KEY_TRANSFORM = "nb_eye_calibration_transform";
 const KEY_MODEL = "nb_eye_calibration_model";
+const KEY_VALIDATION = "nb_eye_calibration_validation";
 
 export type EyeCalibrationTransform = {
   a: number;
@@ -32,11 +33,125 @@ export type EyeCalibrationModel = {
   height: number;
 };
 
+/** Error over one cell of a 3×3 split of the screen; null where no validation target fell. */
+export type EyeCalibrationRegion = {
+  row: number;
+  col: number;
+  errorPx: number | null;
+  samples: number;
+};
+
+/** Accuracy measured on targets the calibration was not fitted to. */
+export type EyeCalibrationValidation = {
+  mode: "full" | "quick";
+  meanErrorPx: number;
+  medianErrorPx: number;
+  worstRegionErrorPx: number;
+  regions: EyeCalibrationRegion[];
+  width: number;
+  height: number;
+};
+
+export type EyeCalibrationMetrics = {
+  quality?: number;
+  errorPx?: number;
+  validation?: EyeCalibrationValidation | null;
+};
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+function applyAffinePoint(x: number, y: number, transform: EyeCalibrationTransform | null): { x: number; y: number } {
+  if (!transform) return { x, y };
+  const tx = transform.a * x + transform.b * y + transform.c;
+  const ty = transform.d * x + transform.e * y + transform.f;
+  if (!Number.isFinite(tx) || !Number.isFinite(ty)) return { x, y };
+  return { x: tx, y: ty };
+}
+
+function bilerp(
+  grid: EyeCalibrationGrid,
+  nx: number,
+  ny: number,
+  field: "dx" | "dy"
+): number {
+  const size = grid.size;
+  if (size < 2) return 0;
+  const gx = clamp(nx, 0, 1) * (size - 1);
+  const gy = clamp(ny, 0, 1) * (size - 1);
+  const x0 = Math.floor(gx);
+  const y0 = Math.floor(gy);
+  const x1 = Math.min(size - 1, x0 + 1);
+  const y1 = Math.min(size - 1, y0 + 1);
+  const tx = gx - x0;
+  const ty = gy - y0;
+  const idx = (ix: number, iy: number) => iy * size + ix;
+  const arr = field === "dx" ? grid.dx : grid.dy;
+  const v00 = arr[idx(x0, y0)] ?? 0;
+  const v10 = arr[idx(x1, y0)] ?? 0;
+  const v01 = arr[idx(x0, y1)] ?? 0;
+  const v11 = arr[idx(x1, y1)] ?? 0;
+  const v0 = v00 * (1 - tx) + v10 * tx;
+  const v1 = v01 * (1 - tx) + v11 * tx;
+  return v0 * (1 - ty) + v1 * ty;
+}
+
+function applyGridResidual(
+  x: number,
+  y: number,
+  model: EyeCalibrationModel | null
+): { x: number; y: number } {
+  if (!model?.grid) return { x, y };
+  const width = Number.isFinite(model.width) && model.width > 0 ? model.width : window.innerWidth;
+  const height = Number.isFinite(model.height) && model.height > 0 ? model.height : window.innerHeight;
+  if (!Number.isFinite(width) || !Number.isFinite(height) || width <= 0 || height <= 0) return { x, y };
+  const nx = clamp(x / width, 0, 1);
+  const ny = clamp(y / height, 0, 1);
+  const dx = bilerp(model.grid, nx, ny, "dx");
+  const dy = bilerp(model.grid, nx, ny, "dy");
+  const scaleX = model.width > 0 ? window.innerWidth / model.width : 1;
+  const scaleY = model.height > 0 ? window.innerHeight / model.height : 1;
+  const nextX = x + dx * scaleX;
+  const nextY = y + dy * scaleY;
+  return { x: nextX, y: nextY };
+}
+
+/** Maps a raw prediction through the affine transform and residual grid, clamped to the viewport. */
+export function applyCalibrationModel(
+  x: number,
+  y: number,
+  model: EyeCalibrationModel | null
+): { x: number; y: number } {
+  if (!model) return { x, y };
+  let next = applyAffinePoint(x, y, model.transform);
+  next = applyGridResidual(next.x, next.y, model);
+  const maxX = typeof window !== "undefined" ? window.innerWidth : next.x;
+  const maxY = typeof window !== "undefined" ? window.innerHeight : next.y;
+  return {
+    x: clamp(next.x, 0, Math.max(0, maxX)),
+    y: clamp(next.y, 0, Math.max(0, maxY)),
+  };
+}
+
 function getMaxAgeDays(): number {
   const raw = Number(import.meta.env.VITE_EYE_TRACKING_CALIBRATION_MAX_DAYS);
   return Number.isFinite(raw) && raw > 0 ? raw : 30;
 }
 
+function readValidation(): EyeCalibrationValidation | null {
+  if (typeof window === "undefined") return null;
+  const raw = window.localStorage.getItem(KEY_VALIDATION);
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as EyeCalibrationValidation;
+    if (!parsed || !Number.isFinite(parsed.meanErrorPx) || !Array.isArray(parsed.regions)) return null;
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
 function readCalibration(): {
   state: EyeCalibrationState;
   ts: number | null;
@@ -75,6 +190,7 @@ export function useEyeCalibration() {
   const [ageDays, setAgeDays] = useState<number | null>(null);
   const [quality, setQuality] = useState<number | null>(null);
   const [errorPx, setErrorPx] = useState<number | null>(null);
+  const [validation, setValidation] = useState<EyeCalibrationValidation | null>(null);
 
   useEffect(() => {
     const initial = readCalibration();
@@ -83,9 +199,10 @@ export function useEyeCalibration() {
     setAgeDays(initial.ageDays);
     setQuality(initial.quality);
     setErrorPx(initial.errorPx);
+    setValidation(initial.state === "missing" ? null : readValidation());
   }, []);
 
-  const markCalibrated = useCallback((metrics?: { quality?: number; errorPx?: number }) => {
+  const markCalibrated = useCallback((metrics?: EyeCalibrationMetrics) => {
     if (typeof window === "undefined") return;
     const now = Date.now();
     window.localStorage.setItem(KEY_TS, String(now));
@@ -104,6 +221,13 @@ export function useEyeCalibration() {
       window.localStorage.removeItem(KEY_ERROR);
       setErrorPx(null);
     }
+    if (metrics?.validation) {
+      window.localStorage.setItem(KEY_VALIDATION, JSON.stringify(metrics.validation));
+      setValidation(metrics.validation);
+    } else {
+      window.localStorage.removeItem(KEY_VALIDATION);
+      setValidation(null);
+    }
     setState("fresh");
     setTs(now);
     setAgeDays(0);
@@ -117,11 +241,13 @@ export function useEyeCalibration() {
     window.localStorage.removeItem(KEY_ERROR);
     window.localStorage.removeItem(KEY_TRANSFORM);
     window.localStorage.removeItem(KEY_MODEL);
+    window.localStorage.removeItem(KEY_VALIDATION);
     setState("missing");
     setTs(null);
     setAgeDays(null);
     setQuality(null);
     setErrorPx(null);
+    setValidation(null);
   }, []);
 
   const needsCalibration = useMemo(() => state !== "fresh", [state]);
@@ -132,6 +258,7 @@ export function useEyeCalibration() {
     calibrationAgeDays: ageDays,
     calibrationQuality: quality,
     calibrationErrorPx: errorPx,
+    calibrationValidation: validation,
     needsCalibration,
     markCalibrated,
     clearCalibration,
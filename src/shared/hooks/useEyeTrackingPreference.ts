@@ -1,11 +1,22 @@
-import { useMemo } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { getPersonalizationPrefs } from "@/shared/api/UserService";
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { getPersonalizationPrefs, patchPersonalizationPrefs } from "@/shared/api/UserService";
+import type { GazeUploadMode } from "@/shared/api/GazeService";
 import { queryKeys } from "@/shared/query/queryKeys";
 import { useUser } from "@/app/providers/UserProvider";
+import {
+  EMPTY_EYE_TRACKING_OVERRIDES,
+  normalizeEyeTrackingOverrides,
+  resolveEyeTrackingTuning,
+} from "@/shared/lib/eyeTrackingTuning";
+import type { EyeTrackingTuning, EyeTrackingTuningOverrides } from "@/shared/lib/eyeTrackingTuning";
 
 const STORAGE_KEY = "pref:eye_tracking_enabled";
 const PERMISSION_KEY = "pref:eye_tracking_permission";
+const UPLOAD_MODE_KEY = "pref:gaze_upload_mode";
+const TUNING_KEY = "pref:eye_tracking_tuning";
+const TUNING_EVENT = "nb_eye_tracking_tuning_updated";
+const TUNING_SYNC_DEBOUNCE_MS = 800;
 
 function readStored(): boolean | null {
   if (typeof window === "undefined") return null;
@@ -35,6 +46,20 @@ function writePermission(value: boolean) {
   window.localStorage.setItem(PERMISSION_KEY, value ? "true" : "false");
 }
 
+function readUploadMode(): GazeUploadMode | null {
+  if (typeof window === "undefined") return null;
+  return normalizeGazeUploadMode(window.localStorage.getItem(UPLOAD_MODE_KEY));
+}
+
+function writeUploadMode(value: GazeUploadMode) {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(UPLOAD_MODE_KEY, value);
+}
+
+export function normalizeGazeUploadMode(value: unknown): GazeUploadMode | null {
+  return value === "raw" || value === "aggregate" ? value : null;
+}
+
 function asRecord(value: unknown): Record<string, unknown> | null {
   if (!value || typeof value !== "object" || Array.isArray(value)) return null;
   return value as Record<string, unknown>;
@@ -43,6 +68,7 @@ function asRecord(value: unknown): Record<string, unknown> | null {
 export function useEyeTrackingPreference() {
   const { user } = useUser();
   const stored = readStored();
+  const storedUploadMode = readUploadMode();
 
   const prefsQuery = useQuery({
     queryKey: queryKeys.personalizationPrefs(user?.id ?? "anonymous"),
@@ -65,13 +91,36 @@ export function useEyeTrackingPreference() {
     return false;
   }, [prefsQuery.data, stored]);
 
-  return { enabled, status: prefsQuery.status };
+  // Fails closed: raw upload needs the account's prefs to have loaded. Until then (or if they
+  // can't be loaded) it is null, and gaze is held on the device, unless this device already
+  // knows the account wants summaries only.
+  const uploadMode = useMemo<GazeUploadMode | null>(() => {
+    if (!prefsQuery.isSuccess) return storedUploadMode === "aggregate" ? "aggregate" : null;
+    const prefs = asRecord(prefsQuery.data);
+    const value = normalizeGazeUploadMode(prefs ? prefs.gazeUploadMode : undefined);
+    if (value) {
+      if (storedUploadMode !== value) writeUploadMode(value);
+      return value;
+    }
+    return storedUploadMode ?? "raw";
+  }, [prefsQuery.data, prefsQuery.isSuccess, storedUploadMode]);
+
+  return { enabled, uploadMode, status: prefsQuery.status };
 }
 
 export function persistEyeTrackingPreference(value: boolean) {
   writeStored(value);
 }
 
+export function persistGazeUploadMode(value: GazeUploadMode) {
+  writeUploadMode(value);
+}
+
+/** This device's last known upload mode, for settings defaults; the reader uses the hook's value. */
+export function getGazeUploadMode(): GazeUploadMode {
+  return readUploadMode() ?? "raw";
+}
+
 export function getEyeTrackingPermission(): boolean | null {
   return readPermission();
 }
@@ -90,3 +139,137 @@ export async function requestEyeTrackingPermission(): Promise<"granted" | "denie
     return "denied";
   }
 }
+
+let tuningRaw: string | null | undefined;
+let tuningOverrides: EyeTrackingTuningOverrides = EMPTY_EYE_TRACKING_OVERRIDES;
+let tuningResolved: EyeTrackingTuning = resolveEyeTrackingTuning(null);
+
+function readTuningRaw(): string | null {
+  if (typeof window === "undefined") return null;
+  try {
+    return window.localStorage.getItem(TUNING_KEY);
+  } catch {
+    return null;
+  }
+}
+
+function refreshTuning() {
+  const raw = readTuningRaw();
+  if (raw === tuningRaw) return;
+  tuningRaw = raw;
+  let parsed: unknown = null;
+  try {
+    parsed = raw ? JSON.parse(raw) : null;
+  } catch {
+    parsed = null;
+  }
+  tuningOverrides = normalizeEyeTrackingOverrides(parsed);
+  tuningResolved = resolveEyeTrackingTuning(tuningOverrides);
+}
+
+export function getEyeTrackingTuningOverrides(): EyeTrackingTuningOverrides {
+  refreshTuning();
+  return tuningOverrides;
+}
+
+/** Effective gaze-pipeline parameters on this device (defaults, preset, then overrides). */
+export function getEyeTrackingTuning(): EyeTrackingTuning {
+  refreshTuning();
+  return tuningResolved;
+}
+
+/** Saves overrides on this device and notifies open readers, which pick them up immediately. */
+export function persistEyeTrackingTuning(overrides: EyeTrackingTuningOverrides) {
+  if (typeof window === "undefined") return;
+  const normalized = normalizeEyeTrackingOverrides(overrides);
+  try {
+    window.localStorage.setItem(TUNING_KEY, JSON.stringify(normalized));
+  } catch {
+    // ignore storage errors
+  }
+  window.dispatchEvent(new CustomEvent(TUNING_EVENT));
+}
+
+function subscribeTuning(listener: () => void) {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === TUNING_KEY) listener();
+  };
+  window.addEventListener(TUNING_EVENT, listener);
+  window.addEventListener("storage", onStorage);
+  return () => {
+    window.removeEventListener(TUNING_EVENT, listener);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+/**
+ * Live gaze tuning for the reader. Overrides saved with the personalization prefs win over this
+ * device's copy once loaded; `setOverrides` applies at once and syncs back to the prefs.
+ */
+export function useEyeTrackingTuning() {
+  const { user } = useUser();
+  const queryClient = useQueryClient();
+  const userKey = user?.id ?? "anonymous";
+  const overrides = useSyncExternalStore(subscribeTuning, getEyeTrackingTuningOverrides, getEyeTrackingTuningOverrides);
+  const tuning = useSyncExternalStore(subscribeTuning, getEyeTrackingTuning, getEyeTrackingTuning);
+  const syncTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const syncPendingRef = useRef<(() => void) | null>(null);
+
+  const prefsQuery = useQuery({
+    queryKey: queryKeys.personalizationPrefs(userKey),
+    enabled: Boolean(user?.id),
+    staleTime: 5 * 60_000,
+    queryFn: async () => {
+      const { prefs } = await getPersonalizationPrefs();
+      return prefs;
+    },
+  });
+
+  useEffect(() => {
+    const prefs = asRecord(prefsQuery.data);
+    if (!prefs || !("eyeTrackingTuning" in prefs)) return;
+    const remote = normalizeEyeTrackingOverrides(prefs.eyeTrackingTuning);
+    if (JSON.stringify(remote) !== JSON.stringify(getEyeTrackingTuningOverrides())) {
+      persistEyeTrackingTuning(remote);
+    }
+  }, [prefsQuery.data]);
+
+  useEffect(() => {
+    return () => {
+      // Send a change made just before leaving now; dropping it would let the stale server copy
+      // overwrite this device's overrides on the next load.
+      if (syncTimerRef.current) clearTimeout(syncTimerRef.current);
+      syncTimerRef.current = null;
+      syncPendingRef.current?.();
+    };
+  }, []);
+
+  const setOverrides = useCallback(
+    (next: EyeTrackingTuningOverrides) => {
+      const normalized = normalizeEyeTrackingOverrides(next);
+      persistEyeTrackingTuning(normalized);
+      if (!user?.id) return;
+      const key = queryKeys.personalizationPrefs(userKey);
+      // Only merge into prefs the account already has; the settings page owns creating them.
+      const current = asRecord(queryClient.getQueryData<unknown | null>(key));
+      if (!current) return;
+      queryClient.setQueryData(key, { ...current, eyeTrackingTuning: normalized });
+      // Built at send time so edits the settings page made to other prefs in between aren't reverted.
+      syncPendingRef.current = () => {
+        syncPendingRef.current = null;
+        const latest = asRecord(queryClient.getQueryData<unknown | null>(key));
+        if (!latest) return;
+        const merged = { ...latest, eyeTrackingTuning: getEyeTrackingTuningOverrides() };
+        void patchPersonalizationPrefs(merged).catch(() => undefined);
+      };
+      if (syncTimerRef.current) clearTimeout(syncTimerRef.current);
+      syncTimerRef.current = setTimeout(() => {
+        syncTimerRef.current = null;
+        syncPendingRef.current?.();
+      }, TUNING_SYNC_DEBOUNCE_MS);
+    },
+    [queryClient, user?.id, userKey]
+  );
+
+  return { tuning, overrides, setOverrides };
+}
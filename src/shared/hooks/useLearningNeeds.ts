@@ -0,0 +1,29 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { getPersonalizationPrefs } from "@/shared/api/UserService";
+import { queryKeys } from "@/shared/query/queryKeys";
+import { useUser } from "@/app/providers/UserProvider";
+
+const NO_NEEDS: string[] = [];
+
+/** Learning differences the user selected in Personalization (e.g. "dyslexia"). */
+export function useLearningNeeds(): string[] {
+  const { user } = useUser();
+
+  const prefsQuery = useQuery({
+    queryKey: queryKeys.personalizationPrefs(user?.id ?? "anonymous"),
+    enabled: Boolean(user?.id),
+    staleTime: 5 * 60_000,
+    queryFn: async () => {
+      const { prefs } = await getPersonalizationPrefs();
+      return prefs;
+    },
+  });
+
+  return useMemo(() => {
+    const prefs = prefsQuery.data as Record<string, unknown> | null | undefined;
+    const raw = prefs && typeof prefs === "object" ? prefs.learningDisabilities : null;
+    if (!Array.isArray(raw)) return NO_NEEDS;
+    return raw.filter((v): v is string => typeof v === "string" && v.trim() !== "");
+  }, [prefsQuery.data]);
+}
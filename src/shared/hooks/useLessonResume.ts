@@ -0,0 +1,20 @@
+import { useEffect, useSyncExternalStore } from "react";
+import {
+  getResumeConflicts,
+  getResumePositions,
+  hydrateLessonResume,
+  subscribeLessonResume,
+} from "@/shared/services/LessonResume";
+
+export function useLessonResume(opts?: { enabled?: boolean }) {
+  const enabled = opts?.enabled !== false;
+  const positions = useSyncExternalStore(subscribeLessonResume, getResumePositions, getResumePositions);
+  const conflicts = useSyncExternalStore(subscribeLessonResume, getResumeConflicts, getResumeConflicts);
+
+  useEffect(() => {
+    if (!enabled) return;
+    void hydrateLessonResume();
+  }, [enabled]);
+
+  return { positions, conflicts };
+}
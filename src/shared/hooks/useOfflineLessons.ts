@@ -0,0 +1,33 @@
+import { useEffect, useSyncExternalStore } from "react";
+import {
+  getOfflineLessonsSnapshot,
+  loadOfflinePaths,
+  subscribeOfflineLessons,
+} from "@/shared/services/OfflineLessons";
+
+export function useOfflineLessons() {
+  const snapshot = useSyncExternalStore(subscribeOfflineLessons, getOfflineLessonsSnapshot, getOfflineLessonsSnapshot);
+
+  useEffect(() => {
+    if (!getOfflineLessonsSnapshot().loaded) void loadOfflinePaths();
+  }, []);
+
+  return snapshot;
+}
+
+function subscribeOnline(listener: () => void) {
+  window.addEventListener("online", listener);
+  window.addEventListener("offline", listener);
+  return () => {
+    window.removeEventListener("online", listener);
+    window.removeEventListener("offline", listener);
+  };
+}
+
+export function useOnlineStatus() {
+  return useSyncExternalStore(
+    subscribeOnline,
+    () => navigator.onLine,
+    () => true
+  );
+}
@@ -0,0 +1,8 @@
+import { useCallback, useSyncExternalStore } from "react";
+import { getPersonalDecks, subscribePersonalDecks } from "@/shared/services/PersonalDeckStore";
+
+export function usePersonalDecks(pathId: string | null | undefined) {
+  const id = String(pathId || "");
+  const getSnapshot = useCallback(() => getPersonalDecks(id), [id]);
+  return useSyncExternalStore(subscribePersonalDecks, getSnapshot, getSnapshot);
+}
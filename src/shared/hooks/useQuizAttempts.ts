@@ -0,0 +1,10 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import { getQuizAttempts, subscribeQuizAttempts, summarizeQuizAttempts } from "@/shared/services/QuizAttemptStore";
+
+export function useQuizAttempts(pathNodeId: string | null | undefined) {
+  const nodeId = String(pathNodeId || "");
+  const getSnapshot = useCallback(() => getQuizAttempts(nodeId), [nodeId]);
+  const attempts = useSyncExternalStore(subscribeQuizAttempts, getSnapshot, getSnapshot);
+  const summary = useMemo(() => summarizeQuizAttempts(attempts), [attempts]);
+  return { attempts, ...summary };
+}
@@ -0,0 +1,244 @@
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from "react";
+
+const PREFS_KEY = "nb_read_aloud_v1";
+export const READ_ALOUD_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2] as const;
+
+export type ReadAloudStatus = "idle" | "playing" | "paused";
+
+export interface ReadAloudCallbacks {
+  onSegmentStart?: (index: number) => void;
+  // charIndex/charLength are offsets into the segment's text.
+  onWord?: (index: number, charIndex: number, charLength: number) => void;
+  onSegmentEnd?: (index: number) => void;
+  onFinished?: () => void;
+}
+
+interface ReadAloudPrefs {
+  rate: number;
+  voiceURI: string;
+}
+
+function isSupported() {
+  return typeof window !== "undefined" && "speechSynthesis" in window && typeof SpeechSynthesisUtterance !== "undefined";
+}
+
+function readPrefs(): ReadAloudPrefs {
+  const fallback: ReadAloudPrefs = { rate: 1, voiceURI: "" };
+  if (typeof window === "undefined") return fallback;
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(PREFS_KEY) || "null") as Partial<ReadAloudPrefs> | null;
+    return {
+      rate: typeof parsed?.rate === "number" && parsed.rate >= 0.5 && parsed.rate <= 3 ? parsed.rate : fallback.rate,
+      voiceURI: typeof parsed?.voiceURI === "string" ? parsed.voiceURI : fallback.voiceURI,
+    };
+  } catch {
+    return fallback;
+  }
+}
+
+function writePrefs(prefs: ReadAloudPrefs) {
+  if (typeof window === "undefined") return;
+  try {
+    window.localStorage.setItem(PREFS_KEY, JSON.stringify(prefs));
+  } catch {
+    // ignore storage errors
+  }
+}
+
+const NO_VOICES: SpeechSynthesisVoice[] = [];
+let cachedVoices: SpeechSynthesisVoice[] = NO_VOICES;
+
+function subscribeVoices(listener: () => void) {
+  if (!isSupported()) return () => undefined;
+  const onChange = () => {
+    cachedVoices = window.speechSynthesis.getVoices();
+    listener();
+  };
+  window.speechSynthesis.addEventListener("voiceschanged", onChange);
+  return () => window.speechSynthesis.removeEventListener("voiceschanged", onChange);
+}
+
+// Voices load asynchronously in Chrome; the list is cached so snapshots stay stable between changes.
+function getVoicesSnapshot() {
+  if (!isSupported()) return NO_VOICES;
+  if (cachedVoices.length === 0) {
+    const voices = window.speechSynthesis.getVoices();
+    if (voices.length > 0) cachedVoices = voices;
+  }
+  return cachedVoices;
+}
+
+function wordLengthAt(text: string, charIndex: number) {
+  const match = /^\S+/.exec(text.slice(charIndex));
+  return match ? match[0].length : 0;
+}
+
+/**
+ * Drives the Web Speech API over a list of text segments (one utterance per segment, since
+ * long utterances get cut off in Chrome). Events from cancelled utterances are ignored.
+ */
+export function useReadAloud(segments: readonly string[], callbacks: ReadAloudCallbacks) {
+  const supported = isSupported();
+  const voices = useSyncExternalStore(subscribeVoices, getVoicesSnapshot, () => NO_VOICES);
+  const [prefs, setPrefs] = useState<ReadAloudPrefs>(readPrefs);
+  const [status, setStatus] = useState<ReadAloudStatus>("idle");
+  const [index, setIndex] = useState(0);
+
+  const segmentsRef = useRef(segments);
+  const callbacksRef = useRef(callbacks);
+  const prefsRef = useRef(prefs);
+  const voicesRef = useRef(voices);
+  const generationRef = useRef(0);
+  const indexRef = useRef(0);
+  const statusRef = useRef<ReadAloudStatus>("idle");
+
+  useEffect(() => {
+    segmentsRef.current = segments;
+    callbacksRef.current = callbacks;
+    prefsRef.current = prefs;
+    voicesRef.current = voices;
+  });
+
+  const updateStatus = useCallback((next: ReadAloudStatus) => {
+    statusRef.current = next;
+    setStatus(next);
+  }, []);
+
+  const speakFrom = useCallback(
+    (start: number) => {
+      if (!supported) return;
+      const synth = window.speechSynthesis;
+      const generation = ++generationRef.current;
+      synth.cancel();
+
+      const total = segmentsRef.current.length;
+      let i = Math.max(0, start);
+      while (i < total && !segmentsRef.current[i]?.trim()) i += 1;
+      if (i >= total) {
+        indexRef.current = Math.max(0, total - 1);
+        updateStatus("idle");
+        callbacksRef.current.onFinished?.();
+        return;
+      }
+
+      const text = segmentsRef.current[i];
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.rate = prefsRef.current.rate;
+      const voice = voicesRef.current.find((v) => v.voiceURI === prefsRef.current.voiceURI);
+      if (voice) {
+        utterance.voice = voice;
+        utterance.lang = voice.lang;
+      }
+      utterance.onstart = () => {
+        if (generation !== generationRef.current) return;
+        callbacksRef.current.onSegmentStart?.(i);
+      };
+      utterance.onboundary = (event) => {
+        if (generation !== generationRef.current || event.name !== "word") return;
+        const length = event.charLength || wordLengthAt(text, event.charIndex);
+        callbacksRef.current.onWord?.(i, event.charIndex, length);
+      };
+      utterance.onend = () => {
+        if (generation !== generationRef.current) return;
+        callbacksRef.current.onSegmentEnd?.(i);
+        speakFrom(i + 1);
+      };
+      utterance.onerror = (event) => {
+        if (generation !== generationRef.current) return;
+        if (event.error === "interrupted" || event.error === "canceled") return;
+        console.warn("[useReadAloud] speech error:", event.error);
+        updateStatus("idle");
+      };
+
+      indexRef.current = i;
+      setIndex(i);
+      updateStatus("playing");
+      synth.speak(utterance);
+    },
+    [supported, updateStatus]
+  );
+
+  const play = useCallback(
+    (from?: number) => {
+      if (statusRef.current === "paused" && from == null && supported) {
+        window.speechSynthesis.resume();
+        updateStatus("playing");
+        return;
+      }
+      speakFrom(from ?? indexRef.current);
+    },
+    [speakFrom, supported, updateStatus]
+  );
+
+  const pause = useCallback(() => {
+    if (!supported || statusRef.current !== "playing") return;
+    window.speechSynthesis.pause();
+    updateStatus("paused");
+  }, [supported, updateStatus]);
+
+  const stop = useCallback(() => {
+    generationRef.current += 1;
+    if (supported) window.speechSynthesis.cancel();
+    updateStatus("idle");
+  }, [supported, updateStatus]);
+
+  /** Jumps to a segment; keeps playing if already playing, otherwise only moves the cursor. */
+  const seek = useCallback(
+    (next: number) => {
+      const clamped = Math.max(0, Math.min(next, segmentsRef.current.length - 1));
+      if (statusRef.current === "idle") {
+        indexRef.current = clamped;
+        setIndex(clamped);
+        return;
+      }
+      speakFrom(clamped);
+    },
+    [speakFrom]
+  );
+
+  const updatePrefs = useCallback(
+    (patch: Partial<ReadAloudPrefs>) => {
+      const next = { ...prefsRef.current, ...patch };
+      prefsRef.current = next;
+      setPrefs(next);
+      writePrefs(next);
+      // Rate and voice only apply to new utterances, so restart the current sentence.
+      if (statusRef.current === "playing") speakFrom(indexRef.current);
+    },
+    [speakFrom]
+  );
+
+  const setRate = useCallback((rate: number) => updatePrefs({ rate }), [updatePrefs]);
+  const setVoiceURI = useCallback((voiceURI: string) => updatePrefs({ voiceURI }), [updatePrefs]);
+
+  // New content (another lesson) resets the cursor.
+  useEffect(() => {
+    generationRef.current += 1;
+    if (supported) window.speechSynthesis.cancel();
+    indexRef.current = 0;
+    setIndex(0);
+    updateStatus("idle");
+  }, [segments, supported, updateStatus]);
+
+  useEffect(() => {
+    return () => {
+      generationRef.current += 1;
+      if (isSupported()) window.speechSynthesis.cancel();
+    };
+  }, []);
+
+  return {
+    supported,
+    status,
+    index,
+    rate: prefs.rate,
+    voiceURI: prefs.voiceURI,
+    voices,
+    play,
+    pause,
+    stop,
+    seek,
+    setRate,
+    setVoiceURI,
+  };
+}
@@ -0,0 +1,38 @@
+import { useEffect, useMemo, useState, useSyncExternalStore } from "react";
+import { getReviewCards, hydrateReviewQueue, subscribeReviewQueue } from "@/shared/services/ReviewQueue";
+import { isReviewDue } from "@/shared/lib/srs";
+
+// Due-ness changes with the clock as well as with grading; re-evaluate periodically.
+const DUE_TICK_MS = 60_000;
+
+export function useReviewQueue(opts?: { enabled?: boolean }) {
+  const enabled = opts?.enabled !== false;
+  const cards = useSyncExternalStore(subscribeReviewQueue, getReviewCards, getReviewCards);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!enabled) return;
+    void hydrateReviewQueue();
+  }, [enabled]);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), DUE_TICK_MS);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const dueCards = useMemo(
+    () => cards.filter((card) => isReviewDue(card.srs, now)).sort((a, b) => a.srs.dueAt - b.srs.dueAt),
+    [cards, now]
+  );
+
+  const nextDueAt = useMemo(() => {
+    let next: number | null = null;
+    for (const card of cards) {
+      if (card.srs.dueAt <= now) continue;
+      if (next == null || card.srs.dueAt < next) next = card.srs.dueAt;
+    }
+    return next;
+  }, [cards, now]);
+
+  return { cards, dueCards, dueCount: dueCards.length, nextDueAt, refreshNow: () => setNow(Date.now()) };
+}
@@ -159,6 +159,252 @@ export const EN_MESSAGES = {
   "paths.materials.alt.documentPage": "Document page",
   "paths.materials.empty.title": "No materials yet",
   "paths.materials.empty.message": "Upload documents to see them here.",
+  "paths.materials.citedPassage": "Cited passage",
+  "chat.variant.previous": "Previous version",
+  "chat.variant.next": "Next version",
+  "chat.variant.label": "Version {index} of {count}",
+  "chat.regenerate.failed": "Couldn't regenerate this reply. Please try again.",
+  "chat.share.title": "Share this reply",
+  "chat.share.description": "Copy a read-only link, or copy the exchange as Markdown.",
+  "chat.share.promptLabel": "You",
+  "chat.share.replyLabel": "Assistant",
+  "chat.share.copyLink": "Copy link",
+  "chat.share.creatingLink": "Creating link…",
+  "chat.share.linkFailed": "Couldn't create a share link.",
+  "chat.share.copyMarkdown": "Copy Markdown",
+  "chat.share.copied": "Copied",
+  "sse.reconnecting": "Reconnecting to live updates…",
+  "sse.reconnectingIn": "Live updates paused. Retrying in {seconds}s…",
+  "sse.retryNow": "Retry now",
+  "offline.banner": "You're offline. Lessons saved for offline are still available.",
+  "offline.save": "Make available offline",
+  "offline.saving": "Saving for offline…",
+  "offline.saving.progress": "Saving for offline… {done}/{total}",
+  "offline.saveFailed": "Couldn't save this path for offline use.",
+  "offline.available": "Available offline · {size}",
+  "offline.refresh": "Update offline copy",
+  "offline.remove": "Remove offline copy",
+  "offline.settings.title": "Offline lessons",
+  "offline.settings.help": "Paths saved on this device for reading without a connection.",
+  "offline.settings.total": "{size} used",
+  "offline.settings.empty": "No paths saved yet. Use “Make available offline” on a path.",
+  "offline.settings.usage": "{lessons} lessons · {size}",
+  "export.cards": "Export cards",
+  "export.format.apkg": "Anki package (.apkg)",
+  "export.format.apkg.help": "Import directly into Anki as a new deck.",
+  "export.format.anki-tsv": "Anki text import (.txt)",
+  "export.format.anki-tsv.help": "Tab-separated notes with HTML and tags.",
+  "export.format.csv": "Spreadsheet (.csv)",
+  "export.format.csv.help": "Front, back and tags for other SRS tools.",
+  "export.done": "Exported {count} cards",
+  "export.failed": "Couldn't export these cards.",
+  "export.empty.title": "Nothing to export",
+  "export.empty.message": "No flashcards or quiz questions were found yet. Open a lesson or run a drill first.",
+  "deckImport.open": "Import cards",
+  "deckImport.title": "Import flashcards",
+  "deckImport.description": "Upload a CSV, TSV or Anki “Notes in plain text” export, then choose which columns hold the front, back and tags.",
+  "deckImport.chooseFile": "Choose file",
+  "deckImport.deckName": "Deck name",
+  "deckImport.columns": "Columns · {rows} rows",
+  "deckImport.column": "Column {index}",
+  "deckImport.role.front": "Front",
+  "deckImport.role.back": "Back",
+  "deckImport.role.tags": "Tags",
+  "deckImport.role.ignore": "Ignore",
+  "deckImport.preview": "Preview · {shown} of {total} cards",
+  "deckImport.save": "Save {count} cards",
+  "deckImport.saved": "Imported {count} cards",
+  "deckImport.delete": "Delete deck",
+  "deckImport.error.tooLarge": "That file is too large to import (10 MB max).",
+  "deckImport.error.unreadable": "Couldn't find any cards in that file.",
+  "deckImport.error.mapping": "Pick a column for both the front and the back.",
+  "deckImport.error.storage": "Not enough browser storage to save this deck.",
+  "deckImport.section.title": "Your decks",
+  "deckImport.section.empty": "Bring in flashcards from Anki or a spreadsheet to study them alongside this path.",
+  "deckImport.section.count": "{count} cards",
+  "readAloud.open": "Listen",
+  "readAloud.title": "Read aloud",
+  "readAloud.play": "Play",
+  "readAloud.pause": "Pause",
+  "readAloud.prevHeading": "Previous section",
+  "readAloud.nextHeading": "Next section",
+  "readAloud.speed": "Speed",
+  "readAloud.voice": "Voice",
+  "readAloud.voice.default": "System voice",
+  "readAloud.close": "Close read aloud",
+  "readAloud.position": "{current}/{total}",
+  "readAloud.empty": "Nothing to read in this lesson yet.",
+  "readAloud.unsupported": "Read aloud isn't supported in this browser.",
+  "readAloud.describe.code": "A code example follows. Skipping the code.",
+  "readAloud.describe.codeIn": "A {language} code example follows. Skipping the code.",
+  "readAloud.describe.table": "A table with {rows} rows. Columns: {columns}.",
+  "readAloud.describe.equation": "An equation is shown.",
+  "readAloud.describe.equationSpoken": "Equation: {equation}.",
+  "readAloud.describe.figure": "Figure: {caption}",
+  "readAloud.describe.video": "Video: {caption}",
+  "readAloud.describe.diagram": "Diagram: {caption}",
+  "readAloud.describe.diagramNoCaption": "A diagram is shown.",
+  "readAloud.describe.quickCheck": "Quick check. {prompt}",
+  "readAloud.describe.flashcard": "Flashcard. {prompt}",
+  "highlights.color.yellow": "Yellow highlight",
+  "highlights.color.green": "Green highlight",
+  "highlights.color.blue": "Blue highlight",
+  "highlights.color.pink": "Pink highlight",
+  "highlights.color.purple": "Purple highlight",
+  "highlights.note": "Note",
+  "highlights.notePlaceholder": "Add a note to this passage…",
+  "highlights.saveNote": "Save note",
+  "highlights.openNote": "Open note",
+  "highlights.delete": "Delete highlight",
+  "highlights.saveFailed": "Couldn't save your highlight. Try again.",
+  "paths.tabs.notes": "My notes",
+  "notes.title": "My notes",
+  "notes.subtitle": "Highlights and notes from this path's lessons.",
+  "notes.count": "{count} highlights",
+  "notes.filter.all": "All colors",
+  "notes.filter.withNotes": "With notes only",
+  "notes.empty.title": "No highlights yet",
+  "notes.empty.message": "Select text in a lesson to highlight it or add a note.",
+  "notes.loadFailed": "Couldn't load your notes.",
+  "notes.open": "Open in lesson",
+  "notes.unknownLesson": "Lesson",
+  "selectionAsk.explain": "Explain",
+  "selectionAsk.example": "Give an example",
+  "selectionAsk.simplify": "Simplify",
+  "selectionAsk.flashcard": "Make a flashcard",
+  "selectionAsk.prompt.explain": "Explain this passage.",
+  "selectionAsk.prompt.example": "Give me a concrete example of this passage.",
+  "selectionAsk.prompt.simplify": "Explain this passage in simpler words.",
+  "selectionAsk.prompt.flashcard": "Make a flashcard (front and back) from this passage.",
+  "selectionAsk.threadTitle": "About: “{quote}”",
+  "selectionAsk.failed": "Couldn't start the chat. Try again.",
+  "chat.excerpt.backToPassage": "Back to the passage",
+  "lessonOutline.title": "In this lesson",
+  "lessonOutline.open": "Contents",
+  "lessonOutline.hide": "Hide contents",
+  "lessonOutline.status.read": "Read",
+  "lessonOutline.status.partial": "{pct}% read",
+  "lessonOutline.status.unread": "Not read yet",
+  "resume.title": "Pick up where you left off",
+  "resume.action": "Resume",
+  "resume.startOver": "Start from the top",
+  "resume.dismiss": "Dismiss",
+  "resume.where.section": "At “{section}” · {pct}% through",
+  "resume.where.percent": "{pct}% through",
+  "resume.lastReadOn": "last read on {device}",
+  "resume.device.phone": "your phone",
+  "resume.device.tablet": "your tablet",
+  "resume.device.computer": "your computer",
+  "resume.device.unknown": "another device",
+  "resume.conflict.title": "You stopped at a different spot on another device",
+  "resume.conflict.aheadTitle": "You got further on {device}",
+  "resume.conflict.remote": "Continue from {device} · {where}",
+  "resume.conflict.local": "Stay on this device · {where}",
+  "continueLearning.title": "Continue learning",
+  "continueLearning.progress": "{pct}% read",
+  "continueLearning.untitled": "Untitled lesson",
+  "codeRunner.run": "Run",
+  "codeRunner.stop": "Stop",
+  "codeRunner.edit": "Edit",
+  "codeRunner.reset": "Reset",
+  "codeRunner.copy": "Copy code",
+  "codeRunner.copied": "Copied!",
+  "codeRunner.edited": "Edited",
+  "codeRunner.editorLabel": "Code editor",
+  "codeRunner.editorHint": "Tab indents. Press Escape, then Tab, to leave the editor. Ctrl+Enter or Cmd+Enter runs the code.",
+  "codeRunner.output": "Output",
+  "codeRunner.running": "Running…",
+  "codeRunner.noOutput": "No output",
+  "codeRunner.truncated": "Output truncated",
+  "codeRunner.status.ok": "Finished in {ms} ms",
+  "codeRunner.status.error": "Failed after {ms} ms",
+  "codeRunner.status.timeout": "Stopped after {seconds} s: the code took too long",
+  "codeRunner.status.stopped": "Stopped",
+  "eyeTuning.title": "Gaze tuning",
+  "eyeTuning.subtitle": "Changes apply right away to lessons that are open.",
+  "eyeTuning.presets": "Presets",
+  "eyeTuning.preset.laptop_webcam": "Laptop webcam",
+  "eyeTuning.preset.external_monitor": "External monitor",
+  "eyeTuning.preset.low_light": "Low light",
+  "eyeTuning.custom": "Custom values on top of the preset",
+  "eyeTuning.reset": "Reset to defaults",
+  "eyeTuning.open": "Tune",
+  "eyeTuning.group.sampling": "Sampling",
+  "eyeTuning.group.snapping": "Line snapping",
+  "eyeTuning.group.lineState": "Line tracking",
+  "eyeTuning.field.tickMs": "Sample interval (ms)",
+  "eyeTuning.field.minConfidence": "Minimum confidence",
+  "eyeTuning.field.maxVelocityPxS": "Maximum gaze speed (px/s)",
+  "eyeTuning.field.lineMinFixationMs": "Dwell before a line counts (ms)",
+  "eyeTuning.field.lineDistanceFactor": "Line match distance (× line height)",
+  "eyeTuning.field.lineXPadding": "Line side padding (px)",
+  "eyeTuning.field.blockTtlMs": "Block hold time (ms)",
+  "eyeTuning.field.snapEnabled": "Snap gaze to text",
+  "eyeTuning.field.snapLineMaxDistPx": "Snap to line within (px)",
+  "eyeTuning.field.snapBlockMaxDistPx": "Snap to block within (px)",
+  "eyeTuning.field.lineStateEnabled": "Track the current line",
+  "eyeTuning.field.lineStateMaxJump": "Maximum lines per step",
+  "eyeTuning.field.lineStateMinConfidence": "Minimum line confidence",
+  "eyeTuning.field.lineStateGazeSigmaMult": "Gaze spread (× line height)",
+  "eyeTuning.field.lineStateBehaviorSigmaMult": "Scroll spread (× line height)",
+  "eyeTuning.field.lineStateCacheMs": "Line cache (ms)",
+  "eyeTuning.field.lineSnapStrict": "Only credit the tracked line",
+  "readingReview.open": "Reading replay",
+  "readingReview.title": "Reading replay",
+  "readingReview.subtitle.lines": "Warmer lines held your attention longer.",
+  "readingReview.subtitle.blocks": "Warmer blocks held your attention longer.",
+  "readingReview.summary": "{read} read · {skimmed} skimmed · {missed} missed",
+  "readingReview.status.read": "Read",
+  "readingReview.status.skimmed": "Skimmed",
+  "readingReview.status.missed": "Probably missed",
+  "readingReview.revisit": "Revisit",
+  "readingReview.nextMissed": "Next missed",
+  "readingReview.play": "Play replay",
+  "readingReview.pause": "Pause replay",
+  "readingReview.speed": "Replay speed",
+  "readingReview.timeline": "Reading timeline",
+  "readingReview.close": "Close reading replay",
+  "nav.review": "Review",
+  "sidebar.reviewDue": "{count} cards due for review",
+  "review.title": "Review",
+  "review.subtitle": "{due} due now · {total} cards in your deck",
+  "review.subtitle.empty": "Flashcards you study in your lessons collect here for spaced review.",
+  "review.empty.title": "No cards yet",
+  "review.empty.message": "Reveal a flashcard in a lesson or a flashcard drill to add it to your review deck.",
+  "review.empty.helper": "Cards come back just before you're likely to forget them.",
+  "review.caughtUp.title": "All caught up",
+  "review.caughtUp.message": "Nothing is due right now.",
+  "review.caughtUp.reviewed": "You reviewed {count} cards. Nice work.",
+  "review.caughtUp.next": "Next card due in {when}.",
+  "review.remaining": "{count} due",
+  "review.progress": "{reviewed} reviewed · {remaining} to go",
+  "review.openLesson": "Open lesson",
+  "review.showAnswer": "Show answer",
+  "review.grade.again": "Again",
+  "review.grade.hard": "Hard",
+  "review.grade.good": "Good",
+  "review.grade.easy": "Easy",
+  "review.hint.reveal": "Press Space to show the answer.",
+  "review.hint.grade": "Press 1–4 to grade your recall.",
+  "review.interval.now": "<1m",
+  "review.interval.minutes": "{count}m",
+  "review.interval.hours": "{count}h",
+  "review.interval.days": "{count}d",
+  "review.interval.months": "{count}mo",
+  "search.title": "Search",
+  "search.description": "Search your paths, lessons, files and chats.",
+  "search.open": "Search",
+  "search.placeholder": "Search paths, lessons, files and chats…",
+  "search.recentPaths": "Paths",
+  "search.empty": "No results for “{query}”",
+  "search.hint": "Start typing to search. Lessons you've opened are searchable down to individual sections.",
+  "search.keyboardHint": "↑↓ to move · Enter to open · Esc to close",
+  "search.shortcut": "Cmd/Ctrl+K",
+  "search.untitled": "Untitled",
+  "search.kind.path": "Path",
+  "search.kind.lesson": "Lesson",
+  "search.kind.file": "File",
+  "search.kind.chat": "Chat",
 
   "navbar.moreOptions": "More options",
 
@@ -363,6 +609,20 @@ export const EN_MESSAGES = {
   "pathNode.drills.quiz.empty": "No quiz generated.",
   "pathNode.drills.quiz.count": "Question {current} / {total}",
   "pathNode.drills.quiz.explanation": "Explanation",
+  "pathNode.drills.quiz.missedRound": "Missed questions",
+  "pathNode.drills.quiz.history": "Quiz best {best}% · last {latest}%",
+  "pathNode.drills.quiz.results.title": "Quiz results",
+  "pathNode.drills.quiz.results.missedTitle": "Missed questions results",
+  "pathNode.drills.quiz.results.score": "{correct} of {total} correct",
+  "pathNode.drills.quiz.results.correct": "Correct",
+  "pathNode.drills.quiz.results.incorrect": "Incorrect",
+  "pathNode.drills.quiz.results.yourAnswer": "Your answer: {answer}",
+  "pathNode.drills.quiz.results.correctAnswer": "Correct answer: {answer}",
+  "pathNode.drills.quiz.results.unanswered": "Not answered",
+  "pathNode.drills.quiz.results.view": "See results",
+  "pathNode.drills.quiz.results.reviewLast": "Review last attempt",
+  "pathNode.drills.quiz.results.retakeAll": "Retake quiz",
+  "pathNode.drills.quiz.results.retryMissed": "Retry missed ({count})",
   "pathNode.regen.dialog.title": "Regenerate block",
   "pathNode.regen.dialog.description": "Describe what should change. The more specific, the better.",
   "pathNode.regen.placeholder": "What is unclear or should be improved?",
@@ -381,6 +641,12 @@ export const EN_MESSAGES = {
   "pathNode.chat.error.missingQuestion": "Add a question or point of confusion.",
   "pathNode.chat.error.createThreadFailed": "Failed to create thread",
   "pathNode.chat.error.startFailed": "Failed to start chat",
+  "docCitations.sources": "Sources:",
+  "docCitations.source": "Source {number}",
+  "docCitations.sourceWithPage": "Source {number}, page {page}",
+  "docCitations.page": "Page {page}",
+  "docCitations.noExcerpt": "No excerpt was captured for this source.",
+  "docCitations.jumpToSource": "Jump to source",
 } as const;
 
 export type MessageKey = keyof typeof EN_MESSAGES;
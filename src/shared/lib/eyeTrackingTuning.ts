@@ -0,0 +1,180 @@
+// Gaze-pipeline parameters for the lesson reader (sampling, line snapping, LineState, read credit).
+// `VITE_EYE_TRACKING_*` only seed the defaults for a deployment; presets and per-user overrides
+// are layered on top at runtime.
+
+export type EyeTrackingTuning = {
+  /** How often the reader samples gaze, ms. */
+  tickMs: number;
+  /** Predictions below this confidence are ignored. */
+  minConfidence: number;
+  /** Faster (smoothed) gaze counts as a saccade, not reading, px/s. */
+  maxVelocityPxS: number;
+  /** Dwell on a line before it earns read credit, ms. */
+  lineMinFixationMs: number;
+  /** How far from a line (in line heights) gaze still matches it. */
+  lineDistanceFactor: number;
+  /** Horizontal slack around a line's text, px. */
+  lineXPadding: number;
+  /** How long the last gazed block stays "current" without new hits, ms. */
+  blockTtlMs: number;
+  snapEnabled: boolean;
+  snapLineMaxDistPx: number;
+  snapBlockMaxDistPx: number;
+  lineStateEnabled: boolean;
+  /** Most lines LineState may move per update. */
+  lineStateMaxJump: number;
+  lineStateMinConfidence: number;
+  /** Width of the gaze likelihood around a line, in line heights. */
+  lineStateGazeSigmaMult: number;
+  /** Width of the scroll/behavior prior around the expected line, in line heights. */
+  lineStateBehaviorSigmaMult: number;
+  lineStateCacheMs: number;
+  /** Only credit the line LineState picked, never a nearby fallback line. */
+  lineSnapStrict: boolean;
+};
+
+export type EyeTrackingTuningKey = keyof EyeTrackingTuning;
+
+export const EYE_TRACKING_PRESETS = ["laptop_webcam", "external_monitor", "low_light"] as const;
+export type EyeTrackingPreset = (typeof EYE_TRACKING_PRESETS)[number];
+
+/** What a user has chosen: an optional preset plus individual values on top of it. */
+export type EyeTrackingTuningOverrides = {
+  preset: EyeTrackingPreset | null;
+  values: Partial<EyeTrackingTuning>;
+};
+
+export type EyeTrackingTuningGroup = "sampling" | "snapping" | "lineState";
+
+export type EyeTrackingTuningField = { key: EyeTrackingTuningKey; group: EyeTrackingTuningGroup } & (
+  | { kind: "number"; min: number; max: number; step: number }
+  | { kind: "boolean" }
+);
+
+function envNumber(raw: unknown, fallback: number, allowZero = false): number {
+  const n = Number(raw);
+  if (!Number.isFinite(n)) return fallback;
+  return n > 0 || (allowZero && n === 0) ? n : fallback;
+}
+
+function envFlag(raw: unknown, fallback: boolean): boolean {
+  const value = String(raw ?? "").trim().toLowerCase();
+  if (!value) return fallback;
+  return !["false", "0", "no"].includes(value);
+}
+
+const env = import.meta.env;
+
+export const EYE_TRACKING_TUNING_DEFAULTS: Readonly<EyeTrackingTuning> = Object.freeze({
+  tickMs: envNumber(env.VITE_EYE_TRACKING_TICK_MS, 120),
+  minConfidence: envNumber(env.VITE_EYE_TRACKING_MIN_CONFIDENCE, 0.4),
+  maxVelocityPxS: envNumber(env.VITE_EYE_TRACKING_MAX_VELOCITY_PX_S, 1200),
+  lineMinFixationMs: envNumber(env.VITE_EYE_TRACKING_LINE_MIN_FIXATION_MS, 550),
+  lineDistanceFactor: envNumber(env.VITE_EYE_TRACKING_LINE_DISTANCE_FACTOR, 1.1),
+  lineXPadding: envNumber(env.VITE_EYE_TRACKING_LINE_X_PADDING, 24, true),
+  blockTtlMs: envNumber(env.VITE_EYE_TRACKING_BLOCK_TTL_MS, 4000),
+  snapEnabled: envFlag(env.VITE_EYE_TRACKING_SNAP_ENABLED, true),
+  snapLineMaxDistPx: envNumber(env.VITE_EYE_TRACKING_SNAP_LINE_MAX_DIST_PX, 18, true),
+  snapBlockMaxDistPx: envNumber(env.VITE_EYE_TRACKING_SNAP_BLOCK_MAX_DIST_PX, 80, true),
+  lineStateEnabled: envFlag(env.VITE_EYE_TRACKING_LINE_STATE, true),
+  lineStateMaxJump: envNumber(env.VITE_EYE_TRACKING_LINE_STATE_MAX_JUMP, 4),
+  lineStateMinConfidence: envNumber(env.VITE_EYE_TRACKING_LINE_STATE_MIN_CONFIDENCE, 0.32),
+  lineStateGazeSigmaMult: envNumber(env.VITE_EYE_TRACKING_LINE_STATE_GAZE_SIGMA_MULT, 1.15),
+  lineStateBehaviorSigmaMult: envNumber(env.VITE_EYE_TRACKING_LINE_STATE_BEHAVIOR_SIGMA_MULT, 2.2),
+  lineStateCacheMs: envNumber(env.VITE_EYE_TRACKING_LINE_STATE_CACHE_MS, 120, true),
+  lineSnapStrict: envFlag(env.VITE_EYE_TRACKING_LINE_SNAP_STRICT, false),
+});
+
+/**
+ * Starting points for common setups. A laptop webcam sits close but is low-res; an external
+ * monitor puts the reader farther away so pixel error grows; low light drops confidence and adds
+ * jitter, so lean on scroll behavior and longer dwell.
+ */
+export const EYE_TRACKING_PRESET_VALUES: Record<EyeTrackingPreset, Partial<EyeTrackingTuning>> = {
+  laptop_webcam: {
+    minConfidence: 0.35,
+    lineDistanceFactor: 1.3,
+    snapLineMaxDistPx: 24,
+    snapBlockMaxDistPx: 100,
+    lineStateGazeSigmaMult: 1.4,
+  },
+  external_monitor: {
+    maxVelocityPxS: 1800,
+    lineXPadding: 40,
+    snapLineMaxDistPx: 30,
+    snapBlockMaxDistPx: 140,
+    lineStateMaxJump: 5,
+    lineStateGazeSigmaMult: 1.6,
+  },
+  low_light: {
+    tickMs: 160,
+    minConfidence: 0.25,
+    lineMinFixationMs: 750,
+    blockTtlMs: 6000,
+    lineStateMinConfidence: 0.25,
+    lineStateGazeSigmaMult: 1.9,
+    lineStateBehaviorSigmaMult: 1.8,
+  },
+};
+
+/** Slider ranges for the tuning panel, in display order. */
+export const EYE_TRACKING_TUNING_FIELDS: ReadonlyArray<EyeTrackingTuningField> = [
+  { key: "tickMs", group: "sampling", kind: "number", min: 60, max: 400, step: 10 },
+  { key: "minConfidence", group: "sampling", kind: "number", min: 0.05, max: 0.95, step: 0.05 },
+  { key: "maxVelocityPxS", group: "sampling", kind: "number", min: 200, max: 4000, step: 50 },
+  { key: "lineMinFixationMs", group: "sampling", kind: "number", min: 100, max: 2000, step: 50 },
+  { key: "blockTtlMs", group: "sampling", kind: "number", min: 500, max: 15000, step: 250 },
+  { key: "snapEnabled", group: "snapping", kind: "boolean" },
+  { key: "snapLineMaxDistPx", group: "snapping", kind: "number", min: 0, max: 120, step: 2 },
+  { key: "snapBlockMaxDistPx", group: "snapping", kind: "number", min: 0, max: 300, step: 5 },
+  { key: "lineDistanceFactor", group: "snapping", kind: "number", min: 0.3, max: 3, step: 0.05 },
+  { key: "lineXPadding", group: "snapping", kind: "number", min: 0, max: 120, step: 2 },
+  { key: "lineStateEnabled", group: "lineState", kind: "boolean" },
+  { key: "lineStateMaxJump", group: "lineState", kind: "number", min: 1, max: 12, step: 1 },
+  { key: "lineStateMinConfidence", group: "lineState", kind: "number", min: 0.05, max: 0.95, step: 0.01 },
+  { key: "lineStateGazeSigmaMult", group: "lineState", kind: "number", min: 0.2, max: 5, step: 0.05 },
+  { key: "lineStateBehaviorSigmaMult", group: "lineState", kind: "number", min: 0.5, max: 6, step: 0.1 },
+  { key: "lineStateCacheMs", group: "lineState", kind: "number", min: 0, max: 1000, step: 10 },
+  { key: "lineSnapStrict", group: "lineState", kind: "boolean" },
+];
+
+export const EMPTY_EYE_TRACKING_OVERRIDES: EyeTrackingTuningOverrides = Object.freeze({
+  preset: null,
+  values: Object.freeze({}),
+}) as EyeTrackingTuningOverrides;
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  return value as Record<string, unknown>;
+}
+
+/** Keeps known keys with in-range values; anything else from storage or the server is dropped. */
+export function normalizeEyeTrackingOverrides(raw: unknown): EyeTrackingTuningOverrides {
+  const obj = asRecord(raw);
+  if (!obj) return EMPTY_EYE_TRACKING_OVERRIDES;
+  const preset = EYE_TRACKING_PRESETS.includes(obj.preset as EyeTrackingPreset)
+    ? (obj.preset as EyeTrackingPreset)
+    : null;
+  const rawValues = asRecord(obj.values) ?? {};
+  const values: Partial<Record<EyeTrackingTuningKey, number | boolean>> = {};
+  for (const field of EYE_TRACKING_TUNING_FIELDS) {
+    const value = rawValues[field.key];
+    if (field.kind === "boolean") {
+      if (typeof value === "boolean") values[field.key] = value;
+      continue;
+    }
+    const n = typeof value === "number" ? value : Number.NaN;
+    if (Number.isFinite(n)) values[field.key] = Math.min(field.max, Math.max(field.min, n));
+  }
+  if (!preset && Object.keys(values).length === 0) return EMPTY_EYE_TRACKING_OVERRIDES;
+  return { preset, values: values as Partial<EyeTrackingTuning> };
+}
+
+export function resolveEyeTrackingTuning(overrides: EyeTrackingTuningOverrides | null | undefined): EyeTrackingTuning {
+  const preset = overrides?.preset ? EYE_TRACKING_PRESET_VALUES[overrides.preset] : null;
+  return { ...EYE_TRACKING_TUNING_DEFAULTS, ...preset, ...overrides?.values };
+}
+
+export function isDefaultEyeTrackingTuning(overrides: EyeTrackingTuningOverrides | null | undefined) {
+  return !overrides || (!overrides.preset && Object.keys(overrides.values).length === 0);
+}
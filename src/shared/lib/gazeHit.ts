@@ -0,0 +1,55 @@
+import type { GazeHit } from "@/shared/api/GazeService";
+import type { GazeSource } from "@/shared/services/GazeProvider";
+
+/** One reader tick after the gaze point has been corrected and snapped to a line. */
+export type GazeHitInput = {
+  blockId: string;
+  lineId?: string;
+  lineIndex?: number;
+  // Center of the line the gaze snapped to (or the snap point when no line was found).
+  lineCenterX: number;
+  lineCenterY: number;
+  gaze: { x: number; y: number; confidence: number; velocity: number; source?: GazeSource };
+  bias: { x: number; y: number } | null;
+  snap: string;
+  lineStateConfidence: number;
+  lineStateMode: string;
+  at: number;
+  dtMs: number;
+  readCredit: number;
+  screenW: number;
+  screenH: number;
+};
+
+/**
+ * The hit the reader uploads in raw mode. The privacy settings build their example payload with
+ * it too, so what they show can't drift from what is sent.
+ */
+export function buildGazeHit(input: GazeHitInput): GazeHit {
+  return {
+    block_id: input.blockId,
+    line_id: input.lineId,
+    line_index: input.lineIndex,
+    x: input.lineCenterX,
+    y: input.lineCenterY,
+    confidence: input.gaze.confidence,
+    ts: new Date(input.at).toISOString(),
+    dt_ms: input.dtMs > 0 ? input.dtMs : undefined,
+    read_credit: input.readCredit,
+    source: input.gaze.source,
+    screen_w: input.screenW,
+    screen_h: input.screenH,
+    extra: {
+      velocity_px_s: input.gaze.velocity,
+      raw_x: input.gaze.x,
+      raw_y: input.gaze.y,
+      bias_x: input.bias?.x ?? 0,
+      bias_y: input.bias?.y ?? 0,
+      snap: input.snap,
+      snap_x: input.lineCenterX,
+      snap_y: input.lineCenterY,
+      line_state_confidence: input.lineStateConfidence,
+      line_state_mode: input.lineStateMode,
+    },
+  };
+}
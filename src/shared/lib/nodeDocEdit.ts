@@ -41,6 +41,31 @@ export function parseNodeDocEditProposal(metadata: unknown): NodeDocEditProposal
   return proposal as NodeDocEditProposal;
 }
 
+/** A passage the learner selected in a lesson and asked about, stored on the chat message. */
+export interface LessonExcerpt {
+  path_id?: string;
+  path_node_id: string;
+  block_id: string;
+  block_index?: number | null;
+  block_type?: string;
+  quote: string;
+  action?: string;
+}
+
+export const LESSON_EXCERPT_KIND = "lesson_excerpt";
+
+export function parseLessonExcerpt(metadata: unknown): LessonExcerpt | null {
+  const md = parseJsonRecord(metadata);
+  if (!md) return null;
+  const excerpt = parseJsonRecord(md.excerpt);
+  if (!excerpt) return null;
+  const nodeId = String(excerpt.path_node_id ?? "").trim();
+  const blockId = String(excerpt.block_id ?? "").trim();
+  const quote = String(excerpt.quote ?? "").trim();
+  if (!nodeId || !blockId || !quote) return null;
+  return { ...(excerpt as Partial<LessonExcerpt>), path_node_id: nodeId, block_id: blockId, quote };
+}
+
 export function messageKindFromMetadata(metadata: unknown): string {
   const md = parseJsonRecord(metadata);
   const kind = md ? String(md.kind ?? "") : "";
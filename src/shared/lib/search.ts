@@ -0,0 +1,123 @@
+export type SearchRange = [start: number, end: number];
+
+export interface SearchMatch {
+  score: number;
+  ranges: SearchRange[];
+}
+
+// Strip accents so "resume" matches "résumé"; length is preserved so ranges map back onto the original.
+export function foldSearchText(text: string): string {
+  return String(text || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .normalize("NFC")
+    .toLowerCase();
+}
+
+export function tokenizeSearchQuery(query: string): string[] {
+  return Array.from(
+    new Set(
+      foldSearchText(query)
+        .split(/[^\p{L}\p{N}]+/u)
+        .map((t) => t.trim())
+        .filter(Boolean)
+    )
+  );
+}
+
+/** Rough Markdown → text for indexing: drops syntax, keeps words. */
+export function markdownToSearchText(md: string): string {
+  return String(md || "")
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, " ")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[`*_~>#|]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function isWordStart(text: string, index: number): boolean {
+  if (index === 0) return true;
+  return !/[\p{L}\p{N}]/u.test(text[index - 1] || "");
+}
+
+/**
+ * Every query token must appear in the text. Word-prefix hits outrank mid-word hits, a full
+ * phrase hit and early positions add a bonus, and shorter texts (titles) edge out long ones.
+ */
+export function matchSearchText(tokens: string[], text: string): SearchMatch | null {
+  if (tokens.length === 0) return null;
+  const source = String(text || "");
+  if (!source) return null;
+  const folded = foldSearchText(source);
+  if (folded.length !== source.length) return matchSearchTextLoose(tokens, folded);
+
+  let score = 0;
+  const ranges: SearchRange[] = [];
+  for (const token of tokens) {
+    let best = -1;
+    let from = 0;
+    while (from <= folded.length) {
+      const at = folded.indexOf(token, from);
+      if (at === -1) break;
+      if (best === -1) best = at;
+      if (isWordStart(folded, at)) {
+        best = at;
+        break;
+      }
+      from = at + 1;
+    }
+    if (best === -1) return null;
+    score += isWordStart(folded, best) ? 10 : 4;
+    score += Math.max(0, 3 - best / 40);
+    ranges.push([best, best + token.length]);
+  }
+
+  const phrase = tokens.join(" ");
+  if (tokens.length > 1 && folded.includes(phrase)) score += 6;
+  if (folded.startsWith(tokens[0])) score += 4;
+  score += Math.max(0, 4 - source.length / 60);
+
+  return { score, ranges: mergeRanges(ranges) };
+}
+
+// Folding changed the length (rare ligatures); rank without highlight ranges.
+function matchSearchTextLoose(tokens: string[], folded: string): SearchMatch | null {
+  for (const token of tokens) {
+    if (!folded.includes(token)) return null;
+  }
+  return { score: tokens.length * 4, ranges: [] };
+}
+
+export function mergeRanges(ranges: SearchRange[]): SearchRange[] {
+  const sorted = ranges.slice().sort((a, b) => a[0] - b[0]);
+  const out: SearchRange[] = [];
+  for (const range of sorted) {
+    const last = out[out.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else out.push([range[0], range[1]]);
+  }
+  return out;
+}
+
+/**
+ * Cuts a window of `text` around the first match so long block bodies show the relevant part.
+ * Ranges are shifted into the snippet's coordinates.
+ */
+export function searchSnippet(
+  text: string,
+  ranges: SearchRange[],
+  maxLength = 140
+): { text: string; ranges: SearchRange[] } {
+  if (text.length <= maxLength) return { text, ranges };
+  const first = ranges[0]?.[0] ?? 0;
+  let start = Math.max(0, first - Math.floor(maxLength / 3));
+  const end = Math.min(text.length, start + maxLength);
+  start = Math.max(0, end - maxLength);
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  const shifted = ranges
+    .filter(([s, e]) => e > start && s < end)
+    .map(([s, e]) => [Math.max(s, start) - start + prefix.length, Math.min(e, end) - start + prefix.length] as SearchRange);
+  return { text: `${prefix}${text.slice(start, end)}${suffix}`, ranges: shifted };
+}
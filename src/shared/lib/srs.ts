@@ -0,0 +1,96 @@
+export type ReviewGrade = "again" | "hard" | "good" | "easy";
+
+export const REVIEW_GRADES: readonly ReviewGrade[] = ["again", "hard", "good", "easy"];
+
+export interface SrsState {
+  ease: number;
+  intervalDays: number;
+  reps: number;
+  lapses: number;
+  dueAt: number;
+  lastReviewedAt: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+const DEFAULT_EASE = 2.5;
+const MAX_INTERVAL_DAYS = 365;
+// Lapsed and brand-new "again" cards come back within the same sitting.
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+// SM-2 response qualities for the four self-grades.
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export function isReviewGrade(raw: unknown): raw is ReviewGrade {
+  return typeof raw === "string" && (REVIEW_GRADES as readonly string[]).includes(raw);
+}
+
+export function newSrsState(now = Date.now()): SrsState {
+  return { ease: DEFAULT_EASE, intervalDays: 0, reps: 0, lapses: 0, dueAt: now, lastReviewedAt: null };
+}
+
+function nextEase(ease: number, quality: number): number {
+  const delta = 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02);
+  return Math.max(MIN_EASE, Math.round((ease + delta) * 100) / 100);
+}
+
+/**
+ * SM-2 with Anki-style tweaks: "again" resets the streak and relearns within minutes,
+ * "hard" grows the interval slowly, "easy" earns a bonus on top of the ease factor.
+ */
+export function scheduleReview(prev: SrsState | null | undefined, grade: ReviewGrade, now = Date.now()): SrsState {
+  const state = prev ?? newSrsState(now);
+  const quality = GRADE_QUALITY[grade];
+  const ease = nextEase(state.ease, quality);
+
+  if (grade === "again") {
+    return {
+      ease,
+      intervalDays: 0,
+      reps: 0,
+      lapses: state.reps > 0 ? state.lapses + 1 : state.lapses,
+      dueAt: now + RELEARN_DELAY_MS,
+      lastReviewedAt: now,
+    };
+  }
+
+  let intervalDays: number;
+  if (state.reps === 0) {
+    intervalDays = grade === "easy" ? 4 : grade === "good" ? 1 : 0.5;
+  } else if (state.reps === 1) {
+    intervalDays = grade === "easy" ? 8 : grade === "good" ? 6 : 3;
+  } else {
+    const base = Math.max(1, state.intervalDays);
+    if (grade === "hard") intervalDays = base * 1.2;
+    else if (grade === "good") intervalDays = base * ease;
+    else intervalDays = base * ease * 1.3;
+  }
+  intervalDays = Math.min(MAX_INTERVAL_DAYS, Math.round(intervalDays * 10) / 10);
+
+  return {
+    ease,
+    intervalDays,
+    reps: state.reps + 1,
+    lapses: state.lapses,
+    dueAt: now + intervalDays * DAY_MS,
+    lastReviewedAt: now,
+  };
+}
+
+/** Time until the card would be due again for each grade, used to label the grade buttons. */
+export function previewReviewIntervals(prev: SrsState | null | undefined, now = Date.now()): Record<ReviewGrade, number> {
+  const out = {} as Record<ReviewGrade, number>;
+  for (const grade of REVIEW_GRADES) {
+    out[grade] = Math.max(0, scheduleReview(prev, grade, now).dueAt - now);
+  }
+  return out;
+}
+
+export function isReviewDue(state: SrsState | null | undefined, now = Date.now()): boolean {
+  return !state || state.dueAt <= now;
+}
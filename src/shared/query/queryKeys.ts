@@ -6,6 +6,9 @@ export const queryKeys = {
   pathNodes: (pathId: string) => ["pathNodes", pathId] as const,
   pathRuntime: (pathId: string) => ["pathRuntime", pathId] as const,
   conceptGraph: (pathId: string) => ["conceptGraph", pathId] as const,
+  pathHighlights: (pathId: string) => ["highlights", "path", pathId] as const,
+  nodeHighlights: (pathNodeId: string) => ["highlights", "node", pathNodeId] as const,
+  nodeDocRevisions: (pathNodeId: string) => ["nodeDocRevisions", pathNodeId] as const,
   materialFiles: () => ["materialFiles"] as const,
   chatThreads: ({
     pathId = null,
@@ -0,0 +1,110 @@
+import type { FlashcardV1 } from "@/shared/types/drillPayloadV1";
+
+const STORAGE_KEY = "nb_drill_cards_v1";
+const MAX_CARDS_PER_NODE = 100;
+const MAX_NODES = 200;
+
+export type DrillCard = Pick<FlashcardV1, "front_md" | "back_md" | "concept_keys">;
+
+interface StoredNodeCards {
+  savedAt: number;
+  cards: DrillCard[];
+}
+
+type StoredCards = Record<string, StoredNodeCards>;
+
+const NO_CARDS: DrillCard[] = [];
+
+let cardsByNode: StoredCards = {};
+let loaded = false;
+
+function canUseStorage(): boolean {
+  if (typeof window === "undefined") return false;
+  try {
+    return typeof window.localStorage !== "undefined";
+  } catch {
+    return false;
+  }
+}
+
+function ensureLoaded() {
+  if (loaded) return;
+  loaded = true;
+  if (!canUseStorage()) return;
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return;
+    const parsed = JSON.parse(raw) as unknown;
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      cardsByNode = parsed as StoredCards;
+    }
+  } catch {
+    cardsByNode = {};
+  }
+}
+
+function persist() {
+  if (!canUseStorage()) return;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(cardsByNode));
+  } catch {
+    // Storage quota/private mode: cards stay available for this page load only.
+  }
+}
+
+function cardKey(card: DrillCard) {
+  return `${card.front_md}\u0000${card.back_md}`;
+}
+
+export function getDrillCards(pathNodeId: string): DrillCard[] {
+  ensureLoaded();
+  const entry = cardsByNode[pathNodeId];
+  return Array.isArray(entry?.cards) ? entry.cards : NO_CARDS;
+}
+
+/**
+ * Keeps the flashcards from generated drills. Drills are regenerated on every open, so without
+ * this the path export would only see cards from the lesson doc.
+ */
+export function saveDrillCards(pathNodeId: string, cards: readonly FlashcardV1[] | null | undefined) {
+  if (!pathNodeId || !Array.isArray(cards) || cards.length === 0) return;
+  ensureLoaded();
+  const byKey = new Map<string, DrillCard>();
+  for (const card of getDrillCards(pathNodeId)) byKey.set(cardKey(card), card);
+  for (const card of cards) {
+    const front = String(card?.front_md ?? "").trim();
+    const back = String(card?.back_md ?? "").trim();
+    if (!front || !back) continue;
+    const next: DrillCard = { front_md: front, back_md: back, concept_keys: card.concept_keys };
+    byKey.delete(cardKey(next));
+    byKey.set(cardKey(next), next);
+  }
+  const next = {
+    ...cardsByNode,
+    [pathNodeId]: { savedAt: Date.now(), cards: Array.from(byKey.values()).slice(-MAX_CARDS_PER_NODE) },
+  };
+
+  const nodeIds = Object.keys(next);
+  if (nodeIds.length > MAX_NODES) {
+    nodeIds
+      .sort((a, b) => (next[a]?.savedAt ?? 0) - (next[b]?.savedAt ?? 0))
+      .slice(0, nodeIds.length - MAX_NODES)
+      .forEach((id) => delete next[id]);
+  }
+
+  cardsByNode = next;
+  persist();
+}
+
+/** Drops stored drill cards, e.g. on logout, so the next user on this device starts clean. */
+export function clearDrillCards() {
+  cardsByNode = {};
+  loaded = true;
+  if (canUseStorage()) {
+    try {
+      window.localStorage.removeItem(STORAGE_KEY);
+    } catch {
+      // ignore
+    }
+  }
+}
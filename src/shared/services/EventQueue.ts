@@ -279,6 +279,8 @@ async function flushInternal(): Promise<void> {
   loadPersistedBuffer();
   if (flushing) return;
   if (buffer.length === 0) return;
+  // Offline: keep events persisted; the "online" listener flushes once the connection returns.
+  if (typeof navigator !== "undefined" && navigator.onLine === false) return;
   flushing = true;
   persistBuffer();
 
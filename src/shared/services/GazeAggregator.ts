@@ -0,0 +1,130 @@
+import type { GazeBlockSummary, GazeHit, GazeSummaryRequest } from "@/shared/api/GazeService";
+
+// Longer gaps end a fixation and aren't counted as dwell (looked away, tracker lost the face).
+const MAX_DT_MS = 1000;
+// A run of hits on one line counts as a fixation once it lasts this long.
+const FIXATION_MIN_MS = 180;
+
+type Counts = { totalMs: number; fixations: number; regressions: number };
+type BlockBucket = Counts & { readCredit: number; lines: Map<number, Counts> };
+type NodeBucket = { pathId?: string; nodeId?: string; startedAt: number; endedAt: number; blocks: Map<string, BlockBucket> };
+type Position = { key: string; blockId: string; line: number | null; blockIndex: number | undefined };
+type Run = Position & { ms: number; counted: boolean };
+
+function emptyCounts(): Counts {
+  return { totalMs: 0, fixations: 0, regressions: 0 };
+}
+
+/**
+ * Folds gaze hits into per-block and per-line dwell on the device, so only totals are uploaded.
+ * A fixation is a run on one line (or one block, without line data) of at least FIXATION_MIN_MS;
+ * a regression is arriving at an earlier line of the same block, or at an earlier block.
+ */
+export class GazeAggregator {
+  private buckets = new Map<string, NodeBucket>();
+  private run: Run | null = null;
+  private blockIndex?: (blockId: string) => number | undefined;
+
+  constructor(opts?: { blockIndex?: (blockId: string) => number | undefined }) {
+    this.blockIndex = opts?.blockIndex;
+  }
+
+  add(hit: GazeHit, ctx: { pathId?: string; nodeId?: string }) {
+    if (!hit?.block_id) return;
+    const at = Date.parse(hit.ts) || Date.now();
+    const key = `${ctx.pathId ?? ""}:${ctx.nodeId ?? ""}`;
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = { pathId: ctx.pathId, nodeId: ctx.nodeId, startedAt: at, endedAt: at, blocks: new Map() };
+      this.buckets.set(key, bucket);
+    }
+    bucket.endedAt = Math.max(bucket.endedAt, at);
+
+    let block = bucket.blocks.get(hit.block_id);
+    if (!block) {
+      block = { ...emptyCounts(), readCredit: 0, lines: new Map() };
+      bucket.blocks.set(hit.block_id, block);
+    }
+    block.readCredit = Math.max(block.readCredit, Number(hit.read_credit) || 0);
+    const lineIndex = typeof hit.line_index === "number" && hit.line_index >= 0 ? hit.line_index : null;
+    let line: Counts | null = null;
+    if (lineIndex != null) {
+      line = block.lines.get(lineIndex) ?? emptyCounts();
+      block.lines.set(lineIndex, line);
+    }
+
+    const dt = typeof hit.dt_ms === "number" && hit.dt_ms > 0 && hit.dt_ms <= MAX_DT_MS ? hit.dt_ms : 0;
+    block.totalMs += dt;
+    if (line) line.totalMs += dt;
+
+    const pos: Position = { key, blockId: hit.block_id, line: lineIndex, blockIndex: this.blockIndex?.(hit.block_id) };
+    const prev = this.run;
+    const sameTarget = prev && prev.key === key && prev.blockId === pos.blockId && prev.line === pos.line && dt > 0;
+    if (prev && sameTarget) {
+      prev.ms += dt;
+    } else {
+      if (prev && prev.key === key && dt > 0 && this.isRegression(prev, pos)) {
+        block.regressions += 1;
+        if (line) line.regressions += 1;
+      }
+      this.run = { ...pos, ms: dt, counted: false };
+    }
+    const run = this.run;
+    if (run && !run.counted && run.ms >= FIXATION_MIN_MS) {
+      run.counted = true;
+      block.fixations += 1;
+      if (line) line.fixations += 1;
+    }
+  }
+
+  isEmpty() {
+    return this.buckets.size === 0;
+  }
+
+  /** Summaries for everything added since the last drain, one per lesson. */
+  drain(): GazeSummaryRequest[] {
+    const out: GazeSummaryRequest[] = [];
+    for (const bucket of this.buckets.values()) {
+      const blocks: GazeBlockSummary[] = [];
+      for (const [blockId, block] of bucket.blocks) {
+        blocks.push({
+          block_id: blockId,
+          total_ms: Math.round(block.totalMs),
+          fixations: block.fixations,
+          regressions: block.regressions,
+          read_credit: Math.round(block.readCredit * 1000) / 1000,
+          lines: Array.from(block.lines.entries())
+            .sort((a, b) => a[0] - b[0])
+            .map(([index, counts]) => ({
+              line_index: index,
+              total_ms: Math.round(counts.totalMs),
+              fixations: counts.fixations,
+              regressions: counts.regressions,
+            })),
+        });
+      }
+      if (blocks.length === 0) continue;
+      out.push({
+        path_id: bucket.pathId || undefined,
+        node_id: bucket.nodeId || undefined,
+        window_start: new Date(bucket.startedAt).toISOString(),
+        window_end: new Date(bucket.endedAt).toISOString(),
+        blocks,
+      });
+    }
+    this.buckets.clear();
+    return out;
+  }
+
+  clear() {
+    this.buckets.clear();
+    this.run = null;
+  }
+
+  private isRegression(from: Position, to: Position) {
+    if (from.blockId === to.blockId) {
+      return from.line != null && to.line != null && to.line < from.line;
+    }
+    return from.blockIndex != null && to.blockIndex != null && to.blockIndex < from.blockIndex;
+  }
+}
@@ -0,0 +1,283 @@
+import { WebGazerProvider } from "@/shared/services/WebGazerProvider";
+import { MouseGazeProvider } from "@/shared/services/MouseGazeProvider";
+import { ReplayGazeProvider } from "@/shared/services/ReplayGazeProvider";
+
+const STORAGE_KEY = "nb_gaze_provider_v1";
+const CHANGE_EVENT = "nb_gaze_provider_updated";
+const MAX_TRACE_POINTS = 60_000;
+
+export type GazeSource = "webgazer" | "mouse" | "replay";
+
+/** One prediction in viewport (client) pixels. `ts` is whatever clock the provider reports. */
+export type GazeSample = {
+  x: number;
+  y: number;
+  confidence: number;
+  ts: number;
+};
+
+/**
+ * A source of gaze predictions. `start` resolves false when the source can't be used here (script
+ * failed to load, trace missing) and throws on errors worth reporting (camera denied, …).
+ */
+export interface GazeProvider {
+  readonly kind: GazeSource;
+  /** Needs the camera permission from the eye-tracking settings before it may start. */
+  readonly requiresCamera: boolean;
+  /** Samples are raw predictions that still need the saved calibration model applied. */
+  readonly needsCalibration: boolean;
+  isSupported(): boolean;
+  start(onSample: (sample: GazeSample) => void): Promise<boolean>;
+  /** Idempotent; safe to call after a failed or cancelled start. */
+  stop(): void;
+}
+
+export type GazeProviderConfig =
+  | { kind: "webgazer" }
+  | {
+      kind: "mouse";
+      /** Gaussian noise added to the pointer position, to mimic tracker jitter. */
+      jitterPx?: number;
+      /** Constant offset, to mimic a drifted calibration. */
+      offsetX?: number;
+      offsetY?: number;
+      confidence?: number;
+      hz?: number;
+    }
+  | {
+      kind: "replay";
+      /** Where to fetch a recorded trace from; ignored when `trace` is given inline. */
+      url?: string;
+      trace?: GazeTrace;
+      loop?: boolean;
+      speed?: number;
+    };
+
+export type GazeTracePoint = {
+  /** Milliseconds since the start of the recording. */
+  t: number;
+  x: number;
+  y: number;
+  c?: number;
+};
+
+/**
+ * A recorded stream of (calibrated) gaze points. Coordinates are viewport pixels at `viewport`
+ * size; replay rescales them to the current window.
+ */
+export type GazeTrace = {
+  version: 1;
+  source: GazeSource;
+  startedAt: string;
+  viewport: { width: number; height: number };
+  points: GazeTracePoint[];
+};
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  return value as Record<string, unknown>;
+}
+
+function finiteOr(value: unknown, fallback: number): number {
+  const n = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+/** Validates a trace loaded from JSON; returns null when it isn't one. Points come back sorted by time. */
+export function parseGazeTrace(value: unknown): GazeTrace | null {
+  const obj = asRecord(value);
+  if (!obj || !Array.isArray(obj.points)) return null;
+  const viewport = asRecord(obj.viewport);
+  const points: GazeTracePoint[] = [];
+  for (const raw of obj.points) {
+    const p = asRecord(raw);
+    if (!p) continue;
+    const t = finiteOr(p.t, NaN);
+    const x = finiteOr(p.x, NaN);
+    const y = finiteOr(p.y, NaN);
+    if (!Number.isFinite(t) || !Number.isFinite(x) || !Number.isFinite(y)) continue;
+    const c = finiteOr(p.c, NaN);
+    points.push(Number.isFinite(c) ? { t, x, y, c } : { t, x, y });
+  }
+  if (points.length === 0) return null;
+  points.sort((a, b) => a.t - b.t);
+  const source = obj.source === "mouse" || obj.source === "replay" ? obj.source : "webgazer";
+  return {
+    version: 1,
+    source,
+    startedAt: typeof obj.startedAt === "string" ? obj.startedAt : "",
+    viewport: {
+      width: Math.max(1, finiteOr(viewport?.width, typeof window !== "undefined" ? window.innerWidth : 1)),
+      height: Math.max(1, finiteOr(viewport?.height, typeof window !== "undefined" ? window.innerHeight : 1)),
+    },
+    points,
+  };
+}
+
+function parseConfig(raw: string | null | undefined): GazeProviderConfig | null {
+  const text = String(raw ?? "").trim();
+  if (!text) return null;
+  if (text === "webgazer" || text === "mouse") return { kind: text };
+  if (text === "replay") return { kind: "replay" };
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  const obj = asRecord(parsed);
+  if (!obj) return null;
+  if (obj.kind === "webgazer") return { kind: "webgazer" };
+  if (obj.kind === "mouse") {
+    return {
+      kind: "mouse",
+      jitterPx: Math.max(0, finiteOr(obj.jitterPx, 0)),
+      offsetX: finiteOr(obj.offsetX, 0),
+      offsetY: finiteOr(obj.offsetY, 0),
+      confidence: Math.min(1, Math.max(0, finiteOr(obj.confidence, 0.9))),
+      hz: Math.min(120, Math.max(1, finiteOr(obj.hz, 30))),
+    };
+  }
+  if (obj.kind === "replay") {
+    const trace = obj.trace != null ? parseGazeTrace(obj.trace) : null;
+    return {
+      kind: "replay",
+      url: typeof obj.url === "string" && obj.url.trim() ? obj.url.trim() : undefined,
+      trace: trace ?? undefined,
+      loop: obj.loop === true,
+      speed: Math.max(0.1, finiteOr(obj.speed, 1)),
+    };
+  }
+  return null;
+}
+
+function envConfig(): GazeProviderConfig {
+  const kind = String(import.meta.env.VITE_EYE_TRACKING_PROVIDER || "webgazer").trim().toLowerCase();
+  if (kind === "mouse") return { kind: "mouse" };
+  if (kind === "replay") {
+    const url = String(import.meta.env.VITE_EYE_TRACKING_REPLAY_URL || "").trim();
+    return { kind: "replay", url: url || undefined, loop: true };
+  }
+  return { kind: "webgazer" };
+}
+
+let cachedRaw: string | null | undefined;
+let cachedConfig: GazeProviderConfig | null = null;
+
+function readOverride(): string | null {
+  if (typeof window === "undefined") return null;
+  try {
+    return window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The provider to use: a local override (set from the console or dev tools) wins over
+ * `VITE_EYE_TRACKING_PROVIDER`. The same object is returned until the setting changes.
+ */
+export function getGazeProviderConfig(): GazeProviderConfig {
+  const raw = readOverride();
+  if (cachedConfig && raw === cachedRaw) return cachedConfig;
+  cachedRaw = raw;
+  cachedConfig = parseConfig(raw) ?? envConfig();
+  if (cachedConfig.kind === "replay" && !cachedConfig.url && !cachedConfig.trace) {
+    const url = String(import.meta.env.VITE_EYE_TRACKING_REPLAY_URL || "").trim();
+    if (url) cachedConfig = { ...cachedConfig, url };
+  }
+  return cachedConfig;
+}
+
+export function setGazeProviderOverride(config: GazeProviderConfig | null) {
+  if (typeof window === "undefined") return;
+  try {
+    if (config) window.localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+    else window.localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // ignore storage errors (quota with a large inline trace)
+  }
+  window.dispatchEvent(new CustomEvent(CHANGE_EVENT));
+}
+
+export function subscribeGazeProvider(listener: () => void) {
+  const onChange = () => listener();
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener();
+  };
+  if (typeof window !== "undefined") {
+    window.addEventListener(CHANGE_EVENT, onChange);
+    window.addEventListener("storage", onStorage);
+  }
+  return () => {
+    if (typeof window !== "undefined") {
+      window.removeEventListener(CHANGE_EVENT, onChange);
+      window.removeEventListener("storage", onStorage);
+    }
+  };
+}
+
+export function createGazeProvider(config: GazeProviderConfig): GazeProvider {
+  switch (config.kind) {
+    case "mouse":
+      return new MouseGazeProvider(config);
+    case "replay":
+      return new ReplayGazeProvider(config);
+    default:
+      return new WebGazerProvider();
+  }
+}
+
+// Trace recording: the eye-tracking hook feeds every calibrated point here while a recording runs.
+let recording: { startedAtMs: number; trace: GazeTrace } | null = null;
+
+export function startGazeTraceRecording() {
+  recording = {
+    startedAtMs: Date.now(),
+    trace: {
+      version: 1,
+      source: "webgazer",
+      startedAt: new Date().toISOString(),
+      viewport: {
+        width: typeof window !== "undefined" ? window.innerWidth : 0,
+        height: typeof window !== "undefined" ? window.innerHeight : 0,
+      },
+      points: [],
+    },
+  };
+}
+
+export function recordGazeTraceSample(source: GazeSource, sample: GazeSample) {
+  if (!recording) return;
+  const { trace } = recording;
+  if (trace.points.length >= MAX_TRACE_POINTS) return;
+  if (trace.points.length === 0) trace.source = source;
+  trace.points.push({
+    t: Date.now() - recording.startedAtMs,
+    x: Math.round(sample.x * 10) / 10,
+    y: Math.round(sample.y * 10) / 10,
+    c: Math.round(sample.confidence * 1000) / 1000,
+  });
+}
+
+/** Ends the current recording and returns it (null when none was running). */
+export function stopGazeTraceRecording(): GazeTrace | null {
+  const trace = recording?.trace ?? null;
+  recording = null;
+  return trace;
+}
+
+export function isRecordingGazeTrace() {
+  return recording != null;
+}
+
+// Console access in development, e.g. `__nbGaze.use({ kind: "mouse", jitterPx: 30 })`, or
+// `__nbGaze.record()` … `copy(JSON.stringify(__nbGaze.stop()))` to capture a trace for replay.
+if (import.meta.env.DEV && typeof window !== "undefined") {
+  (window as unknown as { __nbGaze?: Record<string, unknown> }).__nbGaze = {
+    use: setGazeProviderOverride,
+    current: getGazeProviderConfig,
+    record: startGazeTraceRecording,
+    stop: stopGazeTraceRecording,
+  };
+}
@@ -1,4 +1,5 @@
-import { ingestGaze, type GazeHit } from "@/shared/api/GazeService";
+import { ingestGaze, ingestGazeSummary, type GazeHit, type GazeUploadMode } from "@/shared/api/GazeService";
+import { GazeAggregator } from "@/shared/services/GazeAggregator";
 
 type GazeQueueOptions = {
   flushIntervalMs?: number;
@@ -6,17 +7,26 @@ type GazeQueueOptions = {
   maxQueueSize?: number;
   enabled?: () => boolean;
   context?: () => { pathId?: string; nodeId?: string };
+  // "aggregate" keeps hits on the device and uploads per-block/line summaries instead. null means
+  // the account's choice isn't known yet: hits are held and nothing is sent until it is.
+  mode?: () => GazeUploadMode | null;
+  summaryIntervalMs?: number;
+  blockIndex?: (blockId: string) => number | undefined;
 };
 
 export class GazeQueue {
   private hits: GazeHit[] = [];
   private timer: number | null = null;
-  private inFlight = false;
+  private sending: Promise<void> | null = null;
   private flushIntervalMs: number;
   private maxBatch: number;
   private maxQueueSize: number;
   private enabled?: () => boolean;
   private context?: () => { pathId?: string; nodeId?: string };
+  private mode?: () => GazeUploadMode | null;
+  private summaryIntervalMs: number;
+  private lastSummaryAt: number;
+  private aggregator: GazeAggregator;
 
   constructor(opts?: GazeQueueOptions) {
     this.flushIntervalMs = opts?.flushIntervalMs ?? 1000;
@@ -24,6 +34,10 @@ export class GazeQueue {
     this.maxQueueSize = opts?.maxQueueSize ?? 2000;
     this.enabled = opts?.enabled;
     this.context = opts?.context;
+    this.mode = opts?.mode;
+    this.summaryIntervalMs = opts?.summaryIntervalMs ?? 30_000;
+    this.lastSummaryAt = Date.now();
+    this.aggregator = new GazeAggregator({ blockIndex: opts?.blockIndex });
   }
 
   start() {
@@ -36,12 +50,16 @@ export class GazeQueue {
       clearInterval(this.timer);
       this.timer = null;
     }
-    if (flush) void this.flush();
+    if (flush) void this.flush(true);
   }
 
   enqueue(hit: GazeHit) {
     if (!hit || !hit.block_id) return;
     if (this.enabled && !this.enabled()) return;
+    if (this.mode?.() === "aggregate") {
+      this.aggregator.add(hit, this.context ? this.context() : {});
+      return;
+    }
     if (this.hits.length >= this.maxQueueSize) {
       this.hits.splice(0, Math.max(0, this.hits.length - this.maxQueueSize + 1));
     }
@@ -51,27 +69,67 @@ export class GazeQueue {
     }
   }
 
-  async flush() {
-    if (this.inFlight) return;
+  /** `force` sends pending summaries now, waiting out an upload already in progress. */
+  async flush(force = false) {
+    if (this.sending) {
+      if (!force) return;
+      while (this.sending) await this.sending;
+    }
     if (this.enabled && !this.enabled()) {
       this.hits = [];
+      this.aggregator.clear();
+      return;
+    }
+    const mode = this.mode ? this.mode() : "raw";
+    if (mode === null) return;
+    if (mode === "aggregate") {
+      await this.flushSummaries(force);
       return;
     }
+    // Switched back to raw: what was aggregated meanwhile still goes out, as summaries.
+    if (!this.aggregator.isEmpty()) {
+      await this.send(() => this.sendSummaries());
+    }
     if (this.hits.length === 0) return;
     const batch = this.hits.splice(0, this.maxBatch);
     if (batch.length === 0) return;
-    this.inFlight = true;
-    try {
+    await this.send(async () => {
       const ctx = this.context ? this.context() : {};
       await ingestGaze({
         path_id: ctx?.pathId,
         node_id: ctx?.nodeId,
         hits: batch,
       });
-    } catch {
-      // Drop on failure; gaze is best-effort telemetry.
-    } finally {
-      this.inFlight = false;
+    });
+  }
+
+  private async flushSummaries(force: boolean) {
+    // Raw hits queued before a switch to aggregate mode never leave the device; fold them in.
+    if (this.hits.length > 0) {
+      const ctx = this.context ? this.context() : {};
+      for (const hit of this.hits.splice(0)) this.aggregator.add(hit, ctx);
+    }
+    if (this.aggregator.isEmpty()) return;
+    if (!force && Date.now() - this.lastSummaryAt < this.summaryIntervalMs) return;
+    await this.send(() => this.sendSummaries());
+  }
+
+  private async sendSummaries() {
+    this.lastSummaryAt = Date.now();
+    for (const summary of this.aggregator.drain()) {
+      await ingestGazeSummary(summary);
     }
   }
+
+  private async send(upload: () => Promise<void>) {
+    const sending = upload()
+      .catch(() => {
+        // Drop on failure; gaze is best-effort telemetry.
+      })
+      .finally(() => {
+        if (this.sending === sending) this.sending = null;
+      });
+    this.sending = sending;
+    await sending;
+  }
 }
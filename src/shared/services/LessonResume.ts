@@ -0,0 +1,402 @@
+import { getSessionState } from "@/shared/api/SessionService";
+import { queueSessionPatch, seedSessionMetadata } from "@/shared/services/SessionStateTracker";
+import type { SessionState } from "@/shared/types/models";
+
+const STORAGE_KEY = "nb_lesson_resume_v1";
+const DEVICE_KEY = "nb_device_id_v1";
+const SESSION_METADATA_KEY = "lesson_resume";
+const MAX_POSITIONS = 60;
+const SYNC_DEBOUNCE_MS = 2000;
+// Two copies of a position only conflict when they are this far apart in the lesson.
+const CONFLICT_MIN_SCROLL_DELTA = 5;
+
+/** Share of a lesson's blocks that must be read before it leaves "Continue learning". */
+export const LESSON_FINISHED_PROGRESS = 0.95;
+
+export type ResumeDeviceKind = "phone" | "tablet" | "computer" | "unknown";
+
+export interface ResumePosition {
+  pathNodeId: string;
+  pathId: string | null;
+  title: string;
+  // Block at the top of the reading area, and how far into it (0–1 of its height) the reader was.
+  blockId: string | null;
+  blockOffset: number;
+  scrollPercent: number;
+  // Share of the lesson's blocks that earned read credit (0–1).
+  progress: number;
+  deviceId: string;
+  deviceKind: ResumeDeviceKind;
+  updatedAt: number;
+}
+
+export interface ResumePositionInput {
+  pathNodeId: string;
+  pathId?: string | null;
+  title?: string | null;
+  blockId?: string | null;
+  blockOffset?: number | null;
+  scrollPercent?: number | null;
+  progress?: number | null;
+}
+
+/** The same lesson left at different places on two devices; the newer copy is the default. */
+export interface ResumeConflict {
+  pathNodeId: string;
+  local: ResumePosition;
+  remote: ResumePosition;
+}
+
+type SyncedResumePosition = {
+  path_node_id: string;
+  path_id: string | null;
+  title: string;
+  block_id: string | null;
+  block_offset: number;
+  scroll_percent: number;
+  progress: number;
+  device_id: string;
+  device_kind: ResumeDeviceKind;
+  updated_at: number;
+};
+
+let positions: ResumePosition[] = [];
+let conflicts: ResumeConflict[] = [];
+let loaded = false;
+let hydrated = false;
+let syncPending = false;
+let hydratePromise: Promise<void> | null = null;
+let syncTimer: number | null = null;
+let deviceId = "";
+const listeners = new Set<() => void>();
+
+function canUseStorage(): boolean {
+  if (typeof window === "undefined") return false;
+  try {
+    return typeof window.localStorage !== "undefined";
+  } catch {
+    return false;
+  }
+}
+
+function num(raw: unknown, fallback: number): number {
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+function str(raw: unknown): string | null {
+  return typeof raw === "string" && raw.trim() ? raw.trim() : null;
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, value));
+}
+
+/** Stable per-browser id, so positions synced from this device can be told apart from others. */
+export function getResumeDeviceId(): string {
+  if (deviceId) return deviceId;
+  let id = "";
+  if (canUseStorage()) {
+    try {
+      id = window.localStorage.getItem(DEVICE_KEY) || "";
+    } catch {
+      id = "";
+    }
+  }
+  if (!id) {
+    id =
+      typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+        ? crypto.randomUUID()
+        : `dev_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+    if (canUseStorage()) {
+      try {
+        window.localStorage.setItem(DEVICE_KEY, id);
+      } catch {
+        // Private mode: the id lives for this page load only.
+      }
+    }
+  }
+  deviceId = id;
+  return id;
+}
+
+function currentDeviceKind(): ResumeDeviceKind {
+  if (typeof navigator === "undefined") return "unknown";
+  const ua = navigator.userAgent || "";
+  if (/iPad|Tablet/i.test(ua) || (/Android/i.test(ua) && !/Mobile/i.test(ua))) return "tablet";
+  if (/Mobi|iPhone|Android/i.test(ua)) return "phone";
+  return "computer";
+}
+
+function toSynced(pos: ResumePosition): SyncedResumePosition {
+  return {
+    path_node_id: pos.pathNodeId,
+    path_id: pos.pathId,
+    title: pos.title,
+    block_id: pos.blockId,
+    block_offset: pos.blockOffset,
+    scroll_percent: pos.scrollPercent,
+    progress: pos.progress,
+    device_id: pos.deviceId,
+    device_kind: pos.deviceKind,
+    updated_at: pos.updatedAt,
+  };
+}
+
+function fromSynced(raw: unknown): ResumePosition | null {
+  if (!raw || typeof raw !== "object") return null;
+  const row = raw as Partial<SyncedResumePosition>;
+  const pathNodeId = str(row.path_node_id);
+  if (!pathNodeId) return null;
+  const kind = row.device_kind;
+  return {
+    pathNodeId,
+    pathId: str(row.path_id),
+    title: typeof row.title === "string" ? row.title : "",
+    blockId: str(row.block_id),
+    blockOffset: clamp(num(row.block_offset, 0), 0, 1),
+    scrollPercent: clamp(num(row.scroll_percent, 0), 0, 100),
+    progress: clamp(num(row.progress, 0), 0, 1),
+    deviceId: str(row.device_id) ?? "",
+    deviceKind: kind === "phone" || kind === "tablet" || kind === "computer" ? kind : "unknown",
+    updatedAt: num(row.updated_at, 0),
+  };
+}
+
+function ensureLoaded() {
+  if (loaded) return;
+  loaded = true;
+  if (!canUseStorage()) return;
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return;
+    const parsed = JSON.parse(raw) as unknown;
+    if (!Array.isArray(parsed)) return;
+    positions = parsed.map(fromSynced).filter((p): p is ResumePosition => Boolean(p));
+  } catch {
+    positions = [];
+  }
+}
+
+function persistLocal() {
+  if (!canUseStorage()) return;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(positions.map(toSynced)));
+  } catch {
+    // Storage quota/private mode: the in-memory positions and session sync still work.
+  }
+}
+
+function scheduleSessionSync() {
+  // Until the remote positions have been merged, a sync would overwrite them with the local subset.
+  if (!hydrated) {
+    syncPending = true;
+    return;
+  }
+  if (typeof window === "undefined" || syncTimer != null) return;
+  syncTimer = window.setTimeout(() => {
+    syncTimer = null;
+    queueSessionPatch(null, { [SESSION_METADATA_KEY]: positions.map(toSynced) });
+  }, SYNC_DEBOUNCE_MS);
+}
+
+function notify() {
+  for (const listener of listeners) {
+    try {
+      listener();
+    } catch (err) {
+      console.error("[LessonResume] listener failed:", err);
+    }
+  }
+}
+
+function commit(next: ResumePosition[], opts?: { sync?: boolean }) {
+  const sorted = next.slice().sort((a, b) => b.updatedAt - a.updatedAt);
+  positions = sorted.length > MAX_POSITIONS ? sorted.slice(0, MAX_POSITIONS) : sorted;
+  persistLocal();
+  if (opts?.sync !== false) scheduleSessionSync();
+  notify();
+}
+
+export function getResumePositions(): ResumePosition[] {
+  ensureLoaded();
+  return positions;
+}
+
+export function getResumePosition(pathNodeId: string): ResumePosition | null {
+  const id = String(pathNodeId || "").trim();
+  if (!id) return null;
+  return getResumePositions().find((p) => p.pathNodeId === id) ?? null;
+}
+
+export function getResumeConflicts(): ResumeConflict[] {
+  return conflicts;
+}
+
+export function getResumeConflict(pathNodeId: string): ResumeConflict | null {
+  return conflicts.find((c) => c.pathNodeId === pathNodeId) ?? null;
+}
+
+export function subscribeLessonResume(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function isLessonFinished(pos: Pick<ResumePosition, "progress">): boolean {
+  return pos.progress >= LESSON_FINISHED_PROGRESS;
+}
+
+/** Saves where the reader is in a lesson on this device. */
+export function recordResumePosition(input: ResumePositionInput) {
+  const pathNodeId = str(input.pathNodeId);
+  if (!pathNodeId) return;
+  ensureLoaded();
+  const existing = positions.find((p) => p.pathNodeId === pathNodeId);
+  const next: ResumePosition = {
+    pathNodeId,
+    pathId: str(input.pathId) ?? existing?.pathId ?? null,
+    title: str(input.title) ?? existing?.title ?? "",
+    blockId: str(input.blockId),
+    blockOffset: clamp(num(input.blockOffset, 0), 0, 1),
+    scrollPercent: clamp(num(input.scrollPercent, 0), 0, 100),
+    // Read credit only grows within a lesson; a re-read from the top keeps earlier progress.
+    progress: Math.max(clamp(num(input.progress, 0), 0, 1), existing?.progress ?? 0),
+    deviceId: getResumeDeviceId(),
+    deviceKind: currentDeviceKind(),
+    updatedAt: Date.now(),
+  };
+  if (
+    existing &&
+    existing.deviceId === next.deviceId &&
+    existing.blockId === next.blockId &&
+    Math.abs(existing.blockOffset - next.blockOffset) < 0.02 &&
+    existing.progress === next.progress &&
+    existing.title === next.title
+  ) {
+    return;
+  }
+  // Moving on in this lesson settles any disagreement with another device.
+  if (conflicts.some((c) => c.pathNodeId === pathNodeId)) {
+    conflicts = conflicts.filter((c) => c.pathNodeId !== pathNodeId);
+  }
+  commit([...positions.filter((p) => p.pathNodeId !== pathNodeId), next]);
+}
+
+/** Keeps one side of a conflict as the lesson's resume position. */
+export function resolveResumeConflict(pathNodeId: string, keep: "local" | "remote"): ResumePosition | null {
+  const conflict = getResumeConflict(pathNodeId);
+  if (!conflict) return getResumePosition(pathNodeId);
+  conflicts = conflicts.filter((c) => c.pathNodeId !== pathNodeId);
+  const chosen = { ...conflict[keep], updatedAt: Date.now() };
+  commit([...positions.filter((p) => p.pathNodeId !== pathNodeId), chosen]);
+  return chosen;
+}
+
+function differs(a: ResumePosition, b: ResumePosition) {
+  if (a.deviceId === b.deviceId) return false;
+  return a.blockId !== b.blockId && Math.abs(a.scrollPercent - b.scrollPercent) >= CONFLICT_MIN_SCROLL_DELTA;
+}
+
+/**
+ * The live `active_*` fields of the session: where the user is (or was when a tab closed without
+ * leaving the lesson). Newer than the synced metadata when the other device had not flushed yet.
+ */
+function fromActiveSession(state: SessionState | null, known: Map<string, ResumePosition>): ResumePosition | null {
+  const pathNodeId = str(state?.activePathNodeId);
+  const blockId = str(state?.activeDocBlockId);
+  if (!state || !pathNodeId || !blockId) return null;
+  const updatedAt = Date.parse(state.updatedAt ?? state.lastSeenAt ?? "");
+  if (!Number.isFinite(updatedAt)) return null;
+  const base = known.get(pathNodeId);
+  if (base && base.blockId === blockId) return null;
+  return {
+    pathNodeId,
+    pathId: str(state.activePathId) ?? base?.pathId ?? null,
+    title: base?.title ?? "",
+    blockId,
+    blockOffset: 0,
+    scrollPercent: clamp(num(state.scrollPercent, 0), 0, 100),
+    progress: base?.progress ?? 0,
+    // Unknown device: only a conflict when it disagrees with this one.
+    deviceId: "",
+    deviceKind: "unknown",
+    updatedAt,
+  };
+}
+
+/**
+ * Merges the positions stored in session metadata into the local ones (per lesson, the most
+ * recently updated copy wins). When another device left the same lesson somewhere else, both
+ * copies are kept as a conflict for the reader to settle. Runs once per page load.
+ */
+export function hydrateLessonResume(): Promise<void> {
+  if (hydratePromise) return hydratePromise;
+  hydratePromise = (async () => {
+    ensureLoaded();
+    const self = getResumeDeviceId();
+    const state = await getSessionState();
+    const metadata = state?.metadata;
+    // Other writers send the whole metadata object; keep the synced positions in it.
+    seedSessionMetadata(metadata);
+    const remoteRaw =
+      metadata && typeof metadata === "object" && !Array.isArray(metadata)
+        ? (metadata as Record<string, unknown>)[SESSION_METADATA_KEY]
+        : null;
+    const remote = Array.isArray(remoteRaw)
+      ? remoteRaw.map(fromSynced).filter((p): p is ResumePosition => Boolean(p))
+      : [];
+
+    const byId = new Map<string, ResumePosition>();
+    for (const pos of remote) byId.set(pos.pathNodeId, pos);
+    const active = fromActiveSession(state, byId);
+    if (active) {
+      const known = byId.get(active.pathNodeId);
+      if (!known || active.updatedAt > known.updatedAt) byId.set(active.pathNodeId, active);
+    }
+
+    const found: ResumeConflict[] = [];
+    let localNewer = false;
+    for (const pos of positions) {
+      const other = byId.get(pos.pathNodeId);
+      if (other && pos.deviceId === self && differs(pos, other)) {
+        found.push({ pathNodeId: pos.pathNodeId, local: pos, remote: { ...other, title: other.title || pos.title } });
+      }
+      if (!other || pos.updatedAt > other.updatedAt) {
+        byId.set(pos.pathNodeId, pos);
+        localNewer = true;
+      }
+    }
+    hydrated = true;
+    conflicts = found;
+    commit(Array.from(byId.values()), { sync: localNewer || syncPending });
+    syncPending = false;
+  })().catch((err) => {
+    console.warn("[LessonResume] hydrate failed:", err);
+    hydratePromise = null;
+  });
+  return hydratePromise;
+}
+
+/** Drops local positions, e.g. on logout, so the next user on this device starts clean. */
+export function resetLessonResume() {
+  if (syncTimer != null) {
+    window.clearTimeout(syncTimer);
+    syncTimer = null;
+  }
+  hydratePromise = null;
+  hydrated = false;
+  syncPending = false;
+  loaded = true;
+  if (canUseStorage()) {
+    try {
+      window.localStorage.removeItem(STORAGE_KEY);
+    } catch {
+      // ignore
+    }
+  }
+  positions = [];
+  conflicts = [];
+  notify();
+}
@@ -0,0 +1,79 @@
+import type { GazeProvider, GazeProviderConfig, GazeSample } from "@/shared/services/GazeProvider";
+
+type MouseConfig = Extract<GazeProviderConfig, { kind: "mouse" }>;
+
+// Box–Muller; one normal sample per call is plenty at simulator rates.
+function gaussian(): number {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Treats the pointer as the gaze point, emitted at a steady rate like a real tracker (also while
+ * the pointer rests). Optional jitter and offset mimic a noisy or drifted camera estimate.
+ */
+export class MouseGazeProvider implements GazeProvider {
+  readonly kind = "mouse" as const;
+  readonly requiresCamera = false;
+  readonly needsCalibration = false;
+
+  private config: MouseConfig;
+  private pointer: { x: number; y: number } | null = null;
+  private timer: number | null = null;
+  private cleanup: (() => void) | null = null;
+
+  constructor(config?: MouseConfig) {
+    this.config = config ?? { kind: "mouse" };
+  }
+
+  isSupported() {
+    return typeof window !== "undefined";
+  }
+
+  async start(onSample: (sample: GazeSample) => void): Promise<boolean> {
+    this.stop();
+    const jitter = Math.max(0, this.config.jitterPx ?? 0);
+    const offsetX = this.config.offsetX ?? 0;
+    const offsetY = this.config.offsetY ?? 0;
+    const confidence = this.config.confidence ?? 0.9;
+    const hz = Math.min(120, Math.max(1, this.config.hz ?? 30));
+
+    const onMove = (event: PointerEvent) => {
+      if (event.pointerType && event.pointerType !== "mouse" && event.pointerType !== "pen") return;
+      this.pointer = { x: event.clientX, y: event.clientY };
+    };
+    // Pointer left the window: a real tracker would lose the face, so go quiet until it's back.
+    const onLeave = (event: MouseEvent) => {
+      if (!event.relatedTarget) this.pointer = null;
+    };
+    window.addEventListener("pointermove", onMove, { passive: true });
+    document.addEventListener("mouseout", onLeave);
+    this.cleanup = () => {
+      window.removeEventListener("pointermove", onMove);
+      document.removeEventListener("mouseout", onLeave);
+    };
+
+    this.timer = window.setInterval(() => {
+      const p = this.pointer;
+      if (!p) return;
+      onSample({
+        x: p.x + offsetX + (jitter > 0 ? gaussian() * jitter : 0),
+        y: p.y + offsetY + (jitter > 0 ? gaussian() * jitter : 0),
+        confidence,
+        ts: Date.now(),
+      });
+    }, Math.round(1000 / hz));
+    return true;
+  }
+
+  stop() {
+    if (this.timer != null) {
+      window.clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.cleanup?.();
+    this.cleanup = null;
+    this.pointer = null;
+  }
+}
@@ -0,0 +1,148 @@
+import { markdownToSearchText } from "@/shared/lib/search";
+
+const STORAGE_KEY = "nb_node_doc_search_v1";
+const MAX_NODES = 60;
+const MAX_BLOCK_TEXT = 500;
+
+export interface CachedDocBlock {
+  id: string;
+  type: string;
+  text: string;
+}
+
+export interface CachedNodeDoc {
+  pathNodeId: string;
+  pathId: string;
+  nodeTitle: string;
+  cachedAt: number;
+  blocks: CachedDocBlock[];
+}
+
+let docs: CachedNodeDoc[] = [];
+let loaded = false;
+
+function canUseStorage(): boolean {
+  if (typeof window === "undefined") return false;
+  try {
+    return typeof window.localStorage !== "undefined";
+  } catch {
+    return false;
+  }
+}
+
+function ensureLoaded() {
+  if (loaded) return;
+  loaded = true;
+  if (!canUseStorage()) return;
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? (JSON.parse(raw) as unknown) : null;
+    docs = Array.isArray(parsed) ? (parsed as CachedNodeDoc[]) : [];
+  } catch {
+    docs = [];
+  }
+}
+
+function persist() {
+  if (!canUseStorage()) return;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(docs));
+  } catch {
+    // Quota exceeded: keep the newest half and try once more.
+    docs = docs.slice(0, Math.ceil(docs.length / 2));
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(docs));
+    } catch {
+      // ignore
+    }
+  }
+}
+
+function str(raw: unknown): string {
+  return typeof raw === "string" ? raw : "";
+}
+
+function blockText(block: Record<string, unknown>): string {
+  const type = str(block.type).toLowerCase();
+  switch (type) {
+    case "heading":
+      return str(block.text);
+    case "paragraph":
+      return markdownToSearchText(str(block.md));
+    case "callout":
+      return [str(block.title), markdownToSearchText(str(block.md))].filter(Boolean).join(" — ");
+    case "code":
+      return [str(block.filename), str(block.code)].filter(Boolean).join(" ");
+    case "figure":
+    case "video":
+    case "diagram":
+    case "equation":
+      return str(block.caption);
+    case "table": {
+      const columns = Array.isArray(block.columns) ? block.columns.map(String) : [];
+      return [str(block.caption), columns.join(" ")].filter(Boolean).join(" — ");
+    }
+    case "quick_check":
+      return markdownToSearchText(str(block.prompt_md));
+    case "flashcard":
+      return markdownToSearchText(`${str(block.front_md)} ${str(block.back_md)}`);
+    default:
+      return "";
+  }
+}
+
+/** Records the text of a lesson's blocks as it is opened so the command palette can search it offline. */
+export function cacheNodeDocForSearch({
+  pathNodeId,
+  pathId,
+  nodeTitle,
+  doc,
+}: {
+  pathNodeId: string;
+  pathId: string;
+  nodeTitle: string;
+  doc: unknown;
+}) {
+  let parsed = doc;
+  if (typeof parsed === "string") {
+    try {
+      parsed = JSON.parse(parsed) as unknown;
+    } catch {
+      return;
+    }
+  }
+  if (!pathNodeId || !parsed || typeof parsed !== "object") return;
+  const rawBlocks = (parsed as { blocks?: unknown }).blocks;
+  if (!Array.isArray(rawBlocks)) return;
+  ensureLoaded();
+
+  const blocks: CachedDocBlock[] = [];
+  rawBlocks.forEach((raw, i) => {
+    if (!raw || typeof raw !== "object") return;
+    const block = raw as Record<string, unknown>;
+    const text = blockText(block).replace(/\s+/g, " ").trim().slice(0, MAX_BLOCK_TEXT);
+    if (!text) return;
+    blocks.push({ id: str(block.id) || String(i), type: str(block.type), text });
+  });
+
+  const title = nodeTitle || str((parsed as { title?: unknown }).title);
+  const entry: CachedNodeDoc = { pathNodeId, pathId, nodeTitle: title, cachedAt: Date.now(), blocks };
+  docs = [entry, ...docs.filter((d) => d.pathNodeId !== pathNodeId)].slice(0, MAX_NODES);
+  persist();
+}
+
+export function getCachedNodeDocs(): CachedNodeDoc[] {
+  ensureLoaded();
+  return docs;
+}
+
+export function clearNodeDocSearchCache() {
+  docs = [];
+  loaded = true;
+  if (!canUseStorage()) return;
+  try {
+    window.localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // ignore
+  }
+}
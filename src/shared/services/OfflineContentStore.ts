@@ -0,0 +1,215 @@
+import axios from "axios";
+
+const DB_NAME = "nb_offline_v1";
+const DB_VERSION = 1;
+const RECORDS_STORE = "records";
+const PATHS_STORE = "paths";
+export const OFFLINE_MEDIA_CACHE = "nb-offline-media-v1";
+
+export interface OfflineRecord<T = unknown> {
+  key: string;
+  pathId: string;
+  value: T;
+  bytes: number;
+  updatedAt: number;
+}
+
+export interface OfflinePathManifest {
+  pathId: string;
+  title: string;
+  savedAt: number;
+  updatedAt: number;
+  nodeCount: number;
+  dataBytes: number;
+  mediaBytes: number;
+  mediaUrls: string[];
+}
+
+export const offlineKeys = {
+  path: (pathId: string) => `path:${pathId}`,
+  pathNodes: (pathId: string) => `nodes:${pathId}`,
+  node: (pathNodeId: string) => `node:${pathNodeId}`,
+  doc: (pathNodeId: string) => `doc:${pathNodeId}`,
+  drills: (pathNodeId: string) => `drills:${pathNodeId}`,
+} as const;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+// Null until the manifests have been read once; lets read-through skip IndexedDB entirely
+// for users who never saved anything offline.
+let knownPathIds: Set<string> | null = null;
+
+function canUseIndexedDB(): boolean {
+  try {
+    return typeof indexedDB !== "undefined";
+  } catch {
+    return false;
+  }
+}
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function txDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDB(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+  if (!canUseIndexedDB()) return Promise.resolve(null);
+  dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(RECORDS_STORE)) {
+        const records = db.createObjectStore(RECORDS_STORE, { keyPath: "key" });
+        records.createIndex("pathId", "pathId", { unique: false });
+      }
+      if (!db.objectStoreNames.contains(PATHS_STORE)) {
+        db.createObjectStore(PATHS_STORE, { keyPath: "pathId" });
+      }
+    };
+    req.onsuccess = () => {
+      const db = req.result;
+      // Another tab deleting the database (logout) must not be blocked by this connection.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    req.onerror = () => {
+      console.warn("[OfflineContentStore] open failed:", req.error);
+      dbPromise = null;
+      resolve(null);
+    };
+  });
+  return dbPromise;
+}
+
+function estimateBytes(value: unknown): number {
+  try {
+    return JSON.stringify(value ?? null).length;
+  } catch {
+    return 0;
+  }
+}
+
+/** True for failures where the request never got a response (offline, DNS, CORS, timeout). */
+export function isNetworkError(err: unknown): boolean {
+  if (axios.isAxiosError(err)) return !err.response;
+  return err instanceof TypeError;
+}
+
+export async function putOfflineRecord(key: string, pathId: string, value: unknown): Promise<number> {
+  const db = await openDB();
+  if (!db) return 0;
+  const record: OfflineRecord = { key, pathId, value, bytes: estimateBytes(value), updatedAt: Date.now() };
+  const tx = db.transaction(RECORDS_STORE, "readwrite");
+  tx.objectStore(RECORDS_STORE).put(record);
+  await txDone(tx);
+  return record.bytes;
+}
+
+export async function getOfflineRecord<T>(key: string): Promise<OfflineRecord<T> | null> {
+  const db = await openDB();
+  if (!db) return null;
+  const tx = db.transaction(RECORDS_STORE, "readonly");
+  const record = await promisify(tx.objectStore(RECORDS_STORE).get(key) as IDBRequest<OfflineRecord<T> | undefined>);
+  return record ?? null;
+}
+
+export async function listOfflineManifests(): Promise<OfflinePathManifest[]> {
+  const db = await openDB();
+  if (!db) {
+    knownPathIds = new Set();
+    return [];
+  }
+  const tx = db.transaction(PATHS_STORE, "readonly");
+  const rows = await promisify(tx.objectStore(PATHS_STORE).getAll() as IDBRequest<OfflinePathManifest[]>);
+  knownPathIds = new Set(rows.map((r) => r.pathId));
+  return rows;
+}
+
+export async function putOfflineManifest(manifest: OfflinePathManifest): Promise<void> {
+  const db = await openDB();
+  if (!db) return;
+  const tx = db.transaction(PATHS_STORE, "readwrite");
+  tx.objectStore(PATHS_STORE).put(manifest);
+  await txDone(tx);
+  knownPathIds?.add(manifest.pathId);
+}
+
+/** Removes a path's manifest and every record saved under it. */
+export async function deleteOfflinePathRecords(pathId: string): Promise<void> {
+  const db = await openDB();
+  if (!db) return;
+  const tx = db.transaction([RECORDS_STORE, PATHS_STORE], "readwrite");
+  const keys = await promisify(tx.objectStore(RECORDS_STORE).index("pathId").getAllKeys(pathId));
+  const records = tx.objectStore(RECORDS_STORE);
+  keys.forEach((key) => records.delete(key));
+  tx.objectStore(PATHS_STORE).delete(pathId);
+  await txDone(tx);
+  knownPathIds?.delete(pathId);
+}
+
+export async function deleteOfflineDatabase(): Promise<void> {
+  knownPathIds = new Set();
+  const db = dbPromise ? await dbPromise : null;
+  db?.close();
+  dbPromise = null;
+  if (!canUseIndexedDB()) return;
+  await new Promise<void>((resolve) => {
+    const req = indexedDB.deleteDatabase(DB_NAME);
+    req.onsuccess = () => resolve();
+    req.onerror = () => resolve();
+    req.onblocked = () => resolve();
+  });
+}
+
+async function hasOfflineContent(): Promise<boolean> {
+  if (!knownPathIds) {
+    try {
+      await listOfflineManifests();
+    } catch {
+      return false;
+    }
+  }
+  return Boolean(knownPathIds && knownPathIds.size > 0);
+}
+
+/**
+ * Wraps an API read so saved paths keep working without a network: successful responses refresh
+ * the stored copy (only for records that were saved for offline use), and network failures fall
+ * back to it. Server errors still surface as errors.
+ */
+export async function readThroughOffline<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  opts?: { shouldStore?: (value: T) => boolean }
+): Promise<T> {
+  try {
+    const value = await fetcher();
+    if (opts?.shouldStore && !opts.shouldStore(value)) return value;
+    void (async () => {
+      if (!(await hasOfflineContent())) return;
+      const existing = await getOfflineRecord<T>(key);
+      if (existing) await putOfflineRecord(key, existing.pathId, value);
+    })().catch((err) => {
+      console.warn("[OfflineContentStore] refresh failed:", err);
+    });
+    return value;
+  } catch (err) {
+    if (!isNetworkError(err)) throw err;
+    const cached = (await hasOfflineContent()) ? await getOfflineRecord<T>(key).catch(() => null) : null;
+    if (!cached) throw err;
+    return cached.value;
+  }
+}
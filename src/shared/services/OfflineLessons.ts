@@ -0,0 +1,268 @@
+import { getPath, listNodesForPath } from "@/shared/api/PathService";
+import { getPathNodeContent, getPathNodeDocEnvelope, listDrillsForNode } from "@/shared/api/PathNodeService";
+import {
+  OFFLINE_MEDIA_CACHE,
+  deleteOfflineDatabase,
+  deleteOfflinePathRecords,
+  listOfflineManifests,
+  offlineKeys,
+  putOfflineManifest,
+  putOfflineRecord,
+  type OfflinePathManifest,
+} from "@/shared/services/OfflineContentStore";
+
+const SERVICE_WORKER_URL = "/sw.js";
+
+export interface OfflineSaveProgress {
+  done: number;
+  total: number;
+}
+
+export interface OfflineLessonsSnapshot {
+  loaded: boolean;
+  paths: OfflinePathManifest[];
+  saving: Record<string, OfflineSaveProgress>;
+  errors: Record<string, string>;
+}
+
+let snapshot: OfflineLessonsSnapshot = { loaded: false, paths: [], saving: {}, errors: {} };
+let loadPromise: Promise<void> | null = null;
+// Bumped by clearOfflineContent; a save started under an older value must not write anything.
+let clearGeneration = 0;
+const listeners = new Set<() => void>();
+
+function setSnapshot(patch: Partial<OfflineLessonsSnapshot>) {
+  snapshot = { ...snapshot, ...patch };
+  for (const listener of listeners) {
+    try {
+      listener();
+    } catch (err) {
+      console.error("[OfflineLessons] listener failed:", err);
+    }
+  }
+}
+
+function withoutKey<T>(record: Record<string, T>, key: string): Record<string, T> {
+  if (!(key in record)) return record;
+  const next = { ...record };
+  delete next[key];
+  return next;
+}
+
+class OfflineSaveCancelled extends Error {
+  constructor() {
+    super("Offline save cancelled");
+    this.name = "OfflineSaveCancelled";
+  }
+}
+
+function canUseCacheStorage(): boolean {
+  try {
+    return typeof caches !== "undefined";
+  } catch {
+    return false;
+  }
+}
+
+function isEmbedOnlyVideo(url: string): boolean {
+  return /(^|\.)(youtube\.com|youtu\.be|vimeo\.com)$/i.test(safeHostname(url));
+}
+
+function safeHostname(url: string): string {
+  try {
+    return new URL(url, window.location.origin).hostname;
+  } catch {
+    return "";
+  }
+}
+
+/** Figure and video URLs referenced by a doc, skipping embeds that can't be cached. */
+function collectMediaUrls(doc: unknown): string[] {
+  let parsed = doc;
+  if (typeof parsed === "string") {
+    try {
+      parsed = JSON.parse(parsed) as unknown;
+    } catch {
+      return [];
+    }
+  }
+  const blocks = (parsed as { blocks?: unknown } | null)?.blocks;
+  if (!Array.isArray(blocks)) return [];
+  const urls: string[] = [];
+  for (const raw of blocks) {
+    if (!raw || typeof raw !== "object") continue;
+    const block = raw as { type?: unknown; url?: unknown; asset?: { url?: unknown } | null };
+    const type = String(block.type || "").toLowerCase();
+    const url =
+      type === "figure" ? String(block.asset?.url || "").trim() : type === "video" ? String(block.url || "").trim() : "";
+    if (!url || url.startsWith("data:") || isEmbedOnlyVideo(url)) continue;
+    urls.push(url);
+  }
+  return urls;
+}
+
+async function cacheMedia(urls: string[], checkCurrent: () => void): Promise<number> {
+  if (!canUseCacheStorage() || urls.length === 0) return 0;
+  checkCurrent();
+  const cache = await caches.open(OFFLINE_MEDIA_CACHE);
+  let bytes = 0;
+  for (const url of urls) {
+    checkCurrent();
+    try {
+      const existing = await cache.match(url);
+      const resp = existing ?? (await fetch(url, { credentials: "same-origin" }));
+      if (!resp.ok) continue;
+      const blob = await resp.clone().blob();
+      bytes += blob.size;
+      checkCurrent();
+      if (!existing) await cache.put(url, resp);
+    } catch (err) {
+      if (err instanceof OfflineSaveCancelled) throw err;
+      // Cross-origin media without CORS can't be stored; the lesson text still works offline.
+      console.warn("[OfflineLessons] media cache failed:", url, err);
+    }
+  }
+  return bytes;
+}
+
+async function dropMedia(urls: string[]) {
+  if (!canUseCacheStorage() || urls.length === 0) return;
+  const cache = await caches.open(OFFLINE_MEDIA_CACHE);
+  await Promise.all(urls.map((url) => cache.delete(url).catch(() => false)));
+}
+
+export function getOfflineLessonsSnapshot(): OfflineLessonsSnapshot {
+  return snapshot;
+}
+
+export function subscribeOfflineLessons(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function loadOfflinePaths(): Promise<void> {
+  if (loadPromise) return loadPromise;
+  loadPromise = listOfflineManifests()
+    .then((paths) => setSnapshot({ loaded: true, paths }))
+    .catch((err) => {
+      console.warn("[OfflineLessons] load failed:", err);
+      setSnapshot({ loaded: true, paths: [] });
+    })
+    .finally(() => {
+      loadPromise = null;
+    });
+  return loadPromise;
+}
+
+/**
+ * Downloads everything a path needs to be read without a network: the path, its node list, and
+ * for each lesson the node, the ready doc, the drill list and the doc's figure/video assets.
+ * Saving a path that is already offline refreshes it in place.
+ */
+export async function savePathForOffline(pathId: string): Promise<void> {
+  const id = String(pathId || "").trim();
+  if (!id || snapshot.saving[id]) return;
+  setSnapshot({ saving: { ...snapshot.saving, [id]: { done: 0, total: 0 } }, errors: withoutKey(snapshot.errors, id) });
+
+  // Logout wipes the store mid-save; every write checks first so nothing of the previous user's
+  // lands in the freshly reopened database.
+  const generation = clearGeneration;
+  const checkCurrent = () => {
+    if (generation !== clearGeneration) throw new OfflineSaveCancelled();
+  };
+  const put = (key: string, value: unknown) => {
+    checkCurrent();
+    return putOfflineRecord(key, id, value);
+  };
+
+  try {
+    const path = await getPath(id);
+    const nodes = await listNodesForPath(id);
+    let dataBytes = await put(offlineKeys.path(id), path);
+    dataBytes += await put(offlineKeys.pathNodes(id), nodes);
+
+    const total = nodes.length;
+    setSnapshot({ saving: { ...snapshot.saving, [id]: { done: 0, total } } });
+
+    const mediaUrls = new Set<string>();
+    let nodeCount = 0;
+    for (let i = 0; i < nodes.length; i += 1) {
+      const nodeId = String(nodes[i]?.id || "");
+      if (nodeId) {
+        const envelope = await getPathNodeDocEnvelope(nodeId);
+        if (envelope.http_status < 300 && envelope.doc != null) {
+          const [node, drills] = await Promise.all([getPathNodeContent(nodeId), listDrillsForNode(nodeId)]);
+          dataBytes += await put(offlineKeys.node(nodeId), node);
+          dataBytes += await put(offlineKeys.doc(nodeId), envelope);
+          dataBytes += await put(offlineKeys.drills(nodeId), drills);
+          collectMediaUrls(envelope.doc).forEach((url) => mediaUrls.add(url));
+          nodeCount += 1;
+        }
+      }
+      checkCurrent();
+      setSnapshot({ saving: { ...snapshot.saving, [id]: { done: i + 1, total } } });
+    }
+
+    const mediaBytes = await cacheMedia(Array.from(mediaUrls), checkCurrent);
+    const previous = snapshot.paths.find((p) => p.pathId === id);
+    const now = Date.now();
+    const manifest: OfflinePathManifest = {
+      pathId: id,
+      title: String(path?.title || previous?.title || ""),
+      savedAt: previous?.savedAt ?? now,
+      updatedAt: now,
+      nodeCount,
+      dataBytes,
+      mediaBytes,
+      mediaUrls: Array.from(mediaUrls),
+    };
+    checkCurrent();
+    await putOfflineManifest(manifest);
+    setSnapshot({ paths: [...snapshot.paths.filter((p) => p.pathId !== id), manifest] });
+  } catch (err) {
+    if (err instanceof OfflineSaveCancelled) return;
+    console.warn("[OfflineLessons] save failed:", err);
+    setSnapshot({ errors: { ...snapshot.errors, [id]: err instanceof Error ? err.message : String(err) } });
+  } finally {
+    if (generation === clearGeneration) setSnapshot({ saving: withoutKey(snapshot.saving, id) });
+  }
+}
+
+export async function removeOfflinePath(pathId: string): Promise<void> {
+  const id = String(pathId || "").trim();
+  if (!id) return;
+  const manifest = snapshot.paths.find((p) => p.pathId === id);
+  const remaining = snapshot.paths.filter((p) => p.pathId !== id);
+  try {
+    await deleteOfflinePathRecords(id);
+    // Media can be shared between paths built from the same materials.
+    const stillUsed = new Set(remaining.flatMap((p) => p.mediaUrls));
+    await dropMedia((manifest?.mediaUrls ?? []).filter((url) => !stillUsed.has(url)));
+  } catch (err) {
+    console.warn("[OfflineLessons] remove failed:", err);
+  }
+  setSnapshot({ paths: remaining, errors: withoutKey(snapshot.errors, id) });
+}
+
+/** Wipes saved lessons and media, e.g. on logout, so the next user on this device starts clean. */
+export async function clearOfflineContent(): Promise<void> {
+  clearGeneration += 1;
+  setSnapshot({ paths: [], saving: {}, errors: {} });
+  await deleteOfflineDatabase();
+  if (canUseCacheStorage()) {
+    await caches.delete(OFFLINE_MEDIA_CACHE).catch(() => false);
+  }
+}
+
+export function registerOfflineServiceWorker() {
+  if (typeof window === "undefined" || !("serviceWorker" in navigator)) return;
+  const register = () => {
+    navigator.serviceWorker.register(SERVICE_WORKER_URL).catch((err) => {
+      console.warn("[OfflineLessons] service worker registration failed:", err);
+    });
+  };
+  if (document.readyState === "complete") register();
+  else window.addEventListener("load", register, { once: true });
+}
@@ -0,0 +1,186 @@
+import type { FlashcardV1 } from "@/shared/types/drillPayloadV1";
+
+// Decks are stored per user and kept across logout; only the signed-in user's key is read.
+const STORAGE_KEY_PREFIX = "nb_personal_decks_v1:";
+// Before decks were scoped per user; adopted by the first user who signs in afterwards.
+const LEGACY_STORAGE_KEY = "nb_personal_decks_v1";
+const MAX_DECKS = 100;
+const MAX_CARDS_PER_DECK = 5000;
+
+/** A user-authored flashcard deck (e.g. migrated from Anki) attached to one path. */
+export interface PersonalDeck {
+  id: string;
+  pathId: string;
+  title: string;
+  // Original file name, shown so users can tell re-imports apart.
+  sourceName: string;
+  createdAt: number;
+  updatedAt: number;
+  cards: FlashcardV1[];
+}
+
+type StoredDecks = Record<string, PersonalDeck>;
+
+const NO_DECKS: PersonalDeck[] = [];
+
+let decksById: StoredDecks = {};
+let decksByPath = new Map<string, PersonalDeck[]>();
+let loaded = false;
+let ownerId = "";
+const listeners = new Set<() => void>();
+
+function canUseStorage(): boolean {
+  if (typeof window === "undefined") return false;
+  try {
+    return typeof window.localStorage !== "undefined";
+  } catch {
+    return false;
+  }
+}
+
+// Per-path lists are rebuilt on every change so snapshots stay referentially stable between changes.
+function reindex() {
+  const next = new Map<string, PersonalDeck[]>();
+  for (const deck of Object.values(decksById)) {
+    const list = next.get(deck.pathId) ?? [];
+    list.push(deck);
+    next.set(deck.pathId, list);
+  }
+  for (const list of next.values()) list.sort((a, b) => b.updatedAt - a.updatedAt);
+  decksByPath = next;
+}
+
+function ensureLoaded() {
+  if (loaded || !ownerId) return;
+  loaded = true;
+  if (!canUseStorage()) return;
+  try {
+    const key = STORAGE_KEY_PREFIX + ownerId;
+    let raw = window.localStorage.getItem(key);
+    if (!raw) {
+      raw = window.localStorage.getItem(LEGACY_STORAGE_KEY);
+      if (raw) {
+        window.localStorage.setItem(key, raw);
+        window.localStorage.removeItem(LEGACY_STORAGE_KEY);
+      }
+    }
+    if (!raw) return;
+    const parsed = JSON.parse(raw) as unknown;
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      decksById = parsed as StoredDecks;
+    }
+  } catch {
+    decksById = {};
+  }
+  reindex();
+}
+
+function persist() {
+  if (!canUseStorage() || !ownerId) return true;
+  try {
+    window.localStorage.setItem(STORAGE_KEY_PREFIX + ownerId, JSON.stringify(decksById));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function notify() {
+  for (const listener of listeners) {
+    try {
+      listener();
+    } catch (err) {
+      console.error("[PersonalDeckStore] listener failed:", err);
+    }
+  }
+}
+
+function newDeckId() {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") return crypto.randomUUID();
+  return `deck_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/** Points the store at the signed-in user's decks. Called whenever the current user changes. */
+export function setPersonalDeckOwner(userId: string | null | undefined) {
+  const next = String(userId || "");
+  if (next === ownerId) return;
+  ownerId = next;
+  decksById = {};
+  decksByPath = new Map();
+  loaded = false;
+  notify();
+}
+
+export function getPersonalDecks(pathId: string): PersonalDeck[] {
+  ensureLoaded();
+  return decksByPath.get(pathId) ?? NO_DECKS;
+}
+
+/**
+ * Creates a deck for the path. Throws when the browser refuses to store it (quota), so the
+ * import dialog can tell the user instead of silently losing the deck on reload.
+ */
+export function createPersonalDeck(input: {
+  pathId: string;
+  title: string;
+  sourceName?: string;
+  cards: FlashcardV1[];
+}): PersonalDeck {
+  if (!ownerId) throw new Error("PersonalDeckStore: no signed-in user");
+  ensureLoaded();
+  const now = Date.now();
+  const deck: PersonalDeck = {
+    id: newDeckId(),
+    pathId: input.pathId,
+    title: input.title.trim() || input.sourceName || "Deck",
+    sourceName: input.sourceName ?? "",
+    createdAt: now,
+    updatedAt: now,
+    cards: input.cards.slice(0, MAX_CARDS_PER_DECK),
+  };
+
+  const prev = decksById;
+  const next = { ...decksById, [deck.id]: deck };
+  const ids = Object.keys(next);
+  if (ids.length > MAX_DECKS) {
+    ids
+      .sort((a, b) => next[a].updatedAt - next[b].updatedAt)
+      .slice(0, ids.length - MAX_DECKS)
+      .forEach((id) => delete next[id]);
+  }
+
+  decksById = next;
+  if (!persist()) {
+    decksById = prev;
+    throw new Error("PersonalDeckStore: storage quota exceeded");
+  }
+  reindex();
+  notify();
+  return deck;
+}
+
+export function deletePersonalDeck(deckId: string) {
+  ensureLoaded();
+  if (!decksById[deckId]) return;
+  const next = { ...decksById };
+  delete next[deckId];
+  decksById = next;
+  persist();
+  reindex();
+  notify();
+}
+
+export function subscribePersonalDecks(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Forgets the current user's decks on logout so the next user on this device starts clean. The
+ * decks stay stored under the user's key and come back when they sign in again.
+ */
+export function resetPersonalDecks() {
+  setPersonalDeckOwner(null);
+}
@@ -0,0 +1,151 @@
+import type { QuizQuestionV1 } from "@/shared/types/drillPayloadV1";
+
+const STORAGE_KEY = "nb_quiz_attempts_v1";
+const MAX_ATTEMPTS_PER_NODE = 20;
+const MAX_NODES = 200;
+
+export type QuizAttemptMode = "full" | "missed";
+
+export interface QuizAttemptAnswer {
+  questionId: string;
+  selectedId: string;
+  isCorrect: boolean;
+}
+
+export interface QuizAttempt {
+  id: string;
+  pathId: string;
+  pathNodeId: string;
+  mode: QuizAttemptMode;
+  startedAt: number;
+  completedAt: number;
+  correct: number;
+  total: number;
+  // Drills are regenerated on every open, so the attempt keeps its own copy of the questions
+  // to render results and retry missed questions later.
+  questions: QuizQuestionV1[];
+  answers: QuizAttemptAnswer[];
+}
+
+export interface QuizAttemptSummary {
+  latest: QuizAttempt | null;
+  best: QuizAttempt | null;
+  count: number;
+}
+
+type StoredAttempts = Record<string, QuizAttempt[]>;
+
+const NO_ATTEMPTS: QuizAttempt[] = [];
+
+let attemptsByNode: StoredAttempts = {};
+let loaded = false;
+const listeners = new Set<() => void>();
+
+function canUseStorage(): boolean {
+  if (typeof window === "undefined") return false;
+  try {
+    return typeof window.localStorage !== "undefined";
+  } catch {
+    return false;
+  }
+}
+
+function ensureLoaded() {
+  if (loaded) return;
+  loaded = true;
+  if (!canUseStorage()) return;
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return;
+    const parsed = JSON.parse(raw) as unknown;
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      attemptsByNode = parsed as StoredAttempts;
+    }
+  } catch {
+    attemptsByNode = {};
+  }
+}
+
+function persist() {
+  if (!canUseStorage()) return;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(attemptsByNode));
+  } catch {
+    // Storage quota/private mode: attempts stay available for this page load only.
+  }
+}
+
+function notify() {
+  for (const listener of listeners) {
+    try {
+      listener();
+    } catch (err) {
+      console.error("[QuizAttemptStore] listener failed:", err);
+    }
+  }
+}
+
+export function quizAttemptScore(attempt: Pick<QuizAttempt, "correct" | "total">): number {
+  return attempt.total > 0 ? attempt.correct / attempt.total : 0;
+}
+
+export function getQuizAttempts(pathNodeId: string): QuizAttempt[] {
+  ensureLoaded();
+  const list = attemptsByNode[pathNodeId];
+  return Array.isArray(list) ? list : NO_ATTEMPTS;
+}
+
+/** Best and most recent scores only consider full attempts; missed-only retries are not comparable. */
+export function summarizeQuizAttempts(attempts: QuizAttempt[]): QuizAttemptSummary {
+  let latest: QuizAttempt | null = null;
+  let best: QuizAttempt | null = null;
+  let count = 0;
+  for (const attempt of attempts) {
+    if (attempt.mode !== "full") continue;
+    count += 1;
+    if (!latest || attempt.completedAt > latest.completedAt) latest = attempt;
+    if (!best || quizAttemptScore(attempt) > quizAttemptScore(best)) best = attempt;
+  }
+  return { latest, best, count };
+}
+
+export function saveQuizAttempt(attempt: QuizAttempt) {
+  if (!attempt.pathNodeId) return;
+  ensureLoaded();
+  const prev = getQuizAttempts(attempt.pathNodeId).filter((a) => a.id !== attempt.id);
+  const next = { ...attemptsByNode, [attempt.pathNodeId]: [...prev, attempt].slice(-MAX_ATTEMPTS_PER_NODE) };
+
+  const nodeIds = Object.keys(next);
+  if (nodeIds.length > MAX_NODES) {
+    const lastAt = (id: string) => next[id]?.[next[id].length - 1]?.completedAt ?? 0;
+    nodeIds
+      .sort((a, b) => lastAt(a) - lastAt(b))
+      .slice(0, nodeIds.length - MAX_NODES)
+      .forEach((id) => delete next[id]);
+  }
+
+  attemptsByNode = next;
+  persist();
+  notify();
+}
+
+export function subscribeQuizAttempts(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Drops stored attempts, e.g. on logout, so the next user on this device starts clean. */
+export function clearQuizAttempts() {
+  attemptsByNode = {};
+  loaded = true;
+  if (canUseStorage()) {
+    try {
+      window.localStorage.removeItem(STORAGE_KEY);
+    } catch {
+      // ignore
+    }
+  }
+  notify();
+}
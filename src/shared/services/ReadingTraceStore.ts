@@ -0,0 +1,161 @@
+const STORAGE_KEY = "nb_reading_traces_v1";
+const MAX_NODES = 12;
+const MAX_SPANS = 4000;
+// Time away (idle, other tab, looking off) is squeezed so replay doesn't sit on empty stretches.
+const MAX_STEP_MS = 1500;
+// Coming back within this window continues the same trace instead of starting a new one.
+const CONTINUE_WINDOW_MS = 30 * 60_000;
+
+export type ReadingSpanSource = "gaze" | "behavioral";
+
+/**
+ * A stretch of reading on one target. `t` and `ms` are on the trace's active clock. Gaze spans
+ * carry the line index; behavioral spans only know the block.
+ */
+export interface ReadingSpan {
+  t: number;
+  ms: number;
+  blockId: string;
+  line: number | null;
+  source: ReadingSpanSource;
+}
+
+export interface ReadingTrace {
+  pathNodeId: string;
+  startedAt: number;
+  updatedAt: number;
+  activeMs: number;
+  spans: ReadingSpan[];
+  // Read credit per block (0..1) as last seen by the lesson page.
+  credits: Record<string, number>;
+}
+
+type StoredTraces = Record<string, ReadingTrace>;
+
+let tracesByNode: StoredTraces = {};
+let loaded = false;
+const listeners = new Set<() => void>();
+
+function canUseStorage(): boolean {
+  if (typeof window === "undefined") return false;
+  try {
+    return typeof window.localStorage !== "undefined";
+  } catch {
+    return false;
+  }
+}
+
+function ensureLoaded() {
+  if (loaded) return;
+  loaded = true;
+  if (!canUseStorage()) return;
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return;
+    const parsed = JSON.parse(raw) as unknown;
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      tracesByNode = parsed as StoredTraces;
+    }
+  } catch {
+    tracesByNode = {};
+  }
+}
+
+function persist() {
+  if (!canUseStorage()) return;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(tracesByNode));
+  } catch {
+    // Storage quota/private mode: the trace stays available for this page load only.
+  }
+}
+
+function notify() {
+  for (const listener of listeners) {
+    try {
+      listener();
+    } catch (err) {
+      console.error("[ReadingTraceStore] listener failed:", err);
+    }
+  }
+}
+
+export function getReadingTrace(pathNodeId: string): ReadingTrace | null {
+  ensureLoaded();
+  const trace = tracesByNode[pathNodeId];
+  return trace && Array.isArray(trace.spans) ? trace : null;
+}
+
+/** A working copy to record into: the stored trace if it was touched recently, else a fresh one. */
+export function beginReadingTrace(pathNodeId: string, now = Date.now()): ReadingTrace {
+  const prev = getReadingTrace(pathNodeId);
+  if (prev && now - prev.updatedAt <= CONTINUE_WINDOW_MS) {
+    return { ...prev, spans: prev.spans.map((span) => ({ ...span })), credits: { ...prev.credits } };
+  }
+  return { pathNodeId, startedAt: now, updatedAt: now, activeMs: 0, spans: [], credits: {} };
+}
+
+/**
+ * Adds one sample to a working trace, extending the last span while the target is unchanged.
+ * The time since the previous sample is credited to this sample's target.
+ */
+export function recordReadingSample(
+  trace: ReadingTrace,
+  sample: { blockId: string; line: number | null; source: ReadingSpanSource; at: number }
+) {
+  if (!sample.blockId) return;
+  const step = trace.updatedAt > 0 ? Math.min(Math.max(0, sample.at - trace.updatedAt), MAX_STEP_MS) : 0;
+  trace.updatedAt = sample.at;
+  const last = trace.spans[trace.spans.length - 1];
+  if (last && last.blockId === sample.blockId && last.line === sample.line && last.source === sample.source) {
+    last.ms += step;
+    trace.activeMs += step;
+    return;
+  }
+  // Past the cap the trace stops growing; the summary and the start of the replay stay intact.
+  if (trace.spans.length >= MAX_SPANS) return;
+  trace.spans.push({ t: trace.activeMs, ms: step, blockId: sample.blockId, line: sample.line, source: sample.source });
+  trace.activeMs += step;
+}
+
+export function saveReadingTrace(trace: ReadingTrace) {
+  if (!trace.pathNodeId || trace.spans.length === 0) return;
+  ensureLoaded();
+  const next = {
+    ...tracesByNode,
+    [trace.pathNodeId]: { ...trace, spans: trace.spans.map((span) => ({ ...span })), credits: { ...trace.credits } },
+  };
+
+  const nodeIds = Object.keys(next);
+  if (nodeIds.length > MAX_NODES) {
+    nodeIds
+      .sort((a, b) => (next[a]?.updatedAt ?? 0) - (next[b]?.updatedAt ?? 0))
+      .slice(0, nodeIds.length - MAX_NODES)
+      .forEach((id) => delete next[id]);
+  }
+
+  tracesByNode = next;
+  persist();
+  notify();
+}
+
+export function subscribeReadingTraces(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Drops stored traces, e.g. on logout, so the next user on this device starts clean. */
+export function clearReadingTraces() {
+  tracesByNode = {};
+  loaded = true;
+  if (canUseStorage()) {
+    try {
+      window.localStorage.removeItem(STORAGE_KEY);
+    } catch {
+      // ignore
+    }
+  }
+  notify();
+}
@@ -0,0 +1,96 @@
+import { parseGazeTrace } from "@/shared/services/GazeProvider";
+import type { GazeProvider, GazeProviderConfig, GazeSample, GazeTrace } from "@/shared/services/GazeProvider";
+
+type ReplayConfig = Extract<GazeProviderConfig, { kind: "replay" }>;
+
+// Pause between the end of a looped trace and its restart, so the jump back reads as a saccade.
+const LOOP_GAP_MS = 500;
+
+/**
+ * Plays a recorded trace back with its original timing (scaled by `speed`), rescaled to the
+ * current viewport. Timestamps are rewritten to now so staleness checks behave as with a live
+ * tracker. Points are already calibrated when recorded, so none is applied again.
+ */
+export class ReplayGazeProvider implements GazeProvider {
+  readonly kind = "replay" as const;
+  readonly requiresCamera = false;
+  readonly needsCalibration = false;
+
+  private config: ReplayConfig;
+  private active = false;
+  private timer: number | null = null;
+  private abort: AbortController | null = null;
+
+  constructor(config?: ReplayConfig) {
+    this.config = config ?? { kind: "replay" };
+  }
+
+  isSupported() {
+    return typeof window !== "undefined";
+  }
+
+  async start(onSample: (sample: GazeSample) => void): Promise<boolean> {
+    this.stop();
+    this.active = true;
+    const trace = await this.loadTrace();
+    if (!this.active || !trace) return false;
+
+    const speed = Math.max(0.1, this.config.speed ?? 1);
+    const loop = this.config.loop === true;
+    const { points, viewport } = trace;
+    let index = 0;
+    let startedAt = performance.now();
+
+    const step = () => {
+      this.timer = null;
+      if (!this.active) return;
+      const elapsed = (performance.now() - startedAt) * speed;
+      const scaleX = window.innerWidth / viewport.width;
+      const scaleY = window.innerHeight / viewport.height;
+      // Catch up on every point that is due; a throttled background tab emits them in one go.
+      while (index < points.length && points[index].t - points[0].t <= elapsed) {
+        const p = points[index];
+        onSample({ x: p.x * scaleX, y: p.y * scaleY, confidence: p.c ?? 0.6, ts: Date.now() });
+        index += 1;
+      }
+      if (index >= points.length) {
+        if (!loop) return;
+        index = 0;
+        startedAt = performance.now() + LOOP_GAP_MS;
+        this.timer = window.setTimeout(step, LOOP_GAP_MS);
+        return;
+      }
+      const dueIn = (points[index].t - points[0].t - elapsed) / speed;
+      this.timer = window.setTimeout(step, Math.max(0, dueIn));
+    };
+    step();
+    return true;
+  }
+
+  stop() {
+    this.active = false;
+    if (this.timer != null) {
+      window.clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.abort?.abort();
+    this.abort = null;
+  }
+
+  private async loadTrace(): Promise<GazeTrace | null> {
+    if (this.config.trace) return this.config.trace;
+    const url = this.config.url;
+    if (!url) return null;
+    const abort = new AbortController();
+    this.abort = abort;
+    try {
+      const res = await fetch(url, { signal: abort.signal });
+      if (!res.ok) return null;
+      return parseGazeTrace(await res.json());
+    } catch {
+      return null;
+    } finally {
+      if (this.abort === abort) this.abort = null;
+    }
+  }
+}
@@ -0,0 +1,359 @@
+import { getSessionState } from "@/shared/api/SessionService";
+import { queueEvent, flushEvents } from "@/shared/services/EventQueue";
+import { queueSessionPatch, seedSessionMetadata } from "@/shared/services/SessionStateTracker";
+import { isReviewDue, newSrsState, scheduleReview } from "@/shared/lib/srs";
+import type { ReviewGrade, SrsState } from "@/shared/lib/srs";
+
+const STORAGE_KEY = "nb_review_cards_v1";
+const SESSION_METADATA_KEY = "review_cards";
+const MAX_CARDS = 1000;
+// Session metadata is re-sent whole with every session patch, so only part of the deck rides along.
+const MAX_SYNCED_CARDS = 200;
+const SYNC_DEBOUNCE_MS = 1500;
+
+export type ReviewCardSource = "node_doc" | "drill";
+
+export interface ReviewCard {
+  id: string;
+  frontMd: string;
+  backMd: string;
+  source: ReviewCardSource;
+  pathId: string | null;
+  pathNodeId: string | null;
+  blockId: string | null;
+  conceptKeys: string[];
+  addedAt: number;
+  updatedAt: number;
+  srs: SrsState;
+}
+
+export interface ReviewCardInput {
+  frontMd: string;
+  backMd: string;
+  source: ReviewCardSource;
+  pathId?: string | null;
+  pathNodeId?: string | null;
+  blockId?: string | null;
+  conceptKeys?: string[];
+}
+
+// Compact snake_case shape stored under session metadata so review state follows the user across devices.
+type SyncedReviewCard = {
+  id: string;
+  front_md: string;
+  back_md: string;
+  source: ReviewCardSource;
+  path_id: string | null;
+  path_node_id: string | null;
+  block_id: string | null;
+  concept_keys: string[];
+  added_at: number;
+  updated_at: number;
+  ease: number;
+  interval_days: number;
+  reps: number;
+  lapses: number;
+  due_at: number;
+  last_reviewed_at: number | null;
+};
+
+let cards: ReviewCard[] = [];
+let loaded = false;
+let hydrated = false;
+let syncPending = false;
+let hydratePromise: Promise<void> | null = null;
+let syncTimer: number | null = null;
+const listeners = new Set<() => void>();
+
+function canUseStorage(): boolean {
+  if (typeof window === "undefined") return false;
+  try {
+    return typeof window.localStorage !== "undefined";
+  } catch {
+    return false;
+  }
+}
+
+function fnv1a32(input: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i += 1) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/** Cards are keyed by content so the same card seen in a drill and in the doc is reviewed once. */
+export function reviewCardId(frontMd: string, backMd: string): string {
+  const norm = (s: string) => String(s || "").trim().replace(/\s+/g, " ");
+  return `card:${fnv1a32(`${norm(frontMd)}\u001f${norm(backMd)}`)}`;
+}
+
+function num(raw: unknown, fallback: number): number {
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+function str(raw: unknown): string | null {
+  return typeof raw === "string" && raw.trim() ? raw.trim() : null;
+}
+
+function toSynced(card: ReviewCard): SyncedReviewCard {
+  return {
+    id: card.id,
+    front_md: card.frontMd,
+    back_md: card.backMd,
+    source: card.source,
+    path_id: card.pathId,
+    path_node_id: card.pathNodeId,
+    block_id: card.blockId,
+    concept_keys: card.conceptKeys,
+    added_at: card.addedAt,
+    updated_at: card.updatedAt,
+    ease: card.srs.ease,
+    interval_days: card.srs.intervalDays,
+    reps: card.srs.reps,
+    lapses: card.srs.lapses,
+    due_at: card.srs.dueAt,
+    last_reviewed_at: card.srs.lastReviewedAt,
+  };
+}
+
+function fromSynced(raw: unknown): ReviewCard | null {
+  if (!raw || typeof raw !== "object") return null;
+  const row = raw as Partial<SyncedReviewCard>;
+  const frontMd = typeof row.front_md === "string" ? row.front_md : "";
+  const backMd = typeof row.back_md === "string" ? row.back_md : "";
+  if (!frontMd.trim() || !backMd.trim()) return null;
+  const addedAt = num(row.added_at, Date.now());
+  const defaults = newSrsState(addedAt);
+  return {
+    id: str(row.id) ?? reviewCardId(frontMd, backMd),
+    frontMd,
+    backMd,
+    source: row.source === "drill" ? "drill" : "node_doc",
+    pathId: str(row.path_id),
+    pathNodeId: str(row.path_node_id),
+    blockId: str(row.block_id),
+    conceptKeys: Array.isArray(row.concept_keys) ? row.concept_keys.map(String).filter(Boolean) : [],
+    addedAt,
+    updatedAt: num(row.updated_at, addedAt),
+    srs: {
+      ease: num(row.ease, defaults.ease),
+      intervalDays: num(row.interval_days, defaults.intervalDays),
+      reps: num(row.reps, defaults.reps),
+      lapses: num(row.lapses, defaults.lapses),
+      dueAt: num(row.due_at, defaults.dueAt),
+      lastReviewedAt: row.last_reviewed_at == null ? null : num(row.last_reviewed_at, addedAt),
+    },
+  };
+}
+
+function ensureLoaded() {
+  if (loaded) return;
+  loaded = true;
+  if (!canUseStorage()) return;
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return;
+    const parsed = JSON.parse(raw) as unknown;
+    if (!Array.isArray(parsed)) return;
+    cards = parsed.map(fromSynced).filter((c): c is ReviewCard => Boolean(c));
+  } catch {
+    cards = [];
+  }
+}
+
+function persistLocal() {
+  if (!canUseStorage()) return;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(cards.map(toSynced)));
+  } catch {
+    // Storage quota/private mode: the in-memory queue and session sync still work.
+  }
+}
+
+function scheduleSessionSync() {
+  // Until the remote deck has been merged, a sync would overwrite it with the local subset.
+  if (!hydrated) {
+    syncPending = true;
+    return;
+  }
+  if (typeof window === "undefined" || syncTimer != null) return;
+  syncTimer = window.setTimeout(() => {
+    syncTimer = null;
+    const synced = cards.slice().sort((a, b) => b.updatedAt - a.updatedAt).slice(0, MAX_SYNCED_CARDS);
+    queueSessionPatch(null, { [SESSION_METADATA_KEY]: synced.map(toSynced) });
+  }, SYNC_DEBOUNCE_MS);
+}
+
+function commit(next: ReviewCard[], opts?: { sync?: boolean }) {
+  // Keep the most recently touched cards when the deck outgrows the cap.
+  cards =
+    next.length > MAX_CARDS ? next.slice().sort((a, b) => b.updatedAt - a.updatedAt).slice(0, MAX_CARDS) : next;
+  persistLocal();
+  if (opts?.sync !== false) scheduleSessionSync();
+  for (const listener of listeners) {
+    try {
+      listener();
+    } catch (err) {
+      console.error("[ReviewQueue] listener failed:", err);
+    }
+  }
+}
+
+export function getReviewCards(): ReviewCard[] {
+  ensureLoaded();
+  return cards;
+}
+
+export function getDueReviewCards(now = Date.now()): ReviewCard[] {
+  return getReviewCards()
+    .filter((card) => isReviewDue(card.srs, now))
+    .sort((a, b) => a.srs.dueAt - b.srs.dueAt);
+}
+
+export function subscribeReviewQueue(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Adds a card the learner has seen to the review deck (new cards are due immediately).
+ * Re-registering an existing card only refreshes its lesson context.
+ */
+export function registerReviewCard(input: ReviewCardInput): string | null {
+  const frontMd = String(input.frontMd || "").trim();
+  const backMd = String(input.backMd || "").trim();
+  if (!frontMd || !backMd) return null;
+  ensureLoaded();
+
+  const id = reviewCardId(frontMd, backMd);
+  const existing = cards.find((c) => c.id === id);
+  if (existing) {
+    const pathId = str(input.pathId) ?? existing.pathId;
+    const pathNodeId = str(input.pathNodeId) ?? existing.pathNodeId;
+    if (pathId === existing.pathId && pathNodeId === existing.pathNodeId) return id;
+    commit(cards.map((c) => (c.id === id ? { ...c, pathId, pathNodeId } : c)), { sync: false });
+    return id;
+  }
+
+  const now = Date.now();
+  commit([
+    ...cards,
+    {
+      id,
+      frontMd,
+      backMd,
+      source: input.source,
+      pathId: str(input.pathId),
+      pathNodeId: str(input.pathNodeId),
+      blockId: str(input.blockId),
+      conceptKeys: Array.isArray(input.conceptKeys) ? input.conceptKeys.filter(Boolean) : [],
+      addedAt: now,
+      updatedAt: now,
+      srs: newSrsState(now),
+    },
+  ]);
+  return id;
+}
+
+/**
+ * Applies a self-graded recall to the card's schedule. Callers that already report the
+ * review themselves (the inline NodeDoc flashcard) pass `emitEvent: false`.
+ */
+export function gradeReviewCard(id: string, grade: ReviewGrade, opts?: { emitEvent?: boolean }): ReviewCard | null {
+  ensureLoaded();
+  const card = cards.find((c) => c.id === id);
+  if (!card) return null;
+
+  const now = Date.now();
+  const next: ReviewCard = { ...card, updatedAt: now, srs: scheduleReview(card.srs, grade, now) };
+  commit(cards.map((c) => (c.id === id ? next : c)));
+
+  if (opts?.emitEvent !== false) {
+    queueEvent({
+      type: "flashcard_reviewed",
+      pathId: next.pathId ?? undefined,
+      pathNodeId: next.pathNodeId ?? undefined,
+      data: {
+        source: "review_queue",
+        card_id: next.id,
+        card_source: next.source,
+        grade,
+        revealed: true,
+        ...(next.blockId ? { block_id: next.blockId } : {}),
+        ...(next.conceptKeys.length > 0 ? { concept_keys: next.conceptKeys } : {}),
+        ease: next.srs.ease,
+        interval_days: next.srs.intervalDays,
+        reps: next.srs.reps,
+        lapses: next.srs.lapses,
+        due_at: new Date(next.srs.dueAt).toISOString(),
+      },
+    });
+    void flushEvents().catch(() => undefined);
+  }
+  return next;
+}
+
+/**
+ * Merges the review deck stored in session metadata into the local one (per card, the most
+ * recently updated copy wins). Runs once per page load.
+ */
+export function hydrateReviewQueue(): Promise<void> {
+  if (hydratePromise) return hydratePromise;
+  hydratePromise = (async () => {
+    ensureLoaded();
+    const state = await getSessionState();
+    const metadata = state?.metadata;
+    seedSessionMetadata(metadata);
+    const remoteRaw =
+      metadata && typeof metadata === "object" && !Array.isArray(metadata)
+        ? (metadata as Record<string, unknown>)[SESSION_METADATA_KEY]
+        : null;
+    const remote = Array.isArray(remoteRaw)
+      ? remoteRaw.map(fromSynced).filter((c): c is ReviewCard => Boolean(c))
+      : [];
+
+    const byId = new Map<string, ReviewCard>();
+    for (const card of remote) byId.set(card.id, card);
+    let localNewer = false;
+    for (const card of cards) {
+      const other = byId.get(card.id);
+      if (!other || card.updatedAt > other.updatedAt) {
+        byId.set(card.id, card);
+        localNewer = true;
+      }
+    }
+    hydrated = true;
+    commit(Array.from(byId.values()), { sync: localNewer || syncPending });
+    syncPending = false;
+  })().catch((err) => {
+    console.warn("[ReviewQueue] hydrate failed:", err);
+    hydratePromise = null;
+  });
+  return hydratePromise;
+}
+
+/** Drops the local deck, e.g. on logout, so the next user on this device starts clean. */
+export function resetReviewQueue() {
+  if (syncTimer != null) {
+    window.clearTimeout(syncTimer);
+    syncTimer = null;
+  }
+  hydratePromise = null;
+  hydrated = false;
+  syncPending = false;
+  loaded = true;
+  if (canUseStorage()) {
+    try {
+      window.localStorage.removeItem(STORAGE_KEY);
+    } catch {
+      // ignore
+    }
+  }
+  cards = [];
+  for (const listener of listeners) listener();
+}
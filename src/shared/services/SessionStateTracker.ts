@@ -1,4 +1,4 @@
-import { patchSessionState } from "@/shared/api/SessionService";
+import { getSessionState, patchSessionState } from "@/shared/api/SessionService";
 import type { SessionStatePatch } from "@/shared/api/SessionService";
 
 type MetadataPatch = Record<string, unknown> | null | undefined;
@@ -9,6 +9,9 @@ let pendingMetaPatch: Record<string, unknown> = {};
 let flushTimer: number | null = null;
 let inFlight = false;
 let lastFlushAt = 0;
+// Whether META_STATE holds the server's metadata yet. Every flush sends the whole object, so a
+// flush before that would drop the keys other features keep there (review deck, resume points).
+let seeded = false;
 
 const MIN_FLUSH_INTERVAL_MS = 700;
 
@@ -61,12 +64,46 @@ export function getSessionMetadataSnapshot(): Record<string, unknown> {
   return { ...META_STATE.current };
 }
 
+/** Takes in metadata read from the server; keys this tab has already written keep their value. */
+export function seedSessionMetadata(metadata: unknown) {
+  if (!metadata || typeof metadata !== "object" || Array.isArray(metadata)) return;
+  META_STATE.current = mergeRecord({ ...(metadata as Record<string, unknown>) }, META_STATE.current);
+  seeded = true;
+}
+
+/** Forgets queued patches and metadata, e.g. on logout, so nothing carries over to the next user. */
+export function resetSessionStateTracker() {
+  if (flushTimer != null) {
+    window.clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  META_STATE.current = {};
+  pendingPatch = {};
+  pendingMetaPatch = {};
+  seeded = false;
+}
+
 export async function flushSessionPatch() {
   if (inFlight) return;
   const hasPatch = Object.keys(pendingPatch || {}).length > 0;
   const hasMeta = Object.keys(pendingMetaPatch || {}).length > 0;
   if (!hasPatch && !hasMeta) return;
 
+  if (hasMeta && !seeded) {
+    inFlight = true;
+    try {
+      const state = await getSessionState();
+      seedSessionMetadata(state?.metadata ?? {});
+      seeded = true;
+    } catch {
+      // Don't send metadata that could overwrite what we couldn't read; retry later.
+      scheduleFlush(MIN_FLUSH_INTERVAL_MS);
+      return;
+    } finally {
+      inFlight = false;
+    }
+  }
+
   const payload: SessionStatePatch = { ...(pendingPatch || {}) };
   if (hasMeta) payload.metadata = { ...META_STATE.current };
 
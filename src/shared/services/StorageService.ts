@@ -2,15 +2,43 @@ const ACCESS_TOKEN_KEY = "access_token";
 const REFRESH_TOKEN_KEY = "refresh_token";
 const EXPIRES_AT_KEY = "expires_at";
 
+const tokenListeners = new Set<() => void>();
+let storageListenerBound = false;
+
+function notifyTokenChange() {
+  for (const listener of Array.from(tokenListeners)) {
+    listener();
+  }
+}
+
+/**
+ * Fires whenever the access token changes, in this tab (`setTokens`/`clearTokens`)
+ * or in another tab (via the storage event). Returns an unsubscribe function.
+ */
+export function subscribeTokenChanges(listener: () => void) {
+  tokenListeners.add(listener);
+  if (!storageListenerBound && typeof window !== "undefined") {
+    storageListenerBound = true;
+    window.addEventListener("storage", (event) => {
+      if (event.key === ACCESS_TOKEN_KEY || event.key === null) notifyTokenChange();
+    });
+  }
+  return () => {
+    tokenListeners.delete(listener);
+  };
+}
+
 export function setTokens(accessToken: string, refreshToken: string) {
   localStorage.setItem(ACCESS_TOKEN_KEY, accessToken);
   localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  notifyTokenChange();
 }
 
 export function clearTokens() {
   localStorage.removeItem(ACCESS_TOKEN_KEY);
   localStorage.removeItem(REFRESH_TOKEN_KEY);
   localStorage.removeItem(EXPIRES_AT_KEY);
+  notifyTokenChange();
 }
 
 export function getAccessToken() {
@@ -0,0 +1,230 @@
+const CHANNEL_NAME = "nb_tab_sync_v1";
+const STORAGE_MESSAGE_KEY = "nb_tab_sync_message_v1";
+const LEADER_LEASE_KEY = "nb_tab_leader_v1";
+const LEADER_LEASE_TTL_MS = 6000;
+const LEADER_HEARTBEAT_MS = 2000;
+
+export type TabSyncMessage =
+  | { type: "auth:session"; reason: "login" | "refresh" }
+  | { type: "auth:logout" }
+  | { type: "auth:refresh-request" }
+  | { type: "theme"; theme?: string; uiTheme?: string }
+  | { type: "leader:resign" };
+
+type TabSyncEnvelope = {
+  source: string;
+  nonce: string;
+  message: TabSyncMessage;
+};
+
+type LeaderLease = {
+  id: string;
+  until: number;
+};
+
+const TAB_ID = `${Date.now().toString(36)}-${Math.random().toString(16).slice(2)}`;
+
+let started = false;
+let channel: BroadcastChannel | null = null;
+let leader = false;
+const messageHandlers = new Set<(message: TabSyncMessage) => void>();
+const leadershipHandlers = new Set<(isLeader: boolean) => void>();
+
+function canUseStorage(): boolean {
+  if (typeof window === "undefined") return false;
+  try {
+    return typeof window.localStorage !== "undefined";
+  } catch {
+    return false;
+  }
+}
+
+function makeNonce(): string {
+  return `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+}
+
+function readLease(): LeaderLease | null {
+  if (!canUseStorage()) return null;
+  try {
+    const raw = window.localStorage.getItem(LEADER_LEASE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as Partial<LeaderLease>;
+    if (typeof parsed?.id !== "string" || typeof parsed?.until !== "number") return null;
+    return { id: parsed.id, until: parsed.until };
+  } catch {
+    return null;
+  }
+}
+
+function writeLease(lease: LeaderLease) {
+  try {
+    window.localStorage.setItem(LEADER_LEASE_KEY, JSON.stringify(lease));
+  } catch {
+    // Storage quota/private mode: this tab simply acts as its own leader.
+  }
+}
+
+function setLeader(next: boolean) {
+  if (leader === next) return;
+  leader = next;
+  for (const handler of leadershipHandlers) {
+    try {
+      handler(next);
+    } catch (err) {
+      console.error("[TabSync] leadership handler failed:", err);
+    }
+  }
+}
+
+function electLeader() {
+  if (!canUseStorage()) {
+    setLeader(true);
+    return;
+  }
+  const now = Date.now();
+  const lease = readLease();
+  if (!lease || lease.until <= now || lease.id === TAB_ID) {
+    writeLease({ id: TAB_ID, until: now + LEADER_LEASE_TTL_MS });
+  }
+  // Re-read so two tabs claiming in the same tick settle on whichever write landed last.
+  setLeader(readLease()?.id === TAB_ID);
+}
+
+function dispatch(envelope: TabSyncEnvelope | null) {
+  if (!envelope || envelope.source === TAB_ID || !envelope.message) return;
+  if (envelope.message.type === "leader:resign") {
+    electLeader();
+  }
+  for (const handler of messageHandlers) {
+    try {
+      handler(envelope.message);
+    } catch (err) {
+      console.error("[TabSync] message handler failed:", err);
+    }
+  }
+}
+
+function onStorage(event: StorageEvent) {
+  if (event.key === LEADER_LEASE_KEY && event.newValue == null) {
+    electLeader();
+    return;
+  }
+  if (event.key !== STORAGE_MESSAGE_KEY || !event.newValue) return;
+  try {
+    dispatch(JSON.parse(event.newValue) as TabSyncEnvelope);
+  } catch {
+    // Ignore malformed payloads from older builds.
+  }
+}
+
+function resignLeadership() {
+  if (!leader) return;
+  const lease = readLease();
+  if (lease?.id === TAB_ID) {
+    try {
+      window.localStorage.removeItem(LEADER_LEASE_KEY);
+    } catch {
+      // ignore
+    }
+  }
+  postTabMessage({ type: "leader:resign" });
+  leader = false;
+}
+
+function ensureStarted() {
+  if (started || typeof window === "undefined") return;
+  started = true;
+
+  if (typeof BroadcastChannel !== "undefined") {
+    try {
+      channel = new BroadcastChannel(CHANNEL_NAME);
+      channel.onmessage = (event: MessageEvent<TabSyncEnvelope>) => dispatch(event.data);
+    } catch {
+      channel = null;
+    }
+  }
+  // The storage event doubles as the message transport when BroadcastChannel is missing,
+  // and always carries leader lease removals.
+  window.addEventListener("storage", onStorage);
+  window.addEventListener("pagehide", resignLeadership);
+
+  electLeader();
+  window.setInterval(electLeader, LEADER_HEARTBEAT_MS);
+}
+
+/** Whether this tab currently holds the leader lease (owns token refresh). */
+export function isTabLeader(): boolean {
+  ensureStarted();
+  return leader;
+}
+
+export function postTabMessage(message: TabSyncMessage) {
+  ensureStarted();
+  const envelope: TabSyncEnvelope = { source: TAB_ID, nonce: makeNonce(), message };
+  if (channel) {
+    try {
+      channel.postMessage(envelope);
+      return;
+    } catch {
+      // Fall through to the storage transport.
+    }
+  }
+  if (!canUseStorage()) return;
+  try {
+    // Write-then-remove: other tabs receive a storage event for the write; the nonce keeps
+    // identical consecutive messages from being collapsed into a no-op.
+    window.localStorage.setItem(STORAGE_MESSAGE_KEY, JSON.stringify(envelope));
+    window.localStorage.removeItem(STORAGE_MESSAGE_KEY);
+  } catch {
+    // ignore
+  }
+}
+
+/** Subscribe to messages sent by other tabs. Messages from this tab are never echoed back. */
+export function subscribeTabMessages(handler: (message: TabSyncMessage) => void): () => void {
+  ensureStarted();
+  messageHandlers.add(handler);
+  return () => {
+    messageHandlers.delete(handler);
+  };
+}
+
+export function subscribeTabLeadership(handler: (isLeader: boolean) => void): () => void {
+  ensureStarted();
+  leadershipHandlers.add(handler);
+  return () => {
+    leadershipHandlers.delete(handler);
+  };
+}
+
+/**
+ * Resolves once another tab announces a new session (or logout), or after `timeoutMs`.
+ * Followers use this to wait on the leader's refresh instead of rotating the token themselves.
+ */
+export function waitForTabMessage(
+  predicate: (message: TabSyncMessage) => boolean,
+  timeoutMs: number
+): Promise<TabSyncMessage | null> {
+  return new Promise((resolve) => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const unsubscribe = subscribeTabMessages((message) => {
+      if (!predicate(message)) return;
+      if (timer) clearTimeout(timer);
+      unsubscribe();
+      resolve(message);
+    });
+    timer = setTimeout(() => {
+      unsubscribe();
+      resolve(null);
+    }, timeoutMs);
+  });
+}
+
+/** Forces this tab to take the leader lease, e.g. when the previous leader stopped responding. */
+export function claimTabLeadership() {
+  ensureStarted();
+  if (canUseStorage()) {
+    writeLease({ id: TAB_ID, until: Date.now() + LEADER_LEASE_TTL_MS });
+  }
+  setLeader(true);
+}
@@ -43,3 +43,9 @@ export interface BackendChatSendResponse {
   assistant_message?: BackendChatMessage | null;
   job?: JsonValue | null;
 }
+
+export interface BackendChatShareResponse {
+  share_url?: string;
+  token?: string;
+  expires_at?: string | null;
+}
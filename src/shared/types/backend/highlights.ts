@@ -0,0 +1,32 @@
+import type { ISODateTimeString, UUID } from "./common";
+
+export interface BackendHighlight {
+  id: UUID | string;
+  user_id?: UUID | string;
+  path_id?: UUID | string | null;
+  path_node_id: UUID | string;
+
+  // Anchor: block id plus character offsets into the block's rendered text, with the quoted
+  // text and some surrounding context so the highlight can be re-anchored after edits.
+  block_id: string;
+  block_index?: number | null;
+  start_offset: number;
+  end_offset: number;
+  quote: string;
+  prefix?: string | null;
+  suffix?: string | null;
+
+  color?: string | null;
+  note?: string | null;
+
+  created_at?: ISODateTimeString | null;
+  updated_at?: ISODateTimeString | null;
+}
+
+export interface BackendHighlightResponse {
+  highlight?: BackendHighlight | null;
+}
+
+export interface BackendHighlightsResponse {
+  highlights?: BackendHighlight[];
+}
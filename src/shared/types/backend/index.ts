@@ -10,3 +10,4 @@ export * from "./jobs";
 export * from "./events";
 export * from "./sse";
 export * from "./session";
+export * from "./highlights";
@@ -35,6 +35,19 @@ export interface BackendMaterialListing {
   assets_by_file?: Record<string, BackendMaterialAsset[]>;
 }
 
+export interface BackendMaterialChunk {
+  id: UUID;
+  material_file_id?: UUID | null;
+  page?: number | null;
+  start_sec?: number | null;
+  end_sec?: number | null;
+  text?: string;
+}
+
+export interface BackendMaterialChunkResponse {
+  chunk?: BackendMaterialChunk | null;
+}
+
 export interface BackendMaterialFileListResponse {
   files?: BackendMaterialFile[];
 }
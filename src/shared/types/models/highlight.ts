@@ -0,0 +1,21 @@
+export type HighlightColor = "yellow" | "green" | "blue" | "pink" | "purple";
+
+export interface HighlightAnchor {
+  blockId: string;
+  blockIndex: number | null;
+  startOffset: number;
+  endOffset: number;
+  quote: string;
+  prefix: string;
+  suffix: string;
+}
+
+export interface Highlight extends HighlightAnchor {
+  id: string;
+  pathId: string | null;
+  pathNodeId: string;
+  color: HighlightColor;
+  note: string;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
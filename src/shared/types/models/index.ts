@@ -9,3 +9,4 @@ export * from "./job";
 export * from "./events";
 export * from "./sse";
 export * from "./session";
+export * from "./highlight";
@@ -28,6 +28,15 @@ export interface MaterialAsset {
   updatedAt: string | null;
 }
 
+export interface MaterialChunk {
+  id: string;
+  materialFileId: string | null;
+  page: number | null;
+  startSec: number | null;
+  endSec: number | null;
+  text: string;
+}
+
 export interface MaterialListing {
   materialSetId: string | null;
   files: MaterialFile[];
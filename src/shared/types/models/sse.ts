@@ -3,6 +3,7 @@ import type { JsonInput } from "./common";
 import type { Job } from "./job";
 
 export interface SseMessage<T = JsonInput> {
+  id?: string;
   event: string;
   channel: string;
   data: T;
@@ -53,3 +54,41 @@ export interface RuntimePromptPayload {
   break_min?: number;
   break_max?: number;
 }
+
+export interface ChatMessageEventPayload {
+  thread_id?: string;
+  threadId?: string;
+  message_id?: string;
+  messageId?: string;
+  message?: unknown;
+  delta?: string;
+  error?: string;
+  attempt?: number;
+  delta_seq?: number;
+  job_id?: string;
+  job_type?: string;
+  job?: Job | BackendJob;
+}
+
+/**
+ * Payload shape per SSE `event` name. Event names are matched case-insensitively
+ * by `useSSEEvent`, so keys use the backend's PascalCase spelling.
+ */
+export interface SseEventPayloadMap {
+  JobCreated: JobEventPayload;
+  JobProgress: JobEventPayload;
+  JobDone: JobEventPayload;
+  JobFailed: JobEventPayload;
+  JobCanceled: JobEventPayload;
+  JobRestarted: JobEventPayload;
+  ChatMessageCreated: ChatMessageEventPayload;
+  ChatMessageDelta: ChatMessageEventPayload;
+  ChatMessageDone: ChatMessageEventPayload;
+  ChatMessageError: ChatMessageEventPayload;
+  UserNameChanged: UserNameChangedPayload;
+  UserThemeChanged: UserThemeChangedPayload;
+  UserAvatarChanged: UserAvatarChangedPayload;
+  RuntimePrompt: RuntimePromptPayload;
+}
+
+export type SseEventName = keyof SseEventPayloadMap;